@@ -0,0 +1,120 @@
+/**
+ * Activity Commands
+ *
+ * This module registers the command that shows an app's activity timeline:
+ * state changes, lifecycle operations with their durations, and crashes.
+ *
+ * @module commands/activity
+ */
+
+import * as vscode from "vscode";
+import { CommandDependencies } from "../types";
+import { LandoApp } from "../landoAppDetector";
+import { LandoLifecycleCommand } from "../landoProgress";
+import {
+  LandoActivityEntry,
+  describeActivity,
+  summarizeOperation,
+} from "../landoActivityHistory";
+
+/**
+ * Operations summarized at the top of the timeline
+ */
+const SUMMARIZED_OPERATIONS: LandoLifecycleCommand[] = ['start', 'restart', 'rebuild'];
+
+/**
+ * Gets the codicon for a timeline entry
+ * @param entry - The entry
+ * @returns The icon reference (e.g., "$(check)")
+ */
+function getActivityIcon(entry: LandoActivityEntry): string {
+  switch (entry.type) {
+    case 'state':
+      return '$(arrow-right)';
+    case 'crash':
+      return '$(flame)';
+    case 'operation':
+      if (entry.outcome === 'succeeded') {
+        return '$(check)';
+      }
+      return entry.outcome === 'cancelled' ? '$(circle-slash)' : '$(error)';
+  }
+}
+
+/**
+ * Builds the quick pick items for an app's timeline
+ * @param entries - History entries, newest first
+ * @returns Summary lines followed by one item per entry, grouped by day
+ */
+function buildTimelineItems(entries: LandoActivityEntry[]): vscode.QuickPickItem[] {
+  const items: vscode.QuickPickItem[] = [];
+
+  for (const operation of SUMMARIZED_OPERATIONS) {
+    const summary = summarizeOperation(entries, operation);
+    if (summary) {
+      items.push({
+        label: `$(history) Last ${operation === 'restart' ? 'restarts' : `${operation}s`}`,
+        description: summary,
+      });
+    }
+  }
+
+  let day: string | undefined;
+  for (const entry of entries) {
+    const date = new Date(entry.timestamp);
+    if (date.toLocaleDateString() !== day) {
+      day = date.toLocaleDateString();
+      items.push({ label: day, kind: vscode.QuickPickItemKind.Separator });
+    }
+    items.push({
+      label: `${getActivityIcon(entry)} ${describeActivity(entry)}`,
+      description: date.toLocaleTimeString(),
+      detail: entry.type === 'operation' ? entry.message : undefined,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Registers activity-related commands
+ * @param context - The extension context
+ * @param deps - Command dependencies
+ */
+export function registerActivityCommands(
+  context: vscode.ExtensionContext,
+  deps: CommandDependencies
+): void {
+  const { getActiveApp, appDetector, activityHistory } = deps;
+
+  // Command to show an app's activity timeline (the active app unless one is passed in)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('extension.showLandoAppActivity', async (arg?: unknown) => {
+      const app = (arg as { app?: LandoApp } | undefined)?.app ?? getActiveApp() ?? appDetector.getApps()[0];
+
+      if (!app) {
+        vscode.window.showErrorMessage('No active Lando app selected');
+        return;
+      }
+
+      const entries = activityHistory.getEntries(app);
+      if (entries.length === 0) {
+        vscode.window.showInformationMessage(`No activity recorded for ${app.name} yet`);
+        return;
+      }
+
+      const clearItem: vscode.QuickPickItem = { label: '$(clear-all) Clear History' };
+      const selected = await vscode.window.showQuickPick([...buildTimelineItems(entries), clearItem], {
+        title: `${app.name} Activity`,
+        placeHolder: 'Recent state changes, operations and crashes',
+        matchOnDescription: true,
+        matchOnDetail: true,
+      });
+
+      if (selected === clearItem) {
+        await activityHistory.clear(app);
+        vscode.window.showInformationMessage(`Cleared activity history for ${app.name}`);
+      }
+    })
+  );
+}
@@ -25,7 +25,7 @@ export function registerAppSelectionCommands(
   context: vscode.ExtensionContext,
   deps: CommandDependencies
 ): void {
-  const { getActiveApp, setActiveApp, statusMonitor, appDetector } = deps;
+  const { getActiveApp, setActiveApp, statusMonitor, appDetector, editorFollower } = deps;
 
   // Command to select a Lando app or show quick actions
   context.subscriptions.push(
@@ -171,21 +171,33 @@ export function registerAppSelectionCommands(
           break;
         case 'switch':
           // Show app selection submenu
-          const appItems = apps.map(app => ({
+          const appItems: { label: string; description?: string; detail?: string; app?: LandoApp }[] = apps.map(app => ({
             label: app.name,
             description: app.recipe || 'Custom',
             detail: app.rootPath,
             app
           }));
 
+          // Selecting an app pins it; offer to go back to following the editor
+          const pinnedApp = editorFollower.getPinnedApp();
+          if (pinnedApp) {
+            appItems.unshift({
+              label: '$(pin) Follow Focused Editor',
+              description: `Unpin ${pinnedApp.name}`,
+            });
+          }
+
           const selectedApp = await vscode.window.showQuickPick(appItems, {
             placeHolder: 'Select a Lando app to activate',
             title: 'Lando Apps'
           });
 
-          if (selectedApp) {
+          if (selectedApp?.app) {
+            editorFollower.pin(selectedApp.app);
             setActiveApp(selectedApp.app);
             vscode.window.showInformationMessage(`Active Lando app: ${selectedApp.app.name}`);
+          } else if (selectedApp) {
+            editorFollower.unpin();
           }
           break;
       }
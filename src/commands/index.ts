@@ -8,7 +8,7 @@
  */
 
 import * as vscode from "vscode";
-import { CommandDependencies, LandoConfig } from "../types";
+import { CommandDependencies, LandoConfig, convertAppToConfig } from "../types";
 import { registerLifecycleCommands } from "./lifecycle";
 import { registerUrlCommands } from "./urls";
 import { registerTerminalCommands } from "./terminal";
@@ -16,6 +16,9 @@ import { registerToolingCommands } from "./tooling";
 import { registerAppSelectionCommands } from "./appSelection";
 import { registerDocumentationCommands } from "./documentation";
 import { registerInitCommands } from "./init";
+import { registerActivityCommands } from "./activity";
+import { registerResourceCommands } from "./resources";
+import { registerPreferenceCommands } from "./preferences";
 import { registerPhpCommands } from "../php/commands";
 
 // Re-export individual registration functions for granular control
@@ -26,6 +29,9 @@ export { registerToolingCommands } from "./tooling";
 export { registerAppSelectionCommands } from "./appSelection";
 export { registerDocumentationCommands } from "./documentation";
 export { registerInitCommands } from "./init";
+export { registerActivityCommands } from "./activity";
+export { registerResourceCommands } from "./resources";
+export { registerPreferenceCommands } from "./preferences";
 
 /**
  * Registers all Lando commands that don't require PHP integration
@@ -56,6 +62,15 @@ export function registerAllCommands(
   
   // Register init command (create new app)
   registerInitCommands(context, deps.appDetector, deps.outputChannel);
+
+  // Register activity command (state and operation timeline)
+  registerActivityCommands(context, deps);
+
+  // Register resource command (stop heaviest apps)
+  registerResourceCommands(context, deps);
+
+  // Register preference command (per-app overrides of global settings)
+  registerPreferenceCommands(context, deps);
 }
 
 /**
@@ -75,5 +90,10 @@ export function registerAllCommandsWithPhp(
   registerAllCommands(context, deps);
   
   // Register PHP-specific commands
-  registerPhpCommands(context, workspaceFolder, landoConfig, deps.outputChannel);
+  registerPhpCommands(context, deps.landoCli, workspaceFolder, landoConfig, deps.outputChannel, () => {
+    const app = deps.getActiveApp();
+    return app
+      ? { workspaceFolder: app.rootPath, landoConfig: convertAppToConfig(app, deps.appPreferences.get(app)) }
+      : undefined;
+  });
 }
@@ -10,6 +10,7 @@
 import * as vscode from "vscode";
 import { CommandDependencies } from "../types";
 import { 
+  DockerEngineState,
   LandoAppState,
   getStateLabel,
 } from "../landoStatusMonitor";
@@ -22,6 +23,136 @@ import {
   powerOffLando 
 } from "../helpers/lando";
 import { checkAndReloadPhpPlugins } from "../php";
+import { LandoApp } from "../landoAppDetector";
+import { LandoLifecycleCommand, LandoProgressTracker } from "../landoProgress";
+import { getOperationLabel, linkCancellationTokens } from "../landoOperationQueue";
+import { LandoActivityHistory } from "../landoActivityHistory";
+import { LandoErrorClassification, classifyLandoError, showLandoFailure } from "../landoErrors";
+import { describePortConflict, findPortConflicts } from "../landoPortPreflight";
+
+/**
+ * Result of a lifecycle command run behind a progress notification
+ */
+interface LifecycleRunResult {
+  /** Whether the command succeeded */
+  success: boolean;
+  /** Whether the user cancelled the command from the notification */
+  cancelled: boolean;
+  /** Tracker for describing where the command failed */
+  tracker: LandoProgressTracker;
+  /** The known failure the output matched, if the command failed */
+  classification?: LandoErrorClassification;
+}
+
+/**
+ * Runs a lifecycle command behind a cancellable progress notification whose
+ * increments and messages are driven by the command's output
+ * @param title - The progress notification title
+ * @param command - The lifecycle command being run
+ * @param app - The app the command runs for (undefined for global commands)
+ * @param queueToken - Token cancelled when the operation is cancelled from the queue
+ * @param activityHistory - History the outcome and duration are recorded in
+ * @param run - Runs the command, feeding its output to the tracker
+ * @returns The outcome of the command
+ */
+async function runWithProgress(
+  title: string,
+  command: LandoLifecycleCommand,
+  app: LandoApp | undefined,
+  queueToken: vscode.CancellationToken,
+  activityHistory: LandoActivityHistory,
+  run: (tracker: LandoProgressTracker, token: vscode.CancellationToken) => Promise<boolean>
+): Promise<LifecycleRunResult> {
+  let tracker: LandoProgressTracker | undefined;
+  let cancelled = false;
+  const startedAt = Date.now();
+  const success = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true
+    },
+    async (progress, progressToken) => {
+      tracker = new LandoProgressTracker(progress, {
+        command,
+        appName: app?.cleanName,
+        services: app?.services,
+      });
+      // Cancel from either the notification or the operation queue
+      const source = linkCancellationTokens(progressToken, queueToken);
+      try {
+        const result = await run(tracker, source.token);
+        cancelled = !result && source.token.isCancellationRequested;
+        return result;
+      } finally {
+        source.dispose();
+      }
+    }
+  );
+  const failed = !success && !cancelled;
+  const classification = failed ? classifyLandoError(tracker!.getOutput()) : undefined;
+  activityHistory.recordOperation({
+    app,
+    operation: command,
+    startedAt,
+    outcome: success ? 'succeeded' : cancelled ? 'cancelled' : 'failed',
+    exitCode: tracker?.getExitCode(),
+    message: failed ? classification?.message ?? tracker?.getFailureSummary() : undefined,
+  });
+  return { success, cancelled, tracker: tracker!, classification };
+}
+
+/**
+ * Describes a failed lifecycle command, naming the known failure when the
+ * output matched one and the failing step otherwise
+ * @param prefix - The generic failure message (e.g., "Failed to start myapp")
+ * @param result - The outcome of the command
+ * @returns The notification message
+ */
+function describeFailure(prefix: string, result: LifecycleRunResult): string {
+  return result.classification
+    ? `${prefix}: ${result.classification.message}`
+    : result.tracker.describeFailure(prefix);
+}
+
+/**
+ * Gets the error message stored in an app's state after a failed command
+ * @param result - The outcome of the command
+ * @param fallback - Message used when nothing more specific is known
+ * @returns The known failure, the failing step, or the fallback
+ */
+function getErrorMessage(result: LifecycleRunResult, fallback: string): string {
+  return result.classification?.message ?? result.tracker.getFailureSummary() ?? fallback;
+}
+
+/**
+ * Resolves the app a lifecycle command targets. Tree items and callers that
+ * pass a LandoApp target that app; anything else (e.g., a URI from an
+ * explorer context menu) targets the active app.
+ * @param arg - The first argument the command was invoked with
+ * @param getActiveApp - Function to get the currently active Lando app
+ * @returns The target app, or undefined if there is none
+ */
+function resolveTargetApp(arg: unknown, getActiveApp: () => LandoApp | undefined): LandoApp | undefined {
+  if (isLandoApp(arg)) {
+    return arg;
+  }
+  if (arg && typeof arg === 'object' && isLandoApp((arg as { app?: unknown }).app)) {
+    return (arg as { app: LandoApp }).app;
+  }
+  return getActiveApp();
+}
+
+/**
+ * Checks whether a value looks like a LandoApp
+ * @param value - The value to check
+ * @returns True if the value has the fields of a LandoApp
+ */
+function isLandoApp(value: unknown): value is LandoApp {
+  return !!value && typeof value === 'object' &&
+    typeof (value as LandoApp).configPath === 'string' &&
+    typeof (value as LandoApp).rootPath === 'string';
+}
 
 /**
  * Registers lifecycle-related commands
@@ -32,177 +163,268 @@ export function registerLifecycleCommands(
   context: vscode.ExtensionContext,
   deps: CommandDependencies
 ): void {
-  const { outputChannel, getActiveApp, statusMonitor } = deps;
-
-  // Command to start the active Lando app
+  const { outputChannel, getActiveApp, appDetector, statusMonitor, landoCli, operationQueue, activityHistory, globalConfig } = deps;
+
+  /**
+   * Gets the running apps, for failure quick fixes that stop the ones in the way
+   */
+  const getRunningApps = (): LandoApp[] => appDetector.getApps().filter(app => statusMonitor.isRunning(app));
+
+  /**
+   * Queues an operation, telling the user when it has to wait for another one
+   */
+  const enqueue = (
+    app: LandoApp | undefined,
+    kind: LandoLifecycleCommand,
+    run: (token: vscode.CancellationToken) => Promise<void>
+  ): Promise<void | undefined> => {
+    const pending = operationQueue.getOperations(app);
+    const last = pending[pending.length - 1];
+    if (last && last.kind !== kind) {
+      vscode.window.setStatusBarMessage(
+        `$(clock) lando ${kind} queued after ${getOperationLabel(last)}`,
+        5000
+      );
+    }
+    return operationQueue.enqueue(app, kind, run);
+  };
+
+  /**
+   * Checks that Docker is up, telling the user why the command can't run if not
+   */
+  const checkEngineAvailable = (verb: string): boolean => {
+    if (statusMonitor.isEngineAvailable()) {
+      return true;
+    }
+    const reason = statusMonitor.getEngineState() === DockerEngineState.Starting
+      ? 'Docker is still starting. Try again once it is ready.'
+      : 'Docker is not running. Start Docker and try again.';
+    vscode.window.showErrorMessage(`Cannot ${verb}: ${reason}`);
+    return false;
+  };
+
+  /**
+   * Checks that Docker is up and an app can move to a busy state, warning
+   * the user if not
+   */
+  const checkCanTransition = (app: LandoApp, state: LandoAppState, verb: string): boolean => {
+    if (!checkEngineAvailable(verb)) {
+      return false;
+    }
+    if (statusMonitor.canTransition(app, state)) {
+      return true;
+    }
+    const currentState = statusMonitor.getState(app);
+    vscode.window.showWarningMessage(
+      `Cannot ${verb}: ${app.name} is currently ${getStateLabel(currentState).toLowerCase()}`
+    );
+    return false;
+  };
+
+  /**
+   * Checks that the ports an app binds are free before it starts, asking
+   * whether to start anyway when a forwarded port is taken
+   */
+  const checkPortsBeforeStart = async (app: LandoApp): Promise<boolean> => {
+    // A running app holds its own ports
+    if (!vscode.workspace.getConfiguration('lando').get<boolean>('portPreflight.enabled', true) || statusMonitor.isRunning(app)) {
+      return true;
+    }
+
+    const conflicts = await findPortConflicts(app, {
+      apps: appDetector.getApps(),
+      isRunning: other => statusMonitor.isRunning(other),
+      proxyRunning: statusMonitor.isProxyRunning(),
+      proxyPorts: globalConfig.getProxyPorts(),
+    });
+    if (conflicts.length === 0) {
+      return true;
+    }
+
+    const descriptions = conflicts.map(describePortConflict);
+    descriptions.forEach(description => outputChannel.appendLine(`Port preflight for ${app.name}: ${description}`));
+
+    // Lando's proxy falls back to other ports, so only forwarded ports make the start fail
+    if (conflicts.every(conflict => conflict.claim.source === 'proxy')) {
+      vscode.window.showWarningMessage(`${app.name}: ${descriptions.join('. ')}`);
+      return true;
+    }
+    const choice = await vscode.window.showWarningMessage(
+      `${app.name} is likely to fail to start: ${conflicts.length === 1 ? 'a port it needs is' : 'ports it needs are'} taken`,
+      { modal: true, detail: descriptions.join('\n') },
+      'Start Anyway'
+    );
+    return choice === 'Start Anyway';
+  };
+
+  // Command to start a Lando app (the active app unless one is passed in)
   context.subscriptions.push(
-    vscode.commands.registerCommand('extension.startLandoApp', async () => {
-      const activeLandoApp = getActiveApp();
+    vscode.commands.registerCommand('extension.startLandoApp', async (arg?: unknown) => {
+      const activeLandoApp = resolveTargetApp(arg, getActiveApp);
       
       if (!activeLandoApp) {
         vscode.window.showErrorMessage('No active Lando app selected');
         return;
       }
 
-      // Check if we can start (prevent conflicting operations)
-      if (!statusMonitor.canTransition(activeLandoApp, LandoAppState.Starting)) {
-        const currentState = statusMonitor.getState(activeLandoApp);
-        vscode.window.showWarningMessage(
-          `Cannot start: ${activeLandoApp.name} is currently ${getStateLabel(currentState).toLowerCase()}`
-        );
+      if (!(await checkPortsBeforeStart(activeLandoApp))) {
         return;
       }
 
-      // Mark as starting - this updates the UI immediately
-      statusMonitor.markStarting(activeLandoApp);
+      await enqueue(activeLandoApp, 'start', async queueToken => {
+        // Check if we can start (prevent conflicting operations)
+        if (!checkCanTransition(activeLandoApp, LandoAppState.Starting, 'start')) {
+          return;
+        }
 
-      const notification = vscode.window.showInformationMessage(
-        `Starting ${activeLandoApp.name}... This may take a few minutes.`,
-        'Cancel'
-      );
+        // Mark as starting - this updates the UI immediately
+        statusMonitor.markStarting(activeLandoApp);
 
-      const success = await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: `Starting ${activeLandoApp.name}...`,
-          cancellable: false
-        },
-        async () => {
-          const result = await startLando(activeLandoApp!.rootPath, outputChannel, notification);
-          return result;
-        }
-      );
+        const result = await runWithProgress(
+          `Starting ${activeLandoApp.name}...`,
+          'start',
+          activeLandoApp,
+          queueToken,
+          activityHistory,
+          (progressTracker, token) => startLando(landoCli, activeLandoApp.rootPath, outputChannel, token, progressTracker)
+        );
 
-      if (success) {
-        vscode.window.showInformationMessage(`${activeLandoApp.name} started successfully`);
-        // Refresh the status - this will transition to Running state
-        await statusMonitor.refresh();
-      } else {
-        // Mark error state
-        statusMonitor.markError(activeLandoApp, 'Start command failed');
-        vscode.window.showErrorMessage(`Failed to start ${activeLandoApp.name}`);
-      }
+        if (result.success) {
+          vscode.window.showInformationMessage(`${activeLandoApp.name} started successfully`);
+          // Refresh the status - this will transition to Running state
+          await statusMonitor.refresh();
+        } else if (result.cancelled) {
+          // Restore the state the app was in before the command
+          statusMonitor.markCancelled(activeLandoApp);
+          vscode.window.showInformationMessage(`Cancelled starting ${activeLandoApp.name}`);
+          await statusMonitor.refresh();
+        } else {
+          // Mark error state
+          statusMonitor.markError(activeLandoApp, getErrorMessage(result, 'Start command failed'));
+          showLandoFailure(describeFailure(`Failed to start ${activeLandoApp.name}`, result), result.classification, {
+            app: activeLandoApp,
+            retryCommand: 'extension.startLandoApp',
+            runningApps: getRunningApps(),
+            outputChannel,
+          });
+        }
+      });
     })
   );
 
-  // Command to stop the active Lando app
+  // Command to stop a Lando app (the active app unless one is passed in)
   context.subscriptions.push(
-    vscode.commands.registerCommand('extension.stopLandoApp', async () => {
-      const activeLandoApp = getActiveApp();
+    vscode.commands.registerCommand('extension.stopLandoApp', async (arg?: unknown) => {
+      const activeLandoApp = resolveTargetApp(arg, getActiveApp);
       
       if (!activeLandoApp) {
         vscode.window.showErrorMessage('No active Lando app selected');
         return;
       }
 
-      // Check if we can stop (prevent conflicting operations)
-      if (!statusMonitor.canTransition(activeLandoApp, LandoAppState.Stopping)) {
-        const currentState = statusMonitor.getState(activeLandoApp);
-        vscode.window.showWarningMessage(
-          `Cannot stop: ${activeLandoApp.name} is currently ${getStateLabel(currentState).toLowerCase()}`
-        );
-        return;
-      }
+      await enqueue(activeLandoApp, 'stop', async queueToken => {
+        // Check if we can stop (prevent conflicting operations)
+        if (!checkCanTransition(activeLandoApp, LandoAppState.Stopping, 'stop')) {
+          return;
+        }
 
-      // Mark as stopping - this updates the UI immediately
-      statusMonitor.markStopping(activeLandoApp);
+        // Mark as stopping - this updates the UI immediately
+        statusMonitor.markStopping(activeLandoApp);
 
-      const notification = vscode.window.showInformationMessage(
-        `Stopping ${activeLandoApp.name}...`,
-        'Cancel'
-      );
+        const result = await runWithProgress(
+          `Stopping ${activeLandoApp.name}...`,
+          'stop',
+          activeLandoApp,
+          queueToken,
+          activityHistory,
+          (progressTracker, token) => stopLando(landoCli, activeLandoApp.rootPath, outputChannel, token, progressTracker)
+        );
 
-      const success = await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: `Stopping ${activeLandoApp.name}...`,
-          cancellable: false
-        },
-        async () => {
-          const result = await stopLando(activeLandoApp!.rootPath, outputChannel, notification);
-          return result;
+        if (result.success) {
+          vscode.window.showInformationMessage(`${activeLandoApp.name} stopped successfully`);
+          // Refresh the status - this will transition to Stopped state
+          await statusMonitor.refresh();
+        } else if (result.cancelled) {
+          // Restore the state the app was in before the command
+          statusMonitor.markCancelled(activeLandoApp);
+          vscode.window.showInformationMessage(`Cancelled stopping ${activeLandoApp.name}`);
+          await statusMonitor.refresh();
+        } else {
+          // Mark error state
+          statusMonitor.markError(activeLandoApp, getErrorMessage(result, 'Stop command failed'));
+          showLandoFailure(describeFailure(`Failed to stop ${activeLandoApp.name}`, result), result.classification, {
+            app: activeLandoApp,
+            retryCommand: 'extension.stopLandoApp',
+            outputChannel,
+          });
         }
-      );
-
-      if (success) {
-        vscode.window.showInformationMessage(`${activeLandoApp.name} stopped successfully`);
-        // Refresh the status - this will transition to Stopped state
-        await statusMonitor.refresh();
-      } else {
-        // Mark error state
-        statusMonitor.markError(activeLandoApp, 'Stop command failed');
-        vscode.window.showErrorMessage(`Failed to stop ${activeLandoApp.name}`);
-      }
+      });
     })
   );
 
-  // Command to restart the active Lando app
+  // Command to restart a Lando app (the active app unless one is passed in)
   context.subscriptions.push(
-    vscode.commands.registerCommand('extension.restartLandoApp', async () => {
-      const activeLandoApp = getActiveApp();
+    vscode.commands.registerCommand('extension.restartLandoApp', async (arg?: unknown) => {
+      const activeLandoApp = resolveTargetApp(arg, getActiveApp);
       
       if (!activeLandoApp) {
         vscode.window.showErrorMessage('No active Lando app selected');
         return;
       }
 
-      // Check if we can restart (treat as stopping - it's a compound operation)
-      if (!statusMonitor.canTransition(activeLandoApp, LandoAppState.Stopping)) {
-        const currentState = statusMonitor.getState(activeLandoApp);
-        vscode.window.showWarningMessage(
-          `Cannot restart: ${activeLandoApp.name} is currently ${getStateLabel(currentState).toLowerCase()}`
-        );
-        return;
-      }
+      await enqueue(activeLandoApp, 'restart', async queueToken => {
+        // Check if we can restart (treat as stopping - it's a compound operation)
+        if (!checkCanTransition(activeLandoApp, LandoAppState.Stopping, 'restart')) {
+          return;
+        }
 
-      // Mark as stopping for UI (restart = stop + start)
-      statusMonitor.markStopping(activeLandoApp);
+        // Mark as stopping for UI (restart = stop + start)
+        statusMonitor.markStopping(activeLandoApp);
 
-      const notification = vscode.window.showInformationMessage(
-        `Restarting ${activeLandoApp.name}... This may take a few minutes.`,
-        'Cancel'
-      );
+        const result = await runWithProgress(
+          `Restarting ${activeLandoApp.name}...`,
+          'restart',
+          activeLandoApp,
+          queueToken,
+          activityHistory,
+          (progressTracker, token) => restartLando(landoCli, activeLandoApp.rootPath, outputChannel, token, progressTracker)
+        );
 
-      const success = await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: `Restarting ${activeLandoApp.name}...`,
-          cancellable: false
-        },
-        async () => {
-          const result = await restartLando(activeLandoApp!.rootPath, outputChannel, notification);
-          return result;
+        if (result.success) {
+          vscode.window.showInformationMessage(`${activeLandoApp.name} restarted successfully`);
+          // Refresh the status - this will transition to Running state
+          await statusMonitor.refresh();
+        } else if (result.cancelled) {
+          // Restore the state the app was in before the command
+          statusMonitor.markCancelled(activeLandoApp);
+          vscode.window.showInformationMessage(`Cancelled restarting ${activeLandoApp.name}`);
+          await statusMonitor.refresh();
+        } else {
+          // Mark error state
+          statusMonitor.markError(activeLandoApp, getErrorMessage(result, 'Restart command failed'));
+          showLandoFailure(describeFailure(`Failed to restart ${activeLandoApp.name}`, result), result.classification, {
+            app: activeLandoApp,
+            retryCommand: 'extension.restartLandoApp',
+            runningApps: getRunningApps(),
+            outputChannel,
+          });
         }
-      );
-
-      if (success) {
-        vscode.window.showInformationMessage(`${activeLandoApp.name} restarted successfully`);
-        // Refresh the status - this will transition to Running state
-        await statusMonitor.refresh();
-      } else {
-        // Mark error state
-        statusMonitor.markError(activeLandoApp, 'Restart command failed');
-        vscode.window.showErrorMessage(`Failed to restart ${activeLandoApp.name}`);
-      }
+      });
     })
   );
 
-  // Command to rebuild the active Lando app (destructive)
+  // Command to rebuild a Lando app (destructive)
   context.subscriptions.push(
-    vscode.commands.registerCommand('extension.rebuildLandoApp', async () => {
-      const activeLandoApp = getActiveApp();
+    vscode.commands.registerCommand('extension.rebuildLandoApp', async (arg?: unknown) => {
+      const activeLandoApp = resolveTargetApp(arg, getActiveApp);
       
       if (!activeLandoApp) {
         vscode.window.showErrorMessage('No active Lando app selected');
         return;
       }
 
-      // Check if we can rebuild (prevent conflicting operations)
-      if (!statusMonitor.canTransition(activeLandoApp, LandoAppState.Rebuilding)) {
-        const currentState = statusMonitor.getState(activeLandoApp);
-        vscode.window.showWarningMessage(
-          `Cannot rebuild: ${activeLandoApp.name} is currently ${getStateLabel(currentState).toLowerCase()}`
-        );
+      // Don't ask for confirmation of something that can't run
+      if (!checkEngineAvailable('rebuild')) {
         return;
       }
 
@@ -218,65 +440,61 @@ export function registerLifecycleCommands(
         return;
       }
 
-      // Re-check guard after await - state may have changed
-      if (!statusMonitor.canTransition(activeLandoApp, LandoAppState.Rebuilding)) {
-        const currentState = statusMonitor.getState(activeLandoApp);
-        vscode.window.showWarningMessage(
-          `Cannot rebuild: ${activeLandoApp.name} is currently ${getStateLabel(currentState).toLowerCase()}`
-        );
-        return;
-      }
+      await enqueue(activeLandoApp, 'rebuild', async queueToken => {
+        // Check once the queue reaches us - earlier operations may have changed the state
+        if (!checkCanTransition(activeLandoApp, LandoAppState.Rebuilding, 'rebuild')) {
+          return;
+        }
 
-      // Mark as rebuilding - this updates the UI immediately
-      statusMonitor.markRebuilding(activeLandoApp);
+        // Mark as rebuilding - this updates the UI immediately
+        statusMonitor.markRebuilding(activeLandoApp);
 
-      const notification = vscode.window.showInformationMessage(
-        `Rebuilding ${activeLandoApp.name}... This may take several minutes.`,
-        'Cancel'
-      );
+        const result = await runWithProgress(
+          `Rebuilding ${activeLandoApp.name}...`,
+          'rebuild',
+          activeLandoApp,
+          queueToken,
+          activityHistory,
+          (progressTracker, token) => rebuildLando(landoCli, activeLandoApp.rootPath, outputChannel, token, progressTracker)
+        );
 
-      const success = await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: `Rebuilding ${activeLandoApp.name}...`,
-          cancellable: false
-        },
-        async () => {
-          const result = await rebuildLando(activeLandoApp!.rootPath, outputChannel, notification);
-          return result;
+        if (result.success) {
+          vscode.window.showInformationMessage(`${activeLandoApp.name} rebuilt successfully`);
+          // Refresh the status - this will transition to Running state
+          await statusMonitor.refresh();
+          // Check and reload PHP plugins after rebuild
+          await checkAndReloadPhpPlugins(outputChannel);
+        } else if (result.cancelled) {
+          // Restore the state the app was in before the command
+          statusMonitor.markCancelled(activeLandoApp);
+          vscode.window.showInformationMessage(`Cancelled rebuilding ${activeLandoApp.name}`);
+          await statusMonitor.refresh();
+        } else {
+          // Mark error state
+          statusMonitor.markError(activeLandoApp, getErrorMessage(result, 'Rebuild command failed'));
+          showLandoFailure(describeFailure(`Failed to rebuild ${activeLandoApp.name}`, result), result.classification, {
+            app: activeLandoApp,
+            retryCommand: 'extension.rebuildLandoApp',
+            runningApps: getRunningApps(),
+            outputChannel,
+          });
         }
-      );
-
-      if (success) {
-        vscode.window.showInformationMessage(`${activeLandoApp.name} rebuilt successfully`);
-        // Refresh the status - this will transition to Running state
-        await statusMonitor.refresh();
-        // Check and reload PHP plugins after rebuild
-        await checkAndReloadPhpPlugins(outputChannel);
-      } else {
-        // Mark error state
-        statusMonitor.markError(activeLandoApp, 'Rebuild command failed');
-        vscode.window.showErrorMessage(`Failed to rebuild ${activeLandoApp.name}`);
-      }
+      });
     })
   );
 
-  // Command to destroy the active Lando app (very destructive - removes everything)
+  // Command to destroy a Lando app (very destructive - removes everything)
   context.subscriptions.push(
-    vscode.commands.registerCommand('extension.destroyLandoApp', async () => {
-      const activeLandoApp = getActiveApp();
+    vscode.commands.registerCommand('extension.destroyLandoApp', async (arg?: unknown) => {
+      const activeLandoApp = resolveTargetApp(arg, getActiveApp);
       
       if (!activeLandoApp) {
         vscode.window.showErrorMessage('No active Lando app selected');
         return;
       }
 
-      // Check if we can destroy (prevent conflicting operations)
-      if (!statusMonitor.canTransition(activeLandoApp, LandoAppState.Destroying)) {
-        const currentState = statusMonitor.getState(activeLandoApp);
-        vscode.window.showWarningMessage(
-          `Cannot destroy: ${activeLandoApp.name} is currently ${getStateLabel(currentState).toLowerCase()}`
-        );
+      // Don't ask for confirmation of something that can't run
+      if (!checkEngineAvailable('destroy')) {
         return;
       }
 
@@ -315,50 +533,53 @@ export function registerLifecycleCommands(
         return;
       }
 
-      // Re-check guard after awaits - state may have changed
-      if (!statusMonitor.canTransition(appForState, LandoAppState.Destroying)) {
-        const currentState = statusMonitor.getState(appForState);
-        vscode.window.showWarningMessage(
-          `Cannot destroy: ${appName} is currently ${getStateLabel(currentState).toLowerCase()}`
-        );
-        return;
-      }
+      await enqueue(appForState, 'destroy', async queueToken => {
+        // Check once the queue reaches us - earlier operations may have changed the state
+        if (!checkCanTransition(appForState, LandoAppState.Destroying, 'destroy')) {
+          return;
+        }
 
-      // Mark as destroying - this updates the UI immediately
-      statusMonitor.markDestroying(appForState);
+        // Mark as destroying - this updates the UI immediately
+        statusMonitor.markDestroying(appForState);
 
-      const notification = vscode.window.showInformationMessage(
-        `Destroying ${appName}...`,
-        'Cancel'
-      );
+        const result = await runWithProgress(
+          `Destroying ${appName}...`,
+          'destroy',
+          appForState,
+          queueToken,
+          activityHistory,
+          (progressTracker, token) => destroyLando(landoCli, appRootPath, outputChannel, token, progressTracker)
+        );
 
-      const success = await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: `Destroying ${appName}...`,
-          cancellable: false
-        },
-        async () => {
-          const result = await destroyLando(appRootPath, outputChannel, notification);
-          return result;
+        if (result.success) {
+          vscode.window.showInformationMessage(`${appName} destroyed successfully`);
+          // Refresh the status - app will now appear as stopped
+          await statusMonitor.refresh();
+        } else if (result.cancelled) {
+          // Restore the state the app was in before the command
+          statusMonitor.markCancelled(appForState);
+          vscode.window.showInformationMessage(`Cancelled destroying ${appName}`);
+          await statusMonitor.refresh();
+        } else {
+          // Mark error state
+          statusMonitor.markError(appForState, getErrorMessage(result, 'Destroy command failed'));
+          showLandoFailure(describeFailure(`Failed to destroy ${appName}`, result), result.classification, {
+            app: appForState,
+            retryCommand: 'extension.destroyLandoApp',
+            outputChannel,
+          });
         }
-      );
-
-      if (success) {
-        vscode.window.showInformationMessage(`${appName} destroyed successfully`);
-        // Refresh the status - app will now appear as stopped
-        await statusMonitor.refresh();
-      } else {
-        // Mark error state
-        statusMonitor.markError(appForState, 'Destroy command failed');
-        vscode.window.showErrorMessage(`Failed to destroy ${appName}`);
-      }
+      });
     })
   );
 
   // Command to power off Lando containers globally
   context.subscriptions.push(
     vscode.commands.registerCommand('extension.powerOffLando', async () => {
+      if (!checkEngineAvailable('power off')) {
+        return;
+      }
+
       // Confirm the action
       const confirm = await vscode.window.showWarningMessage(
         `Power off all Lando containers?\n\n` +
@@ -372,29 +593,61 @@ export function registerLifecycleCommands(
         return;
       }
 
-      const notification = vscode.window.showInformationMessage(
-        'Powering off all Lando containers...',
-        'Cancel'
-      );
+      await enqueue(undefined, 'poweroff', async queueToken => {
+        // Check once the queue reaches us - Docker may have stopped meanwhile
+        if (!checkEngineAvailable('power off')) {
+          return;
+        }
+
+        const result = await runWithProgress(
+          'Powering off all Lando containers...',
+          'poweroff',
+          undefined,
+          queueToken,
+          activityHistory,
+          (progressTracker, token) => powerOffLando(landoCli, outputChannel, token, progressTracker)
+        );
 
-      const success = await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: 'Powering off all Lando containers...',
-          cancellable: false
-        },
-        async () => {
-          const result = await powerOffLando(outputChannel, notification);
-          return result;
+        if (result.success) {
+          vscode.window.showInformationMessage('All Lando containers powered off');
+          // Refresh the status - all apps will now appear as stopped
+          await statusMonitor.refresh();
+        } else if (result.cancelled) {
+          vscode.window.showInformationMessage('Cancelled powering off Lando containers');
+          await statusMonitor.refresh();
+        } else {
+          showLandoFailure(describeFailure('Failed to power off Lando containers', result), result.classification, {
+            retryCommand: 'extension.powerOffLando',
+            outputChannel,
+          });
         }
-      );
+      });
+    })
+  );
+
+  // Command to show queued and running operations, and cancel one
+  context.subscriptions.push(
+    vscode.commands.registerCommand('extension.showLandoOperations', async () => {
+      const operations = operationQueue.getOperations();
+
+      if (operations.length === 0) {
+        vscode.window.showInformationMessage('No Lando operations are queued or running');
+        return;
+      }
+
+      const items = operations.map(operation => ({
+        label: `${operation.status === 'running' ? '$(sync~spin)' : '$(clock)'} ${getOperationLabel(operation)}`,
+        description: operation.status === 'running' ? 'Running' : 'Queued',
+        detail: `Requested at ${operation.enqueuedAt.toLocaleTimeString()}`,
+        operation
+      }));
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select an operation to cancel'
+      });
 
-      if (success) {
-        vscode.window.showInformationMessage('All Lando containers powered off');
-        // Refresh the status - all apps will now appear as stopped
-        await statusMonitor.refresh();
-      } else {
-        vscode.window.showErrorMessage('Failed to power off Lando containers');
+      if (selected && operationQueue.cancel(selected.operation.id)) {
+        vscode.window.showInformationMessage(`Cancelling ${getOperationLabel(selected.operation)}`);
       }
     })
   );
@@ -0,0 +1,169 @@
+/**
+ * Preference Commands
+ *
+ * This module registers the command that edits an app's preferences: its
+ * PHP service, preferred URL, auto-start and crash notifications. Each
+ * preference overrides the matching global `lando.*` setting for that app.
+ *
+ * @module commands/preferences
+ */
+
+import * as vscode from "vscode";
+import { CommandDependencies } from "../types";
+import { LandoApp } from "../landoAppDetector";
+import { LandoAppPreferences, resolveAutoStart, resolvePhpService } from "../landoAppPreferences";
+import { isCrashNotificationMuted } from "../landoCrashNotifier";
+
+/**
+ * A preference shown in the preferences quick pick
+ */
+interface PreferenceQuickPickItem extends vscode.QuickPickItem {
+  preference?: keyof LandoAppPreferences;
+}
+
+/**
+ * Describes a preference's value (e.g., "appserver (default)")
+ * @param value - The app's value
+ * @param effective - The value in effect
+ * @returns The description
+ */
+function describeValue(value: unknown, effective: string): string {
+  return value === undefined ? `${effective} (default)` : effective;
+}
+
+/**
+ * Asks for an on/off value, or the global default
+ * @param title - The quick pick title
+ * @param onLabel - Label of the "on" choice
+ * @param offLabel - Label of the "off" choice
+ * @returns True/false, undefined for the default, or null if cancelled
+ */
+async function pickToggle(title: string, onLabel: string, offLabel: string): Promise<boolean | undefined | null> {
+  const choices = [
+    { label: onLabel, value: true },
+    { label: offLabel, value: false },
+    { label: 'Use Global Setting', value: undefined },
+  ];
+  const selected = await vscode.window.showQuickPick(choices, { title });
+  return selected ? selected.value : null;
+}
+
+/**
+ * Registers preference-related commands
+ * @param context - The extension context
+ * @param deps - Command dependencies
+ */
+export function registerPreferenceCommands(
+  context: vscode.ExtensionContext,
+  deps: CommandDependencies
+): void {
+  const { getActiveApp, appDetector, appPreferences, infoStore, outputChannel } = deps;
+
+  // Command to edit an app's preferences (the active app unless one is passed in)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('extension.configureLandoAppPreferences', async (arg?: unknown) => {
+      const app = (arg as { app?: LandoApp } | undefined)?.app ?? getActiveApp() ?? appDetector.getApps()[0];
+
+      if (!app) {
+        vscode.window.showErrorMessage('No active Lando app selected');
+        return;
+      }
+
+      const preferences = appPreferences.get(app);
+      const config = vscode.workspace.getConfiguration('lando');
+      const items: PreferenceQuickPickItem[] = [
+        {
+          label: '$(symbol-method) PHP Service',
+          description: describeValue(preferences.phpService, resolvePhpService(preferences, config)),
+          preference: 'phpService',
+        },
+        {
+          label: '$(link-external) Preferred URL',
+          description: preferences.preferredUrl ?? 'Ask when there are several',
+          preference: 'preferredUrl',
+        },
+        {
+          label: '$(debug-start) Auto-Start',
+          description: describeValue(preferences.autoStart, resolveAutoStart(preferences, config) ? 'On' : 'Off'),
+          preference: 'autoStart',
+        },
+        {
+          label: '$(bell-slash) Crash Notifications',
+          description: describeValue(
+            preferences.muteCrashNotifications,
+            isCrashNotificationMuted(app, config, preferences) ? 'Muted' : 'Shown'
+          ),
+          preference: 'muteCrashNotifications',
+        },
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        { label: '$(discard) Reset to Global Settings' },
+      ];
+
+      const selected = await vscode.window.showQuickPick(items, {
+        title: `${app.name} Preferences`,
+        placeHolder: 'Preferences override the global Lando settings for this app',
+      });
+      if (!selected) {
+        return;
+      }
+
+      switch (selected.preference) {
+        case 'phpService': {
+          const services = app.services ?? [];
+          const choices = [
+            ...services.map(service => ({ label: service, value: service as string | undefined })),
+            { label: 'Use Global Setting', value: undefined },
+          ];
+          const choice = await vscode.window.showQuickPick(choices, { title: 'Service PHP commands run in' });
+          if (choice) {
+            await appPreferences.update(app, { phpService: choice.value });
+          }
+          break;
+        }
+        case 'preferredUrl': {
+          let urls: string[] = [];
+          try {
+            urls = (await infoStore.getUrls(app)).map(url => url.url);
+          } catch (error) {
+            outputChannel.appendLine(`Error getting URLs for ${app.name}: ${error}`);
+          }
+          if (urls.length === 0) {
+            vscode.window.showWarningMessage(`No URLs available for ${app.name}`);
+            return;
+          }
+          const choices = [
+            ...urls.map(url => ({ label: url, value: url as string | undefined })),
+            { label: 'Ask When There Are Several', value: undefined },
+          ];
+          const choice = await vscode.window.showQuickPick(choices, { title: 'URL to open and copy' });
+          if (choice) {
+            await appPreferences.update(app, { preferredUrl: choice.value });
+          }
+          break;
+        }
+        case 'autoStart': {
+          const value = await pickToggle('Start this app when the window opens', 'On', 'Off');
+          if (value !== null) {
+            await appPreferences.update(app, { autoStart: value });
+          }
+          break;
+        }
+        case 'muteCrashNotifications': {
+          const value = await pickToggle('Crash notifications for this app', 'Muted', 'Shown');
+          if (value !== null) {
+            await appPreferences.update(app, { muteCrashNotifications: value });
+          }
+          break;
+        }
+        default:
+          await appPreferences.update(app, {
+            phpService: undefined,
+            preferredUrl: undefined,
+            autoStart: undefined,
+            muteCrashNotifications: undefined,
+          });
+          vscode.window.showInformationMessage(`${app.name} now uses the global Lando settings`);
+      }
+    })
+  );
+}
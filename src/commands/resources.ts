@@ -0,0 +1,62 @@
+/**
+ * Resource Commands
+ * 
+ * This module registers the command that stops the Lando apps using the
+ * most memory, for when Docker runs out of room.
+ * 
+ * @module commands/resources
+ */
+
+import * as vscode from "vscode";
+import { CommandDependencies } from "../types";
+import { formatBytes, formatResourceUsage } from "../landoResourceSampler";
+
+/**
+ * Registers resource-related commands
+ * @param context - The extension context
+ * @param deps - Command dependencies
+ */
+export function registerResourceCommands(
+  context: vscode.ExtensionContext,
+  deps: CommandDependencies
+): void {
+  const { resourceSampler } = deps;
+
+  // Command to pick running apps by memory use and stop them (the heaviest is preselected)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('extension.stopHeaviestLandoApps', async () => {
+      await resourceSampler.sample();
+      const usage = resourceSampler.getAllUsage();
+
+      if (usage.length === 0) {
+        vscode.window.showInformationMessage('No running Lando apps are using resources');
+        return;
+      }
+
+      const items = usage.map((entry, index) => ({
+        label: entry.app.name,
+        description: formatResourceUsage(entry.total),
+        detail: entry.services
+          .map(service => `${service.service}: ${formatBytes(service.usage.memoryBytes)}`)
+          .join(', '),
+        picked: index === 0,
+        app: entry.app,
+      }));
+
+      const selected = await vscode.window.showQuickPick(items, {
+        title: 'Stop Heaviest Lando Apps',
+        placeHolder: 'Select the apps to stop (heaviest first)',
+        canPickMany: true,
+      });
+
+      if (!selected || selected.length === 0) {
+        return;
+      }
+
+      // Each app has its own queue, so the stops run side by side
+      await Promise.all(selected.map(item =>
+        vscode.commands.executeCommand<void>('extension.stopLandoApp', item.app)
+      ));
+    })
+  );
+}
@@ -14,7 +14,7 @@ import {
   isStateBusy,
   getStateLabel,
 } from "../landoStatusMonitor";
-import { getLandoServices } from "../helpers/lando";
+import { checkLandoFeature, getLandoServices } from "../helpers/lando";
 
 /**
  * Registers terminal-related commands
@@ -25,7 +25,7 @@ export function registerTerminalCommands(
   context: vscode.ExtensionContext,
   deps: CommandDependencies
 ): void {
-  const { outputChannel, getActiveApp, statusMonitor } = deps;
+  const { outputChannel, getActiveApp, statusMonitor, infoStore, landoCli } = deps;
 
   // Command to open a terminal connected to a Lando service (SSH)
   context.subscriptions.push(
@@ -62,8 +62,13 @@ export function registerTerminalCommands(
         }
       }
 
+      // Services are listed via lando info --format=json
+      if (!checkLandoFeature(landoCli, 'infoJson')) {
+        return;
+      }
+
       // Get available services
-      const services = await getLandoServices(activeLandoApp.rootPath, outputChannel);
+      const services = await getLandoServices(infoStore, activeLandoApp, outputChannel);
       
       if (services.length === 0) {
         vscode.window.showErrorMessage(`No services available for ${activeLandoApp.name}`);
@@ -113,7 +118,7 @@ export function registerTerminalCommands(
       });
 
       // Use lando ssh to connect to the service
-      terminal.sendText(`lando ssh -s ${selectedService}`);
+      terminal.sendText(landoCli.getShellCommand(['ssh', '-s', selectedService]));
       terminal.show();
     })
   );
@@ -154,7 +159,7 @@ export function registerTerminalCommands(
       }
 
       // Get available services
-      const services = await getLandoServices(activeLandoApp.rootPath, outputChannel);
+      const services = await getLandoServices(infoStore, activeLandoApp, outputChannel);
       
       interface LogsQuickPickItem extends vscode.QuickPickItem {
         service?: string;
@@ -203,7 +208,7 @@ export function registerTerminalCommands(
       });
 
       // Send the lando logs command to the terminal
-      terminal.sendText(`lando ${logArgs.join(' ')}`);
+      terminal.sendText(landoCli.getShellCommand(logArgs));
       terminal.show();
     })
   );
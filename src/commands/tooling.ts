@@ -1,20 +1,24 @@
 /**
  * Tooling Commands
  * 
- * This module registers commands for running Lando tooling commands.
+ * This module registers commands for running Lando tooling commands and
+ * the commands of Landofile event hooks.
  * 
  * @module commands/tooling
  */
 
 import * as vscode from "vscode";
-import * as childProcess from "child_process";
 import { CommandDependencies } from "../types";
-import { LandoTooling } from "../landoAppDetector";
-import { getLandoAvailableTooling, runLandoToolingCommand } from "../helpers/lando";
+import { LandoApp, LandoEvent, LandoTooling } from "../landoAppDetector";
+import { getLandoAvailableTooling, runLandoEvent, runLandoToolingCommand } from "../helpers/lando";
+import { combineTooling } from "../landoRecipes";
 
 /** Line ending for terminal output */
 const CRLF = "\r\n";
 
+/** Milliseconds to wait for Lando's tooling list when the recipe's is known */
+const RECIPE_TOOLING_GRACE_PERIOD = 1500;
+
 /**
  * Registers tooling-related commands
  * @param context - The extension context
@@ -24,7 +28,7 @@ export function registerToolingCommands(
   context: vscode.ExtensionContext,
   deps: CommandDependencies
 ): void {
-  const { outputChannel, getActiveApp } = deps;
+  const { outputChannel, getActiveApp, landoCli, idleMonitor } = deps;
 
   // Command to run Lando tooling
   context.subscriptions.push(
@@ -39,15 +43,20 @@ export function registerToolingCommands(
       // Get tooling commands from the app config (custom tooling in .lando.yml)
       const customTooling = activeLandoApp.tooling || [];
       
-      // Query Lando for available tooling commands (includes recipe defaults)
-      const landoTooling = await getLandoAvailableTooling(activeLandoApp.rootPath, outputChannel);
-      
-      // Combine: custom tooling takes precedence over Lando-provided tooling
-      const customToolingNames = new Set(customTooling.map((t: LandoTooling) => t.name));
-      const combinedTooling = [
-        ...customTooling,
-        ...landoTooling.filter((t: LandoTooling) => !customToolingNames.has(t.name))
-      ];
+      const recipeTooling = activeLandoApp.recipeDefaults?.tooling || [];
+
+      // Query Lando for available tooling commands; when the recipe already
+      // says what's available, don't keep the user waiting on a slow Lando
+      const landoToolingRequest = getLandoAvailableTooling(landoCli, activeLandoApp.rootPath, outputChannel);
+      const landoTooling = recipeTooling.length > 0
+        ? await Promise.race([
+          landoToolingRequest,
+          new Promise<LandoTooling[]>(resolve => setTimeout(() => resolve([]), RECIPE_TOOLING_GRACE_PERIOD)),
+        ])
+        : await landoToolingRequest;
+
+      // Combine: custom tooling takes precedence over Lando-provided and recipe tooling
+      const combinedTooling = combineTooling(customTooling, landoTooling, recipeTooling);
 
       if (combinedTooling.length === 0) {
         vscode.window.showInformationMessage(
@@ -110,7 +119,55 @@ export function registerToolingCommands(
       }
 
       // Run the command in terminal
-      await runLandoToolingCommand(activeLandoApp, selected.tooling.name, outputChannel, args);
+      idleMonitor.recordActivity(activeLandoApp, 'tooling');
+      await runLandoToolingCommand(landoCli, activeLandoApp, selected.tooling.name, outputChannel, args);
+    })
+  );
+
+  // Command to rerun an event hook's commands (the active app's unless one is passed in)
+  context.subscriptions.push(
+    vscode.commands.registerCommand('extension.runLandoEvent', async (arg?: unknown) => {
+      const app = (arg as { app?: LandoApp } | undefined)?.app ?? getActiveApp();
+
+      if (!app) {
+        vscode.window.showErrorMessage('No active Lando app selected');
+        return;
+      }
+
+      const events = app.events ?? [];
+      if (events.length === 0) {
+        vscode.window.showInformationMessage(
+          `No events defined for ${app.name}. ` +
+          `Add an 'events' section to your .lando.yml to hook commands into Lando commands.`
+        );
+        return;
+      }
+
+      // Run the given event directly, otherwise ask which one
+      let event = events.find(e => e.name === (arg as { event?: string } | undefined)?.event);
+      if (!event) {
+        interface EventQuickPickItem extends vscode.QuickPickItem {
+          event: LandoEvent;
+        }
+        const items: EventQuickPickItem[] = events.map(e => ({
+          label: `$(zap) ${e.name}`,
+          description: Array.from(new Set(e.commands.map(command => command.service))).join(', '),
+          detail: e.commands.map(command => command.cmd).join(' && '),
+          event: e
+        }));
+        const selected = await vscode.window.showQuickPick(items, {
+          placeHolder: `Select an event to run its commands for ${app.name}`,
+          title: 'Lando Events',
+          matchOnDetail: true
+        });
+        if (!selected) {
+          return;
+        }
+        event = selected.event;
+      }
+
+      idleMonitor.recordActivity(app, 'tooling');
+      runLandoEvent(landoCli, app, event, outputChannel);
     })
   );
 
@@ -136,20 +193,18 @@ export function registerToolingCommands(
       }
 
       // Start Lando process
-      const landoProcess = childProcess.spawn("lando", command.split(" "), {
+      const landoProcess = landoCli.spawn(command.split(" "), {
         cwd: cwd,
-        shell: false,
         env: { ...process.env, TERM: "xterm-256color", FORCE_COLOR: "true" },
-        killSignal: "SIGINT",
       });
 
       // Lando process output handling
-      landoProcess.stdout.on("data", (data: Buffer) => {
+      landoProcess.stdout?.on("data", (data: Buffer) => {
         // Terminal expects \r\n line endings
         const output = data.toString().replace(/\n/g, CRLF);
         writeEmitter.fire(output);
       });
-      landoProcess.stderr.on("data", (data: Buffer) => {
+      landoProcess.stderr?.on("data", (data: Buffer) => {
         // Terminal expects \r\n line endings
         const output = data.toString().replace(/\n/g, CRLF);
         writeEmitter.fire(output);
@@ -161,10 +216,10 @@ export function registerToolingCommands(
         open: () =>
           writeEmitter.fire(`Running: lando ${command}${CRLF}${CRLF}`),
         close: () => {
-          landoProcess.stdin.end();
+          landoProcess.stdin?.end();
         },
         handleInput: (data: string) => {
-          landoProcess.stdin.write(data);
+          landoProcess.stdin?.write(data);
           if (data === "\x03") {
             // Ctrl+C
             writeEmitter.fire("^C");
@@ -181,7 +236,7 @@ export function registerToolingCommands(
       terminal.show();
 
       // Do things when the Lando process exits
-      landoProcess.on("close", (code: number) => {
+      landoProcess.on("close", (code: number | null) => {
         if (code !== 0) {
           writeEmitter.fire(
             `\x1b[31mLando process exited with code ${code}\x1b[0m\r\n`
@@ -14,7 +14,8 @@ import {
   isStateBusy,
   getStateLabel,
 } from "../landoStatusMonitor";
-import { getLandoUrls } from "../helpers/lando";
+import { checkLandoFeature, getLandoUrls } from "../helpers/lando";
+import { findPreferredUrl } from "../landoAppPreferences";
 
 /**
  * Registers URL-related commands
@@ -25,7 +26,7 @@ export function registerUrlCommands(
   context: vscode.ExtensionContext,
   deps: CommandDependencies
 ): void {
-  const { outputChannel, getActiveApp, statusMonitor } = deps;
+  const { outputChannel, getActiveApp, statusMonitor, infoStore, landoCli, appPreferences } = deps;
 
   // Command to open the active Lando app's URL in browser
   context.subscriptions.push(
@@ -63,16 +64,22 @@ export function registerUrlCommands(
         }
       }
 
-      const urls = await getLandoUrls(activeLandoApp.rootPath, outputChannel);
+      // URLs are listed via lando info --format=json
+      if (!checkLandoFeature(landoCli, 'infoJson')) {
+        return;
+      }
+
+      const urls = await getLandoUrls(infoStore, activeLandoApp, outputChannel);
       
       if (urls.length === 0) {
         vscode.window.showWarningMessage(`No URLs available for ${activeLandoApp.name}`);
         return;
       }
 
-      if (urls.length === 1) {
-        // Open the only URL directly
-        await vscode.env.openExternal(vscode.Uri.parse(urls[0].url));
+      // Open the only (or the app's preferred) URL directly
+      const directUrl = urls.length === 1 ? urls[0] : findPreferredUrl(urls, appPreferences.get(activeLandoApp));
+      if (directUrl) {
+        await vscode.env.openExternal(vscode.Uri.parse(directUrl.url));
         return;
       }
 
@@ -129,17 +136,23 @@ export function registerUrlCommands(
         }
       }
 
-      const urls = await getLandoUrls(activeLandoApp.rootPath, outputChannel);
+      // URLs are listed via lando info --format=json
+      if (!checkLandoFeature(landoCli, 'infoJson')) {
+        return;
+      }
+
+      const urls = await getLandoUrls(infoStore, activeLandoApp, outputChannel);
       
       if (urls.length === 0) {
         vscode.window.showWarningMessage(`No URLs available for ${activeLandoApp.name}`);
         return;
       }
 
-      if (urls.length === 1) {
-        // Copy the only URL directly
-        await vscode.env.clipboard.writeText(urls[0].url);
-        vscode.window.showInformationMessage(`Copied: ${urls[0].url}`);
+      // Copy the only (or the app's preferred) URL directly
+      const directUrl = urls.length === 1 ? urls[0] : findPreferredUrl(urls, appPreferences.get(activeLandoApp));
+      if (directUrl) {
+        await vscode.env.clipboard.writeText(directUrl.url);
+        vscode.window.showInformationMessage(`Copied: ${directUrl.url}`);
         return;
       }
 
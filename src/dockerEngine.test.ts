@@ -0,0 +1,382 @@
+import * as assert from "assert";
+import { suite, test, setup, teardown } from "mocha";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import {
+  DockerContainerEvent,
+  DockerContainerSummary,
+  DockerEngineClient,
+  DockerEngineError,
+  getDefaultDockerSocketPath,
+  getEngineStateForError,
+  isDockerEngineError,
+  parseDockerEvent,
+  parseDockerStats,
+  toLandoContainer,
+} from "./dockerEngine";
+import { DockerEngineState, LandoAppState, LandoContainer, LandoStatusMonitor } from "./landoStatusMonitor";
+import { LandoCliError } from "./landoCli";
+import { createMockApp } from "./test/fixtures";
+
+/**
+ * Fake Docker Engine listening on a unix socket
+ */
+class FakeDockerServer {
+  readonly socketPath = path.join(os.tmpdir(), `lando-docker-test-${process.pid}-${Math.random().toString(36).slice(2)}.sock`);
+  readonly requests: string[] = [];
+  containers: DockerContainerSummary[] = [];
+  private eventStreams: http.ServerResponse[] = [];
+  private server = http.createServer((request, response) => this.handle(request, response));
+
+  listen(): Promise<void> {
+    return new Promise(resolve => this.server.listen(this.socketPath, resolve));
+  }
+
+  /** Sends a raw chunk to every connected /events client */
+  sendRaw(chunk: string): void {
+    this.eventStreams.forEach(stream => stream.write(chunk));
+  }
+
+  /** Sends an event message to every connected /events client */
+  sendEvent(message: object): void {
+    this.sendRaw(JSON.stringify(message) + "\n");
+  }
+
+  /** Ends every /events stream */
+  endEvents(): void {
+    this.eventStreams.forEach(stream => stream.end());
+    this.eventStreams = [];
+  }
+
+  /** Waits until a client subscribes to /events */
+  async waitForEventStream(): Promise<void> {
+    while (this.eventStreams.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  }
+
+  close(): Promise<void> {
+    this.eventStreams.forEach(stream => stream.destroy());
+    const closed = new Promise<void>(resolve => this.server.close(() => {
+      fs.rmSync(this.socketPath, { force: true });
+      resolve();
+    }));
+    this.server.closeAllConnections();
+    return closed;
+  }
+
+  private handle(request: http.IncomingMessage, response: http.ServerResponse): void {
+    const url = request.url ?? "";
+    this.requests.push(`${request.method === "GET" ? "" : `${request.method} `}${decodeURIComponent(url)}`);
+
+    if (url === "/_ping") {
+      response.end("OK");
+    } else if (url.startsWith("/containers/json")) {
+      response.setHeader("Content-Type", "application/json");
+      response.end(JSON.stringify(this.containers));
+    } else if (url.startsWith("/events")) {
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.flushHeaders();
+      this.eventStreams.push(response);
+    } else if (request.method === "POST" && /^\/containers\/[^/]+\/restart/.test(url)) {
+      response.statusCode = 204;
+      response.end();
+    } else {
+      response.statusCode = 404;
+      response.end("page not found");
+    }
+  }
+}
+
+function landoContainer(app: string, service: string, state: string): DockerContainerSummary {
+  return {
+    Id: `${app}-${service}`,
+    State: state,
+    Status: state === "running" ? "Up 5 minutes" : "Exited (0) 1 minute ago",
+    Labels: {
+      "io.lando.container": "TRUE",
+      "com.docker.compose.project": app,
+      "com.docker.compose.service": service,
+    },
+  };
+}
+
+function landoEvent(app: string, service: string, action: string, extra: Record<string, string> = {}): object {
+  return {
+    Type: "container",
+    Action: action,
+    Actor: {
+      ID: `${app}-${service}`,
+      Attributes: {
+        "io.lando.container": "TRUE",
+        "com.docker.compose.project": app,
+        "com.docker.compose.service": service,
+        ...extra,
+      },
+    },
+    time: 1700000000,
+  };
+}
+
+async function waitFor(condition: () => boolean): Promise<void> {
+  const deadline = Date.now() + 2000;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for condition");
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+suite("Docker Engine Test Suite", () => {
+  suite("getDefaultDockerSocketPath", () => {
+    test("Should use the platform default without DOCKER_HOST", () => {
+      assert.strictEqual(getDefaultDockerSocketPath({}, "linux"), "/var/run/docker.sock");
+      assert.strictEqual(getDefaultDockerSocketPath({}, "win32"), "\\\\.\\pipe\\docker_engine");
+    });
+
+    test("Should honor unix and npipe DOCKER_HOST values", () => {
+      assert.strictEqual(getDefaultDockerSocketPath({ DOCKER_HOST: "unix:///home/me/.colima/docker.sock" }, "darwin"), "/home/me/.colima/docker.sock");
+      assert.strictEqual(getDefaultDockerSocketPath({ DOCKER_HOST: "npipe:////./pipe/docker_engine" }, "win32"), "\\\\.\\pipe\\docker_engine");
+    });
+
+    test("Should leave TCP endpoints to the CLI fallback", () => {
+      assert.strictEqual(getDefaultDockerSocketPath({ DOCKER_HOST: "tcp://10.0.0.5:2376" }, "linux"), undefined);
+    });
+  });
+
+  suite("toLandoContainer", () => {
+    test("Should map compose labels to app and service", () => {
+      assert.deepStrictEqual(toLandoContainer(landoContainer("myapp", "appserver", "running")), {
+        app: "myapp",
+        service: "appserver",
+        running: true,
+        state: "running",
+        status: "Up 5 minutes",
+        name: "myapp-appserver",
+      });
+      assert.strictEqual(toLandoContainer(landoContainer("myapp", "database", "exited"))?.running, false);
+    });
+
+    test("Should skip containers without Lando labels", () => {
+      assert.strictEqual(toLandoContainer({ Id: "abc", State: "running", Labels: { "com.docker.compose.project": "other" } }), undefined);
+    });
+  });
+
+  suite("parseDockerEvent", () => {
+    test("Should parse a Lando container event", () => {
+      const event = parseDockerEvent(landoEvent("myapp", "database", "die", { exitCode: "137" }));
+
+      assert.strictEqual(event?.action, "die");
+      assert.strictEqual(event?.app, "myapp");
+      assert.strictEqual(event?.service, "database");
+      assert.strictEqual(event?.exitCode, 137);
+    });
+
+    test("Should strip action suffixes and ignore other events", () => {
+      assert.strictEqual(parseDockerEvent(landoEvent("myapp", "appserver", "health_status: healthy"))?.action, "health_status");
+      assert.strictEqual(parseDockerEvent({ Type: "network", Action: "connect", Actor: { Attributes: {} } }), undefined);
+      assert.strictEqual(parseDockerEvent("not an event"), undefined);
+    });
+  });
+
+  suite("parseDockerStats", () => {
+    test("Should compute CPU, memory and network usage like docker stats", () => {
+      const stats = parseDockerStats({
+        cpu_stats: { cpu_usage: { total_usage: 2_000_000 }, system_cpu_usage: 20_000_000, online_cpus: 4 },
+        precpu_stats: { cpu_usage: { total_usage: 1_000_000 }, system_cpu_usage: 10_000_000 },
+        memory_stats: { usage: 600 * 1024 * 1024, limit: 8 * 1024 ** 3, stats: { inactive_file: 88 * 1024 * 1024 } },
+        networks: { eth0: { rx_bytes: 1000, tx_bytes: 200 }, eth1: { rx_bytes: 24, tx_bytes: 0 } },
+      });
+
+      assert.deepStrictEqual(stats, {
+        cpuPercent: 40,
+        memoryBytes: 512 * 1024 * 1024,
+        memoryLimitBytes: 8 * 1024 ** 3,
+        networkRxBytes: 1024,
+        networkTxBytes: 200,
+      });
+    });
+
+    test("Should report no CPU usage without a previous sample", () => {
+      const stats = parseDockerStats({ cpu_stats: { cpu_usage: { total_usage: 5 }, system_cpu_usage: 10 } });
+
+      assert.strictEqual(stats.cpuPercent, 0);
+      assert.strictEqual(stats.memoryBytes, 0);
+    });
+  });
+
+  suite("getEngineStateForError", () => {
+    test("Should treat an unreachable socket as unavailable", () => {
+      assert.strictEqual(getEngineStateForError(new DockerEngineError("connect ENOENT", "unreachable")), DockerEngineState.Unavailable);
+    });
+
+    test("Should treat server errors from the socket as starting", () => {
+      assert.strictEqual(getEngineStateForError(new DockerEngineError("HTTP 503", "http", 503)), DockerEngineState.Starting);
+      assert.strictEqual(getEngineStateForError(new DockerEngineError("HTTP 404", "http", 404)), undefined);
+    });
+
+    test("Should recognize Docker being down in Lando CLI output", () => {
+      const error = new LandoCliError("lando list exited with code 1", "exit", ["list"], 1, "", "error during connect: This error may indicate that the docker daemon is not running.");
+
+      assert.strictEqual(getEngineStateForError(error), DockerEngineState.Unavailable);
+      assert.strictEqual(getEngineStateForError(new LandoCliError("lando list exited with code 1", "exit", ["list"], 1, "", "Invalid landofile")), undefined);
+      assert.strictEqual(getEngineStateForError(new Error("boom")), undefined);
+    });
+  });
+
+  suite("DockerEngineClient", () => {
+    let server: FakeDockerServer;
+
+    setup(async () => {
+      server = new FakeDockerServer();
+      await server.listen();
+    });
+
+    teardown(async () => {
+      await server.close();
+    });
+
+    test("Should ping the engine", async () => {
+      const client = new DockerEngineClient({ socketPath: server.socketPath });
+
+      assert.strictEqual(await client.ping(), true);
+    });
+
+    test("Should restart a container with a POST request", async () => {
+      const client = new DockerEngineClient({ socketPath: server.socketPath });
+
+      await client.restartContainer("myapp_database_1");
+
+      assert.deepStrictEqual(server.requests, ["POST /containers/myapp_database_1/restart?t=10"]);
+    });
+
+    test("Should list Lando containers filtered on the Lando label", async () => {
+      server.containers = [landoContainer("myapp", "appserver", "running"), { Id: "x", State: "running", Labels: {} }];
+      const client = new DockerEngineClient({ socketPath: server.socketPath });
+
+      const containers = await client.listLandoContainers();
+
+      assert.deepStrictEqual(containers, [
+        { app: "myapp", service: "appserver", running: true, state: "running", status: "Up 5 minutes", name: "myapp-appserver" },
+      ]);
+      assert.ok(server.requests[0].includes('"label":["io.lando.container"]'));
+      assert.ok(server.requests[0].includes("all=true"));
+    });
+
+    test("Should report an unreachable socket", async () => {
+      const client = new DockerEngineClient({ socketPath: path.join(os.tmpdir(), "lando-missing-docker.sock") });
+
+      await assert.rejects(client.listLandoContainers(), error => isDockerEngineError(error, "unreachable"));
+      assert.strictEqual(await client.ping(), false);
+    });
+
+    test("Should stream Lando events split across chunks", async () => {
+      const client = new DockerEngineClient({ socketPath: server.socketPath });
+      const events: DockerContainerEvent[] = [];
+      let opened = false;
+
+      const stream = client.watchEvents({ onEvent: event => events.push(event), onOpen: () => { opened = true; } });
+      await server.waitForEventStream();
+      await waitFor(() => opened);
+
+      const message = JSON.stringify(landoEvent("myapp", "appserver", "start"));
+      server.sendRaw(message.slice(0, 20));
+      server.sendRaw(message.slice(20) + "\n");
+      server.sendEvent({ Type: "container", Action: "start", Actor: { Attributes: { "com.docker.compose.project": "notlando", "com.docker.compose.service": "web" } } });
+      server.sendEvent(landoEvent("myapp", "database", "stop"));
+
+      await waitFor(() => events.length === 2);
+      assert.deepStrictEqual(events.map(event => `${event.action} ${event.service}`), ["start appserver", "stop database"]);
+      assert.ok(server.requests.some(request => request.startsWith("/events") && request.includes('"type":["container"]')));
+      stream.dispose();
+    });
+
+    test("Should report when the stream ends but not after disposal", async () => {
+      const client = new DockerEngineClient({ socketPath: server.socketPath });
+      let closes = 0;
+
+      client.watchEvents({ onEvent: () => undefined, onClose: () => { closes++; } });
+      await server.waitForEventStream();
+      server.endEvents();
+      await waitFor(() => closes === 1);
+
+      const disposed = client.watchEvents({ onEvent: () => undefined, onClose: () => { closes++; } });
+      await server.waitForEventStream();
+      disposed.dispose();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      assert.strictEqual(closes, 1);
+    });
+  });
+
+  suite("LandoStatusMonitor with Docker", () => {
+    let server: FakeDockerServer;
+    let monitor: LandoStatusMonitor | undefined;
+
+    setup(async () => {
+      server = new FakeDockerServer();
+      await server.listen();
+    });
+
+    teardown(async () => {
+      monitor?.dispose();
+      monitor = undefined;
+      await server.close();
+    });
+
+    test("Should read status from Docker instead of the fallback fetcher", async () => {
+      server.containers = [landoContainer("myapp", "appserver", "running")];
+      let fallbackCalls = 0;
+      monitor = new LandoStatusMonitor({
+        dockerClient: new DockerEngineClient({ socketPath: server.socketPath }),
+        containerFetcher: async () => { fallbackCalls++; return []; },
+      });
+      const app = createMockApp("myapp");
+
+      monitor.setApps([app]);
+      await monitor.refresh();
+
+      assert.strictEqual(monitor.getState(app), LandoAppState.Running);
+      assert.strictEqual(fallbackCalls, 0);
+    });
+
+    test("Should update the state as soon as a container event arrives", async () => {
+      server.containers = [landoContainer("myapp", "appserver", "exited")];
+      monitor = new LandoStatusMonitor({
+        dockerClient: new DockerEngineClient({ socketPath: server.socketPath }),
+        containerFetcher: async () => [],
+        eventDebounce: 0,
+      });
+      const app = createMockApp("myapp");
+
+      monitor.setApps([app]);
+      await server.waitForEventStream();
+      await waitFor(() => monitor!.isEventDriven());
+      await waitFor(() => monitor!.getState(app) === LandoAppState.Stopped);
+
+      server.containers = [landoContainer("myapp", "appserver", "running")];
+      server.sendEvent(landoEvent("myapp", "appserver", "start"));
+
+      await waitFor(() => monitor!.getState(app) === LandoAppState.Running);
+    });
+
+    test("Should fall back to polling when the socket isn't reachable", async () => {
+      const containers: LandoContainer[] = [{ app: "myapp", service: "appserver", running: true }];
+      let fallbackCalls = 0;
+      monitor = new LandoStatusMonitor({
+        dockerClient: new DockerEngineClient({ socketPath: path.join(os.tmpdir(), "lando-missing-docker.sock") }),
+        containerFetcher: async () => { fallbackCalls++; return containers; },
+      });
+      const app = createMockApp("myapp");
+
+      monitor.setApps([app]);
+      await monitor.refresh();
+
+      assert.ok(fallbackCalls > 0);
+      assert.strictEqual(monitor.getState(app), LandoAppState.Running);
+      assert.strictEqual(monitor.isEventDriven(), false);
+    });
+  });
+});
@@ -0,0 +1,541 @@
+/**
+ * Docker Engine Module
+ *
+ * This module talks to the Docker Engine API over the local socket so the
+ * status monitor can read Lando container state without booting the Lando
+ * CLI. It lists containers carrying Lando's `io.lando.*` labels and
+ * subscribes to the `/events` stream so start/stop changes are seen as they
+ * happen.
+ *
+ * @module dockerEngine
+ */
+
+import * as http from 'http';
+import * as vscode from 'vscode';
+import { LandoContainer } from './landoStatusMonitor';
+import { DockerEngineState } from './landoAppState';
+import { isLandoCliError } from './landoCli';
+
+/**
+ * Label Lando puts on every container it manages
+ */
+export const LANDO_CONTAINER_LABEL = 'io.lando.container';
+
+/**
+ * Container event actions that can change an app's state
+ */
+export const DOCKER_STATE_EVENTS = ['create', 'start', 'restart', 'stop', 'die', 'kill', 'pause', 'unpause', 'destroy', 'oom'];
+
+/**
+ * Output patterns showing that the Lando CLI could not reach Docker
+ */
+const DOCKER_DOWN_PATTERNS: readonly RegExp[] = [
+  /cannot connect to the docker daemon/i,
+  /is the docker daemon running/i,
+  /could not (?:detect|find|connect to) (?:a running )?docker/i,
+  /docker (?:daemon|engine|desktop) (?:is )?not running/i,
+  /error during connect/i,
+  /(?:ENOENT|ECONNREFUSED)[^\n]*(?:docker\.sock|docker_engine)/i,
+];
+
+/**
+ * Container as returned by `GET /containers/json`
+ */
+export interface DockerContainerSummary {
+  Id: string;
+  Names?: string[];
+  State?: string;
+  Status?: string;
+  Labels?: Record<string, string>;
+}
+
+/**
+ * A Lando container event from the `/events` stream
+ */
+export interface DockerContainerEvent {
+  /** The event action (start, stop, die, ...) */
+  action: string;
+  /** The container ID */
+  containerId: string;
+  /** The Lando app (compose project) the container belongs to */
+  app: string;
+  /** The Lando service the container runs */
+  service: string;
+  /** Exit code for `die` events */
+  exitCode?: number;
+  /** When the event happened */
+  time: Date;
+}
+
+/**
+ * Resource usage of a container at one point in time
+ */
+export interface DockerContainerStats {
+  /** CPU usage as a percentage of one core (can exceed 100 on multi-core hosts) */
+  cpuPercent: number;
+  /** Memory in use, excluding reclaimable page cache, in bytes */
+  memoryBytes: number;
+  /** Memory available to the container (the host or Docker VM total when unlimited), in bytes */
+  memoryLimitBytes: number;
+  /** Bytes received over all networks since the container started */
+  networkRxBytes: number;
+  /** Bytes sent over all networks since the container started */
+  networkTxBytes: number;
+}
+
+/**
+ * CPU counters in a `GET /containers/{id}/stats` response
+ */
+interface DockerCpuStats {
+  cpu_usage?: { total_usage?: number; percpu_usage?: number[] };
+  system_cpu_usage?: number;
+  online_cpus?: number;
+}
+
+/**
+ * Response of `GET /containers/{id}/stats?stream=false`
+ */
+export interface DockerStatsResponse {
+  cpu_stats?: DockerCpuStats;
+  precpu_stats?: DockerCpuStats;
+  memory_stats?: { usage?: number; limit?: number; stats?: Record<string, number> };
+  networks?: Record<string, { rx_bytes?: number; tx_bytes?: number }>;
+}
+
+/**
+ * Kinds of errors raised by the Docker Engine client
+ */
+export type DockerEngineErrorKind = 'unreachable' | 'http' | 'parse' | 'timeout';
+
+/**
+ * Structured error raised by the Docker Engine client
+ */
+export class DockerEngineError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: DockerEngineErrorKind,
+    public readonly statusCode?: number
+  ) {
+    super(message);
+    this.name = 'DockerEngineError';
+  }
+}
+
+/**
+ * Checks whether an error is a DockerEngineError, optionally of a given kind
+ *
+ * @param error - The error to check
+ * @param kind - Optional error kind to match
+ * @returns True if the error matches
+ */
+export function isDockerEngineError(error: unknown, kind?: DockerEngineErrorKind): error is DockerEngineError {
+  return error instanceof DockerEngineError && (kind === undefined || error.kind === kind);
+}
+
+/**
+ * Works out what a status check failure says about the Docker engine
+ *
+ * @param error - Error from the Docker client or the Lando CLI
+ * @returns The engine state the error implies, or undefined if it says nothing about Docker
+ */
+export function getEngineStateForError(error: unknown): DockerEngineState | undefined {
+  if (isDockerEngineError(error)) {
+    if (error.kind === 'http' && (error.statusCode ?? 0) >= 500) {
+      // The socket answers but the engine isn't ready
+      return DockerEngineState.Starting;
+    }
+    return error.kind === 'unreachable' || error.kind === 'timeout' ? DockerEngineState.Unavailable : undefined;
+  }
+
+  if (isLandoCliError(error, 'exit') || isLandoCliError(error, 'timeout')) {
+    const output = `${error.message}\n${error.stdout}\n${error.stderr}`;
+    return DOCKER_DOWN_PATTERNS.some(pattern => pattern.test(output)) ? DockerEngineState.Unavailable : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Handlers for a Docker events subscription
+ */
+export interface DockerEventHandlers {
+  /** Called for every Lando container event */
+  onEvent: (event: DockerContainerEvent) => void;
+  /** Called once the stream is connected */
+  onOpen?: () => void;
+  /** Called when the stream ends without being disposed */
+  onClose?: (error?: Error) => void;
+}
+
+/**
+ * Options for creating a DockerEngineClient
+ */
+export interface DockerEngineClientOptions {
+  /** Socket path (unix socket or Windows named pipe); defaults to DOCKER_HOST or the platform default */
+  socketPath?: string;
+  /** Timeout for non-streaming requests in milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Gets the Docker Engine socket to use from DOCKER_HOST or the platform default
+ *
+ * @param env - Environment variables
+ * @param platform - The current platform
+ * @returns The socket path, or undefined if DOCKER_HOST points at a non-socket endpoint
+ */
+export function getDefaultDockerSocketPath(
+  env: NodeJS.ProcessEnv = process.env,
+  platform: NodeJS.Platform = process.platform
+): string | undefined {
+  const dockerHost = env.DOCKER_HOST?.trim();
+  if (dockerHost) {
+    if (dockerHost.startsWith('unix://')) {
+      return dockerHost.slice('unix://'.length);
+    }
+    if (dockerHost.startsWith('npipe://')) {
+      return dockerHost.slice('npipe://'.length).replace(/\//g, '\\');
+    }
+    // tcp:// and ssh:// endpoints are left to the CLI fallback
+    return undefined;
+  }
+  return platform === 'win32' ? '\\\\.\\pipe\\docker_engine' : '/var/run/docker.sock';
+}
+
+/**
+ * Converts a Docker container summary to the container shape used by the
+ * status monitor
+ *
+ * @param summary - The container from `GET /containers/json`
+ * @returns The container, or undefined if it isn't a Lando container
+ */
+export function toLandoContainer(summary: DockerContainerSummary): LandoContainer | undefined {
+  const labels = summary.Labels ?? {};
+  if (!labels[LANDO_CONTAINER_LABEL]) {
+    return undefined;
+  }
+
+  const app = labels['com.docker.compose.project'];
+  const service = labels['com.docker.compose.service'] ?? labels['io.lando.service-container'];
+  if (!app || !service) {
+    return undefined;
+  }
+
+  return {
+    app,
+    service,
+    running: summary.State === 'running',
+    state: summary.State,
+    status: summary.Status,
+    name: summary.Names?.[0]?.replace(/^\//, '') ?? summary.Id,
+  };
+}
+
+/**
+ * Parses a raw `/events` message into a Lando container event
+ *
+ * @param raw - The decoded JSON message
+ * @returns The event, or undefined if it isn't a Lando container event
+ */
+export function parseDockerEvent(raw: unknown): DockerContainerEvent | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const message = raw as {
+    Type?: string;
+    Action?: string;
+    status?: string;
+    id?: string;
+    time?: number;
+    Actor?: { ID?: string; Attributes?: Record<string, string> };
+  };
+  if (message.Type !== undefined && message.Type !== 'container') {
+    return undefined;
+  }
+
+  const attributes = message.Actor?.Attributes ?? {};
+  const app = attributes['com.docker.compose.project'];
+  const service = attributes['com.docker.compose.service'];
+  if (!attributes[LANDO_CONTAINER_LABEL] || !app || !service) {
+    return undefined;
+  }
+
+  // Actions like "exec_start: bash" carry a suffix after the colon
+  const action = (message.Action ?? message.status ?? '').split(':')[0].trim();
+  const exitCode = attributes.exitCode !== undefined ? Number(attributes.exitCode) : undefined;
+
+  return {
+    action,
+    containerId: message.Actor?.ID ?? message.id ?? '',
+    app,
+    service,
+    exitCode: Number.isNaN(exitCode) ? undefined : exitCode,
+    time: message.time ? new Date(message.time * 1000) : new Date(),
+  };
+}
+
+/**
+ * Computes a container's resource usage from a stats response, the way
+ * `docker stats` does
+ *
+ * @param response - The decoded stats response
+ * @returns The container's resource usage
+ */
+export function parseDockerStats(response: DockerStatsResponse): DockerContainerStats {
+  const cpu = response.cpu_stats;
+  const precpu = response.precpu_stats;
+  const cpuDelta = (cpu?.cpu_usage?.total_usage ?? 0) - (precpu?.cpu_usage?.total_usage ?? 0);
+  const systemDelta = (cpu?.system_cpu_usage ?? 0) - (precpu?.system_cpu_usage ?? 0);
+  const cpuCount = cpu?.online_cpus ?? cpu?.cpu_usage?.percpu_usage?.length ?? 1;
+  // The first sample of a container has no previous reading to compare against
+  const hasPrevious = !!precpu?.system_cpu_usage;
+  const cpuPercent = hasPrevious && cpuDelta > 0 && systemDelta > 0 ? (cpuDelta / systemDelta) * cpuCount * 100 : 0;
+
+  // Page cache can be reclaimed, so it isn't counted (cgroup v2, then v1 keys)
+  const memory = response.memory_stats;
+  const cache = memory?.stats?.inactive_file ?? memory?.stats?.total_inactive_file ?? 0;
+  const memoryBytes = Math.max((memory?.usage ?? 0) - cache, 0);
+
+  let networkRxBytes = 0;
+  let networkTxBytes = 0;
+  for (const network of Object.values(response.networks ?? {})) {
+    networkRxBytes += network.rx_bytes ?? 0;
+    networkTxBytes += network.tx_bytes ?? 0;
+  }
+
+  return { cpuPercent, memoryBytes, memoryLimitBytes: memory?.limit ?? 0, networkRxBytes, networkTxBytes };
+}
+
+/**
+ * Encodes Docker API filters for a query string
+ */
+function encodeFilters(filters: Record<string, string[]>): string {
+  return encodeURIComponent(JSON.stringify(filters));
+}
+
+/**
+ * Minimal Docker Engine API client for Lando containers.
+ *
+ * Features:
+ * - Lists Lando containers with one HTTP request over the local socket
+ * - Streams container events filtered on Lando's labels
+ * - Reports an unreachable socket as a distinct error so callers can fall back
+ *
+ * @example
+ * ```typescript
+ * const docker = new DockerEngineClient();
+ * const containers = await docker.listLandoContainers();
+ * const stream = docker.watchEvents({ onEvent: event => console.log(event.action, event.app) });
+ * ```
+ */
+export class DockerEngineClient {
+  private readonly socketPath: string | undefined;
+  private readonly timeout: number;
+
+  constructor(options?: DockerEngineClientOptions) {
+    this.socketPath = options?.socketPath || getDefaultDockerSocketPath();
+    this.timeout = options?.timeout ?? 5000;
+  }
+
+  /**
+   * Gets the socket this client connects to
+   */
+  public getSocketPath(): string | undefined {
+    return this.socketPath;
+  }
+
+  /**
+   * Checks whether the Docker Engine answers on the socket
+   *
+   * @returns True if the engine responded to `/_ping`
+   */
+  public async ping(): Promise<boolean> {
+    try {
+      await this.request('/_ping');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Lists all Lando containers, running or not
+   *
+   * @returns Promise resolving to the containers
+   * @throws DockerEngineError if the socket is unreachable or the request fails
+   */
+  public async listLandoContainers(): Promise<LandoContainer[]> {
+    const filters = encodeFilters({ label: [LANDO_CONTAINER_LABEL] });
+    const body = await this.request(`/containers/json?all=true&filters=${filters}`);
+
+    let summaries: DockerContainerSummary[];
+    try {
+      summaries = JSON.parse(body) as DockerContainerSummary[];
+    } catch (error) {
+      throw new DockerEngineError(`Invalid container list from Docker: ${error}`, 'parse');
+    }
+
+    return summaries
+      .map(toLandoContainer)
+      .filter((container): container is LandoContainer => container !== undefined);
+  }
+
+  /**
+   * Restarts a container
+   *
+   * @param container - The container name or ID
+   * @param stopTimeout - Seconds to wait for the container to stop before killing it
+   * @throws DockerEngineError if the socket is unreachable or the request fails
+   */
+  public async restartContainer(container: string, stopTimeout = 10): Promise<void> {
+    await this.request(
+      `/containers/${encodeURIComponent(container)}/restart?t=${stopTimeout}`,
+      'POST',
+      this.timeout + stopTimeout * 1000
+    );
+  }
+
+  /**
+   * Gets a container's resource usage. Docker samples CPU twice, so this
+   * takes about a second.
+   *
+   * @param container - The container name or ID
+   * @returns Promise resolving to the container's resource usage
+   * @throws DockerEngineError if the socket is unreachable or the request fails
+   */
+  public async getContainerStats(container: string): Promise<DockerContainerStats> {
+    const body = await this.request(
+      `/containers/${encodeURIComponent(container)}/stats?stream=false`,
+      'GET',
+      this.timeout + 2000
+    );
+    try {
+      return parseDockerStats(JSON.parse(body) as DockerStatsResponse);
+    } catch (error) {
+      throw new DockerEngineError(`Invalid stats from Docker: ${error}`, 'parse');
+    }
+  }
+
+  /**
+   * Subscribes to Lando container events
+   *
+   * @param handlers - Event, open and close handlers
+   * @returns Disposable that closes the stream
+   */
+  public watchEvents(handlers: DockerEventHandlers): vscode.Disposable {
+    let disposed = false;
+    let closed = false;
+    const close = (error?: Error) => {
+      if (!closed) {
+        closed = true;
+        if (!disposed) {
+          handlers.onClose?.(error);
+        }
+      }
+    };
+
+    if (!this.socketPath) {
+      setImmediate(() => close(new DockerEngineError('No Docker socket configured', 'unreachable')));
+      return new vscode.Disposable(() => { disposed = true; });
+    }
+
+    const filters = encodeFilters({
+      type: ['container'],
+      label: [LANDO_CONTAINER_LABEL],
+      event: DOCKER_STATE_EVENTS,
+    });
+
+    const request = http.get(
+      { socketPath: this.socketPath, path: `/events?filters=${filters}`, headers: { Host: 'docker' } },
+      response => {
+        if (response.statusCode !== 200) {
+          response.resume();
+          close(new DockerEngineError(`Docker events request failed with HTTP ${response.statusCode}`, 'http', response.statusCode));
+          return;
+        }
+
+        handlers.onOpen?.();
+        response.setEncoding('utf8');
+
+        // Events are newline-delimited JSON; chunks may split a message
+        let buffer = '';
+        response.on('data', (chunk: string) => {
+          buffer += chunk;
+          const lines = buffer.split('\n');
+          buffer = lines.pop() ?? '';
+          for (const line of lines) {
+            if (!line.trim()) {
+              continue;
+            }
+            try {
+              const event = parseDockerEvent(JSON.parse(line));
+              if (event && !disposed) {
+                handlers.onEvent(event);
+              }
+            } catch {
+              // Ignore malformed messages; the next poll or event will catch up
+            }
+          }
+        });
+        response.on('end', () => close());
+        response.on('error', error => close(error));
+      }
+    );
+    request.on('error', error => close(this.toError(error)));
+
+    return new vscode.Disposable(() => {
+      disposed = true;
+      request.destroy();
+    });
+  }
+
+  /**
+   * Performs a request and returns the response body
+   */
+  private request(path: string, method = 'GET', timeout = this.timeout): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.socketPath) {
+        reject(new DockerEngineError('No Docker socket configured', 'unreachable'));
+        return;
+      }
+
+      const request = http.request(
+        { socketPath: this.socketPath, path, method, headers: { Host: 'docker' }, timeout },
+        response => {
+          let body = '';
+          response.setEncoding('utf8');
+          response.on('data', (chunk: string) => { body += chunk; });
+          response.on('end', () => {
+            const statusCode = response.statusCode ?? 0;
+            if (statusCode < 200 || statusCode >= 300) {
+              reject(new DockerEngineError(
+                `Docker request ${path} failed with HTTP ${response.statusCode}: ${body.trim()}`,
+                'http',
+                response.statusCode
+              ));
+              return;
+            }
+            resolve(body);
+          });
+          response.on('error', error => reject(this.toError(error)));
+        }
+      );
+      request.on('timeout', () => {
+        request.destroy(new DockerEngineError(`Docker request ${path} timed out after ${timeout}ms`, 'timeout'));
+      });
+      request.on('error', error => reject(this.toError(error)));
+      request.end();
+    });
+  }
+
+  /**
+   * Wraps a socket error in a DockerEngineError
+   */
+  private toError(error: Error): DockerEngineError {
+    if (error instanceof DockerEngineError) {
+      return error;
+    }
+    return new DockerEngineError(`Docker socket ${this.socketPath} is not reachable: ${error.message}`, 'unreachable');
+  }
+}
@@ -18,6 +18,10 @@ import {
   isStateRunning,
   isStateBusy,
   getStateLabel,
+  DockerEngineState,
+  getEngineStateLabel,
+  getDownServices,
+  describeServiceState,
 } from "./landoStatusMonitor";
 import { LandoTreeDataProvider } from "./landoTreeDataProvider";
 import { CommandDependencies, convertAppToConfig } from "./types";
@@ -25,9 +29,25 @@ import { registerAllCommands, registerAllCommandsWithPhp } from "./commands";
 import { 
   setupDockerMode, 
   restoreOriginalPhpSettings, 
+  retargetPhpInterception,
   checkAndReloadPhpPlugins 
 } from "./php";
 import { checkLandoStatus, startLando } from "./helpers/lando";
+import { LandoCli } from "./landoCli";
+import { DockerEngineClient } from "./dockerEngine";
+import { LandoFeature, LANDO_FEATURE_REQUIREMENTS } from "./landoCapabilities";
+import { LandoInfoStore } from "./landoInfoStore";
+import { LandoProgressTracker } from "./landoProgress";
+import { LandoOperationQueue, getOperationLabel, linkCancellationTokens } from "./landoOperationQueue";
+import { LandoCrashNotifier } from "./landoCrashNotifier";
+import { SharedStatusCache } from "./sharedStatusCache";
+import { LandoActivityHistory } from "./landoActivityHistory";
+import { classifyLandoError, showLandoFailure } from "./landoErrors";
+import { LandoResourceSampler, describeResourceUsage, formatBytes } from "./landoResourceSampler";
+import { LandoIdleMonitor } from "./landoIdleMonitor";
+import { LandoGlobalConfig } from "./landoGlobalConfig";
+import { LandoEditorFollower } from "./landoEditorFollower";
+import { LandoAppPreferenceStore, resolveAutoStart } from "./landoAppPreferences";
 
 // Global output channel for logging
 let outputChannel: vscode.OutputChannel;
@@ -42,6 +62,36 @@ let landoStatusBarItem: vscode.StatusBarItem | undefined;
  */
 let landoAppsStatusBarItem: vscode.StatusBarItem | undefined;
 
+/**
+ * Global Lando CLI service instance
+ */
+let landoCli: LandoCli | undefined;
+
+/**
+ * Global lando info cache shared by the tree view and commands
+ */
+let landoInfoStore: LandoInfoStore | undefined;
+
+/**
+ * Global cache letting one window poll lando list for all windows
+ */
+let landoSharedStatusCache: SharedStatusCache | undefined;
+
+/**
+ * Global per-app history of state changes and operations
+ */
+let landoActivityHistory: LandoActivityHistory | undefined;
+
+/**
+ * Global queue serializing lifecycle operations per app
+ */
+let landoOperationQueue: LandoOperationQueue | undefined;
+
+/**
+ * Global Lando config (~/.lando/config.yml) instance
+ */
+let landoGlobalConfig: LandoGlobalConfig | undefined;
+
 /**
  * Global Lando app detector instance
  */
@@ -52,11 +102,31 @@ let landoAppDetector: LandoAppDetector | undefined;
  */
 let landoStatusMonitor: LandoStatusMonitor | undefined;
 
+/**
+ * Global resource usage sampler instance
+ */
+let landoResourceSampler: LandoResourceSampler | undefined;
+
+/**
+ * Global idle auto-stop monitor instance
+ */
+let landoIdleMonitor: LandoIdleMonitor | undefined;
+
 /**
  * Global Lando TreeView provider instance
  */
 let landoTreeDataProvider: LandoTreeDataProvider | undefined;
 
+/**
+ * Global editor follower instance (switches the active app to the focused editor's)
+ */
+let landoEditorFollower: LandoEditorFollower | undefined;
+
+/**
+ * Global store of the selected app and per-app preferences
+ */
+let landoAppPreferences: LandoAppPreferenceStore | undefined;
+
 /**
  * Currently selected/active Lando app
  */
@@ -82,8 +152,13 @@ function updateLandoStatusBarItem(editor: vscode.TextEditor | undefined) {
 
 /**
  * Sets the active Lando app and updates context for menu visibility
+ *
+ * @param app - The app to make active
+ * @param options - `remember: false` for automatic switches (e.g., following
+ *   the editor) that shouldn't replace the user's saved selection
  */
-function setActiveLandoApp(app: LandoApp | undefined): void {
+function setActiveLandoApp(app: LandoApp | undefined, options?: { remember?: boolean }): void {
+  const previousApp = activeLandoApp;
   activeLandoApp = app;
   
   // Set context for 'when' clauses in menus
@@ -93,11 +168,36 @@ function setActiveLandoApp(app: LandoApp | undefined): void {
   
   if (app) {
     outputChannel.appendLine(`Active Lando app set to: ${app.name} (${app.configPath})`);
+
+    // Remember the selection for the next session
+    if (options?.remember !== false) {
+      landoAppPreferences?.setActiveApp(app).catch(error => {
+        outputChannel.appendLine(`Error saving the active Lando app: ${error}`);
+      });
+    }
+
+    // Point PHP interception (when enabled) at the new app's container
+    if (previousApp && previousApp.configPath !== app.configPath) {
+      retargetPhpInterception(app.rootPath, convertAppToConfig(app, landoAppPreferences?.get(app)), outputChannel).catch(error => {
+        outputChannel.appendLine(`Error re-pointing PHP interception: ${error}`);
+      });
+    }
   } else {
     outputChannel.appendLine('No active Lando app');
   }
 }
 
+/**
+ * Gets the app to make active when none is: the app selected in the last
+ * session if it still exists, otherwise the primary app
+ */
+function getInitialActiveApp(): LandoApp | undefined {
+  if (!landoAppDetector) {
+    return undefined;
+  }
+  return landoAppPreferences?.getActiveApp(landoAppDetector.getApps()) ?? landoAppDetector.getPrimaryApp();
+}
+
 /**
  * Gets the currently active Lando app
  */
@@ -139,12 +239,34 @@ function updateLandoAppsStatusBar(): void {
     return;
   }
 
+  // Docker itself being down or starting takes precedence over app state
+  const engineState = landoStatusMonitor?.getEngineState() ?? DockerEngineState.Unknown;
+  vscode.commands.executeCommand('setContext', 'lando:dockerAvailable', engineState !== DockerEngineState.Unavailable);
+  if (engineState === DockerEngineState.Unavailable || engineState === DockerEngineState.Starting) {
+    const starting = engineState === DockerEngineState.Starting;
+    landoAppsStatusBarItem.text = starting ? '$(sync~spin) Docker starting' : '$(debug-disconnect) Docker not running';
+    landoAppsStatusBarItem.backgroundColor = new vscode.ThemeColor(
+      starting ? 'statusBarItem.warningBackground' : 'statusBarItem.errorBackground'
+    );
+    landoAppsStatusBarItem.tooltip = starting
+      ? 'Docker is starting. Lando commands will be available once it is ready.'
+      : 'Docker is not running. Start Docker to use Lando; status will update automatically once it is back.';
+    if (activeLandoApp) {
+      landoAppsStatusBarItem.tooltip += `\n\nActive app: ${activeLandoApp.name}`;
+    }
+    landoAppsStatusBarItem.show();
+    return;
+  }
+
   if (activeLandoApp) {
     // Get status from the status monitor
     const status = landoStatusMonitor?.getStatus(activeLandoApp);
     const appState = status?.state ?? LandoAppState.Unknown;
     const isRunning = isStateRunning(appState);
     const isBusy = isStateBusy(appState);
+    const operations = landoOperationQueue?.getOperations(activeLandoApp) ?? [];
+    const queuedCount = operations.filter(operation => operation.status === 'queued').length;
+    const downServices = status ? getDownServices(status) : [];
     
     // Set context for 'when' clauses in menus
     vscode.commands.executeCommand('setContext', 'lando:appRunning', isRunning);
@@ -153,7 +275,9 @@ function updateLandoAppsStatusBar(): void {
     
     // Use different icons for different states
     let icon = '$(debug-stop)';
-    if (isRunning) {
+    if (downServices.length > 0) {
+      icon = '$(warning)';
+    } else if (isRunning) {
       icon = '$(debug-start)';
     } else if (isBusy) {
       icon = '$(sync~spin)';
@@ -162,9 +286,16 @@ function updateLandoAppsStatusBar(): void {
     const statusText = getStateLabel(appState);
     
     landoAppsStatusBarItem.text = `${icon} ${activeLandoApp.name}`;
+    if (downServices.length > 0) {
+      const names = downServices.map(service => `${service.name} ${service.state}`);
+      landoAppsStatusBarItem.text += ` (${names.join(', ')})`;
+    }
+    if (queuedCount > 0) {
+      landoAppsStatusBarItem.text += ` $(clock) ${queuedCount}`;
+    }
     
     // Set color based on status
-    landoAppsStatusBarItem.backgroundColor = isRunning 
+    landoAppsStatusBarItem.backgroundColor = isRunning && downServices.length === 0
       ? undefined 
       : isBusy
         ? new vscode.ThemeColor('statusBarItem.prominentBackground')
@@ -177,6 +308,30 @@ function updateLandoAppsStatusBar(): void {
       tooltip += ` (${status.runningContainers}/${status.totalContainers} containers)`;
     }
     tooltip += `\nPath: ${activeLandoApp.rootPath}`;
+    if (landoEditorFollower?.getPinnedApp()) {
+      tooltip += `\nPinned (not following the focused editor)`;
+    } else if (landoEditorFollower?.isFollowing()) {
+      tooltip += `\nFollowing the focused editor`;
+    }
+    if (downServices.length > 0) {
+      tooltip += `\n\nServices not running:`;
+      for (const service of downServices) {
+        tooltip += `\n  ${describeServiceState(service)}`;
+      }
+    }
+    const usage = isRunning ? landoResourceSampler?.getAppUsage(activeLandoApp) : undefined;
+    if (usage) {
+      tooltip += `\n\nResources:`;
+      for (const line of describeResourceUsage(usage.total)) {
+        tooltip += `\n  ${line}`;
+      }
+    }
+    if (operations.length > 0) {
+      tooltip += `\n\nOperations:`;
+      for (const operation of operations) {
+        tooltip += `\n  ${getOperationLabel(operation)} (${operation.status})`;
+      }
+    }
     if (appCount > 1) {
       tooltip += `\n\n${appCount} apps detected - Click to switch`;
     } else {
@@ -196,6 +351,99 @@ function updateLandoAppsStatusBar(): void {
   landoAppsStatusBarItem.show();
 }
 
+/**
+ * Gets the configured Lando executable
+ */
+function getLandoExecutablePath(): string {
+  const executablePath = vscode.workspace.getConfiguration("lando").get<string>("executablePath", "lando");
+  return executablePath.trim() || "lando";
+}
+
+/**
+ * Creates the Docker Engine client for event-driven status, unless disabled
+ */
+function createDockerClient(): DockerEngineClient | undefined {
+  const config = vscode.workspace.getConfiguration("lando");
+  if (!config.get<boolean>("statusMonitoring.dockerEvents", true)) {
+    return undefined;
+  }
+  const socketPath = config.get<string>("statusMonitoring.dockerSocket", "").trim();
+  return new DockerEngineClient({ socketPath: socketPath || undefined });
+}
+
+/**
+ * Creates the resource usage sampler from the settings
+ */
+function createResourceSampler(): LandoResourceSampler {
+  const sampler = new LandoResourceSampler(landoStatusMonitor!, {
+    dockerClient: createDockerClient(),
+    outputChannel,
+  });
+  configureResourceSampler(sampler);
+  return sampler;
+}
+
+/**
+ * Applies the resource usage settings to the sampler, starting or stopping it
+ */
+function configureResourceSampler(sampler: LandoResourceSampler): void {
+  const config = vscode.workspace.getConfiguration("lando");
+  sampler.configure({
+    interval: Math.max(config.get<number>("resourceUsage.interval", 15), 5) * 1000,
+    memoryWarningThreshold: config.get<number>("resourceUsage.memoryWarningThreshold", 80),
+  });
+  if (config.get<boolean>("resourceUsage.enabled", true)) {
+    sampler.start();
+  } else {
+    sampler.stop();
+  }
+}
+
+/**
+ * Creates the cross-window status cache and joins the poller election, unless disabled
+ */
+function createSharedStatusCache(context: vscode.ExtensionContext): SharedStatusCache | undefined {
+  if (!vscode.workspace.getConfiguration("lando").get<boolean>("statusMonitoring.shareAcrossWindows", true)) {
+    return undefined;
+  }
+  const cache = new SharedStatusCache({ directory: context.globalStorageUri.fsPath, outputChannel });
+  cache.start();
+  return cache;
+}
+
+/**
+ * Detects what the installed Lando supports and explains any disabled features
+ */
+async function detectLandoCapabilities(): Promise<void> {
+  if (!landoCli) {
+    return;
+  }
+
+  const capabilities = await landoCli.detectCapabilities();
+
+  if (!capabilities.available) {
+    vscode.window.showErrorMessage(
+      `Could not run Lando (${landoCli.getCommand()}). Lando features are disabled until it can be run; retrying in the background. Check that the "lando.executablePath" setting points to a working Lando executable.`,
+      "Open Settings"
+    ).then(action => {
+      if (action === "Open Settings") {
+        vscode.commands.executeCommand("workbench.action.openSettings", "lando.executablePath");
+      }
+    });
+    return;
+  }
+
+  const unsupported = (Object.keys(capabilities.features) as LandoFeature[])
+    .filter(feature => !capabilities.features[feature]);
+  if (unsupported.length > 0) {
+    const descriptions = unsupported.map(feature => `"${LANDO_FEATURE_REQUIREMENTS[feature].description}"`);
+    const installed = capabilities.version ? `Lando ${capabilities.version.raw}` : "The installed Lando";
+    vscode.window.showWarningMessage(
+      `${installed} does not support ${descriptions.join(", ")}. Features that depend on it are disabled; please upgrade Lando.`
+    );
+  }
+}
+
 /**
  * Creates the command dependencies object
  */
@@ -206,6 +454,15 @@ function createCommandDependencies(): CommandDependencies {
     setActiveApp: setActiveLandoApp,
     statusMonitor: landoStatusMonitor!,
     appDetector: landoAppDetector!,
+    landoCli: landoCli!,
+    infoStore: landoInfoStore!,
+    operationQueue: landoOperationQueue!,
+    activityHistory: landoActivityHistory!,
+    resourceSampler: landoResourceSampler!,
+    idleMonitor: landoIdleMonitor!,
+    globalConfig: landoGlobalConfig!,
+    editorFollower: landoEditorFollower!,
+    appPreferences: landoAppPreferences!,
   };
 }
 
@@ -221,11 +478,20 @@ async function checkAndStartLando(
     return;
   }
   
-  const landoConfig = convertAppToConfig(activeApp);
+  const preferences = landoAppPreferences?.get(activeApp) ?? {};
+  const landoConfig = convertAppToConfig(activeApp, preferences);
   
   try {
+    // Nothing can start while Docker is down
+    if (landoStatusMonitor && !landoStatusMonitor.isEngineAvailable()) {
+      outputChannel.appendLine(
+        `Docker is ${getEngineStateLabel(landoStatusMonitor.getEngineState()).toLowerCase()} - skipping auto-start`
+      );
+      return;
+    }
+
     // Check if Lando app is running
-    const isRunning = await checkLandoStatus(workspaceFolder, landoConfig.appName, outputChannel);
+    const isRunning = await checkLandoStatus(landoCli!, workspaceFolder, landoConfig.appName, outputChannel);
     
     if (isRunning) {
       outputChannel.appendLine("Lando app is running");
@@ -236,19 +502,57 @@ async function checkAndStartLando(
       
       // Check and reload PHP plugins for already running Lando
       await checkAndReloadPhpPlugins(outputChannel);
+    } else if (!resolveAutoStart(preferences, vscode.workspace.getConfiguration("lando"))) {
+      outputChannel.appendLine("Lando app is not running - auto-start is off");
     } else {
       outputChannel.appendLine("Lando app is not running - starting...");
       
-      // Show notification that Lando is starting
-      const notification = vscode.window.showInformationMessage(
-        `Starting Lando (${landoConfig.appName})... This may take a few minutes.`,
-        "Cancel"
+      // Start Lando through the operation queue, behind a cancellable progress
+      // notification (the tracker reports stages and records which step fails)
+      let tracker: LandoProgressTracker | undefined;
+      let cancelled = false;
+      const startedAt = Date.now();
+      const landoStarted = await landoOperationQueue!.enqueue(activeApp, "start", async queueToken =>
+        vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: `Starting Lando (${landoConfig.appName})...`,
+            cancellable: true
+          },
+          async (progress, progressToken) => {
+            tracker = new LandoProgressTracker(progress, {
+              command: "start",
+              appName: activeApp.cleanName,
+              services: activeApp.services,
+            });
+            const source = linkCancellationTokens(progressToken, queueToken);
+            try {
+              const result = await startLando(landoCli!, workspaceFolder, outputChannel, source.token, tracker);
+              cancelled = !result && source.token.isCancellationRequested;
+              return result;
+            } finally {
+              source.dispose();
+            }
+          }
+        )
       );
-
-      // Start Lando
-      const landoStarted = await startLando(workspaceFolder, outputChannel, notification);
       
-      if (landoStarted) {
+      const failed = landoStarted === false && !cancelled;
+      const classification = failed && tracker ? classifyLandoError(tracker.getOutput()) : undefined;
+      if (landoStarted !== undefined) {
+        landoActivityHistory?.recordOperation({
+          app: activeApp,
+          operation: "start",
+          startedAt,
+          outcome: landoStarted ? "succeeded" : cancelled ? "cancelled" : "failed",
+          exitCode: tracker?.getExitCode(),
+          message: failed ? classification?.message ?? tracker?.getFailureSummary() : undefined,
+        });
+      }
+
+      if (landoStarted === undefined) {
+        outputChannel.appendLine("Lando start was cancelled while queued or handled by another request");
+      } else if (landoStarted) {
         outputChannel.appendLine("Lando started successfully");
         await setupDockerMode(context, workspaceFolder, landoConfig, outputChannel);
         vscode.window.showInformationMessage(
@@ -257,10 +561,20 @@ async function checkAndStartLando(
         
         // Check and reload PHP plugins after successful Lando startup
         await checkAndReloadPhpPlugins(outputChannel);
+      } else if (cancelled) {
+        outputChannel.appendLine("Lando start cancelled");
       } else {
         outputChannel.appendLine("Failed to start Lando");
-        vscode.window.showErrorMessage(
-          `Failed to start Lando (${landoConfig.appName})`
+        const prefix = `Failed to start Lando (${landoConfig.appName})`;
+        showLandoFailure(
+          classification ? `${prefix}: ${classification.message}` : tracker?.describeFailure(prefix) ?? prefix,
+          classification,
+          {
+            app: activeApp,
+            retryCommand: "extension.startLandoApp",
+            runningApps: landoAppDetector?.getApps().filter(app => landoStatusMonitor?.isRunning(app)),
+            outputChannel,
+          }
         );
       }
     }
@@ -289,16 +603,73 @@ export async function activate(context: vscode.ExtensionContext) {
   // Activate shell decorations for Landofile files
   activateShellDecorations(context);
 
-  // Activate Landofile language features and get schema provider
-  const schemaProvider = activateLandofileLanguageFeatures(context);
+  // Activate Landofile language features and get schema and validation providers
+  const { schemaProvider, validationProvider } = activateLandofileLanguageFeatures(context);
+
+  // Initialize the shared Lando CLI service
+  landoCli = new LandoCli({ outputChannel, command: getLandoExecutablePath() });
+  context.subscriptions.push(landoCli);
+  // Detect in the background so a slow or cold Lando doesn't hold up activation;
+  // features are assumed supported until detection says otherwise
+  detectLandoCapabilities();
+
+  // Re-detect capabilities when the executable changes
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration("lando.executablePath") && landoCli) {
+        landoCli.setCommand(getLandoExecutablePath());
+        detectLandoCapabilities();
+      }
+    })
+  );
+
+  // Initialize the lifecycle operation queue
+  landoOperationQueue = new LandoOperationQueue({ outputChannel });
+  context.subscriptions.push(landoOperationQueue);
+  context.subscriptions.push(
+    landoOperationQueue.onDidChangeOperations(operations => {
+      vscode.commands.executeCommand('setContext', 'lando:hasOperations', operations.length > 0);
+      updateLandoAppsStatusBar();
+    })
+  );
+
+  // Read the user's global Lando config for Landofile names, domain and proxy ports
+  landoGlobalConfig = new LandoGlobalConfig({ outputChannel });
+  await landoGlobalConfig.load();
+  landoGlobalConfig.activate(context);
 
   // Initialize the Lando app detector
-  landoAppDetector = new LandoAppDetector();
+  landoAppDetector = new LandoAppDetector(landoGlobalConfig.getLandofileNames());
   await landoAppDetector.activate(context, outputChannel);
 
+  // Flag unresolved environment variables in Landofiles
+  validationProvider.setAppDetector(landoAppDetector);
+
   // Initialize the Lando status monitor
-  landoStatusMonitor = new LandoStatusMonitor();
+  landoSharedStatusCache = createSharedStatusCache(context);
+  landoStatusMonitor = new LandoStatusMonitor({
+    landoCli,
+    dockerClient: createDockerClient(),
+    sharedCache: landoSharedStatusCache,
+  });
   await landoStatusMonitor.activate(context, outputChannel);
+
+  // Reconnect to Docker when the event settings change
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (
+        e.affectsConfiguration("lando.statusMonitoring.dockerEvents") ||
+        e.affectsConfiguration("lando.statusMonitoring.dockerSocket")
+      ) {
+        landoStatusMonitor?.setDockerClient(createDockerClient());
+      }
+      if (e.affectsConfiguration("lando.statusMonitoring.shareAcrossWindows")) {
+        landoSharedStatusCache?.dispose();
+        landoSharedStatusCache = createSharedStatusCache(context);
+        landoStatusMonitor?.setSharedCache(landoSharedStatusCache);
+      }
+    })
+  );
   
   // Set initial apps for the status monitor
   landoStatusMonitor.setApps(landoAppDetector.getApps());
@@ -312,9 +683,104 @@ export async function activate(context: vscode.ExtensionContext) {
     updateLandoAppsStatusBar();
   });
 
+  // Tell the user when Docker goes away or comes back
+  landoStatusMonitor.onDidChangeEngineState(engineState => {
+    updateLandoAppsStatusBar();
+    outputChannel.appendLine(`Docker: ${getEngineStateLabel(engineState)}`);
+    if (engineState === DockerEngineState.Unavailable) {
+      vscode.window.showWarningMessage('Docker is not running. Lando commands are disabled until Docker starts.');
+    }
+  });
+
+  // Keep a timeline of state changes, operations and crashes per app
+  landoActivityHistory = new LandoActivityHistory(context.workspaceState, { outputChannel });
+  landoActivityHistory.attach(landoStatusMonitor);
+  context.subscriptions.push(landoActivityHistory);
+
+  // Remember the selected app and per-app preferences across sessions
+  landoAppPreferences = new LandoAppPreferenceStore(context.workspaceState, { outputChannel });
+  context.subscriptions.push(landoAppPreferences);
+  landoAppPreferences.onDidChange(configPath => {
+    // A new PHP service for the active app moves PHP interception
+    if (activeLandoApp?.configPath === configPath) {
+      retargetPhpInterception(
+        activeLandoApp.rootPath,
+        convertAppToConfig(activeLandoApp, landoAppPreferences!.get(activeLandoApp)),
+        outputChannel
+      ).catch(error => {
+        outputChannel.appendLine(`Error re-pointing PHP interception: ${error}`);
+      });
+    }
+  });
+
+  // Tell the user when a service exits while its app should be running
+  context.subscriptions.push(
+    new LandoCrashNotifier(landoStatusMonitor, {
+      landoCli,
+      operationQueue: landoOperationQueue,
+      appPreferences: landoAppPreferences,
+      outputChannel,
+    })
+  );
+
+  // Sample CPU, memory and network usage of running apps
+  landoResourceSampler = createResourceSampler();
+  context.subscriptions.push(landoResourceSampler);
+  landoResourceSampler.onDidUpdateUsage(() => {
+    updateLandoAppsStatusBar();
+  });
+  landoResourceSampler.onDidDetectMemoryPressure(async event => {
+    const heaviest = event.apps[0];
+    const selection = await vscode.window.showWarningMessage(
+      `Lando apps are using ${formatBytes(event.usedBytes)} of the ${formatBytes(event.availableBytes)} of memory available to Docker` +
+        (heaviest ? ` (${heaviest.app.name}: ${formatBytes(heaviest.total.memoryBytes)})` : '') + '.',
+      'Stop Heaviest Apps'
+    );
+    if (selection) {
+      await vscode.commands.executeCommand('extension.stopHeaviestLandoApps');
+    }
+  });
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration("lando.resourceUsage")) {
+        configureResourceSampler(landoResourceSampler!);
+      }
+    })
+  );
+
+  // Offer to stop apps that haven't been used for a while
+  landoIdleMonitor = new LandoIdleMonitor(landoStatusMonitor, landoAppDetector, {
+    operationQueue: landoOperationQueue,
+    outputChannel,
+  });
+  landoIdleMonitor.activate();
+  context.subscriptions.push(landoIdleMonitor);
+
+  // Initialize the shared lando info cache (before the tree so stale info
+  // is invalidated before the tree refreshes)
+  landoInfoStore = new LandoInfoStore(landoCli, { domain: landoGlobalConfig.getDomain(), outputChannel });
+  landoInfoStore.activate(context, landoAppDetector, landoStatusMonitor);
+
+  // Apply changes to the global Lando config without a reload
+  landoGlobalConfig.onDidChange(values => {
+    landoInfoStore?.setDomain(values.domain);
+    landoAppDetector?.setLandofileNames(values.landofileNames);
+  });
+
   // Initialize the Lando TreeView provider
   landoTreeDataProvider = new LandoTreeDataProvider();
-  landoTreeDataProvider.activate(context, landoAppDetector, landoStatusMonitor, outputChannel);
+  landoTreeDataProvider.activate(
+    context,
+    landoAppDetector,
+    landoStatusMonitor,
+    landoCli,
+    landoInfoStore,
+    landoOperationQueue,
+    outputChannel
+  );
+
+  context.subscriptions.push(landoTreeDataProvider.setResourceSampler(landoResourceSampler));
+  landoTreeDataProvider.setIdleMonitor(landoIdleMonitor);
 
   // Set up status bar for detected apps
   setupLandoAppsStatusBar(context);
@@ -335,9 +801,9 @@ export async function activate(context: vscode.ExtensionContext) {
       outputChannel.appendLine(`Lando apps removed: ${names}`);
     }
 
-    // Auto-select the first app if none is selected
+    // Auto-select the last session's app (or the first app) if none is selected
     if (!activeLandoApp && event.apps.length > 0) {
-      setActiveLandoApp(landoAppDetector!.getPrimaryApp());
+      setActiveLandoApp(getInitialActiveApp());
     }
     
     // Clear active app if it was removed
@@ -346,12 +812,21 @@ export async function activate(context: vscode.ExtensionContext) {
     }
   });
 
-  // Set the initial active app
-  const primaryApp = landoAppDetector.getPrimaryApp();
-  if (primaryApp) {
-    setActiveLandoApp(primaryApp);
+  // Set the initial active app, restoring the last session's selection
+  const initialApp = getInitialActiveApp();
+  if (initialApp) {
+    setActiveLandoApp(initialApp);
   }
 
+  // Optionally switch the active app to the one containing the focused editor
+  landoEditorFollower = new LandoEditorFollower(landoAppDetector, {
+    getActiveApp: getActiveLandoApp,
+    setActiveApp: setActiveLandoApp,
+    outputChannel,
+  });
+  landoEditorFollower.activate();
+  context.subscriptions.push(landoEditorFollower);
+
   // Get the workspace folder path (for backward compatibility)
   const workspaceFolder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
 
@@ -384,7 +859,7 @@ export async function activate(context: vscode.ExtensionContext) {
   }
 
   // Convert LandoApp to LandoConfig for backward compatibility
-  const landoConfig = convertAppToConfig(activeApp);
+  const landoConfig = convertAppToConfig(activeApp, landoAppPreferences.get(activeApp));
   
   outputChannel.appendLine(`Active Lando app: ${landoConfig.appName}`);
   outputChannel.appendLine(`Container name: ${landoConfig.phpContainer}`);
@@ -416,11 +891,35 @@ export async function deactivate(): Promise<void> {
     await restoreOriginalPhpSettings(outputChannel);
   }
   
+  // Cancel queued and running operations
+  if (landoOperationQueue) {
+    landoOperationQueue.dispose();
+    landoOperationQueue = undefined;
+  }
+  
+  // Dispose of the info store
+  if (landoInfoStore) {
+    landoInfoStore.dispose();
+    landoInfoStore = undefined;
+  }
+  
   // Dispose of the status monitor
   if (landoStatusMonitor) {
     landoStatusMonitor.dispose();
     landoStatusMonitor = undefined;
   }
+
+  // Hand status polling over to another window
+  if (landoSharedStatusCache) {
+    landoSharedStatusCache.dispose();
+    landoSharedStatusCache = undefined;
+  }
+  
+  // Stop following the focused editor
+  if (landoEditorFollower) {
+    landoEditorFollower.dispose();
+    landoEditorFollower = undefined;
+  }
   
   // Dispose of the app detector
   if (landoAppDetector) {
@@ -428,6 +927,12 @@ export async function deactivate(): Promise<void> {
     landoAppDetector = undefined;
   }
   
+  // Kill any Lando processes still running
+  if (landoCli) {
+    landoCli.dispose();
+    landoCli = undefined;
+  }
+  
   // Clear active app reference
   activeLandoApp = undefined;
   
@@ -7,7 +7,7 @@
 
 import * as assert from 'assert';
 import { suite, test } from 'mocha';
-import { LANDO_CORE_COMMANDS } from './lando';
+import { LANDO_CORE_COMMANDS, getLandoEventShellCommands, getShellKind, parseLandoToolingOutput, quoteShellArgument } from './lando';
 
 suite('Lando Helper', () => {
   suite('LANDO_CORE_COMMANDS', () => {
@@ -61,4 +61,80 @@ suite('Lando Helper', () => {
       assert.strictEqual(LANDO_CORE_COMMANDS.size, 18);
     });
   });
+
+  suite('parseLandoToolingOutput', () => {
+    const helpOutput = [
+      'Usage: lando <command> [args] [options]',
+      '',
+      'Commands:',
+      '  lando composer          Runs composer commands',
+      '  lando db-import <file>  Imports a dump file into a database service',
+      '  lando drush [alias]     Runs drush commands',
+      '  lando start             Starts your app',
+      '',
+      'Options:',
+      '  --help  Shows lando or delegated command help if applicable',
+    ].join('\n');
+
+    test('should extract tooling commands and skip core commands', () => {
+      const tooling = parseLandoToolingOutput(helpOutput);
+      assert.deepStrictEqual(tooling.map(t => t.name), ['composer', 'drush']);
+    });
+
+    test('should capture descriptions and mark tooling as not custom', () => {
+      const [composer] = parseLandoToolingOutput(helpOutput);
+      assert.strictEqual(composer.description, 'Runs composer commands');
+      assert.strictEqual(composer.isCustom, false);
+    });
+
+    test('should return empty array without a Commands section', () => {
+      assert.deepStrictEqual(parseLandoToolingOutput('lando: command not found'), []);
+    });
+  });
+
+  suite('getLandoEventShellCommands', () => {
+    const landoCli = { getShellCommand: (args: string[]) => ['lando', ...args].join(' ') };
+
+    const event = {
+      name: 'post-start',
+      commands: [
+        { service: 'appserver', cmd: 'composer install' },
+        { service: 'database', cmd: 'mysql -e "SELECT 1"' },
+      ],
+    };
+
+    test('should run each command in its service and stop at the first failure', () => {
+      const commands = getLandoEventShellCommands(landoCli, event);
+
+      assert.deepStrictEqual(commands, [
+        `lando ssh -s appserver -c 'composer install' && lando ssh -s database -c 'mysql -e "SELECT 1"'`,
+      ]);
+    });
+
+    test('should quote commands for cmd.exe', () => {
+      assert.deepStrictEqual(getLandoEventShellCommands(landoCli, event, 'cmd'), [
+        `lando ssh -s appserver -c "composer install" && lando ssh -s database -c "mysql -e \\"SELECT 1\\""`,
+      ]);
+    });
+
+    test('should send one command per line to PowerShell', () => {
+      assert.deepStrictEqual(getLandoEventShellCommands(landoCli, event, 'powershell'), [
+        `lando ssh -s appserver -c 'composer install'`,
+        `lando ssh -s database -c 'mysql -e "SELECT 1"'`,
+      ]);
+    });
+
+    test('should escape single quotes in commands', () => {
+      assert.strictEqual(quoteShellArgument("echo 'done'"), `'echo '\\''done'\\'''`);
+      assert.strictEqual(quoteShellArgument("echo 'done'", 'powershell'), `'echo ''done'''`);
+    });
+
+    test('should recognize Windows shells', () => {
+      assert.strictEqual(getShellKind('C:\\Windows\\System32\\cmd.exe'), 'cmd');
+      assert.strictEqual(getShellKind('C:\\Windows\\System32\\WindowsPowerShell\\v1.0\\powershell.exe'), 'powershell');
+      assert.strictEqual(getShellKind('/usr/local/bin/pwsh'), 'powershell');
+      assert.strictEqual(getShellKind('/bin/zsh'), 'posix');
+      assert.strictEqual(getShellKind(undefined), 'posix');
+    });
+  });
 });
@@ -8,8 +8,11 @@
  */
 
 import * as vscode from "vscode";
-import * as childProcess from "child_process";
-import { LandoApp, LandoTooling } from "../landoAppDetector";
+import { LandoApp, LandoEvent, LandoTooling } from "../landoAppDetector";
+import { LandoCli, LandoCliError } from "../landoCli";
+import { LandoFeature } from "../landoCapabilities";
+import { LandoProgressTracker } from "../landoProgress";
+import { LandoInfoStore } from "../landoInfoStore";
 import { LandoServiceUrl, LandoService } from "../types";
 
 /**
@@ -37,36 +40,62 @@ export const LANDO_CORE_COMMANDS = new Set([
   'db-import',
 ]);
 
+/**
+ * Checks that the installed Lando supports a feature, explaining to the user
+ * why the feature is unavailable if it does not
+ * @param landoCli - The Lando CLI service
+ * @param feature - The required feature
+ * @returns True if the feature can be used
+ */
+export function checkLandoFeature(landoCli: LandoCli, feature: LandoFeature): boolean {
+  const reason = landoCli.getUnsupportedReason(feature);
+  if (reason) {
+    vscode.window.showWarningMessage(reason);
+    return false;
+  }
+  return true;
+}
+
 /**
  * Checks if Lando app is running
+ * @param landoCli - The Lando CLI service
  * @param workspaceFolder - The workspace folder path
  * @param appName - The Lando app name
  * @param outputChannel - Output channel for logging
  * @returns Promise resolving to true if running, false otherwise
  */
 export async function checkLandoStatus(
+  landoCli: LandoCli,
   workspaceFolder: string,
   appName: string,
   outputChannel: vscode.OutputChannel
 ): Promise<boolean> {
   try {
     const cleanAppName = appName.replace(/[-_]/g, "").toLowerCase();
-    const command = `lando list --format=json --filter='app=${cleanAppName}'`;
+    const args = ["list", "--format=json"];
+    landoCli.requireFeature("listJson", args);
+
+    // Older Lando versions can't filter, so filter the full list instead
+    const canFilter = landoCli.supports("listFilter");
+    if (canFilter) {
+      args.push(`--filter=app=${cleanAppName}`);
+    }
     
-    outputChannel.appendLine(`Checking Lando status: ${command}`);
-    const result = childProcess.execSync(command, {
+    outputChannel.appendLine(`Checking Lando status: lando ${args.join(" ")}`);
+    const allContainers = await landoCli.runJson<Array<{ app?: string; running: boolean }>>(args, {
       cwd: workspaceFolder,
-      encoding: "utf8",
       timeout: 10000,
     });
+    const containers = canFilter
+      ? allContainers
+      : allContainers.filter(container => container.app?.replace(/[-_]/g, "").toLowerCase() === cleanAppName);
 
-    const containers = JSON.parse(result);
     outputChannel.appendLine(
       `Lando containers: ${JSON.stringify(containers, null, 2)}`
     );
 
     // Check if any containers are running
-    return containers.some((container: { running: boolean }) => container.running === true);
+    return containers.some(container => container.running === true);
   } catch (error: unknown) {
     outputChannel.appendLine(`Error checking Lando status: ${error}`);
     return false;
@@ -75,245 +104,268 @@ export async function checkLandoStatus(
 
 /**
  * Generic helper to run a Lando command
+ * @param landoCli - The Lando CLI service
  * @param commandName - The name of the command for logging (e.g., "start", "stop")
  * @param args - The command arguments to pass to lando
  * @param outputChannel - Output channel for logging
  * @param workspaceFolder - Optional workspace folder path (if command is app-specific)
- * @param notification - Optional notification promise for cancellation
+ * @param token - Optional token for cancelling the command
+ * @param tracker - Optional tracker fed with the command output to report progress stages
  * @returns Promise resolving to true if command succeeded, false otherwise
  */
 export async function runLandoCommand(
+  landoCli: LandoCli,
   commandName: string,
   args: string[],
   outputChannel: vscode.OutputChannel,
   workspaceFolder?: string,
-  notification?: Thenable<string | undefined>
+  token?: vscode.CancellationToken,
+  tracker?: LandoProgressTracker
 ): Promise<boolean> {
-  return new Promise((resolve) => {
-    outputChannel.appendLine(`${commandName.charAt(0).toUpperCase() + commandName.slice(1)} Lando...`);
-    
-    const spawnOptions: childProcess.SpawnOptions = {
-      stdio: "pipe",
-    };
-    
-    if (workspaceFolder) {
-      spawnOptions.cwd = workspaceFolder;
-    }
-    
-    const landoProcess = childProcess.spawn("lando", args, spawnOptions);
-
-    let output = "";
-
-    landoProcess.stdout?.on("data", (data: Buffer) => {
-      const message = data.toString();
-      output += message;
-      outputChannel.appendLine(`Lando output: ${message.trim()}`);
-    });
+  outputChannel.appendLine(`${commandName.charAt(0).toUpperCase() + commandName.slice(1)} Lando...`);
 
-    landoProcess.stderr?.on("data", (data: Buffer) => {
-      const message = data.toString();
-      output += message;
-      outputChannel.appendLine(`Lando stderr: ${message.trim()}`);
-    });
-
-    landoProcess.on("close", (code: number) => {
-      outputChannel.appendLine(`Lando process exited with code ${code}`);
-      
-      if (code === 0) {
-        resolve(true);
-      } else {
-        outputChannel.appendLine(`Lando failed to ${commandName} (exit code ${code}): ${output}`);
-        resolve(false);
-      }
-    });
-
-    landoProcess.on("error", (error: Error) => {
-      outputChannel.appendLine(`Error ${commandName}ing Lando: ${error.message}`);
-      resolve(false);
+  try {
+    const result = await landoCli.run(args, {
+      cwd: workspaceFolder,
+      timeout: 0, // Lifecycle commands can take many minutes
+      token,
+      skipQueue: true,
+      onStdout: (message) => {
+        outputChannel.appendLine(`Lando output: ${message.trim()}`);
+        tracker?.push(message);
+      },
+      onStderr: (message) => {
+        outputChannel.appendLine(`Lando stderr: ${message.trim()}`);
+        tracker?.push(message);
+      },
     });
-
-    if (notification) {
-      notification.then((selection) => {
-        if (selection === "Cancel") {
-          outputChannel.appendLine(`Lando ${commandName} cancelled by user`);
-          landoProcess.kill();
-          resolve(false);
-        }
-      });
+    outputChannel.appendLine(`Lando process exited with code ${result.exitCode}`);
+    tracker?.setExitCode(result.exitCode);
+    tracker?.complete();
+    return true;
+  } catch (error: unknown) {
+    if (error instanceof LandoCliError && error.kind === "exit") {
+      tracker?.setExitCode(error.exitCode);
+      outputChannel.appendLine(`Lando process exited with code ${error.exitCode}`);
+      outputChannel.appendLine(
+        `Lando failed to ${commandName} (exit code ${error.exitCode}): ${error.stdout}${error.stderr}`
+      );
+    } else if (error instanceof LandoCliError && error.kind === "cancelled") {
+      outputChannel.appendLine(`Lando ${commandName} cancelled by user`);
+    } else {
+      outputChannel.appendLine(`Error ${commandName}ing Lando: ${error instanceof Error ? error.message : error}`);
     }
-  });
+    return false;
+  }
 }
 
 /**
  * Starts Lando app
+ * @param landoCli - The Lando CLI service
  * @param workspaceFolder - The workspace folder path
  * @param outputChannel - Output channel for logging
- * @param notification - Optional notification promise for cancellation
+ * @param token - Optional token for cancelling the command
+ * @param tracker - Optional progress tracker
  * @returns Promise resolving to true if started successfully, false otherwise
  */
 export async function startLando(
+  landoCli: LandoCli,
   workspaceFolder: string,
   outputChannel: vscode.OutputChannel,
-  notification?: Thenable<string | undefined>
+  token?: vscode.CancellationToken,
+  tracker?: LandoProgressTracker
 ): Promise<boolean> {
-  return runLandoCommand("start", ["start"], outputChannel, workspaceFolder, notification);
+  return runLandoCommand(landoCli, "start", ["start"], outputChannel, workspaceFolder, token, tracker);
 }
 
 /**
  * Stops Lando app
+ * @param landoCli - The Lando CLI service
  * @param workspaceFolder - The workspace folder path
  * @param outputChannel - Output channel for logging
- * @param notification - Optional notification promise for cancellation
+ * @param token - Optional token for cancelling the command
+ * @param tracker - Optional progress tracker
  * @returns Promise resolving to true if stopped successfully, false otherwise
  */
 export async function stopLando(
+  landoCli: LandoCli,
   workspaceFolder: string,
   outputChannel: vscode.OutputChannel,
-  notification?: Thenable<string | undefined>
+  token?: vscode.CancellationToken,
+  tracker?: LandoProgressTracker
 ): Promise<boolean> {
-  return runLandoCommand("stop", ["stop"], outputChannel, workspaceFolder, notification);
+  return runLandoCommand(landoCli, "stop", ["stop"], outputChannel, workspaceFolder, token, tracker);
 }
 
 /**
  * Restarts Lando app
+ * @param landoCli - The Lando CLI service
  * @param workspaceFolder - The workspace folder path
  * @param outputChannel - Output channel for logging
- * @param notification - Optional notification promise for cancellation
+ * @param token - Optional token for cancelling the command
+ * @param tracker - Optional progress tracker
  * @returns Promise resolving to true if restarted successfully, false otherwise
  */
 export async function restartLando(
+  landoCli: LandoCli,
   workspaceFolder: string,
   outputChannel: vscode.OutputChannel,
-  notification?: Thenable<string | undefined>
+  token?: vscode.CancellationToken,
+  tracker?: LandoProgressTracker
 ): Promise<boolean> {
-  return runLandoCommand("restart", ["restart"], outputChannel, workspaceFolder, notification);
+  return runLandoCommand(landoCli, "restart", ["restart"], outputChannel, workspaceFolder, token, tracker);
 }
 
 /**
  * Rebuilds Lando app (destructive - recreates containers)
+ * @param landoCli - The Lando CLI service
  * @param workspaceFolder - The workspace folder path
  * @param outputChannel - Output channel for logging
- * @param notification - Optional notification promise for cancellation
+ * @param token - Optional token for cancelling the command
+ * @param tracker - Optional progress tracker
  * @returns Promise resolving to true if rebuilt successfully, false otherwise
  */
 export async function rebuildLando(
+  landoCli: LandoCli,
   workspaceFolder: string,
   outputChannel: vscode.OutputChannel,
-  notification?: Thenable<string | undefined>
+  token?: vscode.CancellationToken,
+  tracker?: LandoProgressTracker
 ): Promise<boolean> {
-  return runLandoCommand("rebuild", ["rebuild", "-y"], outputChannel, workspaceFolder, notification);
+  return runLandoCommand(landoCli, "rebuild", ["rebuild", "-y"], outputChannel, workspaceFolder, token, tracker);
 }
 
 /**
  * Destroys Lando app (removes containers and optionally data)
+ * @param landoCli - The Lando CLI service
  * @param workspaceFolder - The workspace folder path
  * @param outputChannel - Output channel for logging
- * @param notification - Optional notification promise for cancellation
+ * @param token - Optional token for cancelling the command
+ * @param tracker - Optional progress tracker
  * @returns Promise resolving to true if destroyed successfully, false otherwise
  */
 export async function destroyLando(
+  landoCli: LandoCli,
   workspaceFolder: string,
   outputChannel: vscode.OutputChannel,
-  notification?: Thenable<string | undefined>
+  token?: vscode.CancellationToken,
+  tracker?: LandoProgressTracker
 ): Promise<boolean> {
-  return runLandoCommand("destroy", ["destroy", "-y"], outputChannel, workspaceFolder, notification);
+  return runLandoCommand(landoCli, "destroy", ["destroy", "-y"], outputChannel, workspaceFolder, token, tracker);
 }
 
 /**
  * Powers off all Lando containers globally
+ * @param landoCli - The Lando CLI service
  * @param outputChannel - Output channel for logging
- * @param notification - Optional notification promise for cancellation
+ * @param token - Optional token for cancelling the command
+ * @param tracker - Optional progress tracker
  * @returns Promise resolving to true if powered off successfully, false otherwise
  */
 export async function powerOffLando(
+  landoCli: LandoCli,
   outputChannel: vscode.OutputChannel,
-  notification?: Thenable<string | undefined>
+  token?: vscode.CancellationToken,
+  tracker?: LandoProgressTracker
 ): Promise<boolean> {
-  return runLandoCommand("poweroff", ["poweroff"], outputChannel, undefined, notification);
+  return runLandoCommand(landoCli, "poweroff", ["poweroff"], outputChannel, undefined, token, tracker);
 }
 
 /**
  * Gets the URLs exposed by a Lando app
- * @param workspaceFolder - The workspace folder path
+ * @param infoStore - The shared lando info store
+ * @param app - The Lando app
  * @param outputChannel - Output channel for logging
  * @returns Promise resolving to array of service URLs
  */
 export async function getLandoUrls(
-  workspaceFolder: string,
+  infoStore: LandoInfoStore,
+  app: LandoApp,
   outputChannel: vscode.OutputChannel
 ): Promise<LandoServiceUrl[]> {
-  const urls: LandoServiceUrl[] = [];
-  
   try {
-    const result = childProcess.execSync('lando info --format=json', {
-      cwd: workspaceFolder,
-      encoding: 'utf8',
-      timeout: 15000,
-    });
-
-    const services = JSON.parse(result) as Array<{
-      service: string;
-      urls?: string[];
-    }>;
-
-    for (const service of services) {
-      if (service.urls && service.urls.length > 0) {
-        // First URL is considered primary
-        service.urls.forEach((url, index) => {
-          urls.push({
-            service: service.service,
-            url,
-            primary: index === 0
-          });
-        });
-      }
-    }
-
+    const urls = await infoStore.getUrls(app);
     outputChannel.appendLine(`Found ${urls.length} URL(s) for Lando app`);
+    return urls;
   } catch (error: unknown) {
     outputChannel.appendLine(`Error getting Lando URLs: ${error}`);
+    return [];
   }
-
-  return urls;
 }
 
 /**
  * Gets the services defined in a Lando app
- * @param workspaceFolder - The workspace folder path
+ * @param infoStore - The shared lando info store
+ * @param app - The Lando app
  * @param outputChannel - Output channel for logging
  * @returns Promise resolving to array of services
  */
 export async function getLandoServices(
-  workspaceFolder: string,
+  infoStore: LandoInfoStore,
+  app: LandoApp,
   outputChannel: vscode.OutputChannel
 ): Promise<LandoService[]> {
-  const services: LandoService[] = [];
-  
   try {
-    const result = childProcess.execSync('lando info --format=json', {
-      cwd: workspaceFolder,
-      encoding: 'utf8',
-      timeout: 15000,
-    });
+    const services = await infoStore.getServices(app);
+    outputChannel.appendLine(`Found ${services.length} service(s) for Lando app`);
+    return services;
+  } catch (error: unknown) {
+    outputChannel.appendLine(`Error getting Lando services: ${error}`);
+    return [];
+  }
+}
 
-    const serviceData = JSON.parse(result) as Array<{
-      service: string;
-      type?: string;
-    }>;
+/**
+ * Parses the help output of `lando` to extract tooling commands,
+ * filtering out core Lando commands.
+ * 
+ * @param stdout - The output of running `lando` with no arguments
+ * @returns Array of tooling commands
+ */
+export function parseLandoToolingOutput(stdout: string): LandoTooling[] {
+  const tooling: LandoTooling[] = [];
+
+  // Parse the output to extract commands
+  // Format is like: "  lando composer          Runs composer commands"
+  const lines = stdout.split('\n');
+  let inCommandsSection = false;
+
+  for (const line of lines) {
+    // Detect start of Commands section
+    if (line.trim() === 'Commands:') {
+      inCommandsSection = true;
+      continue;
+    }
 
-    for (const service of serviceData) {
-      services.push({
-        name: service.service,
-        type: service.type || 'unknown'
-      });
+    // Detect end of Commands section (Options: or Examples:)
+    if (line.trim() === 'Options:' || line.trim() === 'Examples:') {
+      inCommandsSection = false;
+      continue;
     }
 
-    outputChannel.appendLine(`Found ${services.length} service(s) for Lando app`);
-  } catch (error: unknown) {
-    outputChannel.appendLine(`Error getting Lando services: ${error}`);
+    if (!inCommandsSection) {
+      continue;
+    }
+
+    // Parse command lines like "  lando composer          Runs composer commands"
+    const match = line.match(/^\s+lando\s+(\S+)(?:\s+\[.*?\])?\s+(.*?)\s*$/);
+    if (match) {
+      const [, commandName, description] = match;
+      
+      // Skip core Lando commands
+      if (LANDO_CORE_COMMANDS.has(commandName)) {
+        continue;
+      }
+
+      tooling.push({
+        name: commandName,
+        description: description || undefined,
+        isCustom: false,
+      });
+    }
   }
 
-  return services;
+  return tooling;
 }
 
 /**
@@ -321,118 +373,55 @@ export async function getLandoServices(
  * This runs `lando` with no arguments in the app directory and parses the output
  * to extract tooling commands (filtering out core Lando commands).
  * 
+ * @param landoCli - The Lando CLI service
  * @param appRootPath - The root path of the Lando app
- * @param outputChannel - Output channel for logging
+ * @param outputChannel - Optional output channel for logging
  * @returns Promise resolving to array of available tooling commands
  */
 export async function getLandoAvailableTooling(
+  landoCli: LandoCli,
   appRootPath: string,
-  outputChannel: vscode.OutputChannel
+  outputChannel?: vscode.OutputChannel
 ): Promise<LandoTooling[]> {
-  return new Promise((resolve) => {
-    const tooling: LandoTooling[] = [];
-    
-    const landoProcess = childProcess.spawn('lando', [], {
+  try {
+    // `lando` with no arguments prints help and may exit non-zero
+    const result = await landoCli.run([], {
       cwd: appRootPath,
-      stdio: 'pipe',
-    });
-
-    let stdout = '';
-    let stderr = '';
-
-    landoProcess.stdout.on('data', (data: Buffer) => {
-      stdout += data.toString();
-    });
-
-    landoProcess.stderr.on('data', (data: Buffer) => {
-      stderr += data.toString();
-    });
-
-    landoProcess.on('error', (error) => {
-      outputChannel.appendLine(`Error querying Lando tooling: ${error.message}`);
-      resolve([]);
+      timeout: 10000,
+      ignoreExitCode: true,
     });
 
-    landoProcess.on('close', (code) => {
-      if (code !== 0 && !stdout) {
-        outputChannel.appendLine(`Lando tooling query failed with code ${code}: ${stderr}`);
-        resolve([]);
-        return;
-      }
-
-      try {
-        // Parse the output to extract commands
-        // Format is like: "  lando composer          Runs composer commands"
-        const lines = stdout.split('\n');
-        let inCommandsSection = false;
-
-        for (const line of lines) {
-          // Detect start of Commands section
-          if (line.trim() === 'Commands:') {
-            inCommandsSection = true;
-            continue;
-          }
-
-          // Detect end of Commands section (Options: or Examples:)
-          if (line.trim() === 'Options:' || line.trim() === 'Examples:') {
-            inCommandsSection = false;
-            continue;
-          }
-
-          if (!inCommandsSection) {
-            continue;
-          }
-
-          // Parse command lines like "  lando composer          Runs composer commands"
-          const match = line.match(/^\s+lando\s+(\S+)(?:\s+\[.*?\])?\s+(.*?)\s*$/);
-          if (match) {
-            const [, commandName, description] = match;
-            
-            // Skip core Lando commands
-            if (LANDO_CORE_COMMANDS.has(commandName)) {
-              continue;
-            }
-
-            tooling.push({
-              name: commandName,
-              description: description || undefined,
-              isCustom: false,
-            });
-          }
-        }
-
-        outputChannel.appendLine(`Found ${tooling.length} available tooling commands from Lando`);
-        resolve(tooling);
-      } catch (error) {
-        outputChannel.appendLine(`Error parsing Lando tooling output: ${error}`);
-        resolve([]);
-      }
-    });
+    if (result.exitCode !== 0 && !result.stdout) {
+      outputChannel?.appendLine(`Lando tooling query failed with code ${result.exitCode}: ${result.stderr}`);
+      return [];
+    }
 
-    // Set a timeout in case Lando hangs
-    setTimeout(() => {
-      landoProcess.kill();
-      outputChannel.appendLine('Lando tooling query timed out');
-      resolve([]);
-    }, 10000);
-  });
+    const tooling = parseLandoToolingOutput(result.stdout);
+    outputChannel?.appendLine(`Found ${tooling.length} available tooling commands from Lando`);
+    return tooling;
+  } catch (error: unknown) {
+    outputChannel?.appendLine(`Error querying Lando tooling: ${error}`);
+    return [];
+  }
 }
 
 /**
  * Runs a Lando tooling command in a terminal
+ * @param landoCli - The Lando CLI service
  * @param app - The Lando app to run the command in
  * @param command - The tooling command name
  * @param outputChannel - Output channel for logging
  * @param args - Optional arguments to pass to the command
  */
 export async function runLandoToolingCommand(
+  landoCli: LandoCli,
   app: LandoApp,
   command: string,
   outputChannel: vscode.OutputChannel,
   args?: string
 ): Promise<void> {
   // Build the full command
-  let fullCommand = `lando ${command}`;
+  let fullCommand = landoCli.getShellCommand([command]);
   if (args && args.trim()) {
     fullCommand += ` ${args.trim()}`;
   }
@@ -454,3 +443,90 @@ export async function runLandoToolingCommand(
   terminal.sendText(fullCommand);
   terminal.show();
 }
+
+/**
+ * Shell families that quote arguments differently
+ */
+export type ShellKind = 'posix' | 'powershell' | 'cmd';
+
+/**
+ * Gets the kind of a terminal shell
+ * @param shellPath - The shell executable (e.g., vscode.env.shell)
+ * @returns The shell kind; POSIX unless it is cmd.exe or PowerShell
+ */
+export function getShellKind(shellPath: string | undefined): ShellKind {
+  if (/(^|[\\/])cmd(\.exe)?$/i.test(shellPath ?? '')) {
+    return 'cmd';
+  }
+  if (/(^|[\\/])(powershell|pwsh)(\.exe)?$/i.test(shellPath ?? '')) {
+    return 'powershell';
+  }
+  return 'posix';
+}
+
+/**
+ * Quotes a value as a single shell argument
+ * @param value - The value to quote
+ * @param shell - The shell the argument is sent to
+ * @returns The quoted value: single quotes for POSIX shells and PowerShell,
+ *   double quotes for cmd.exe, with embedded quotes escaped
+ */
+export function quoteShellArgument(value: string, shell: ShellKind = 'posix'): string {
+  switch (shell) {
+    case 'powershell':
+      return `'${value.replace(/'/g, "''")}'`;
+    case 'cmd':
+      return `"${value.replace(/"/g, '\\"')}"`;
+    default:
+      return `'${value.replace(/'/g, `'\\''`)}'`;
+  }
+}
+
+/**
+ * Builds the shell command lines that run an event's commands by hand.
+ * POSIX shells and cmd.exe get a single line that stops at the first failure
+ * like Lando does; Windows PowerShell 5 has no `&&`, so it gets one line per
+ * command.
+ * @param landoCli - The Lando CLI service
+ * @param event - The event
+ * @param shell - The shell the lines are sent to
+ * @returns The lines to send (e.g., ["lando ssh -s appserver -c 'composer install'"])
+ */
+export function getLandoEventShellCommands(
+  landoCli: Pick<LandoCli, 'getShellCommand'>,
+  event: LandoEvent,
+  shell: ShellKind = 'posix'
+): string[] {
+  const commands = event.commands.map(command =>
+    landoCli.getShellCommand(['ssh', '-s', command.service, '-c', quoteShellArgument(command.cmd, shell)])
+  );
+  return shell === 'powershell' ? commands : [commands.join(' && ')];
+}
+
+/**
+ * Runs a Landofile event's commands in a terminal
+ * @param landoCli - The Lando CLI service
+ * @param app - The Lando app the event belongs to
+ * @param event - The event to run
+ * @param outputChannel - Output channel for logging
+ */
+export function runLandoEvent(
+  landoCli: LandoCli,
+  app: LandoApp,
+  event: LandoEvent,
+  outputChannel: vscode.OutputChannel
+): void {
+  const commands = getLandoEventShellCommands(landoCli, event, getShellKind(vscode.env.shell));
+  outputChannel.appendLine(`Running ${event.name} event for ${app.name}: ${commands.join('; ')}`);
+
+  // Name the terminal after the app too, so apps sharing an event name don't share a terminal
+  const terminalName = `Lando: ${app.name} (${event.name})`;
+  const existingTerminal = vscode.window.terminals.find(t => t.name === terminalName);
+  const terminal = existingTerminal || vscode.window.createTerminal({
+    name: terminalName,
+    cwd: app.rootPath,
+  });
+
+  commands.forEach(command => terminal.sendText(command));
+  terminal.show();
+}
@@ -0,0 +1,134 @@
+import * as assert from "assert";
+import { suite, test } from "mocha";
+import * as vscode from "vscode";
+import { LandoAppState, LandoContainer, LandoStatusMonitor } from "./landoStatusMonitor";
+import {
+  LandoActivityEntry,
+  LandoActivityHistory,
+  describeActivity,
+  formatDuration,
+  summarizeOperation,
+} from "./landoActivityHistory";
+import { createMockApp } from "./test/fixtures";
+
+/**
+ * In-memory stand-in for workspaceState
+ */
+class MemoryMemento implements vscode.Memento {
+  private values = new Map<string, unknown>();
+
+  keys(): readonly string[] {
+    return Array.from(this.values.keys());
+  }
+
+  get<T>(key: string, defaultValue?: T): T {
+    return (this.values.has(key) ? this.values.get(key) : defaultValue) as T;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this.values.set(key, JSON.parse(JSON.stringify(value)));
+  }
+}
+
+function rebuild(outcome: "succeeded" | "failed", durationMs: number, timestamp: number): LandoActivityEntry {
+  return { type: "operation", operation: "rebuild", outcome, durationMs, timestamp };
+}
+
+suite("LandoActivityHistory Test Suite", () => {
+  test("Should format durations compactly", () => {
+    assert.strictEqual(formatDuration(38_000), "38s");
+    assert.strictEqual(formatDuration(252_000), "4m12s");
+    assert.strictEqual(formatDuration(3_720_000), "1h02m");
+  });
+
+  test("Should summarize the most recent runs of an operation", () => {
+    const entries = [
+      rebuild("succeeded", 252_000, 3),
+      rebuild("succeeded", 238_000, 2),
+      rebuild("failed", 30_000, 1),
+      rebuild("succeeded", 1_000, 0),
+    ];
+
+    assert.strictEqual(summarizeOperation(entries, "rebuild"), "4m12s, 3m58s, failed");
+    assert.strictEqual(summarizeOperation(entries, "start"), undefined);
+  });
+
+  test("Should describe entries for the timeline", () => {
+    assert.strictEqual(
+      describeActivity({ type: "operation", operation: "start", outcome: "failed", durationMs: 65_000, exitCode: 1, timestamp: 0 }),
+      "Start failed after 1m05s (exit code 1)"
+    );
+    assert.strictEqual(describeActivity({ type: "crash", service: "database", exitCode: 137, timestamp: 0 }), "database crashed (exit code 137)");
+    assert.strictEqual(
+      describeActivity({ type: "state", from: LandoAppState.Running, to: LandoAppState.Degraded, timestamp: 0 }),
+      "Running → Degraded"
+    );
+  });
+
+  test("Should record operations per app, including poweroff", () => {
+    const history = new LandoActivityHistory(new MemoryMemento());
+    const app = createMockApp("myapp");
+
+    history.recordOperation({ app, operation: "start", startedAt: Date.now() - 5000, outcome: "succeeded" });
+    history.recordOperation({ app: createMockApp("other"), operation: "stop", startedAt: Date.now(), outcome: "succeeded" });
+    history.recordOperation({ app: undefined, operation: "poweroff", startedAt: Date.now(), outcome: "succeeded" });
+
+    const operations = history.getEntries(app).map(entry => entry.type === "operation" && entry.operation);
+    assert.deepStrictEqual(operations.sort(), ["poweroff", "start"]);
+    history.dispose();
+  });
+
+  test("Should keep only the newest entries", () => {
+    const history = new LandoActivityHistory(new MemoryMemento(), { maxEntries: 2 });
+    const app = createMockApp("myapp");
+
+    for (const outcome of ["failed", "cancelled", "succeeded"] as const) {
+      history.recordOperation({ app, operation: "rebuild", startedAt: Date.now(), outcome });
+    }
+
+    const outcomes = history.getEntries(app).map(entry => entry.type === "operation" && entry.outcome);
+    assert.deepStrictEqual(outcomes.sort(), ["cancelled", "succeeded"]);
+    history.dispose();
+  });
+
+  test("Should persist across instances", () => {
+    const storage = new MemoryMemento();
+    const app = createMockApp("myapp");
+    const first = new LandoActivityHistory(storage);
+    first.recordOperation({ app, operation: "rebuild", startedAt: Date.now(), outcome: "failed", exitCode: 1 });
+    first.dispose();
+
+    const second = new LandoActivityHistory(storage);
+
+    assert.strictEqual(second.getEntries(app).length, 1);
+    second.dispose();
+  });
+
+  test("Should record state changes from the status monitor, but not the first check", async () => {
+    let containers: LandoContainer[] = [{ service: "appserver", app: "myapp", running: false }];
+    const monitor = new LandoStatusMonitor({ containerFetcher: async () => containers });
+    const history = new LandoActivityHistory(new MemoryMemento());
+    history.attach(monitor);
+    const app = createMockApp("myapp");
+
+    monitor.setApps([app]);
+    await monitor.refresh();
+    containers = [{ service: "appserver", app: "myapp", running: true }];
+    await monitor.refresh();
+
+    assert.deepStrictEqual(history.getEntries(app).map(describeActivity), ["Stopped → Running"]);
+    history.dispose();
+    monitor.dispose();
+  });
+
+  test("Should clear an app's history", async () => {
+    const history = new LandoActivityHistory(new MemoryMemento());
+    const app = createMockApp("myapp");
+    history.recordOperation({ app, operation: "start", startedAt: Date.now(), outcome: "succeeded" });
+
+    await history.clear(app);
+
+    assert.strictEqual(history.getEntries(app).length, 0);
+    history.dispose();
+  });
+});
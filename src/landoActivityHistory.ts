@@ -0,0 +1,323 @@
+/**
+ * Lando Activity History Module
+ *
+ * This module keeps a bounded per-app history of state transitions,
+ * lifecycle operations (with outcome, exit code and duration) and service
+ * crashes in workspace state, so slow rebuilds and flaky starts are easy to
+ * spot across sessions.
+ *
+ * @module landoActivityHistory
+ */
+
+import * as vscode from 'vscode';
+import { LandoApp } from './landoAppDetector';
+import { LandoLifecycleCommand } from './landoProgress';
+import { GLOBAL_QUEUE_KEY } from './landoOperationQueue';
+import { LandoAppState, LandoStatusMonitor, getStateLabel } from './landoStatusMonitor';
+
+/**
+ * Workspace state key holding the history
+ */
+const STORAGE_KEY = 'lando.activityHistory';
+
+/**
+ * Default number of entries kept per app
+ */
+export const DEFAULT_MAX_ACTIVITY_ENTRIES = 200;
+
+/**
+ * How a lifecycle operation ended
+ */
+export type LandoOperationOutcome = 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * The app moved from one state to another
+ */
+export interface LandoStateActivity {
+  type: 'state';
+  /** When the transition happened (ms since epoch) */
+  timestamp: number;
+  /** The previous state */
+  from: LandoAppState;
+  /** The new state */
+  to: LandoAppState;
+}
+
+/**
+ * A lifecycle command finished
+ */
+export interface LandoOperationActivity {
+  type: 'operation';
+  /** When the operation finished (ms since epoch) */
+  timestamp: number;
+  /** The operation */
+  operation: LandoLifecycleCommand;
+  /** How the operation ended */
+  outcome: LandoOperationOutcome;
+  /** How long the operation ran, in milliseconds */
+  durationMs: number;
+  /** The lando process's exit code, if it exited */
+  exitCode?: number;
+  /** Where the operation failed, when known */
+  message?: string;
+}
+
+/**
+ * A service exited while the app was running
+ */
+export interface LandoCrashActivity {
+  type: 'crash';
+  /** When the crash was detected (ms since epoch) */
+  timestamp: number;
+  /** The service that exited */
+  service: string;
+  /** The service's exit code, when known */
+  exitCode?: number;
+}
+
+/**
+ * A single entry in an app's activity history
+ */
+export type LandoActivityEntry = LandoStateActivity | LandoOperationActivity | LandoCrashActivity;
+
+/**
+ * Stored history, keyed by app configPath (or GLOBAL_QUEUE_KEY for poweroff)
+ */
+type StoredHistory = Record<string, LandoActivityEntry[]>;
+
+/**
+ * Details of a finished lifecycle operation
+ */
+export interface LandoOperationRecord {
+  /** The app the operation ran for (undefined for poweroff) */
+  app: LandoApp | undefined;
+  /** The operation */
+  operation: LandoLifecycleCommand;
+  /** When the operation started (ms since epoch) */
+  startedAt: number;
+  /** How the operation ended */
+  outcome: LandoOperationOutcome;
+  /** The lando process's exit code, if it exited */
+  exitCode?: number;
+  /** Where the operation failed, when known */
+  message?: string;
+}
+
+/**
+ * Options for creating a LandoActivityHistory
+ */
+export interface LandoActivityHistoryOptions {
+  /** Maximum entries kept per app */
+  maxEntries?: number;
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Persisted, bounded activity history for Lando apps.
+ *
+ * Features:
+ * - Records state transitions and service crashes from the status monitor
+ * - Records lifecycle operations with their outcome, exit code and duration
+ * - Keeps the newest entries per app, in workspace state
+ *
+ * @example
+ * ```typescript
+ * const history = new LandoActivityHistory(context.workspaceState);
+ * history.attach(statusMonitor);
+ * const startedAt = Date.now();
+ * const success = await rebuildLando(...);
+ * history.recordOperation({ app, operation: 'rebuild', startedAt, outcome: success ? 'succeeded' : 'failed' });
+ * ```
+ */
+export class LandoActivityHistory implements vscode.Disposable {
+  private readonly maxEntries: number;
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+
+  /**
+   * Event fired with the history key (app configPath) when entries are added or cleared
+   */
+  public readonly onDidChange = this._onDidChange.event;
+
+  constructor(private readonly storage: vscode.Memento, options?: LandoActivityHistoryOptions) {
+    this.maxEntries = options?.maxEntries ?? DEFAULT_MAX_ACTIVITY_ENTRIES;
+    this.outputChannel = options?.outputChannel;
+  }
+
+  /**
+   * Records state transitions and crashes reported by a status monitor
+   *
+   * @param statusMonitor - The status monitor to listen to
+   */
+  public attach(statusMonitor: LandoStatusMonitor): void {
+    this.disposables.push(
+      statusMonitor.onDidChangeStatus(event => {
+        // The first check after activation isn't a transition worth keeping
+        if (event.previousState === LandoAppState.Unknown) {
+          return;
+        }
+        this.append(event.app.configPath, {
+          type: 'state',
+          timestamp: Date.now(),
+          from: event.previousState,
+          to: event.status.state,
+        });
+      }),
+      statusMonitor.onDidDetectServiceCrash(event => {
+        this.append(event.app.configPath, {
+          type: 'crash',
+          timestamp: Date.now(),
+          service: event.service.name,
+          exitCode: event.service.exitCode,
+        });
+      })
+    );
+  }
+
+  /**
+   * Records a finished lifecycle operation
+   *
+   * @param record - The operation details
+   */
+  public recordOperation(record: LandoOperationRecord): void {
+    const timestamp = Date.now();
+    this.log(
+      `${record.operation} ${record.app?.name ?? 'all apps'} ${record.outcome} ` +
+      `after ${formatDuration(timestamp - record.startedAt)}`
+    );
+    this.append(record.app?.configPath ?? GLOBAL_QUEUE_KEY, {
+      type: 'operation',
+      timestamp,
+      operation: record.operation,
+      outcome: record.outcome,
+      durationMs: timestamp - record.startedAt,
+      exitCode: record.exitCode,
+      message: record.message,
+    });
+  }
+
+  /**
+   * Gets an app's history, including operations that affected every app
+   *
+   * @param app - The app
+   * @returns Entries, newest first
+   */
+  public getEntries(app: LandoApp): LandoActivityEntry[] {
+    const history = this.load();
+    return [...(history[app.configPath] ?? []), ...(history[GLOBAL_QUEUE_KEY] ?? [])]
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Clears an app's history
+   *
+   * @param app - The app
+   */
+  public async clear(app: LandoApp): Promise<void> {
+    const history = this.load();
+    delete history[app.configPath];
+    await this.storage.update(STORAGE_KEY, history);
+    this._onDidChange.fire(app.configPath);
+  }
+
+  /**
+   * Appends an entry, dropping the oldest beyond the limit
+   */
+  private append(key: string, entry: LandoActivityEntry): void {
+    const history = this.load();
+    const entries = [...(history[key] ?? []), entry];
+    history[key] = entries.slice(-this.maxEntries);
+    this.storage.update(STORAGE_KEY, history).then(
+      () => this._onDidChange.fire(key),
+      error => this.log(`Failed to save activity history: ${error}`)
+    );
+  }
+
+  /**
+   * Reads the stored history
+   */
+  private load(): StoredHistory {
+    return { ...this.storage.get<StoredHistory>(STORAGE_KEY, {}) };
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[ActivityHistory] ${message}`);
+  }
+
+  /**
+   * Stops listening to the status monitor
+   */
+  public dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables.length = 0;
+    this._onDidChange.dispose();
+  }
+}
+
+/**
+ * Formats a duration compactly (e.g., "4m12s", "38s", "1h02m")
+ *
+ * @param durationMs - The duration in milliseconds
+ * @returns The formatted duration
+ */
+export function formatDuration(durationMs: number): string {
+  const totalSeconds = Math.max(0, Math.round(durationMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  if (hours > 0) {
+    return `${hours}h${String(minutes).padStart(2, '0')}m`;
+  }
+  if (minutes > 0) {
+    return `${minutes}m${String(seconds).padStart(2, '0')}s`;
+  }
+  return `${seconds}s`;
+}
+
+/**
+ * Summarizes the most recent runs of an operation (e.g., "4m12s, 3m58s, failed")
+ *
+ * @param entries - History entries, newest first
+ * @param operation - The operation to summarize
+ * @param count - How many runs to include
+ * @returns The summary, or undefined if the operation never ran
+ */
+export function summarizeOperation(
+  entries: LandoActivityEntry[],
+  operation: LandoLifecycleCommand,
+  count = 3
+): string | undefined {
+  const runs = entries
+    .filter((entry): entry is LandoOperationActivity => entry.type === 'operation' && entry.operation === operation)
+    .slice(0, count)
+    .map(entry => entry.outcome === 'succeeded' ? formatDuration(entry.durationMs) : entry.outcome);
+  return runs.length > 0 ? runs.join(', ') : undefined;
+}
+
+/**
+ * Describes an entry for the timeline (e.g., "Rebuild failed after 3m58s (exit code 1)")
+ *
+ * @param entry - The entry
+ * @returns The description
+ */
+export function describeActivity(entry: LandoActivityEntry): string {
+  switch (entry.type) {
+    case 'state':
+      return `${getStateLabel(entry.from)} → ${getStateLabel(entry.to)}`;
+    case 'crash':
+      return `${entry.service} crashed${entry.exitCode !== undefined ? ` (exit code ${entry.exitCode})` : ''}`;
+    case 'operation': {
+      const verb = entry.operation === 'poweroff'
+        ? 'Power off'
+        : entry.operation.charAt(0).toUpperCase() + entry.operation.slice(1);
+      const exitCode = entry.outcome === 'failed' && entry.exitCode !== undefined ? ` (exit code ${entry.exitCode})` : '';
+      return `${verb} ${entry.outcome} after ${formatDuration(entry.durationMs)}${exitCode}`;
+    }
+  }
+}
@@ -1,6 +1,19 @@
 import * as assert from "assert";
 import { suite, test } from "mocha";
 import * as yaml from "js-yaml";
+import * as vscode from "vscode";
+import {
+  LandoApp,
+  DEFAULT_LANDOFILE_NAMES,
+  getLandofileOrder,
+  mergeLandofiles,
+  getConfigSource,
+  getDetectionExcludeGlob,
+  isExcludedFromDetection,
+  isFileInApp,
+  isWithinMaxDepth,
+  parseLandoEvents,
+} from "./landoAppDetector";
 
 /**
  * Tests for the Lando App Detector module.
@@ -827,4 +840,168 @@ tooling:
       }
     });
   });
+
+  suite("Discovery", () => {
+    test("Should exclude configured directories at any depth", () => {
+      assert.strictEqual(
+        getDetectionExcludeGlob(["node_modules", ".git", "vendor"]),
+        "**/{node_modules,.git,vendor}/**"
+      );
+      assert.strictEqual(getDetectionExcludeGlob([]), undefined);
+    });
+
+    test("Should drop Landofiles in excluded and hidden directories", () => {
+      const excludeDirs = ["node_modules", "vendor"];
+
+      assert.strictEqual(isExcludedFromDetection("/repo", "/repo/.lando.yml", excludeDirs), false);
+      assert.strictEqual(isExcludedFromDetection("/repo", "/repo/apps/shop/.lando.yml", excludeDirs), false);
+      assert.strictEqual(isExcludedFromDetection("/repo", "/repo/node_modules/pkg/.lando.yml", excludeDirs), true);
+      assert.strictEqual(isExcludedFromDetection("/repo", "/repo/apps/.cache/.lando.yml", excludeDirs), true);
+    });
+
+    test("Should limit Landofiles to the detection depth", () => {
+      assert.strictEqual(isWithinMaxDepth("/repo", "/repo/.lando.yml", 1), true);
+      assert.strictEqual(isWithinMaxDepth("/repo", "/repo/apps/shop/.lando.yml", 2), true);
+      assert.strictEqual(isWithinMaxDepth("/repo", "/repo/apps/shop/site/.lando.yml", 2), false);
+    });
+
+    test("Should not limit depth when maxDepth is 0", () => {
+      assert.strictEqual(isWithinMaxDepth("/repo", "/repo/a/b/c/d/e/f/.lando.yml", 0), true);
+    });
+
+    test("Should match files inside an app's root only", () => {
+      assert.strictEqual(isFileInApp("/ws/app-one/web/index.php", "/ws/app-one"), true);
+      assert.strictEqual(isFileInApp("/ws/app-one", "/ws/app-one"), true);
+      assert.strictEqual(isFileInApp("/ws/app-one-extra/index.php", "/ws/app-one"), false);
+    });
+  });
+
+  suite("Events Parsing", () => {
+    test("Should run plain commands in the default service", () => {
+      const events = parseLandoEvents({ "post-start": ["composer install", "drush cr"] }, "appserver");
+
+      assert.deepStrictEqual(events, [
+        {
+          name: "post-start",
+          commands: [
+            { service: "appserver", cmd: "composer install" },
+            { service: "appserver", cmd: "drush cr" },
+          ],
+        },
+      ]);
+    });
+
+    test("Should use the service given per command", () => {
+      const events = parseLandoEvents(
+        { "post-db-import": [{ database: "mysql -e 'SHOW TABLES'" }, "drush updb -y"] },
+        "appserver"
+      );
+
+      assert.deepStrictEqual(events?.[0].commands, [
+        { service: "database", cmd: "mysql -e 'SHOW TABLES'" },
+        { service: "appserver", cmd: "drush updb -y" },
+      ]);
+    });
+
+    test("Should default tooling events to the tooling's service", () => {
+      const tooling = [
+        { name: "yarn", service: "node", isCustom: true },
+        { name: "run", service: ":service", isCustom: true },
+      ];
+      const events = parseLandoEvents({ "post-yarn": "yarn build", "pre-run": "echo hi" }, "appserver", tooling);
+
+      assert.deepStrictEqual(events, [
+        { name: "post-yarn", commands: [{ service: "node", cmd: "yarn build" }] },
+        { name: "pre-run", commands: [{ service: "appserver", cmd: "echo hi" }] },
+      ]);
+    });
+
+    test("Should ignore events without commands", () => {
+      assert.strictEqual(parseLandoEvents({ "post-start": [], "pre-stop": [42] }, "appserver"), undefined);
+      assert.strictEqual(parseLandoEvents(undefined, "appserver"), undefined);
+    });
+  });
+
+  suite("Landofile Overlays", () => {
+    const base = "/app/.lando.base.yml";
+    const main = "/app/.lando.yml";
+    const local = "/app/.lando.local.yml";
+
+    test("Should merge files in Lando's precedence order", () => {
+      assert.deepStrictEqual(getLandofileOrder(), [
+        ".lando.base.yml",
+        ".lando.dist.yml",
+        ".lando.recipe.yml",
+        ".lando.upstream.yml",
+        ".lando.yml",
+        ".lando.local.yml",
+        ".lando.user.yml",
+      ]);
+    });
+
+    test("Should use Landofile names from global config", () => {
+      const order = getLandofileOrder({ ...DEFAULT_LANDOFILE_NAMES, landofile: ".lando-custom", postLandofiles: [".mine"] });
+
+      assert.deepStrictEqual(order.slice(-2), [".lando-custom.yml", ".lando-custom.mine.yml"]);
+    });
+
+    test("Should let later files replace scalars and deep-merge objects", () => {
+      const { config } = mergeLandofiles([
+        { path: base, config: { recipe: "drupal10", config: { php: "8.1", webroot: "web" } } },
+        { path: main, config: { name: "myapp", config: { php: "8.2" } } },
+        { path: local, config: { config: { xdebug: true } } },
+      ]);
+
+      assert.deepStrictEqual(config, {
+        recipe: "drupal10",
+        name: "myapp",
+        config: { php: "8.2", webroot: "web", xdebug: true },
+      });
+    });
+
+    test("Should concatenate arrays without duplicates", () => {
+      const { config } = mergeLandofiles([
+        { path: main, config: { proxy: { appserver: ["myapp.lndo.site"] } } },
+        { path: local, config: { proxy: { appserver: ["myapp.lndo.site", "admin.myapp.lndo.site"] } } },
+      ]);
+
+      assert.deepStrictEqual(config.proxy, { appserver: ["myapp.lndo.site", "admin.myapp.lndo.site"] });
+    });
+
+    test("Should not modify the parsed files", () => {
+      const baseConfig = { services: { database: { type: "mysql:8.0" } } };
+      mergeLandofiles([
+        { path: base, config: baseConfig },
+        { path: local, config: { services: { database: { portforward: 3306 } } } },
+      ]);
+
+      assert.deepStrictEqual(baseConfig, { services: { database: { type: "mysql:8.0" } } });
+    });
+
+    test("Should remember which file each key came from", () => {
+      const { sources } = mergeLandofiles([
+        { path: main, config: { name: "myapp", services: { database: { type: "mysql:8.0" } } } },
+        { path: local, config: { services: { database: { portforward: 3306 } } } },
+      ]);
+
+      assert.strictEqual(sources["name"], main);
+      assert.strictEqual(sources["services.database.type"], main);
+      assert.strictEqual(sources["services.database.portforward"], local);
+    });
+
+    test("Should fall back to the closest parent key's file", () => {
+      const app = {
+        name: "myapp",
+        cleanName: "myapp",
+        configPath: main,
+        rootPath: "/app",
+        workspaceFolder: { uri: vscode.Uri.file("/app"), name: "app", index: 0 },
+        configSources: { "tooling": main, "tooling.drush": local },
+      } as LandoApp;
+
+      assert.strictEqual(getConfigSource(app, "tooling.drush.cmd"), local);
+      assert.strictEqual(getConfigSource(app, "tooling.composer"), main);
+      assert.strictEqual(getConfigSource(app, "services"), undefined);
+    });
+  });
 });
@@ -4,6 +4,9 @@
  * This module provides automatic detection and monitoring of Lando applications
  * within VS Code workspaces. It scans workspace folders for .lando.yml files,
  * watches for changes, and provides an interface for managing detected apps.
+ * Like Lando, it merges override files such as .lando.local.yml into the app
+ * whose .lando.yml is in the same directory, and remembers which file each
+ * setting came from.
  * 
  * @module landoAppDetector
  */
@@ -12,6 +15,8 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as yaml from 'js-yaml';
+import { LandoRecipeDefaults, getRecipeDefaults } from './landoRecipes';
+import { getEnvFiles, interpolateConfig, loadEnvFiles } from './landoEnvironment';
 
 /**
  * Represents a Lando tooling command definition
@@ -35,6 +40,36 @@ export interface LandoTooling {
   isCustom: boolean;
 }
 
+/**
+ * A host port a service forwards to (from `portforward` in .lando.yml)
+ */
+export interface LandoPortForward {
+  /** The service forwarding the port */
+  service: string;
+  /** The host port */
+  port: number;
+}
+
+/**
+ * A command run by a Landofile event
+ */
+export interface LandoEventCommand {
+  /** The service the command runs in */
+  service: string;
+  /** The shell command */
+  cmd: string;
+}
+
+/**
+ * A Landofile event hook (e.g., `post-start`)
+ */
+export interface LandoEvent {
+  /** The event name (e.g., "post-start", "post-db-import") */
+  name: string;
+  /** The commands, in the order Lando runs them */
+  commands: LandoEventCommand[];
+}
+
 /**
  * Represents a detected Lando application
  */
@@ -51,10 +86,26 @@ export interface LandoApp {
   workspaceFolder: vscode.WorkspaceFolder;
   /** The recipe type (e.g., 'drupal10', 'wordpress', 'lamp') */
   recipe?: string;
-  /** Services defined in the config */
+  /** Services defined in the config or implied by the recipe */
   services?: string[];
+  /** Services, tooling and credentials implied by the recipe (known recipes only) */
+  recipeDefaults?: LandoRecipeDefaults;
+  /** Fixed host ports forwarded by services (random `portforward: true` ports are omitted) */
+  portforwards?: LandoPortForward[];
+  /** Whether the app is served through Lando's proxy (it has a recipe or proxy routes) */
+  usesProxy?: boolean;
   /** Tooling commands defined in the config */
   tooling?: LandoTooling[];
+  /** Event hooks defined in the config */
+  events?: LandoEvent[];
+  /** Env files listed under `env_file`, as absolute paths */
+  envFiles?: string[];
+  /** Variables referenced as `${VAR}` that are set neither in the env files nor the host environment */
+  unresolvedVariables?: string[];
+  /** The Landofiles merged into the config, lowest precedence first */
+  landofiles?: string[];
+  /** The Landofile each config key was last set by, keyed by dotted path (e.g., "services.appserver.type") */
+  configSources?: Record<string, string>;
 }
 
 /**
@@ -69,11 +120,254 @@ export interface LandoAppsChangedEvent {
   removed: LandoApp[];
 }
 
+/**
+ * Landofile names, as in Lando's global config
+ */
+export interface LandofileNames {
+  /** The main Landofile name without `.yml` */
+  landofile: string;
+  /** Suffixes of files merged before the main Landofile (e.g., ".base" for .lando.base.yml) */
+  preLandofiles: string[];
+  /** Suffixes of files merged after the main Landofile (e.g., ".local" for .lando.local.yml) */
+  postLandofiles: string[];
+}
+
+/**
+ * Lando's default Landofile names
+ */
+export const DEFAULT_LANDOFILE_NAMES: LandofileNames = {
+  landofile: '.lando',
+  preLandofiles: ['.base', '.dist', '.recipe', '.upstream'],
+  postLandofiles: ['.local', '.user'],
+};
+
+/**
+ * A parsed Landofile
+ */
+export interface ParsedLandofile {
+  /** The file path */
+  path: string;
+  /** The parsed config */
+  config: Record<string, unknown>;
+}
+
+/**
+ * The result of merging an app's Landofiles
+ */
+export interface MergedLandofiles {
+  /** The effective config */
+  config: Record<string, unknown>;
+  /** The file each key was last set by, keyed by dotted path */
+  sources: Record<string, string>;
+}
+
+/**
+ * Gets an app's Landofile names in merge order
+ *
+ * @param names - The Landofile names
+ * @returns File names, lowest precedence first (e.g., ".lando.base.yml", ..., ".lando.yml", ".lando.local.yml")
+ */
+export function getLandofileOrder(names: LandofileNames = DEFAULT_LANDOFILE_NAMES): string[] {
+  return [
+    ...names.preLandofiles.map(suffix => `${names.landofile}${suffix}.yml`),
+    `${names.landofile}.yml`,
+    ...names.postLandofiles.map(suffix => `${names.landofile}${suffix}.yml`),
+  ];
+}
+
+/**
+ * Checks whether a value is a plain (non-array) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Deep-merges Landofiles the way Lando does: objects are merged key by key,
+ * arrays are concatenated without duplicates, and any other value is
+ * replaced by the later file
+ *
+ * @param files - The parsed files, lowest precedence first
+ * @returns The effective config and the file each key came from
+ */
+export function mergeLandofiles(files: ParsedLandofile[]): MergedLandofiles {
+  const sources: Record<string, string> = {};
+
+  const mergeInto = (target: Record<string, unknown>, source: Record<string, unknown>, file: string, prefix: string) => {
+    for (const [key, value] of Object.entries(source)) {
+      if (value === undefined) {
+        continue;
+      }
+      const keyPath = prefix ? `${prefix}.${key}` : key;
+      const existing = target[key];
+      if (isPlainObject(existing) && isPlainObject(value)) {
+        mergeInto(existing, value, file, keyPath);
+      } else if (Array.isArray(existing) && Array.isArray(value)) {
+        const merged = [...existing];
+        for (const item of value) {
+          if (!merged.some(other => JSON.stringify(other) === JSON.stringify(item))) {
+            merged.push(item);
+          }
+        }
+        target[key] = merged;
+      } else {
+        target[key] = isPlainObject(value) ? mergeInto({}, value, file, keyPath) : Array.isArray(value) ? [...value] : value;
+      }
+      sources[keyPath] = file;
+    }
+    return target;
+  };
+
+  const config: Record<string, unknown> = {};
+  for (const file of files) {
+    mergeInto(config, file.config, file.path, '');
+  }
+  return { config, sources };
+}
+
+/**
+ * Gets the Landofile a config key came from
+ *
+ * @param app - The app
+ * @param keyPath - Dotted key path (e.g., "services.database.portforward")
+ * @returns The file that last set the key or its closest parent, or undefined if unknown
+ */
+export function getConfigSource(app: LandoApp, keyPath: string): string | undefined {
+  const parts = keyPath.split('.');
+  while (parts.length > 0) {
+    const source = app.configSources?.[parts.join('.')];
+    if (source) {
+      return source;
+    }
+    parts.pop();
+  }
+  return undefined;
+}
+
+/**
+ * Parses the `events` section of a Landofile
+ *
+ * Each event lists commands as strings, which run in the default service
+ * (or, for events named after tooling such as `post-drush`, the tooling's
+ * service), or as `service: command` pairs.
+ *
+ * @param eventsConfig - The `events` section
+ * @param defaultService - The service commands without one run in
+ * @param tooling - The app's tooling
+ * @returns The events, or undefined if there are none
+ */
+export function parseLandoEvents(
+  eventsConfig: unknown,
+  defaultService: string,
+  tooling: LandoTooling[] = []
+): LandoEvent[] | undefined {
+  if (!isPlainObject(eventsConfig)) {
+    return undefined;
+  }
+
+  const events: LandoEvent[] = [];
+  for (const [name, definition] of Object.entries(eventsConfig)) {
+    const tool = tooling.find(t => name === `pre-${t.name}` || name === `post-${t.name}`);
+    // Tooling with a dynamic service (e.g., ":service") has no fixed default
+    const service = tool?.service && !tool.service.startsWith(':') ? tool.service : defaultService;
+
+    const commands: LandoEventCommand[] = [];
+    for (const step of Array.isArray(definition) ? definition : [definition]) {
+      if (typeof step === 'string') {
+        commands.push({ service, cmd: step });
+      } else if (isPlainObject(step)) {
+        for (const [stepService, cmd] of Object.entries(step)) {
+          if (typeof cmd === 'string') {
+            commands.push({ service: stepService, cmd });
+          }
+        }
+      }
+    }
+    if (commands.length > 0) {
+      events.push({ name, commands });
+    }
+  }
+  return events.length > 0 ? events : undefined;
+}
+
+/**
+ * Builds the glob that keeps excluded directories out of app discovery
+ *
+ * Hidden directories aren't part of the glob: a `.*` pattern could also
+ * match the Landofile itself, so they are dropped with isExcludedFromDetection.
+ *
+ * @param excludeDirs - Directory names to exclude (e.g., "node_modules")
+ * @returns An exclude glob for `findFiles` matching the directories at any depth,
+ *   or undefined if there are none
+ */
+export function getDetectionExcludeGlob(excludeDirs: string[]): string | undefined {
+  const names = excludeDirs.filter(dir => dir);
+  return names.length > 0 ? `**/{${names.join(',')}}/**` : undefined;
+}
+
+/**
+ * Checks whether a Landofile is inside an excluded or hidden directory of its workspace folder
+ *
+ * @param folderPath - The workspace folder path
+ * @param configPath - The Landofile path
+ * @param excludeDirs - Directory names to exclude
+ * @returns True if the Landofile should not be detected
+ */
+export function isExcludedFromDetection(folderPath: string, configPath: string, excludeDirs: string[]): boolean {
+  const relative = path.relative(folderPath, path.dirname(configPath));
+  return relative
+    .split(path.sep)
+    .filter(segment => segment)
+    .some(segment => excludeDirs.includes(segment) || segment.startsWith('.'));
+}
+
+/**
+ * Checks whether a Landofile is within the detection depth of its workspace folder
+ *
+ * @param folderPath - The workspace folder path
+ * @param configPath - The Landofile path
+ * @param maxDepth - Maximum number of directories below the folder, or 0 for no limit
+ * @returns True if the Landofile should be detected
+ */
+export function isWithinMaxDepth(folderPath: string, configPath: string, maxDepth: number): boolean {
+  if (maxDepth <= 0) {
+    return true;
+  }
+  const relative = path.relative(folderPath, path.dirname(configPath));
+  const depth = relative ? relative.split(path.sep).length : 0;
+  return depth <= maxDepth;
+}
+
+/**
+ * Checks whether a file is inside an app's root directory
+ *
+ * @param filePath - The file path
+ * @param rootPath - The app's root directory
+ * @returns True for the root itself and paths below it, but not for
+ *   siblings sharing its prefix (e.g., "/ws/app-one-extra" for "/ws/app-one")
+ */
+export function isFileInApp(filePath: string, rootPath: string): boolean {
+  const root = rootPath.endsWith(path.sep) ? rootPath : rootPath + path.sep;
+  return filePath === rootPath || filePath.startsWith(root);
+}
+
+/**
+ * Progress of a running app discovery
+ */
+export interface LandoScanProgress {
+  /** Workspace folders to search */
+  totalFolders: number;
+  /** Workspace folders searched so far */
+  scannedFolders: number;
+  /** Landofiles found so far */
+  landofiles: number;
+}
+
 /**
  * Configuration options for the detector
  */
 interface DetectorConfig {
-  /** Maximum depth to search for .lando.yml files (default: 3) */
+  /** Maximum depth to search for .lando.yml files, or 0 for no limit (default: 3) */
   maxDepth: number;
   /** Directories to exclude from search */
   excludeDirs: string[];
@@ -84,6 +378,7 @@ interface DetectorConfig {
  * 
  * Features:
  * - Scans all workspace folders for .lando.yml files
+ * - Merges override files (.lando.base.yml, .lando.local.yml, ...) into one app
  * - Supports nested Lando apps (configurable depth)
  * - Watches for file system changes (create/delete/modify)
  * - Emits events when apps are added or removed
@@ -100,9 +395,15 @@ interface DetectorConfig {
 export class LandoAppDetector implements vscode.Disposable {
   private apps: Map<string, LandoApp> = new Map();
   private fileWatcher: vscode.FileSystemWatcher | undefined;
+  private envFileWatcher: vscode.FileSystemWatcher | undefined;
   private workspaceFolderWatcher: vscode.Disposable | undefined;
+  // Main Landofiles found in each workspace folder, keyed by folder URI
+  private folderScans: Map<string, Set<string>> = new Map();
+  private scanCancellation: vscode.CancellationTokenSource | undefined;
+  private scanProgress: LandoScanProgress | undefined;
   private outputChannel: vscode.OutputChannel | undefined;
   private config: DetectorConfig;
+  private landofileNames: LandofileNames;
 
   private readonly _onDidChangeApps = new vscode.EventEmitter<LandoAppsChangedEvent>();
   
@@ -111,8 +412,19 @@ export class LandoAppDetector implements vscode.Disposable {
    */
   public readonly onDidChangeApps = this._onDidChangeApps.event;
 
-  constructor() {
+  private readonly _onDidChangeScanProgress = new vscode.EventEmitter<LandoScanProgress | undefined>();
+
+  /**
+   * Event fired when app discovery starts, progresses or finishes (with undefined)
+   */
+  public readonly onDidChangeScanProgress = this._onDidChangeScanProgress.event;
+
+  /**
+   * @param landofileNames - Landofile names from Lando's global config
+   */
+  constructor(landofileNames: LandofileNames = DEFAULT_LANDOFILE_NAMES) {
     this.config = this.loadConfig();
+    this.landofileNames = landofileNames;
   }
 
   /**
@@ -152,7 +464,10 @@ export class LandoAppDetector implements vscode.Disposable {
     await this.scanAllWorkspaces();
 
     // Set up file watcher for .lando.yml files
-    this.setupFileWatcher(context);
+    this.setupFileWatcher();
+
+    // Set up file watcher for env files referenced by apps
+    this.setupEnvFileWatcher();
 
     // Watch for workspace folder changes
     this.setupWorkspaceFolderWatcher(context);
@@ -171,23 +486,51 @@ export class LandoAppDetector implements vscode.Disposable {
     this.log(`Detector activated. Found ${this.apps.size} Lando app(s).`);
   }
 
+  /**
+   * Sets the Landofile names (e.g., from Lando's global config) and rescans
+   *
+   * @param names - The Landofile names
+   */
+  public async setLandofileNames(names: LandofileNames): Promise<void> {
+    if (JSON.stringify(names) === JSON.stringify(this.landofileNames)) {
+      return;
+    }
+    const watcherChanged = names.landofile !== this.landofileNames.landofile;
+    this.landofileNames = names;
+    if (watcherChanged && this.fileWatcher) {
+      this.fileWatcher.dispose();
+      this.setupFileWatcher();
+    }
+    // Override file names may have changed too, so re-read every app
+    await this.scanAllWorkspaces({ reparse: true });
+  }
+
   /**
    * Sets up the file system watcher for .lando.yml files
    */
-  private setupFileWatcher(context: vscode.ExtensionContext): void {
+  private setupFileWatcher(): void {
     // Watch for .lando.yml and .lando.*.yml files
     this.fileWatcher = vscode.workspace.createFileSystemWatcher(
-      '**/.lando{,.*}.yml',
+      `**/${this.landofileNames.landofile}{,.*}.yml`,
       false, // Don't ignore creates
       false, // Don't ignore changes
       false  // Don't ignore deletes
     );
 
-    this.fileWatcher.onDidCreate(uri => this.handleFileCreate(uri));
-    this.fileWatcher.onDidChange(uri => this.handleFileChange(uri));
-    this.fileWatcher.onDidDelete(uri => this.handleFileDelete(uri));
+    this.fileWatcher.onDidCreate(uri => this.handleFileEvent(uri, 'created'));
+    this.fileWatcher.onDidChange(uri => this.handleFileEvent(uri, 'changed'));
+    this.fileWatcher.onDidDelete(uri => this.handleFileEvent(uri, 'deleted'));
+  }
+
+  /**
+   * Sets up the file system watcher for env files apps load with `env_file`
+   */
+  private setupEnvFileWatcher(): void {
+    this.envFileWatcher = vscode.workspace.createFileSystemWatcher('**/{.env,.env.*,*.env}');
 
-    context.subscriptions.push(this.fileWatcher);
+    this.envFileWatcher.onDidCreate(uri => this.handleEnvFileEvent(uri));
+    this.envFileWatcher.onDidChange(uri => this.handleEnvFileEvent(uri));
+    this.envFileWatcher.onDidDelete(uri => this.handleEnvFileEvent(uri));
   }
 
   /**
@@ -197,8 +540,12 @@ export class LandoAppDetector implements vscode.Disposable {
     this.workspaceFolderWatcher = vscode.workspace.onDidChangeWorkspaceFolders(
       async event => {
         // Scan newly added folders
+        const added: LandoApp[] = [];
         for (const folder of event.added) {
-          await this.scanWorkspaceFolder(folder);
+          added.push(...(await this.scanWorkspaceFolder(folder)).added);
+        }
+        if (added.length > 0) {
+          this._onDidChangeApps.fire({ apps: Array.from(this.apps.values()), added, removed: [] });
         }
 
         // Remove apps from removed folders
@@ -212,38 +559,50 @@ export class LandoAppDetector implements vscode.Disposable {
   }
 
   /**
-   * Scans all workspace folders for Lando apps
+   * Scans all workspace folders for Lando apps, applying only the changes
+   * since the previous scan
+   *
+   * A scan started while another is running cancels the earlier one.
+   *
+   * @param options.reparse - Re-read apps that were already detected
    */
-  private async scanAllWorkspaces(): Promise<void> {
+  private async scanAllWorkspaces(options?: { reparse?: boolean }): Promise<void> {
     const workspaceFolders = vscode.workspace.workspaceFolders;
     if (!workspaceFolders) {
       this.log('No workspace folders to scan');
       return;
     }
 
-    const previousApps = new Map(this.apps);
-    this.apps.clear();
-
-    for (const folder of workspaceFolders) {
-      await this.scanWorkspaceFolder(folder);
-    }
+    this.scanCancellation?.cancel();
+    const cancellation = new vscode.CancellationTokenSource();
+    this.scanCancellation = cancellation;
 
-    // Calculate changes
     const added: LandoApp[] = [];
     const removed: LandoApp[] = [];
+    const progress: LandoScanProgress = { totalFolders: workspaceFolders.length, scannedFolders: 0, landofiles: 0 };
+    this.setScanProgress(progress);
 
-    for (const [path, app] of this.apps) {
-      if (!previousApps.has(path)) {
-        added.push(app);
+    try {
+      for (const folder of workspaceFolders) {
+        const changes = await this.scanWorkspaceFolder(folder, cancellation.token, options?.reparse);
+        added.push(...changes.added);
+        removed.push(...changes.removed);
+        if (cancellation.token.isCancellationRequested) {
+          break;
+        }
+        progress.scannedFolders++;
+        progress.landofiles += this.folderScans.get(folder.uri.toString())?.size ?? 0;
+        this.setScanProgress(progress);
       }
-    }
-
-    for (const [path, app] of previousApps) {
-      if (!this.apps.has(path)) {
-        removed.push(app);
+    } finally {
+      if (this.scanCancellation === cancellation) {
+        this.scanCancellation = undefined;
+        this.setScanProgress(undefined);
       }
+      cancellation.dispose();
     }
 
+    // Report the changes applied so far, even if a newer scan took over
     if (added.length > 0 || removed.length > 0) {
       this._onDidChangeApps.fire({
         apps: Array.from(this.apps.values()),
@@ -255,69 +614,141 @@ export class LandoAppDetector implements vscode.Disposable {
 
   /**
    * Scans a single workspace folder for Lando apps
+   *
+   * Landofiles are found with `findFiles`, then only apps whose Landofile
+   * appeared or disappeared since the folder's last scan are read or removed.
+   *
+   * @returns The apps added and removed
    */
-  private async scanWorkspaceFolder(folder: vscode.WorkspaceFolder): Promise<void> {
+  private async scanWorkspaceFolder(
+    folder: vscode.WorkspaceFolder,
+    token?: vscode.CancellationToken,
+    reparse = false
+  ): Promise<{ added: LandoApp[]; removed: LandoApp[] }> {
+    const added: LandoApp[] = [];
+    const removed: LandoApp[] = [];
     this.log(`Scanning workspace folder: ${folder.uri.fsPath}`);
-    await this.scanDirectory(folder.uri.fsPath, folder, 0);
-  }
 
-  /**
-   * Recursively scans a directory for .lando.yml files
-   */
-  private async scanDirectory(
-    dirPath: string,
-    workspaceFolder: vscode.WorkspaceFolder,
-    depth: number
-  ): Promise<void> {
-    if (depth > this.config.maxDepth) {
-      return;
+    let uris: vscode.Uri[];
+    try {
+      uris = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(folder, `**/${this.landofileNames.landofile}.yml`),
+        getDetectionExcludeGlob(this.config.excludeDirs) ?? null,
+        undefined,
+        token
+      );
+    } catch (error) {
+      this.log(`Error scanning workspace folder ${folder.uri.fsPath}: ${error}`);
+      return { added, removed };
+    }
+    if (token?.isCancellationRequested) {
+      return { added, removed };
     }
 
-    try {
-      const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+    const key = folder.uri.toString();
+    const previous = this.folderScans.get(key) ?? new Set<string>();
+    const found = new Set(
+      uris
+        .map(uri => uri.fsPath)
+        .filter(configPath => this.isDetectable(folder, configPath))
+    );
+    this.folderScans.set(key, found);
 
-      for (const entry of entries) {
-        const fullPath = path.join(dirPath, entry.name);
+    for (const configPath of previous) {
+      const app = this.apps.get(configPath);
+      if (!found.has(configPath) && app) {
+        this.apps.delete(configPath);
+        removed.push(app);
+      }
+    }
 
-        if (entry.isFile() && this.isLandoFile(entry.name)) {
-          await this.parseAndAddApp(fullPath, workspaceFolder);
-        } else if (entry.isDirectory() && !this.shouldExcludeDir(entry.name)) {
-          await this.scanDirectory(fullPath, workspaceFolder, depth + 1);
-        }
+    // Override files are merged into the app of the main Landofile
+    for (const configPath of found) {
+      const existing = this.apps.get(configPath);
+      if (existing && !reparse) {
+        continue;
+      }
+      if (existing) {
+        this.apps.delete(configPath);
+        removed.push(existing);
+      }
+      const app = await this.parseAndAddApp(configPath, folder);
+      if (app) {
+        added.push(app);
       }
-    } catch (error) {
-      this.log(`Error scanning directory ${dirPath}: ${error}`);
     }
+
+    this.log(`Found ${found.size} Landofile(s) in ${folder.name} (${added.length} read, ${removed.length} removed)`);
+    return { added, removed };
   }
 
   /**
-   * Checks if a filename matches the Lando config pattern
+   * Checks whether a Landofile is within the detection depth and outside excluded directories
    */
-  private isLandoFile(filename: string): boolean {
-    return /^\.lando(\..+)?\.yml$/.test(filename);
+  private isDetectable(folder: vscode.WorkspaceFolder, configPath: string): boolean {
+    return isWithinMaxDepth(folder.uri.fsPath, configPath, this.config.maxDepth) &&
+      !isExcludedFromDetection(folder.uri.fsPath, configPath, this.config.excludeDirs);
+  }
+
+  /**
+   * Updates and reports the discovery progress
+   */
+  private setScanProgress(progress: LandoScanProgress | undefined): void {
+    this.scanProgress = progress ? { ...progress } : undefined;
+    this._onDidChangeScanProgress.fire(this.scanProgress);
   }
 
   /**
-   * Checks if a directory should be excluded from scanning
+   * Gets the progress of the running app discovery
+   *
+   * @returns The progress, or undefined when no discovery is running
    */
-  private shouldExcludeDir(dirname: string): boolean {
-    return this.config.excludeDirs.includes(dirname) || dirname.startsWith('.');
+  public getScanProgress(): LandoScanProgress | undefined {
+    return this.scanProgress;
+  }
+
+  /**
+   * Checks if a filename is one of the Landofiles Lando merges
+   */
+  private isLandoFile(filename: string): boolean {
+    return getLandofileOrder(this.landofileNames).includes(filename);
   }
 
   /**
-   * Parses a .lando.yml file and adds it to the detected apps
+   * Parses a .lando.yml file and its override files and adds the app to the detected apps
    */
   private async parseAndAddApp(
     configPath: string,
     workspaceFolder: vscode.WorkspaceFolder
   ): Promise<LandoApp | undefined> {
     try {
-      const content = await fs.promises.readFile(configPath, 'utf8');
-      const app = this.parseLandoConfig(content, configPath, workspaceFolder);
+      const files = await this.readLandofiles(configPath);
+      if (!files) {
+        return undefined;
+      }
+      const merged = mergeLandofiles(files);
+      const rootPath = path.dirname(configPath);
+      const env = await loadEnvFiles(rootPath, getEnvFiles(merged.config));
+      for (const missing of env.missing) {
+        this.log(`Env file not found: ${missing}`);
+      }
+      // Like Lando, the host environment wins over env files
+      const interpolated = interpolateConfig(merged.config, { ...env.variables, ...process.env });
+      const app = this.parseLandoConfig(interpolated.config, configPath, workspaceFolder);
       
       if (app) {
+        app.landofiles = files.map(file => file.path);
+        app.configSources = merged.sources;
+        if (env.files.length > 0) {
+          app.envFiles = env.files;
+        }
+        if (interpolated.unresolved.length > 0) {
+          app.unresolvedVariables = interpolated.unresolved;
+          this.log(`Unresolved variables in ${configPath}: ${interpolated.unresolved.join(', ')}`);
+        }
         this.apps.set(configPath, app);
-        this.log(`Detected Lando app: ${app.name} at ${configPath}`);
+        const overrides = files.length > 1 ? ` (with ${files.length - 1} override file(s))` : '';
+        this.log(`Detected Lando app: ${app.name} at ${configPath}${overrides}`);
         return app;
       }
     } catch (error) {
@@ -327,22 +758,59 @@ export class LandoAppDetector implements vscode.Disposable {
   }
 
   /**
-   * Parses Lando configuration content
+   * Reads and parses the main Landofile and the override files next to it
+   *
+   * @returns The parsed files in merge order, or undefined if the main Landofile is invalid
+   */
+  private async readLandofiles(configPath: string): Promise<ParsedLandofile[] | undefined> {
+    const rootPath = path.dirname(configPath);
+    const files: ParsedLandofile[] = [];
+
+    for (const fileName of getLandofileOrder(this.landofileNames)) {
+      const filePath = path.join(rootPath, fileName);
+      let content: string;
+      try {
+        content = await fs.promises.readFile(filePath, 'utf8');
+      } catch (error) {
+        // Override files are optional; without the main Landofile there is no app
+        if (filePath !== configPath) {
+          continue;
+        }
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+
+      let config: unknown;
+      try {
+        config = yaml.load(content);
+      } catch (error) {
+        this.log(`Error parsing YAML in ${filePath}: ${error}`);
+        config = undefined;
+      }
+      if (config && typeof config === 'object' && !Array.isArray(config)) {
+        files.push({ path: filePath, config: config as Record<string, unknown> });
+      } else if (filePath === configPath) {
+        this.log(`Invalid YAML in ${configPath}`);
+        return undefined;
+      } else if (content.trim()) {
+        this.log(`Ignoring invalid override file ${filePath}`);
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Builds an app from its merged configuration
    */
   private parseLandoConfig(
-    content: string,
+    config: Record<string, unknown>,
     configPath: string,
     workspaceFolder: vscode.WorkspaceFolder
   ): LandoApp | null {
     try {
-      // Parse YAML content
-      const config = yaml.load(content) as Record<string, unknown> | null;
-      
-      if (!config || typeof config !== 'object') {
-        this.log(`Invalid YAML in ${configPath}`);
-        return null;
-      }
-
       // Extract app name (required)
       const name = config.name as string | undefined;
       if (!name || typeof name !== 'string') {
@@ -355,15 +823,29 @@ export class LandoAppDetector implements vscode.Disposable {
       // Extract recipe (optional)
       const recipe = typeof config.recipe === 'string' ? config.recipe : undefined;
 
-      // Extract services (optional)
+      // Services and tooling the recipe implies, for use before lando info answers
+      const recipeDefaults = getRecipeDefaults(recipe, config.config, config.services);
+
+      // Extract services (optional), including the recipe's
       let services: string[] | undefined;
+      const serviceNames = new Set(recipeDefaults?.services.map(service => service.name));
       if (config.services && typeof config.services === 'object') {
-        services = Object.keys(config.services as Record<string, unknown>);
+        Object.keys(config.services as Record<string, unknown>).forEach(name => serviceNames.add(name));
+      }
+      if (serviceNames.size > 0) {
+        services = Array.from(serviceNames);
       }
 
+      // Extract fixed forwarded ports (optional)
+      const portforwards = this.parsePortForwards(config.services);
+
       // Extract tooling (optional)
       const tooling = this.parseTooling(config.tooling);
 
+      // Extract events (optional); commands without a service run in the appserver
+      const defaultService = !services || services.includes('appserver') ? 'appserver' : services[0];
+      const events = parseLandoEvents(config.events, defaultService, tooling);
+
       return {
         name,
         cleanName,
@@ -372,14 +854,40 @@ export class LandoAppDetector implements vscode.Disposable {
         workspaceFolder,
         recipe,
         services,
-        tooling
+        recipeDefaults,
+        portforwards,
+        usesProxy: !!recipe || (!!config.proxy && typeof config.proxy === 'object'),
+        tooling,
+        events
       };
     } catch (error) {
-      this.log(`Error parsing YAML in ${configPath}: ${error}`);
+      this.log(`Error reading config in ${configPath}: ${error}`);
       return null;
     }
   }
 
+  /**
+   * Parses fixed `portforward` ports from service definitions
+   */
+  private parsePortForwards(servicesConfig: unknown): LandoPortForward[] | undefined {
+    if (!servicesConfig || typeof servicesConfig !== 'object') {
+      return undefined;
+    }
+
+    const portforwards: LandoPortForward[] = [];
+    for (const [service, definition] of Object.entries(servicesConfig as Record<string, unknown>)) {
+      const portforward = definition && typeof definition === 'object'
+        ? (definition as Record<string, unknown>).portforward
+        : undefined;
+      // `portforward: true` picks a random port, which can't conflict
+      const port = typeof portforward === 'string' ? Number(portforward) : portforward;
+      if (typeof port === 'number' && Number.isInteger(port) && port > 0 && port < 65536) {
+        portforwards.push({ service, port });
+      }
+    }
+    return portforwards.length > 0 ? portforwards : undefined;
+  }
+
   /**
    * Parses tooling definitions from Lando config
    */
@@ -455,65 +963,74 @@ export class LandoAppDetector implements vscode.Disposable {
   }
 
   /**
-   * Handles creation of a new .lando.yml file
+   * Handles creation, changes and deletion of Landofiles by re-reading the
+   * app in the file's directory
    */
-  private async handleFileCreate(uri: vscode.Uri): Promise<void> {
-    this.log(`Lando config created: ${uri.fsPath}`);
-    
+  private async handleFileEvent(uri: vscode.Uri, kind: 'created' | 'changed' | 'deleted'): Promise<void> {
+    if (!this.isLandoFile(path.basename(uri.fsPath))) {
+      return;
+    }
     const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
     if (!workspaceFolder) {
       return;
     }
 
-    const app = await this.parseAndAddApp(uri.fsPath, workspaceFolder);
-    if (app) {
-      this._onDidChangeApps.fire({
-        apps: Array.from(this.apps.values()),
-        added: [app],
-        removed: []
-      });
+    // Apply the same depth and exclude rules as scans
+    const configPath = path.join(path.dirname(uri.fsPath), `${this.landofileNames.landofile}.yml`);
+    if (!this.isDetectable(workspaceFolder, configPath)) {
+      return;
     }
+    this.log(`Lando config ${kind}: ${uri.fsPath}`);
+    if (uri.fsPath === configPath) {
+      this.updateFolderScan(workspaceFolder, configPath, kind !== 'deleted');
+    }
+    await this.reloadApp(configPath, workspaceFolder);
   }
 
   /**
-   * Handles changes to a .lando.yml file
+   * Keeps a folder's cached scan results in step with Landofiles created and
+   * deleted between scans
    */
-  private async handleFileChange(uri: vscode.Uri): Promise<void> {
-    this.log(`Lando config changed: ${uri.fsPath}`);
-    
-    const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-    if (!workspaceFolder) {
+  private updateFolderScan(folder: vscode.WorkspaceFolder, configPath: string, exists: boolean): void {
+    const found = this.folderScans.get(folder.uri.toString());
+    if (!found) {
       return;
     }
+    if (exists) {
+      found.add(configPath);
+    } else {
+      found.delete(configPath);
+    }
+  }
 
-    // Remove old entry and re-parse
-    const oldApp = this.apps.get(uri.fsPath);
-    this.apps.delete(uri.fsPath);
-
-    const newApp = await this.parseAndAddApp(uri.fsPath, workspaceFolder);
-    
-    if (oldApp || newApp) {
-      this._onDidChangeApps.fire({
-        apps: Array.from(this.apps.values()),
-        added: newApp ? [newApp] : [],
-        removed: oldApp ? [oldApp] : []
-      });
+  /**
+   * Handles changes to env files by re-reading the apps that load them
+   */
+  private async handleEnvFileEvent(uri: vscode.Uri): Promise<void> {
+    const apps = Array.from(this.apps.values()).filter(app => app.envFiles?.includes(uri.fsPath));
+    if (apps.length > 0) {
+      this.log(`Env file changed: ${uri.fsPath}`);
+    }
+    for (const app of apps) {
+      await this.reloadApp(app.configPath, app.workspaceFolder);
     }
   }
 
   /**
-   * Handles deletion of a .lando.yml file
+   * Re-reads an app and fires onDidChangeApps if it was added, changed or removed
    */
-  private handleFileDelete(uri: vscode.Uri): void {
-    this.log(`Lando config deleted: ${uri.fsPath}`);
+  private async reloadApp(configPath: string, workspaceFolder: vscode.WorkspaceFolder): Promise<void> {
+    // Remove old entry and re-parse
+    const oldApp = this.apps.get(configPath);
+    this.apps.delete(configPath);
+
+    const newApp = await this.parseAndAddApp(configPath, workspaceFolder);
     
-    const app = this.apps.get(uri.fsPath);
-    if (app) {
-      this.apps.delete(uri.fsPath);
+    if (oldApp || newApp) {
       this._onDidChangeApps.fire({
         apps: Array.from(this.apps.values()),
-        added: [],
-        removed: [app]
+        added: newApp ? [newApp] : [],
+        removed: oldApp ? [oldApp] : []
       });
     }
   }
@@ -523,6 +1040,7 @@ export class LandoAppDetector implements vscode.Disposable {
    */
   private removeAppsInFolder(folder: vscode.WorkspaceFolder): void {
     const removed: LandoApp[] = [];
+    this.folderScans.delete(folder.uri.toString());
     
     for (const [path, app] of this.apps) {
       if (app.workspaceFolder === folder) {
@@ -562,7 +1080,7 @@ export class LandoAppDetector implements vscode.Disposable {
     let bestMatchLength = 0;
 
     for (const app of this.apps.values()) {
-      if (filePath.startsWith(app.rootPath) && app.rootPath.length > bestMatchLength) {
+      if (isFileInApp(filePath, app.rootPath) && app.rootPath.length > bestMatchLength) {
         bestMatch = app;
         bestMatchLength = app.rootPath.length;
       }
@@ -632,8 +1150,11 @@ export class LandoAppDetector implements vscode.Disposable {
    * Disposes of the detector resources
    */
   public dispose(): void {
+    this.scanCancellation?.cancel();
     this._onDidChangeApps.dispose();
+    this._onDidChangeScanProgress.dispose();
     this.fileWatcher?.dispose();
+    this.envFileWatcher?.dispose();
     this.workspaceFolderWatcher?.dispose();
   }
 }
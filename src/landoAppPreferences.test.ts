@@ -0,0 +1,104 @@
+import * as assert from "assert";
+import { suite, test } from "mocha";
+import * as vscode from "vscode";
+import {
+  LandoAppPreferenceStore,
+  findPreferredUrl,
+  resolveAutoStart,
+  resolvePhpService,
+} from "./landoAppPreferences";
+import { createMockApp, createMockConfig } from "./test/fixtures";
+
+/**
+ * In-memory stand-in for workspaceState
+ */
+class MemoryMemento implements vscode.Memento {
+  private values = new Map<string, unknown>();
+
+  keys(): readonly string[] {
+    return Array.from(this.values.keys());
+  }
+
+  get<T>(key: string, defaultValue?: T): T {
+    return (this.values.has(key) ? this.values.get(key) : defaultValue) as T;
+  }
+
+  async update(key: string, value: unknown): Promise<void> {
+    this.values.set(key, JSON.parse(JSON.stringify(value)));
+  }
+}
+
+suite("LandoAppPreferences Test Suite", () => {
+  test("Should restore the selected app by config path", async () => {
+    const storage = new MemoryMemento();
+    const web = createMockApp("web");
+    const api = createMockApp("api");
+    await new LandoAppPreferenceStore(storage).setActiveApp(api);
+
+    const store = new LandoAppPreferenceStore(storage);
+    assert.strictEqual(store.getActiveApp([web, createMockApp("api")])?.name, "api");
+    assert.strictEqual(store.getActiveApp([web]), undefined);
+  });
+
+  test("Should keep preferences per app", async () => {
+    const store = new LandoAppPreferenceStore(new MemoryMemento());
+    const web = createMockApp("web");
+    const api = createMockApp("api");
+
+    await store.update(web, { phpService: "php", autoStart: true });
+    await store.update(web, { autoStart: false });
+
+    assert.deepStrictEqual(store.get(web), { phpService: "php", autoStart: false });
+    assert.deepStrictEqual(store.get(api), {});
+  });
+
+  test("Should reset preferences set to undefined", async () => {
+    const storage = new MemoryMemento();
+    const store = new LandoAppPreferenceStore(storage);
+    const web = createMockApp("web");
+
+    await store.update(web, { phpService: "php", muteCrashNotifications: true });
+    await store.update(web, { phpService: undefined });
+    assert.deepStrictEqual(store.get(web), { muteCrashNotifications: true });
+
+    await store.update(web, { muteCrashNotifications: undefined });
+    assert.deepStrictEqual(storage.get("lando.appPreferences"), {});
+  });
+
+  test("Should notify when an app's preferences change", async () => {
+    const store = new LandoAppPreferenceStore(new MemoryMemento());
+    const changed: string[] = [];
+    store.onDidChange(configPath => changed.push(configPath));
+
+    await store.update(createMockApp("web"), { autoStart: true });
+
+    assert.deepStrictEqual(changed, ["/workspace/web/.lando.yml"]);
+  });
+
+  test("Should let preferences override global settings", () => {
+    const config = createMockConfig({ "php.service": "web", autoStart: true });
+
+    assert.strictEqual(resolvePhpService({}, config), "web");
+    assert.strictEqual(resolvePhpService({ phpService: "php" }, config), "php");
+    assert.strictEqual(resolvePhpService({}, createMockConfig({})), "appserver");
+    assert.strictEqual(resolveAutoStart({}, config), true);
+    assert.strictEqual(resolveAutoStart({ autoStart: false }, config), false);
+  });
+
+  test("Should keep starting apps when auto-start is set nowhere", () => {
+    assert.strictEqual(resolveAutoStart({}, createMockConfig({})), true);
+    assert.strictEqual(resolveAutoStart({}, createMockConfig({ autoStart: false })), false);
+    assert.strictEqual(resolveAutoStart({ autoStart: false }, createMockConfig({})), false);
+  });
+
+  test("Should find the preferred URL only while the app still serves it", () => {
+    const urls = [
+      { url: "https://web.lndo.site", service: "appserver", primary: true },
+      { url: "https://mail.lndo.site", service: "mailhog", primary: false },
+    ];
+
+    assert.strictEqual(findPreferredUrl(urls, { preferredUrl: "https://mail.lndo.site" }), urls[1]);
+    assert.strictEqual(findPreferredUrl(urls, { preferredUrl: "https://old.lndo.site" }), undefined);
+    assert.strictEqual(findPreferredUrl(urls, {}), undefined);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Lando App Preferences Module
+ *
+ * This module remembers the selected app and per-app preferences in
+ * workspace state. The active app is restored by config path after a window
+ * reload instead of falling back to the primary app, and each app can
+ * override the global `lando.*` settings for its PHP service, URL,
+ * auto-start and crash notifications.
+ *
+ * @module landoAppPreferences
+ */
+
+import * as vscode from 'vscode';
+import { LandoApp } from './landoAppDetector';
+import { LandoServiceUrl } from './types';
+
+/**
+ * Workspace state key holding the selected app's config path
+ */
+const ACTIVE_APP_KEY = 'lando.activeApp';
+
+/**
+ * Workspace state key holding preferences, keyed by app config path
+ */
+const PREFERENCES_KEY = 'lando.appPreferences';
+
+/**
+ * Preferences for a single app; unset values fall back to the global settings
+ */
+export interface LandoAppPreferences {
+  /** The service PHP commands run in (overrides `lando.php.service`) */
+  phpService?: string;
+  /** The URL opened and copied without asking */
+  preferredUrl?: string;
+  /** Whether to start the app when the window opens (overrides `lando.autoStart`) */
+  autoStart?: boolean;
+  /** Whether to hide crash notifications (overrides `lando.crashNotifications.*`) */
+  muteCrashNotifications?: boolean;
+}
+
+/**
+ * Stored preferences, keyed by app config path
+ */
+type StoredPreferences = Record<string, LandoAppPreferences>;
+
+/**
+ * Options for creating a LandoAppPreferenceStore
+ */
+export interface LandoAppPreferenceStoreOptions {
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Gets the PHP service for an app
+ *
+ * @param preferences - The app's preferences
+ * @param config - The `lando` configuration section
+ * @returns The preferred service, or `lando.php.service`
+ */
+export function resolvePhpService(preferences: LandoAppPreferences, config: vscode.WorkspaceConfiguration): string {
+  return preferences.phpService ?? config.get<string>('php.service', 'appserver');
+}
+
+/**
+ * Checks whether an app should be started when the window opens
+ *
+ * @param preferences - The app's preferences
+ * @param config - The `lando` configuration section
+ * @returns The app's preference, or `lando.autoStart` if it has none
+ */
+export function resolveAutoStart(preferences: LandoAppPreferences, config: vscode.WorkspaceConfiguration): boolean {
+  return preferences.autoStart ?? config.get<boolean>('autoStart', true);
+}
+
+/**
+ * Finds an app's preferred URL among its current URLs
+ *
+ * @param urls - The app's URLs
+ * @param preferences - The app's preferences
+ * @returns The preferred URL, or undefined if none is set or it no longer exists
+ */
+export function findPreferredUrl(urls: LandoServiceUrl[], preferences: LandoAppPreferences): LandoServiceUrl | undefined {
+  return preferences.preferredUrl ? urls.find(url => url.url === preferences.preferredUrl) : undefined;
+}
+
+/**
+ * Persisted selected app and per-app preferences.
+ *
+ * Features:
+ * - Stores the selected app by config path in workspace state
+ * - Stores per-app preferences; unset values fall back to global settings
+ * - Fires onDidChange with the app's config path when its preferences change
+ *
+ * @example
+ * ```typescript
+ * const preferences = new LandoAppPreferenceStore(context.workspaceState);
+ * const app = preferences.getActiveApp(detector.getApps()) ?? detector.getPrimaryApp();
+ * await preferences.update(app, { autoStart: false });
+ * ```
+ */
+export class LandoAppPreferenceStore implements vscode.Disposable {
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+
+  private readonly _onDidChange = new vscode.EventEmitter<string>();
+
+  /**
+   * Event fired with the app's config path when its preferences change
+   */
+  public readonly onDidChange = this._onDidChange.event;
+
+  constructor(private readonly storage: vscode.Memento, options?: LandoAppPreferenceStoreOptions) {
+    this.outputChannel = options?.outputChannel;
+  }
+
+  /**
+   * Gets the stored selected app
+   *
+   * @param apps - The detected apps
+   * @returns The selected app, or undefined if none was stored or it no longer exists
+   */
+  public getActiveApp(apps: LandoApp[]): LandoApp | undefined {
+    const configPath = this.storage.get<string>(ACTIVE_APP_KEY);
+    return configPath ? apps.find(app => app.configPath === configPath) : undefined;
+  }
+
+  /**
+   * Stores the selected app
+   *
+   * @param app - The selected app
+   */
+  public async setActiveApp(app: LandoApp): Promise<void> {
+    if (this.storage.get<string>(ACTIVE_APP_KEY) !== app.configPath) {
+      await this.storage.update(ACTIVE_APP_KEY, app.configPath);
+    }
+  }
+
+  /**
+   * Gets an app's preferences
+   *
+   * @param app - The app
+   * @returns The preferences (empty when none are set)
+   */
+  public get(app: LandoApp): LandoAppPreferences {
+    return { ...this.load()[app.configPath] };
+  }
+
+  /**
+   * Changes an app's preferences
+   *
+   * @param app - The app
+   * @param changes - Preferences to set; undefined values are reset to the global setting
+   */
+  public async update(app: LandoApp, changes: LandoAppPreferences): Promise<void> {
+    const stored = this.load();
+    const preferences: Record<string, unknown> = { ...stored[app.configPath], ...changes };
+    for (const key of Object.keys(preferences)) {
+      if (preferences[key] === undefined) {
+        delete preferences[key];
+      }
+    }
+
+    if (Object.keys(preferences).length > 0) {
+      stored[app.configPath] = preferences as LandoAppPreferences;
+    } else {
+      delete stored[app.configPath];
+    }
+    await this.storage.update(PREFERENCES_KEY, stored);
+    this.log(`Updated preferences for ${app.name}: ${JSON.stringify(preferences)}`);
+    this._onDidChange.fire(app.configPath);
+  }
+
+  /**
+   * Reads the stored preferences
+   */
+  private load(): StoredPreferences {
+    return { ...this.storage.get<StoredPreferences>(PREFERENCES_KEY, {}) };
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[AppPreferences] ${message}`);
+  }
+
+  /**
+   * Releases the change event
+   */
+  public dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
@@ -14,8 +14,9 @@ import {
 
 suite("LandoAppState Test Suite", () => {
   suite("Helper Functions", () => {
-    test("isRunning returns true only for Running state", () => {
+    test("isRunning returns true for Running and Degraded states", () => {
       assert.strictEqual(isRunning(LandoAppState.Running), true);
+      assert.strictEqual(isRunning(LandoAppState.Degraded), true);
       assert.strictEqual(isRunning(LandoAppState.Stopped), false);
       assert.strictEqual(isRunning(LandoAppState.Starting), false);
       assert.strictEqual(isRunning(LandoAppState.Unknown), false);
@@ -58,6 +59,7 @@ suite("LandoAppState Test Suite", () => {
         "Destroying..."
       );
       assert.strictEqual(getStateLabel(LandoAppState.Error), "Error");
+      assert.strictEqual(getStateLabel(LandoAppState.Degraded), "Degraded");
     });
 
     test("BUSY_STATES contains all transitional states", () => {
@@ -106,6 +108,33 @@ suite("LandoAppState Test Suite", () => {
         );
       });
 
+      test("Unknown -> Degraded via poll when some services are down", () => {
+        stateMachine.updateFromPoll(testAppId, true, true);
+        assert.strictEqual(
+          stateMachine.getState(testAppId).state,
+          LandoAppState.Degraded
+        );
+      });
+
+      test("Starting -> Degraded -> Running as services come up", () => {
+        stateMachine.markStarting(testAppId);
+        stateMachine.updateFromPoll(testAppId, true, true);
+        assert.strictEqual(
+          stateMachine.getState(testAppId).state,
+          LandoAppState.Degraded
+        );
+        stateMachine.updateFromPoll(testAppId, true);
+        assert.strictEqual(
+          stateMachine.getState(testAppId).state,
+          LandoAppState.Running
+        );
+      });
+
+      test("Degraded app can be restarted", () => {
+        stateMachine.updateFromPoll(testAppId, true, true);
+        assert.strictEqual(stateMachine.markStopping(testAppId), true);
+      });
+
       test("Unknown -> Starting when user starts before poll", () => {
         assert.strictEqual(stateMachine.markStarting(testAppId), true);
         assert.strictEqual(
@@ -273,6 +302,101 @@ suite("LandoAppState Test Suite", () => {
       });
     });
 
+    suite("Cancellation", () => {
+      test("Cancelling a start restores Stopped", () => {
+        stateMachine.updateFromPoll(testAppId, false);
+        stateMachine.markStarting(testAppId);
+
+        assert.strictEqual(stateMachine.markCancelled(testAppId), true);
+
+        const info = stateMachine.getState(testAppId);
+        assert.strictEqual(info.state, LandoAppState.Stopped);
+        assert.strictEqual(info.cancelledState, LandoAppState.Starting);
+      });
+
+      test("Cancelling a stop restores Running", () => {
+        stateMachine.updateFromPoll(testAppId, true);
+        stateMachine.markStopping(testAppId);
+
+        stateMachine.markCancelled(testAppId);
+
+        assert.strictEqual(
+          stateMachine.getState(testAppId).state,
+          LandoAppState.Running
+        );
+      });
+
+      test("Cancelling a restart of a degraded app restores Degraded", () => {
+        stateMachine.updateFromPoll(testAppId, true, true);
+        stateMachine.markStopping(testAppId);
+
+        stateMachine.markCancelled(testAppId);
+
+        assert.strictEqual(
+          stateMachine.getState(testAppId).state,
+          LandoAppState.Degraded
+        );
+      });
+
+      test("Cancelling after an unknown or error state restores Unknown", () => {
+        stateMachine.markStarting(testAppId);
+        stateMachine.markCancelled(testAppId);
+        assert.strictEqual(
+          stateMachine.getState(testAppId).state,
+          LandoAppState.Unknown
+        );
+
+        stateMachine.markStarting(testAppId);
+        stateMachine.markError(testAppId, "Failed");
+        stateMachine.markRebuilding(testAppId);
+        stateMachine.markCancelled(testAppId);
+        assert.strictEqual(
+          stateMachine.getState(testAppId).state,
+          LandoAppState.Unknown
+        );
+      });
+
+      test("Cannot cancel when no operation is in progress", () => {
+        stateMachine.updateFromPoll(testAppId, true);
+
+        assert.strictEqual(stateMachine.markCancelled(testAppId), false);
+        assert.strictEqual(
+          stateMachine.getState(testAppId).state,
+          LandoAppState.Running
+        );
+      });
+
+      test("Emits a cancelled event", () => {
+        stateMachine.updateFromPoll(testAppId, false);
+        stateMachine.markDestroying(testAppId);
+        const events: StateChangeEvent[] = [];
+        stateMachine.onDidChangeState((e) => events.push(e));
+
+        stateMachine.markCancelled(testAppId);
+
+        assert.deepStrictEqual(events, [
+          {
+            appId: testAppId,
+            previousState: LandoAppState.Destroying,
+            newState: LandoAppState.Stopped,
+            cancelled: true,
+          },
+        ]);
+      });
+
+      test("Can start again after cancelling", () => {
+        stateMachine.updateFromPoll(testAppId, false);
+        stateMachine.markStarting(testAppId);
+        stateMachine.markCancelled(testAppId);
+
+        assert.strictEqual(stateMachine.markStarting(testAppId), true);
+        assert.strictEqual(
+          stateMachine.getState(testAppId).cancelledState,
+          undefined
+        );
+      });
+    });
+
     suite("canTransition", () => {
       test("Returns true for valid transitions", () => {
         stateMachine.updateFromPoll(testAppId, false);
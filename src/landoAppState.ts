@@ -20,8 +20,10 @@ export enum LandoAppState {
   Stopped = "stopped",
   /** lando start command is in progress */
   Starting = "starting",
-  /** At least one container is running */
+  /** All containers are running */
   Running = "running",
+  /** Some containers are running and others are not (e.g., a service died) */
+  Degraded = "degraded",
   /** lando stop command is in progress */
   Stopping = "stopping",
   /** lando rebuild command is in progress */
@@ -40,8 +42,10 @@ export interface LandoAppStateInfo {
   state: LandoAppState;
   /** Error message when state is Error */
   errorMessage?: string;
-  /** State before entering Error state (for recovery) */
+  /** State before entering Error or a busy state (for recovery) */
   previousState?: LandoAppState;
+  /** Busy state whose operation was cancelled (set when cancellation restored this state) */
+  cancelledState?: LandoAppState;
   /** When this state was entered */
   timestamp: Date;
 }
@@ -58,6 +62,8 @@ export interface StateChangeEvent {
   newState: LandoAppState;
   /** Error message if transitioning to Error state */
   errorMessage?: string;
+  /** True if the change restores the previous state after a cancelled operation */
+  cancelled?: boolean;
 }
 
 /**
@@ -68,22 +74,26 @@ const VALID_TRANSITIONS: Record<LandoAppState, LandoAppState[]> = {
   [LandoAppState.Unknown]: [
     LandoAppState.Stopped,
     LandoAppState.Running,
+    LandoAppState.Degraded,
     LandoAppState.Starting, // User may start before first poll
     LandoAppState.Error,
   ],
   [LandoAppState.Stopped]: [
     LandoAppState.Starting,
     LandoAppState.Running, // Poll detects external start
+    LandoAppState.Degraded, // Poll detects a partial external start
     LandoAppState.Rebuilding,
     LandoAppState.Destroying,
     LandoAppState.Error,
   ],
   [LandoAppState.Starting]: [
     LandoAppState.Running,
+    LandoAppState.Degraded, // Started, but not every service stayed up
     LandoAppState.Stopped, // Poll shows still stopped (start failed externally)
     LandoAppState.Error,
   ],
   [LandoAppState.Running]: [
+    LandoAppState.Degraded, // A service died
     LandoAppState.Stopping,
     LandoAppState.Rebuilding,
     LandoAppState.Destroying,
@@ -97,6 +107,7 @@ const VALID_TRANSITIONS: Record<LandoAppState, LandoAppState[]> = {
   ],
   [LandoAppState.Rebuilding]: [
     LandoAppState.Running,
+    LandoAppState.Degraded, // Rebuilt, but not every service stayed up
     LandoAppState.Stopped, // Rebuild can result in stopped state on failure
     LandoAppState.Error,
   ],
@@ -109,12 +120,22 @@ const VALID_TRANSITIONS: Record<LandoAppState, LandoAppState[]> = {
     // Error is transient - can go to any terminal state on next poll
     LandoAppState.Stopped,
     LandoAppState.Running,
+    LandoAppState.Degraded,
     // Can also retry operations from error state
     LandoAppState.Starting,
     LandoAppState.Stopping,
     LandoAppState.Rebuilding,
     LandoAppState.Destroying,
   ],
+  [LandoAppState.Degraded]: [
+    LandoAppState.Running, // Dead services came back
+    LandoAppState.Stopped, // Poll detects external stop
+    LandoAppState.Starting, // lando start brings the missing services back
+    LandoAppState.Stopping,
+    LandoAppState.Rebuilding,
+    LandoAppState.Destroying,
+    LandoAppState.Error,
+  ],
 };
 
 /**
@@ -128,10 +149,10 @@ export const BUSY_STATES: readonly LandoAppState[] = [
 ];
 
 /**
- * Check if an app is in a running state
+ * Check if an app is in a running state (fully or partially)
  */
 export function isRunning(state: LandoAppState): boolean {
-  return state === LandoAppState.Running;
+  return state === LandoAppState.Running || state === LandoAppState.Degraded;
 }
 
 /**
@@ -168,6 +189,8 @@ export function getStateLabel(state: LandoAppState): string {
       return "Starting...";
     case LandoAppState.Running:
       return "Running";
+    case LandoAppState.Degraded:
+      return "Degraded";
     case LandoAppState.Stopping:
       return "Stopping...";
     case LandoAppState.Rebuilding:
@@ -179,6 +202,36 @@ export function getStateLabel(state: LandoAppState): string {
   }
 }
 
+/**
+ * Possible states for the Docker engine that every Lando app runs on
+ */
+export enum DockerEngineState {
+  /** Initial state before the first status check */
+  Unknown = "unknown",
+  /** The engine answers requests */
+  Available = "available",
+  /** The engine is reachable but not ready yet (e.g., Docker Desktop booting) */
+  Starting = "starting",
+  /** The engine is not running or not reachable */
+  Unavailable = "unavailable",
+}
+
+/**
+ * Get a human-readable label for a Docker engine state
+ */
+export function getEngineStateLabel(state: DockerEngineState): string {
+  switch (state) {
+    case DockerEngineState.Unknown:
+      return "Unknown";
+    case DockerEngineState.Available:
+      return "Running";
+    case DockerEngineState.Starting:
+      return "Starting...";
+    case DockerEngineState.Unavailable:
+      return "Not running";
+  }
+}
+
 /**
  * Manages state transitions for Lando applications.
  *
@@ -198,6 +251,8 @@ export function getStateLabel(state: LandoAppState): string {
  * stateMachine.markStarting('myapp');
  * // ... after command completes ...
  * stateMachine.updateFromPoll('myapp', true); // Now running
+ * // ... or if the user cancels the command ...
+ * stateMachine.markCancelled('myapp'); // Back to the state before starting
  * ```
  */
 export class LandoAppStateMachine implements vscode.Disposable {
@@ -279,6 +334,11 @@ export class LandoAppStateMachine implements vscode.Disposable {
       newInfo.previousState = previousState;
     }
 
+    // Remember where a busy operation started so it can be cancelled
+    if (isBusy(newState)) {
+      newInfo.previousState = previousState;
+    }
+
     this.stateMap.set(appId, newInfo);
 
     // Emit change event
@@ -338,6 +398,47 @@ export class LandoAppStateMachine implements vscode.Disposable {
     return this.transition(appId, LandoAppState.Error, message);
   }
 
+  /**
+   * Mark the current operation as cancelled and restore the state the app
+   * was in before the operation started. This bypasses VALID_TRANSITIONS
+   * because the operation never completed.
+   *
+   * If the previous state isn't a settled state (e.g., Unknown or Error),
+   * the app returns to Unknown and the next poll determines the real state.
+   *
+   * @param appId - The app identifier
+   * @returns true if a busy operation was cancelled, false if the app wasn't busy
+   */
+  markCancelled(appId: string): boolean {
+    const current = this.getState(appId);
+    if (!isBusy(current.state)) {
+      return false;
+    }
+
+    const previous = current.previousState;
+    const restoredState =
+      previous === LandoAppState.Running ||
+      previous === LandoAppState.Degraded ||
+      previous === LandoAppState.Stopped
+        ? previous
+        : LandoAppState.Unknown;
+
+    this.stateMap.set(appId, {
+      state: restoredState,
+      cancelledState: current.state,
+      timestamp: new Date(),
+    });
+
+    this._onDidChangeState.fire({
+      appId,
+      previousState: current.state,
+      newState: restoredState,
+      cancelled: true,
+    });
+
+    return true;
+  }
+
   /**
    * Update state based on poll results.
    * This is the primary way state is updated after the initial transition.
@@ -345,11 +446,14 @@ export class LandoAppStateMachine implements vscode.Disposable {
    *
    * @param appId - The app identifier
    * @param isRunning - Whether containers are running (from poll)
+   * @param isDegraded - Whether only some of the containers are running
    */
-  updateFromPoll(appId: string, isRunning: boolean): void {
-    const targetState = isRunning
-      ? LandoAppState.Running
-      : LandoAppState.Stopped;
+  updateFromPoll(appId: string, isRunning: boolean, isDegraded = false): void {
+    const targetState = !isRunning
+      ? LandoAppState.Stopped
+      : isDegraded
+        ? LandoAppState.Degraded
+        : LandoAppState.Running;
     const current = this.getState(appId);
 
     // If already in the target terminal state, nothing to do
@@ -0,0 +1,98 @@
+import * as assert from "assert";
+import { suite, test } from "mocha";
+import {
+  compareLandoVersions,
+  describeUnsupportedFeature,
+  getLandoCapabilities,
+  getUnavailableCapabilities,
+  parseLandoVersion,
+} from "./landoCapabilities";
+
+suite("Lando Capabilities Test Suite", () => {
+  suite("parseLandoVersion", () => {
+    test("Should parse a v-prefixed version", () => {
+      assert.deepStrictEqual(parseLandoVersion("v3.21.2\n"), {
+        major: 3,
+        minor: 21,
+        patch: 2,
+        raw: "v3.21.2",
+      });
+    });
+
+    test("Should parse a version with a prerelease suffix", () => {
+      const version = parseLandoVersion("v3.0.0-rrc.7");
+
+      assert.strictEqual(version?.major, 3);
+      assert.strictEqual(version?.raw, "v3.0.0-rrc.7");
+    });
+
+    test("Should find the version inside verbose output", () => {
+      const version = parseLandoVersion("Lando CLI 3.23.11 (node v20.11.1)");
+
+      assert.strictEqual(version?.minor, 23);
+      assert.strictEqual(version?.patch, 11);
+    });
+
+    test("Should return undefined when there is no version", () => {
+      assert.strictEqual(parseLandoVersion("command not found"), undefined);
+    });
+  });
+
+  suite("compareLandoVersions", () => {
+    test("Should compare numerically, not lexically", () => {
+      const older = parseLandoVersion("3.9.0")!;
+      const newer = parseLandoVersion("3.10.0")!;
+
+      assert.ok(compareLandoVersions(older, newer) < 0);
+      assert.ok(compareLandoVersions(newer, older) > 0);
+      assert.strictEqual(compareLandoVersions(newer, parseLandoVersion("v3.10.0")!), 0);
+    });
+  });
+
+  suite("getLandoCapabilities", () => {
+    test("Should enable all features on a current Lando", () => {
+      const capabilities = getLandoCapabilities("v3.21.2");
+
+      assert.strictEqual(capabilities.available, true);
+      assert.deepStrictEqual(capabilities.features, { listJson: true, listFilter: true, infoJson: true });
+    });
+
+    test("Should disable features newer than the installed Lando", () => {
+      const capabilities = getLandoCapabilities("v3.0.5");
+
+      assert.strictEqual(capabilities.features.listJson, true);
+      assert.strictEqual(capabilities.features.listFilter, false);
+    });
+
+    test("Should disable JSON output on Lando 2", () => {
+      const capabilities = getLandoCapabilities("v2.1.0");
+
+      assert.strictEqual(capabilities.features.listJson, false);
+      assert.strictEqual(capabilities.features.infoJson, false);
+    });
+
+    test("Should assume support when the version can't be parsed", () => {
+      const capabilities = getLandoCapabilities("custom-wrapper");
+
+      assert.strictEqual(capabilities.version, undefined);
+      assert.strictEqual(capabilities.features.listJson, true);
+    });
+  });
+
+  suite("describeUnsupportedFeature", () => {
+    test("Should name the installed version and the requirement", () => {
+      const message = describeUnsupportedFeature(getLandoCapabilities("v2.1.0"), "infoJson");
+
+      assert.ok(message.includes("Lando v2.1.0"));
+      assert.ok(message.includes("lando info --format=json"));
+      assert.ok(message.includes("3.0.0"));
+    });
+
+    test("Should point to the executable setting when Lando can't run", () => {
+      const message = describeUnsupportedFeature(getUnavailableCapabilities("spawn lando ENOENT"), "listJson");
+
+      assert.ok(message.includes("ENOENT"));
+      assert.ok(message.includes("lando.executablePath"));
+    });
+  });
+});
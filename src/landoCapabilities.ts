@@ -0,0 +1,133 @@
+/**
+ * Lando Capabilities Module
+ *
+ * This module turns the output of `lando version` into a set of capabilities
+ * so features that the installed Lando cannot support can be disabled with an
+ * explanatory message instead of silently returning empty results.
+ *
+ * @module landoCapabilities
+ */
+
+/**
+ * Parsed Lando version
+ */
+export interface LandoVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  /** The version as reported by lando (e.g., 'v3.21.2') */
+  raw: string;
+}
+
+/**
+ * Lando CLI features that depend on the installed version
+ */
+export type LandoFeature =
+  /** `lando list --format=json` */
+  | 'listJson'
+  /** `lando list --filter=key=value` */
+  | 'listFilter'
+  /** `lando info --format=json` */
+  | 'infoJson';
+
+/**
+ * Capabilities of the installed Lando CLI
+ */
+export interface LandoCapabilities {
+  /** Whether the Lando executable could be run at all */
+  available: boolean;
+  /** The detected version (undefined if unavailable or unparseable) */
+  version?: LandoVersion;
+  /** Supported features */
+  features: Record<LandoFeature, boolean>;
+  /** Why Lando is unavailable (e.g., executable not found) */
+  error?: string;
+}
+
+/**
+ * Minimum Lando version and description for each feature
+ */
+export const LANDO_FEATURE_REQUIREMENTS: Record<LandoFeature, { minVersion: string; description: string }> = {
+  listJson: { minVersion: '3.0.0', description: 'lando list --format=json' },
+  listFilter: { minVersion: '3.1.0', description: 'lando list --filter' },
+  infoJson: { minVersion: '3.0.0', description: 'lando info --format=json' },
+};
+
+/**
+ * Parses the output of `lando version`
+ *
+ * @param output - The stdout of `lando version` (e.g., 'v3.21.2')
+ * @returns The parsed version, or undefined if no version was found
+ */
+export function parseLandoVersion(output: string): LandoVersion | undefined {
+  const match = output.match(/v?(\d+)\.(\d+)\.(\d+)(?:-[0-9A-Za-z.-]+)?/);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    major: parseInt(match[1], 10),
+    minor: parseInt(match[2], 10),
+    patch: parseInt(match[3], 10),
+    raw: match[0],
+  };
+}
+
+/**
+ * Compares two versions
+ *
+ * @returns A negative number if a < b, 0 if equal, a positive number if a > b
+ */
+export function compareLandoVersions(a: LandoVersion, b: LandoVersion): number {
+  return a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+}
+
+/**
+ * Builds the capability set for a detected Lando version.
+ * An unparseable version is treated optimistically (all features enabled),
+ * since custom builds and wrapper scripts may print non-standard output.
+ *
+ * @param versionOutput - The stdout of `lando version`
+ * @returns The capabilities of the installed Lando
+ */
+export function getLandoCapabilities(versionOutput: string): LandoCapabilities {
+  const version = parseLandoVersion(versionOutput);
+  const features = {} as Record<LandoFeature, boolean>;
+
+  for (const [feature, requirement] of Object.entries(LANDO_FEATURE_REQUIREMENTS)) {
+    features[feature as LandoFeature] = version
+      ? compareLandoVersions(version, parseLandoVersion(requirement.minVersion)!) >= 0
+      : true;
+  }
+
+  return { available: true, version, features };
+}
+
+/**
+ * Builds the capability set for a Lando executable that could not be run
+ *
+ * @param error - Why Lando could not be run
+ * @returns Capabilities with every feature disabled
+ */
+export function getUnavailableCapabilities(error: string): LandoCapabilities {
+  return {
+    available: false,
+    features: { listJson: false, listFilter: false, infoJson: false },
+    error,
+  };
+}
+
+/**
+ * Explains why a feature is not available
+ *
+ * @param capabilities - The detected capabilities
+ * @param feature - The unsupported feature
+ * @returns A message suitable for showing to the user
+ */
+export function describeUnsupportedFeature(capabilities: LandoCapabilities, feature: LandoFeature): string {
+  const requirement = LANDO_FEATURE_REQUIREMENTS[feature];
+  if (!capabilities.available) {
+    return `Lando could not be run (${capabilities.error ?? 'unknown error'}). Check the "lando.executablePath" setting.`;
+  }
+  const installed = capabilities.version ? `Lando ${capabilities.version.raw}` : 'The installed Lando';
+  return `${installed} does not support \`${requirement.description}\` (requires ${requirement.minVersion} or newer). Please upgrade Lando.`;
+}
@@ -0,0 +1,458 @@
+import * as assert from "assert";
+import { suite, test } from "mocha";
+import { EventEmitter } from "events";
+import { PassThrough } from "stream";
+import * as vscode from "vscode";
+import {
+  LandoCli,
+  LandoCliError,
+  LandoExecutor,
+  LandoProcess,
+  isLandoCliError,
+} from "./landoCli";
+
+/**
+ * Scripted behavior of the fake lando binary for one invocation
+ */
+interface FakeScript {
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number;
+  /** Delay before exiting in milliseconds; -1 never exits on its own */
+  delay?: number;
+  /** Emit a spawn error instead of running */
+  spawnError?: string;
+  /** Keep running when sent SIGINT (only SIGKILL stops it) */
+  ignoreSigint?: boolean;
+}
+
+/**
+ * Fake lando process driven by a script
+ */
+class FakeLandoProcess extends EventEmitter implements LandoProcess {
+  readonly stdout = new PassThrough();
+  readonly stderr = new PassThrough();
+  readonly stdin = new PassThrough();
+  killed = false;
+  readonly signals: Array<NodeJS.Signals | undefined> = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly script: FakeScript) {
+    super();
+    setImmediate(() => {
+      if (script.spawnError) {
+        this.emit("error", new Error(script.spawnError));
+        return;
+      }
+      if (script.stdout) {
+        this.stdout.write(script.stdout);
+      }
+      if (script.stderr) {
+        this.stderr.write(script.stderr);
+      }
+      if (script.delay !== -1) {
+        this.timer = setTimeout(() => this.exit(script.exitCode ?? 0), script.delay ?? 0);
+      }
+    });
+  }
+
+  kill(signal?: NodeJS.Signals): boolean {
+    this.signals.push(signal);
+    if (signal === "SIGINT" && this.script.ignoreSigint) {
+      return true;
+    }
+    this.killed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    setImmediate(() => this.exit(null));
+    return true;
+  }
+
+  private exit(code: number | null): void {
+    // Let pending data events flush before close, like a real process
+    setImmediate(() => this.emit("close", code, null));
+  }
+}
+
+/**
+ * Creates a fake executor that responds to lando arguments
+ */
+function createFakeExecutor(respond: (args: string[]) => FakeScript): {
+  executor: LandoExecutor;
+  calls: Array<{ command: string; args: string[]; cwd?: string }>;
+  processes: FakeLandoProcess[];
+} {
+  const calls: Array<{ command: string; args: string[]; cwd?: string }> = [];
+  const processes: FakeLandoProcess[] = [];
+  const executor: LandoExecutor = (command, args, options) => {
+    calls.push({ command, args, cwd: options.cwd });
+    const fake = new FakeLandoProcess(respond(args));
+    processes.push(fake);
+    return fake;
+  };
+  return { executor, calls, processes };
+}
+
+suite("LandoCli Test Suite", () => {
+  suite("run", () => {
+    test("Should collect stdout and resolve on exit code 0", async () => {
+      const { executor, calls } = createFakeExecutor(() => ({ stdout: "hello" }));
+      const cli = new LandoCli({ executor });
+
+      const result = await cli.run(["version"], { cwd: "/workspace/app" });
+
+      assert.strictEqual(result.stdout, "hello");
+      assert.strictEqual(result.exitCode, 0);
+      assert.deepStrictEqual(calls, [{ command: "lando", args: ["version"], cwd: "/workspace/app" }]);
+    });
+
+    test("Should use the configured command", async () => {
+      const { executor, calls } = createFakeExecutor(() => ({}));
+      const cli = new LandoCli({ executor, command: "/opt/lando/bin/lando" });
+
+      await cli.run(["list"]);
+
+      assert.strictEqual(calls[0].command, "/opt/lando/bin/lando");
+    });
+
+    test("Should reject with exit error on non-zero exit code", async () => {
+      const { executor } = createFakeExecutor(() => ({ stderr: "boom", exitCode: 2 }));
+      const cli = new LandoCli({ executor });
+
+      await assert.rejects(cli.run(["start"]), (error: unknown) => {
+        assert.ok(isLandoCliError(error, "exit"));
+        assert.strictEqual(error.exitCode, 2);
+        assert.strictEqual(error.stderr, "boom");
+        assert.deepStrictEqual(error.args, ["start"]);
+        return true;
+      });
+    });
+
+    test("Should resolve on non-zero exit code when ignoreExitCode is set", async () => {
+      const { executor } = createFakeExecutor(() => ({ stdout: "Usage", exitCode: 1 }));
+      const cli = new LandoCli({ executor });
+
+      const result = await cli.run([], { ignoreExitCode: true });
+
+      assert.strictEqual(result.exitCode, 1);
+      assert.strictEqual(result.stdout, "Usage");
+    });
+
+    test("Should reject with spawn error when the binary is missing", async () => {
+      const { executor } = createFakeExecutor(() => ({ spawnError: "spawn lando ENOENT" }));
+      const cli = new LandoCli({ executor });
+
+      await assert.rejects(cli.run(["list"]), (error: unknown) => {
+        assert.ok(isLandoCliError(error, "spawn"));
+        assert.ok(error.message.includes("ENOENT"));
+        return true;
+      });
+    });
+
+    test("Should kill the process and reject on timeout", async () => {
+      const { executor, processes } = createFakeExecutor(() => ({ delay: -1 }));
+      const cli = new LandoCli({ executor });
+
+      await assert.rejects(cli.run(["info"], { timeout: 20 }), (error: unknown) => {
+        assert.ok(isLandoCliError(error, "timeout"));
+        return true;
+      });
+      assert.strictEqual(processes[0].killed, true);
+    });
+
+    test("Should kill the process and reject on cancellation", async () => {
+      const { executor, processes } = createFakeExecutor(() => ({ delay: -1 }));
+      const cli = new LandoCli({ executor });
+      const source = new vscode.CancellationTokenSource();
+
+      const promise = cli.run(["start"], { token: source.token, timeout: 0 });
+      setTimeout(() => source.cancel(), 10);
+
+      await assert.rejects(promise, (error: unknown) => {
+        assert.ok(isLandoCliError(error, "cancelled"));
+        return true;
+      });
+      assert.strictEqual(processes[0].killed, true);
+      source.dispose();
+    });
+
+    test("Should interrupt gracefully and wait for the process to exit on cancellation", async () => {
+      const { executor, processes } = createFakeExecutor(() => ({ delay: -1 }));
+      const cli = new LandoCli({ executor });
+      const source = new vscode.CancellationTokenSource();
+
+      const promise = cli.run(["start"], { token: source.token, timeout: 0 });
+      await new Promise(resolve => setImmediate(resolve));
+      source.cancel();
+
+      await assert.rejects(promise, (error: unknown) => isLandoCliError(error, "cancelled"));
+      assert.deepStrictEqual(processes[0].signals, ["SIGINT"]);
+      source.dispose();
+    });
+
+    test("Should escalate to SIGKILL when the process ignores SIGINT", async () => {
+      const { executor, processes } = createFakeExecutor(() => ({ delay: -1, ignoreSigint: true }));
+      const cli = new LandoCli({ executor, killGracePeriod: 20 });
+      const source = new vscode.CancellationTokenSource();
+
+      const promise = cli.run(["start"], { token: source.token, timeout: 0 });
+      await new Promise(resolve => setImmediate(resolve));
+      source.cancel();
+
+      await assert.rejects(promise, (error: unknown) => isLandoCliError(error, "cancelled"));
+      assert.deepStrictEqual(processes[0].signals, ["SIGINT", "SIGKILL"]);
+      source.dispose();
+    });
+
+    test("Should not spawn when already cancelled", async () => {
+      const { executor, calls } = createFakeExecutor(() => ({}));
+      const cli = new LandoCli({ executor });
+      const source = new vscode.CancellationTokenSource();
+      source.cancel();
+
+      await assert.rejects(cli.run(["start"], { token: source.token }), LandoCliError);
+      assert.strictEqual(calls.length, 0);
+      source.dispose();
+    });
+
+    test("Should stream output to callbacks", async () => {
+      const { executor } = createFakeExecutor(() => ({ stdout: "out", stderr: "err" }));
+      const cli = new LandoCli({ executor });
+      const streamed: string[] = [];
+
+      await cli.run(["start"], {
+        onStdout: text => streamed.push(`stdout:${text}`),
+        onStderr: text => streamed.push(`stderr:${text}`),
+      });
+
+      assert.deepStrictEqual(streamed.sort(), ["stderr:err", "stdout:out"]);
+    });
+  });
+
+  suite("runJson", () => {
+    test("Should parse JSON output", async () => {
+      const { executor } = createFakeExecutor(() => ({
+        stdout: JSON.stringify([{ service: "appserver", app: "myapp", running: true }]),
+      }));
+      const cli = new LandoCli({ executor });
+
+      const containers = await cli.runJson<Array<{ service: string }>>(["list", "--format=json"]);
+
+      assert.strictEqual(containers.length, 1);
+      assert.strictEqual(containers[0].service, "appserver");
+    });
+
+    test("Should reject with parse error on invalid JSON", async () => {
+      const { executor } = createFakeExecutor(() => ({ stdout: "not json" }));
+      const cli = new LandoCli({ executor });
+
+      await assert.rejects(cli.runJson(["info", "--format=json"]), (error: unknown) => {
+        assert.ok(isLandoCliError(error, "parse"));
+        assert.strictEqual(error.stdout, "not json");
+        return true;
+      });
+    });
+  });
+
+  suite("Concurrency", () => {
+    test("Should limit the number of concurrent processes", async () => {
+      let active = 0;
+      let maxActive = 0;
+      const cli = new LandoCli({
+        maxConcurrent: 2,
+        executor: () => {
+          active++;
+          maxActive = Math.max(maxActive, active);
+          const fake = new FakeLandoProcess({ delay: 10 });
+          fake.on("close", () => active--);
+          return fake;
+        },
+      });
+
+      await Promise.all([1, 2, 3, 4, 5].map(() => cli.run(["list"])));
+
+      assert.strictEqual(maxActive, 2);
+      assert.strictEqual(cli.getRunningCount(), 0);
+      assert.strictEqual(cli.getQueuedCount(), 0);
+    });
+
+    test("Should not queue commands that skip the queue", async () => {
+      const { executor, calls } = createFakeExecutor(args => (args[0] === "info" ? { delay: 30 } : {}));
+      const cli = new LandoCli({ executor, maxConcurrent: 1 });
+
+      const info = cli.run(["info"], { timeout: 0 });
+      const list = cli.run(["list"]);
+      const start = cli.run(["start"], { skipQueue: true, timeout: 0 });
+      await new Promise(resolve => setImmediate(resolve));
+
+      assert.deepStrictEqual(calls.map(c => c.args[0]).sort(), ["info", "start"]);
+      await Promise.all([info, list, start]);
+      assert.strictEqual(calls[2].args[0], "list");
+    });
+
+    test("Should free the slot after a failed command", async () => {
+      const { executor } = createFakeExecutor(args => (args[0] === "fail" ? { exitCode: 1 } : {}));
+      const cli = new LandoCli({ executor, maxConcurrent: 1 });
+
+      await assert.rejects(cli.run(["fail"]));
+      const result = await cli.run(["list"]);
+
+      assert.strictEqual(result.exitCode, 0);
+    });
+
+    test("Should reject a queued command when it is cancelled", async () => {
+      const { executor, calls } = createFakeExecutor(args => (args[0] === "info" ? { delay: 30 } : {}));
+      const cli = new LandoCli({ executor, maxConcurrent: 1 });
+      const source = new vscode.CancellationTokenSource();
+
+      const info = cli.run(["info"], { timeout: 0 });
+      const start = cli.run(["start"], { token: source.token });
+      await new Promise(resolve => setImmediate(resolve));
+      source.cancel();
+
+      await assert.rejects(start, (error: unknown) => isLandoCliError(error, "cancelled"));
+      assert.strictEqual(cli.getQueuedCount(), 0);
+      await info;
+      assert.deepStrictEqual(calls.map(c => c.args[0]), ["info"]);
+      source.dispose();
+    });
+  });
+
+  suite("Capabilities", () => {
+    test("Should assume features are supported before detection", () => {
+      const cli = new LandoCli({ executor: createFakeExecutor(() => ({})).executor });
+
+      assert.strictEqual(cli.getCapabilities(), undefined);
+      assert.strictEqual(cli.supports("listFilter"), true);
+      assert.doesNotThrow(() => cli.requireFeature("listFilter", ["list"]));
+    });
+
+    test("Should detect capabilities from lando version", async () => {
+      const { executor, calls } = createFakeExecutor(() => ({ stdout: "v3.0.5\n" }));
+      const cli = new LandoCli({ executor });
+      const fired: boolean[] = [];
+      cli.onDidChangeCapabilities(capabilities => fired.push(capabilities.available));
+
+      const capabilities = await cli.detectCapabilities();
+
+      assert.deepStrictEqual(calls[0].args, ["version"]);
+      assert.strictEqual(capabilities.version?.raw, "v3.0.5");
+      assert.strictEqual(cli.supports("listJson"), true);
+      assert.strictEqual(cli.supports("listFilter"), false);
+      assert.deepStrictEqual(fired, [true]);
+    });
+
+    test("Should reject unsupported features with an explanation", async () => {
+      const { executor } = createFakeExecutor(() => ({ stdout: "v2.1.0" }));
+      const cli = new LandoCli({ executor });
+      await cli.detectCapabilities();
+
+      assert.throws(() => cli.requireFeature("infoJson", ["info", "--format=json"]), (error: unknown) => {
+        assert.ok(isLandoCliError(error, "unsupported"));
+        assert.ok(error.message.includes("v2.1.0"));
+        return true;
+      });
+    });
+
+    test("Should mark Lando unavailable when the executable can't run", async () => {
+      const { executor } = createFakeExecutor(() => ({ spawnError: "spawn lando ENOENT" }));
+      const cli = new LandoCli({ executor });
+
+      const capabilities = await cli.detectCapabilities();
+
+      assert.strictEqual(capabilities.available, false);
+      assert.strictEqual(cli.supports("listJson"), false);
+      assert.ok(cli.getUnsupportedReason("listJson")?.includes("lando.executablePath"));
+      cli.dispose();
+    });
+
+    test("Should retry detection after Lando could not be run", async () => {
+      let attempts = 0;
+      const { executor } = createFakeExecutor(() => (++attempts === 1 ? { exitCode: 1, stderr: "timed out" } : { stdout: "v3.0.5" }));
+      const cli = new LandoCli({ executor, capabilityRetryDelay: 5 });
+      const fired: boolean[] = [];
+      cli.onDidChangeCapabilities(capabilities => fired.push(capabilities.available));
+
+      assert.strictEqual((await cli.detectCapabilities()).available, false);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      assert.deepStrictEqual(fired, [false, true]);
+      assert.strictEqual(cli.supports("listJson"), true);
+      cli.dispose();
+    });
+
+    test("Should share a detection that is already running", async () => {
+      const { executor, calls } = createFakeExecutor(() => ({ stdout: "v3.0.5", delay: 5 }));
+      const cli = new LandoCli({ executor });
+
+      await Promise.all([cli.detectCapabilities(), cli.detectCapabilities()]);
+
+      assert.strictEqual(calls.length, 1);
+    });
+
+    test("Should discard capabilities when the executable changes", async () => {
+      const { executor, calls } = createFakeExecutor(() => ({ stdout: "v2.1.0" }));
+      const cli = new LandoCli({ executor });
+      await cli.detectCapabilities();
+
+      cli.setCommand("/opt/lando/bin/lando");
+      await cli.run(["list"]);
+
+      assert.strictEqual(cli.getCapabilities(), undefined);
+      assert.strictEqual(calls[1].command, "/opt/lando/bin/lando");
+    });
+
+    test("Should detect the new executable when it changes during a detection", async () => {
+      const { executor, calls } = createFakeExecutor(() =>
+        calls.length === 1 ? { exitCode: 1, stderr: "not found", delay: 10 } : { stdout: "v3.0.5" }
+      );
+      const cli = new LandoCli({ executor });
+
+      const stale = cli.detectCapabilities();
+      cli.setCommand("/opt/lando/bin/lando");
+      const capabilities = await cli.detectCapabilities();
+      await stale;
+
+      assert.strictEqual(calls.length, 2);
+      assert.strictEqual(calls[1].command, "/opt/lando/bin/lando");
+      assert.strictEqual(capabilities.available, true);
+      assert.strictEqual(cli.getCapabilities()?.available, true);
+      cli.dispose();
+    });
+
+    test("Should quote executables with spaces for terminals", () => {
+      const cli = new LandoCli({ command: "/Applications/My Tools/lando" });
+
+      assert.strictEqual(cli.getShellCommand(["ssh", "-s", "appserver"]), '"/Applications/My Tools/lando" ssh -s appserver');
+    });
+  });
+
+  suite("dispose", () => {
+    test("Should kill running processes", async () => {
+      const { executor, processes } = createFakeExecutor(() => ({ delay: -1 }));
+      const cli = new LandoCli({ executor });
+
+      const promise = cli.run(["start"], { timeout: 0 }).catch(() => undefined);
+      await new Promise(resolve => setImmediate(resolve));
+      cli.dispose();
+      await promise;
+
+      assert.strictEqual(processes[0].killed, true);
+    });
+
+    test("Should reject queued commands", async () => {
+      const { executor, calls } = createFakeExecutor(() => ({ delay: -1 }));
+      const cli = new LandoCli({ executor, maxConcurrent: 1 });
+
+      const running = cli.run(["start"], { timeout: 0 }).catch(() => undefined);
+      const queued = cli.run(["list"]);
+      await new Promise(resolve => setImmediate(resolve));
+      cli.dispose();
+
+      await assert.rejects(queued, (error: unknown) => isLandoCliError(error, "cancelled"));
+      await running;
+      assert.deepStrictEqual(calls.map(c => c.args[0]), ["start"]);
+    });
+  });
+});
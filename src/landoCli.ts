@@ -0,0 +1,675 @@
+/**
+ * Lando CLI Service Module
+ *
+ * This module provides a single asynchronous service for invoking the Lando CLI.
+ * Every module that needs to talk to Lando goes through this service so that
+ * timeouts, cancellation, concurrency limits and error reporting are handled
+ * consistently in one place.
+ *
+ * @module landoCli
+ */
+
+import * as vscode from 'vscode';
+import * as childProcess from 'child_process';
+import {
+  LandoCapabilities,
+  LandoFeature,
+  describeUnsupportedFeature,
+  getLandoCapabilities,
+  getUnavailableCapabilities,
+} from './landoCapabilities';
+
+/**
+ * Minimal process interface returned by an executor.
+ * Node's ChildProcess satisfies this interface, which keeps fake
+ * executors used in tests small.
+ */
+export interface LandoProcess {
+  readonly stdout: NodeJS.ReadableStream | null;
+  readonly stderr: NodeJS.ReadableStream | null;
+  readonly stdin: NodeJS.WritableStream | null;
+  kill(signal?: NodeJS.Signals): boolean;
+  on(event: 'close', listener: (code: number | null, signal: NodeJS.Signals | null) => void): this;
+  on(event: 'error', listener: (error: Error) => void): this;
+}
+
+/**
+ * Options passed from the service to an executor
+ */
+export interface LandoExecutorOptions {
+  /** Working directory for the process */
+  cwd?: string;
+  /** Environment for the process */
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Function that spawns a Lando process (pluggable for testing)
+ */
+export type LandoExecutor = (
+  command: string,
+  args: string[],
+  options: LandoExecutorOptions
+) => LandoProcess;
+
+/**
+ * Kinds of failures reported by the Lando CLI service
+ */
+export type LandoCliErrorKind =
+  /** The process could not be spawned (e.g., lando not installed) */
+  | 'spawn'
+  /** The process exited with a non-zero exit code */
+  | 'exit'
+  /** The process did not finish within the timeout */
+  | 'timeout'
+  /** The caller cancelled the command */
+  | 'cancelled'
+  /** The output could not be parsed */
+  | 'parse'
+  /** The installed Lando does not support the command */
+  | 'unsupported';
+
+/**
+ * Structured error raised by the Lando CLI service
+ */
+export class LandoCliError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: LandoCliErrorKind,
+    public readonly args: string[],
+    public readonly exitCode: number | null = null,
+    public readonly stdout: string = '',
+    public readonly stderr: string = ''
+  ) {
+    super(message);
+    this.name = 'LandoCliError';
+  }
+}
+
+/**
+ * Options for running a single Lando command
+ */
+export interface LandoRunOptions {
+  /** Working directory (the app root for app-specific commands) */
+  cwd?: string;
+  /** Timeout in milliseconds; 0 disables the timeout */
+  timeout?: number;
+  /** Token used to cancel the command */
+  token?: vscode.CancellationToken;
+  /** Additional environment variables */
+  env?: NodeJS.ProcessEnv;
+  /** Called with each chunk of stdout as it arrives */
+  onStdout?: (text: string) => void;
+  /** Called with each chunk of stderr as it arrives */
+  onStderr?: (text: string) => void;
+  /** Resolve instead of rejecting when the exit code is non-zero */
+  ignoreExitCode?: boolean;
+  /** Bypass the concurrency limit (for long-running lifecycle commands) */
+  skipQueue?: boolean;
+}
+
+/**
+ * Result of a completed Lando command
+ */
+export interface LandoRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+}
+
+/**
+ * Options for creating a LandoCli service
+ */
+export interface LandoCliOptions {
+  /** Custom executor (for testing against a fake binary) */
+  executor?: LandoExecutor;
+  /** The Lando executable to invoke */
+  command?: string;
+  /** Maximum number of queued commands running at once */
+  maxConcurrent?: number;
+  /** Default timeout in milliseconds */
+  defaultTimeout?: number;
+  /** How long a process may take to exit after SIGINT before it is killed with SIGKILL */
+  killGracePeriod?: number;
+  /** Delay before detecting capabilities again after Lando could not be run (doubles up to a limit) */
+  capabilityRetryDelay?: number;
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/** Default maximum number of concurrent Lando queries */
+const DEFAULT_MAX_CONCURRENT = 4;
+
+/** Default timeout for Lando queries in milliseconds */
+const DEFAULT_TIMEOUT = 15000;
+
+/** Default time to wait after SIGINT before sending SIGKILL */
+const DEFAULT_KILL_GRACE_PERIOD = 5000;
+
+/** Default delay before retrying capability detection after Lando could not be run */
+const DEFAULT_CAPABILITY_RETRY_DELAY = 30000;
+
+/** Longest delay between capability detection retries */
+const MAX_CAPABILITY_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * Default executor that spawns the real Lando binary
+ */
+export const defaultExecutor: LandoExecutor = (command, args, options) => {
+  return childProcess.spawn(command, args, {
+    cwd: options.cwd,
+    env: options.env,
+    stdio: 'pipe',
+  });
+};
+
+/**
+ * Asynchronous service for running Lando CLI commands.
+ *
+ * Features:
+ * - Never blocks the extension host (no execSync)
+ * - Per-command timeouts and CancellationToken support
+ * - Graceful termination (SIGINT, escalating to SIGKILL)
+ * - Limits how many Lando processes run at once
+ * - Rejects with structured LandoCliError instances
+ * - Pluggable executor so callers can be tested against a fake binary
+ *
+ * @example
+ * ```typescript
+ * const cli = new LandoCli({ outputChannel });
+ * const info = await cli.runJson<LandoServiceDetails[]>(['info', '--format=json'], {
+ *   cwd: app.rootPath,
+ * });
+ * ```
+ */
+export class LandoCli implements vscode.Disposable {
+  private readonly executor: LandoExecutor;
+  private command: string;
+  private readonly maxConcurrent: number;
+  private readonly defaultTimeout: number;
+  private readonly killGracePeriod: number;
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+  private running = 0;
+  private waiting: Array<{ start: () => void; cancel: (reason: string) => void }> = [];
+  private processes: Set<LandoProcess> = new Set();
+  private capabilities: LandoCapabilities | undefined;
+  private detection: Promise<LandoCapabilities> | undefined;
+  private readonly capabilityRetryDelay: number;
+  private nextCapabilityRetryDelay: number;
+  private capabilityRetryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  private readonly _onDidChangeCapabilities = new vscode.EventEmitter<LandoCapabilities>();
+
+  /**
+   * Event fired when capabilities are (re-)detected
+   */
+  public readonly onDidChangeCapabilities = this._onDidChangeCapabilities.event;
+
+  constructor(options?: LandoCliOptions) {
+    this.executor = options?.executor ?? defaultExecutor;
+    this.command = options?.command ?? 'lando';
+    this.maxConcurrent = Math.max(1, options?.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
+    this.defaultTimeout = options?.defaultTimeout ?? DEFAULT_TIMEOUT;
+    this.killGracePeriod = options?.killGracePeriod ?? DEFAULT_KILL_GRACE_PERIOD;
+    this.capabilityRetryDelay = options?.capabilityRetryDelay ?? DEFAULT_CAPABILITY_RETRY_DELAY;
+    this.nextCapabilityRetryDelay = this.capabilityRetryDelay;
+    this.outputChannel = options?.outputChannel;
+  }
+
+  /**
+   * Gets the Lando executable being invoked
+   */
+  public getCommand(): string {
+    return this.command;
+  }
+
+  /**
+   * Changes the Lando executable. Previously detected capabilities are
+   * discarded; call detectCapabilities() to detect them for the new executable.
+   *
+   * @param command - The Lando executable to invoke
+   */
+  public setCommand(command: string): void {
+    if (command === this.command) {
+      return;
+    }
+    this.log(`Using Lando executable: ${command}`);
+    this.command = command;
+    this.capabilities = undefined;
+    // A detection still running belongs to the old executable
+    this.detection = undefined;
+    this.cancelCapabilityRetry();
+    this.nextCapabilityRetryDelay = this.capabilityRetryDelay;
+  }
+
+  /**
+   * Builds a command line for sending to a terminal shell
+   *
+   * @param args - Arguments to pass to lando
+   * @returns The command line, quoting the executable if needed
+   */
+  public getShellCommand(args: string[]): string {
+    const executable = /\s/.test(this.command) ? `"${this.command}"` : this.command;
+    return [executable, ...args].join(' ');
+  }
+
+  /**
+   * Runs `lando version` and records what the installed Lando supports.
+   * If Lando can't be run (e.g., it timed out while starting up), detection
+   * is retried in the background, so a transient failure doesn't disable
+   * features for the rest of the session.
+   *
+   * @returns Promise resolving to the detected capabilities
+   */
+  public detectCapabilities(): Promise<LandoCapabilities> {
+    // Share a detection that is already running
+    if (!this.detection) {
+      this.cancelCapabilityRetry();
+      const detection = this.runCapabilityDetection().finally(() => {
+        if (this.detection === detection) {
+          this.detection = undefined;
+        }
+      });
+      this.detection = detection;
+    }
+    return this.detection;
+  }
+
+  /**
+   * Runs `lando version` and records the result
+   */
+  private async runCapabilityDetection(): Promise<LandoCapabilities> {
+    const command = this.command;
+    let capabilities: LandoCapabilities;
+    try {
+      const result = await this.run(['version']);
+      capabilities = getLandoCapabilities(result.stdout.trim());
+      const unsupported = Object.entries(capabilities.features)
+        .filter(([, supported]) => !supported)
+        .map(([feature]) => feature);
+      this.log(
+        `Detected Lando ${capabilities.version?.raw ?? '(unknown version)'}` +
+        (unsupported.length > 0 ? `; unsupported: ${unsupported.join(', ')}` : '')
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      capabilities = getUnavailableCapabilities(message);
+      this.log(`Could not detect Lando version: ${message}`);
+    }
+
+    // The executable changed while detecting; its own detection takes over
+    if (command !== this.command) {
+      return capabilities;
+    }
+
+    if (capabilities.available) {
+      this.nextCapabilityRetryDelay = this.capabilityRetryDelay;
+    } else {
+      this.scheduleCapabilityRetry();
+    }
+    this.capabilities = capabilities;
+    this._onDidChangeCapabilities.fire(capabilities);
+    return capabilities;
+  }
+
+  /**
+   * Detects capabilities again after a delay, backing off while Lando keeps failing
+   */
+  private scheduleCapabilityRetry(): void {
+    const delay = this.nextCapabilityRetryDelay;
+    this.nextCapabilityRetryDelay = Math.min(delay * 2, MAX_CAPABILITY_RETRY_DELAY);
+    this.log(`Retrying Lando version detection in ${Math.round(delay / 1000)}s`);
+    this.capabilityRetryTimer = setTimeout(() => {
+      this.capabilityRetryTimer = undefined;
+      this.detectCapabilities();
+    }, delay);
+    // Don't keep the process alive just to retry
+    this.capabilityRetryTimer.unref?.();
+  }
+
+  /**
+   * Cancels a pending capability detection retry
+   */
+  private cancelCapabilityRetry(): void {
+    if (this.capabilityRetryTimer) {
+      clearTimeout(this.capabilityRetryTimer);
+      this.capabilityRetryTimer = undefined;
+    }
+  }
+
+  /**
+   * Gets the detected capabilities
+   *
+   * @returns The capabilities, or undefined if not yet detected
+   */
+  public getCapabilities(): LandoCapabilities | undefined {
+    return this.capabilities;
+  }
+
+  /**
+   * Checks whether the installed Lando supports a feature.
+   * Features are assumed supported until capabilities have been detected.
+   *
+   * @param feature - The feature to check
+   * @returns True if the feature is supported (or not yet known)
+   */
+  public supports(feature: LandoFeature): boolean {
+    return this.capabilities?.features[feature] ?? true;
+  }
+
+  /**
+   * Explains why a feature is unavailable
+   *
+   * @param feature - The feature to check
+   * @returns A message for the user, or undefined if the feature is supported
+   */
+  public getUnsupportedReason(feature: LandoFeature): string | undefined {
+    if (!this.capabilities || this.supports(feature)) {
+      return undefined;
+    }
+    return describeUnsupportedFeature(this.capabilities, feature);
+  }
+
+  /**
+   * Throws if the installed Lando does not support a feature
+   *
+   * @param feature - The required feature
+   * @param args - The arguments of the command that needs the feature
+   * @throws LandoCliError with kind 'unsupported' explaining what is missing
+   */
+  public requireFeature(feature: LandoFeature, args: string[]): void {
+    const reason = this.getUnsupportedReason(feature);
+    if (reason) {
+      throw new LandoCliError(reason, 'unsupported', args);
+    }
+  }
+
+  /**
+   * Gets the number of commands currently running through the queue
+   */
+  public getRunningCount(): number {
+    return this.running;
+  }
+
+  /**
+   * Gets the number of commands waiting for a free slot
+   */
+  public getQueuedCount(): number {
+    return this.waiting.length;
+  }
+
+  /**
+   * Runs a Lando command and collects its output
+   *
+   * @param args - Arguments to pass to lando
+   * @param options - Run options
+   * @returns Promise resolving to the command result
+   * @throws LandoCliError when the command fails, times out or is cancelled
+   */
+  public async run(args: string[], options: LandoRunOptions = {}): Promise<LandoRunResult> {
+    if (options.token?.isCancellationRequested) {
+      throw new LandoCliError(`lando ${args.join(' ')} was cancelled`, 'cancelled', args);
+    }
+
+    if (options.skipQueue) {
+      return this.execute(args, options);
+    }
+
+    await this.acquire(args, options.token);
+    try {
+      return await this.execute(args, options);
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Runs a Lando command and parses its stdout as JSON
+   *
+   * @param args - Arguments to pass to lando (should include --format=json)
+   * @param options - Run options
+   * @returns Promise resolving to the parsed output
+   * @throws LandoCliError when the command fails or the output is not valid JSON
+   */
+  public async runJson<T>(args: string[], options: LandoRunOptions = {}): Promise<T> {
+    const result = await this.run(args, options);
+    try {
+      return JSON.parse(result.stdout) as T;
+    } catch (error) {
+      throw new LandoCliError(
+        `Could not parse output of lando ${args.join(' ')}: ${error}`,
+        'parse',
+        args,
+        result.exitCode,
+        result.stdout,
+        result.stderr
+      );
+    }
+  }
+
+  /**
+   * Spawns an interactive Lando process without collecting output.
+   * The caller owns the returned process (e.g., for a pseudoterminal).
+   *
+   * @param args - Arguments to pass to lando
+   * @param options - Executor options
+   * @returns The spawned process
+   */
+  public spawn(args: string[], options: LandoExecutorOptions = {}): LandoProcess {
+    this.log(`Spawning: ${this.command} ${args.join(' ')}`);
+    return this.executor(this.command, args, options);
+  }
+
+  /**
+   * Executes a command without applying the concurrency limit
+   */
+  private execute(args: string[], options: LandoRunOptions): Promise<LandoRunResult> {
+    return new Promise((resolve, reject) => {
+      const timeout = options.timeout ?? this.defaultTimeout;
+      const commandLine = `${this.command} ${args.join(' ')}`;
+      let stdout = '';
+      let stderr = '';
+      let settled = false;
+      let cancelled = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let cancelListener: vscode.Disposable | undefined;
+
+      this.log(`Running: ${commandLine}${options.cwd ? ` (cwd: ${options.cwd})` : ''}`);
+
+      let landoProcess: LandoProcess;
+      try {
+        landoProcess = this.executor(this.command, args, {
+          cwd: options.cwd,
+          env: options.env ? { ...process.env, ...options.env } : undefined,
+        });
+      } catch (error) {
+        reject(new LandoCliError(`Failed to run ${commandLine}: ${error}`, 'spawn', args));
+        return;
+      }
+      this.processes.add(landoProcess);
+
+      const finish = (error: LandoCliError | undefined, result?: LandoRunResult) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        if (timer) {
+          clearTimeout(timer);
+        }
+        cancelListener?.dispose();
+        this.processes.delete(landoProcess);
+        if (error) {
+          reject(error);
+        } else {
+          resolve(result!);
+        }
+      };
+
+      landoProcess.stdout?.on('data', (data: Buffer) => {
+        const text = data.toString();
+        stdout += text;
+        options.onStdout?.(text);
+      });
+
+      landoProcess.stderr?.on('data', (data: Buffer) => {
+        const text = data.toString();
+        stderr += text;
+        options.onStderr?.(text);
+      });
+
+      landoProcess.on('error', (error: Error) => {
+        this.log(`Error running ${commandLine}: ${error.message}`);
+        finish(new LandoCliError(
+          `Failed to run ${commandLine}: ${error.message}`,
+          'spawn',
+          args,
+          null,
+          stdout,
+          stderr
+        ));
+      });
+
+      landoProcess.on('close', (code: number | null) => {
+        // A cancelled command settles once the process has actually exited
+        if (cancelled) {
+          finish(new LandoCliError(
+            `${commandLine} was cancelled`,
+            'cancelled',
+            args,
+            code,
+            stdout,
+            stderr
+          ));
+          return;
+        }
+        if (code === 0 || options.ignoreExitCode) {
+          finish(undefined, { stdout, stderr, exitCode: code });
+          return;
+        }
+        this.log(`${commandLine} exited with code ${code}`);
+        finish(new LandoCliError(
+          `${commandLine} exited with code ${code}`,
+          'exit',
+          args,
+          code,
+          stdout,
+          stderr
+        ));
+      });
+
+      if (timeout > 0) {
+        timer = setTimeout(() => {
+          this.log(`${commandLine} timed out after ${timeout}ms`);
+          this.terminate(landoProcess, commandLine);
+          finish(new LandoCliError(
+            `${commandLine} timed out after ${timeout}ms`,
+            'timeout',
+            args,
+            null,
+            stdout,
+            stderr
+          ));
+        }, timeout);
+      }
+
+      if (options.token) {
+        cancelListener = options.token.onCancellationRequested(() => {
+          if (cancelled || settled) {
+            return;
+          }
+          this.log(`${commandLine} cancelled`);
+          cancelled = true;
+          this.terminate(landoProcess, commandLine);
+        });
+      }
+    });
+  }
+
+  /**
+   * Asks a process to exit gracefully with SIGINT (like Ctrl+C, so Lando can
+   * clean up), escalating to SIGKILL if it is still running after the grace period
+   */
+  private terminate(landoProcess: LandoProcess, commandLine: string): void {
+    const escalation = setTimeout(() => {
+      this.log(`${commandLine} did not exit after SIGINT, sending SIGKILL`);
+      landoProcess.kill('SIGKILL');
+    }, this.killGracePeriod);
+    landoProcess.on('close', () => clearTimeout(escalation));
+    landoProcess.kill('SIGINT');
+  }
+
+  /**
+   * Waits for a free slot in the concurrency limit. Rejects with a
+   * `cancelled` LandoCliError if the token is cancelled or the service is
+   * disposed while waiting.
+   */
+  private acquire(args: string[], token?: vscode.CancellationToken): Promise<void> {
+    if (this.running < this.maxConcurrent) {
+      this.running++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      let cancelListener: vscode.Disposable | undefined;
+      const waiter = {
+        start: () => {
+          cancelListener?.dispose();
+          this.running++;
+          resolve();
+        },
+        cancel: (reason: string) => {
+          cancelListener?.dispose();
+          reject(new LandoCliError(`lando ${args.join(' ')} was ${reason}`, 'cancelled', args));
+        },
+      };
+      this.waiting.push(waiter);
+      cancelListener = token?.onCancellationRequested(() => {
+        const index = this.waiting.indexOf(waiter);
+        if (index >= 0) {
+          this.waiting.splice(index, 1);
+          waiter.cancel('cancelled while queued');
+        }
+      });
+    });
+  }
+
+  /**
+   * Frees a slot and starts the next waiting command
+   */
+  private release(): void {
+    this.running--;
+    this.waiting.shift()?.start();
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[LandoCli] ${message}`);
+  }
+
+  /**
+   * Kills any processes still running and disposes of the service
+   */
+  public dispose(): void {
+    this.cancelCapabilityRetry();
+    for (const landoProcess of this.processes) {
+      landoProcess.kill();
+    }
+    this.processes.clear();
+    const waiting = this.waiting;
+    this.waiting = [];
+    waiting.forEach(waiter => waiter.cancel('cancelled because the Lando CLI service was disposed'));
+    this._onDidChangeCapabilities.dispose();
+  }
+}
+
+/**
+ * Checks whether an error is a LandoCliError of a given kind
+ *
+ * @param error - The caught error
+ * @param kind - The kind to check for
+ * @returns True if the error is a LandoCliError of that kind
+ */
+export function isLandoCliError(error: unknown, kind?: LandoCliErrorKind): error is LandoCliError {
+  return error instanceof LandoCliError && (kind === undefined || error.kind === kind);
+}
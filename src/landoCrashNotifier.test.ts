@@ -0,0 +1,137 @@
+import * as assert from "assert";
+import { suite, test, afterEach } from "mocha";
+import * as vscode from "vscode";
+import { LandoCli } from "./landoCli";
+import { LandoOperation, LandoOperationQueue } from "./landoOperationQueue";
+import { LandoAppState, LandoServiceCrashEvent, LandoServiceStatus, LandoStatusMonitor } from "./landoStatusMonitor";
+import { getCrashMessage, isCrashNotificationMuted, LandoCrashNotifier } from "./landoCrashNotifier";
+import { createMockApp, createMockConfig, stubProperty } from "./test/fixtures";
+
+function createEvent(service: Partial<LandoServiceStatus>): LandoServiceCrashEvent {
+  const app = createMockApp("myapp");
+  const serviceStatus: LandoServiceStatus = {
+    name: "database",
+    state: "exited",
+    running: false,
+    containers: [],
+    ...service,
+  };
+  return {
+    app,
+    service: serviceStatus,
+    status: {
+      app,
+      state: LandoAppState.Degraded,
+      runningContainers: 1,
+      totalContainers: 2,
+      services: [serviceStatus],
+      lastChecked: new Date(),
+    },
+  };
+}
+
+/**
+ * Creates a notifier listening to a fake status monitor
+ */
+function createNotifier(operations: LandoOperation[] = []): {
+  notifier: LandoCrashNotifier;
+  crash: (event: LandoServiceCrashEvent) => Promise<void>;
+} {
+  const crashes = new vscode.EventEmitter<LandoServiceCrashEvent>();
+  const statusMonitor = { onDidDetectServiceCrash: crashes.event } as unknown as LandoStatusMonitor;
+  const operationQueue = { getOperations: () => operations } as unknown as LandoOperationQueue;
+  const notifier = new LandoCrashNotifier(statusMonitor, { landoCli: new LandoCli(), operationQueue });
+  return {
+    notifier,
+    crash: async event => {
+      crashes.fire(event);
+      await new Promise(resolve => setImmediate(resolve));
+    },
+  };
+}
+
+suite("LandoCrashNotifier Test Suite", () => {
+  let restore: (() => void) | undefined;
+
+  afterEach(() => {
+    restore?.();
+    restore = undefined;
+  });
+
+  test("Should not mute by default", () => {
+    assert.strictEqual(isCrashNotificationMuted(createMockApp("myapp"), createMockConfig({})), false);
+  });
+
+  test("Should mute apps listed by name or clean name", () => {
+    const config = createMockConfig({ "crashNotifications.mutedApps": ["my-app", "otherapp"] });
+
+    assert.strictEqual(isCrashNotificationMuted(createMockApp("my-app"), config), true);
+    assert.strictEqual(isCrashNotificationMuted(createMockApp("other_app"), config), true);
+    assert.strictEqual(isCrashNotificationMuted(createMockApp("third"), config), false);
+  });
+
+  test("Should mute every app when notifications are disabled", () => {
+    const config = createMockConfig({ "crashNotifications.enabled": false });
+
+    assert.strictEqual(isCrashNotificationMuted(createMockApp("myapp"), config), true);
+  });
+
+  test("Should let an app's preference override the settings", () => {
+    const config = createMockConfig({ "crashNotifications.mutedApps": ["myapp"] });
+
+    assert.strictEqual(isCrashNotificationMuted(createMockApp("myapp"), config, { muteCrashNotifications: false }), false);
+    assert.strictEqual(isCrashNotificationMuted(createMockApp("other"), createMockConfig({}), { muteCrashNotifications: true }), true);
+    assert.strictEqual(isCrashNotificationMuted(createMockApp("myapp"), config, {}), true);
+  });
+
+  test("Should explain well-known exit codes", () => {
+    assert.strictEqual(
+      getCrashMessage(createEvent({ exitCode: 137 })),
+      "database in myapp exited with code 137 (killed, possibly out of memory)."
+    );
+    assert.strictEqual(getCrashMessage(createEvent({ exitCode: 1 })), "database in myapp exited with code 1.");
+    assert.strictEqual(getCrashMessage(createEvent({})), "database in myapp stopped unexpectedly.");
+    assert.strictEqual(
+      getCrashMessage(createEvent({ state: "restarting" })),
+      "database in myapp crashed and is restarting."
+    );
+  });
+
+  test("Should ignore crashes while a lifecycle operation is pending", async () => {
+    const shown: string[] = [];
+    restore = stubProperty(vscode.window, "showWarningMessage", (async (message: string) => {
+      shown.push(message);
+      return undefined;
+    }) as typeof vscode.window.showWarningMessage);
+    const pending = { id: 1, kind: "stop", key: "myapp", status: "running", enqueuedAt: new Date() } as LandoOperation;
+    const { notifier, crash } = createNotifier([pending]);
+
+    await crash(createEvent({ exitCode: 137 }));
+
+    assert.deepStrictEqual(shown, []);
+    notifier.dispose();
+  });
+
+  test("Should show one notification per service at a time", async () => {
+    let dismiss!: () => void;
+    let shown = 0;
+    restore = stubProperty(vscode.window, "showWarningMessage", (() => {
+      shown++;
+      return new Promise(resolve => {
+        dismiss = () => resolve(undefined);
+      });
+    }) as typeof vscode.window.showWarningMessage);
+    const { notifier, crash } = createNotifier();
+
+    await crash(createEvent({ exitCode: 137 }));
+    await crash(createEvent({ exitCode: 137 }));
+    assert.strictEqual(shown, 1);
+
+    dismiss();
+    await new Promise(resolve => setImmediate(resolve));
+    await crash(createEvent({ exitCode: 137 }));
+    assert.strictEqual(shown, 2);
+    dismiss();
+    notifier.dispose();
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Lando Crash Notifier Module
+ *
+ * This module tells the user when a service container exits while its app
+ * should be running (e.g., the database was OOM-killed or the appserver
+ * crashed on a bad php.ini), instead of leaving them to notice a broken site.
+ * Notifications offer to view the service's logs or restart it, and can be
+ * muted per app.
+ *
+ * @module landoCrashNotifier
+ */
+
+import * as vscode from 'vscode';
+import { LandoApp } from './landoAppDetector';
+import { LandoAppPreferenceStore, LandoAppPreferences } from './landoAppPreferences';
+import { LandoCli } from './landoCli';
+import { LandoOperationQueue } from './landoOperationQueue';
+import { LandoServiceCrashEvent, LandoStatusMonitor } from './landoStatusMonitor';
+
+/**
+ * Exit codes with a well-known cause
+ */
+const EXIT_CODE_HINTS: Record<number, string> = {
+  137: 'killed, possibly out of memory',
+  139: 'segmentation fault',
+  143: 'terminated',
+};
+
+/**
+ * Options for creating a LandoCrashNotifier
+ */
+export interface LandoCrashNotifierOptions {
+  /** Runs lando commands in terminals */
+  landoCli: LandoCli;
+  /** Used to skip crashes caused by a queued lifecycle operation */
+  operationQueue?: LandoOperationQueue;
+  /** Per-app preferences that can mute or unmute notifications */
+  appPreferences?: LandoAppPreferenceStore;
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Checks whether crash notifications are muted for an app
+ *
+ * @param app - The app to check
+ * @param config - The `lando` configuration section
+ * @param preferences - The app's preferences, which win over the settings
+ * @returns True if notifications are disabled globally or for this app
+ */
+export function isCrashNotificationMuted(
+  app: LandoApp,
+  config: vscode.WorkspaceConfiguration,
+  preferences?: LandoAppPreferences
+): boolean {
+  if (preferences?.muteCrashNotifications !== undefined) {
+    return preferences.muteCrashNotifications;
+  }
+  if (!config.get<boolean>('crashNotifications.enabled', true)) {
+    return true;
+  }
+  const mutedApps = config.get<string[]>('crashNotifications.mutedApps', []);
+  return mutedApps.some(name => name === app.name || name === app.cleanName);
+}
+
+/**
+ * Builds the notification message for a crashed service
+ *
+ * @param event - The crash event
+ * @returns The message (e.g., "database in myapp exited with code 137 (killed, possibly out of memory).")
+ */
+export function getCrashMessage(event: LandoServiceCrashEvent): string {
+  const { app, service } = event;
+  if (service.state === 'restarting') {
+    return `${service.name} in ${app.name} crashed and is restarting.`;
+  }
+  if (service.exitCode === undefined) {
+    return `${service.name} in ${app.name} stopped unexpectedly.`;
+  }
+  const hint = EXIT_CODE_HINTS[service.exitCode];
+  return `${service.name} in ${app.name} exited with code ${service.exitCode}${hint ? ` (${hint})` : ''}.`;
+}
+
+/**
+ * Shows a notification when a service crashes.
+ *
+ * Features:
+ * - Ignores exits while a lifecycle operation is queued or running for the app
+ * - Shows at most one notification per service at a time
+ * - "View Logs" opens `lando logs -s <service>` in a terminal
+ * - "Restart Service" restarts the containers through Docker, or restarts the
+ *   app when Docker's socket isn't reachable
+ * - Respects `lando.crashNotifications.enabled` and `lando.crashNotifications.mutedApps`,
+ *   unless the app's preferences say otherwise
+ */
+export class LandoCrashNotifier implements vscode.Disposable {
+  private readonly landoCli: LandoCli;
+  private readonly operationQueue: LandoOperationQueue | undefined;
+  private readonly appPreferences: LandoAppPreferenceStore | undefined;
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+  private readonly shown: Set<string> = new Set();
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly statusMonitor: LandoStatusMonitor, options: LandoCrashNotifierOptions) {
+    this.landoCli = options.landoCli;
+    this.operationQueue = options.operationQueue;
+    this.appPreferences = options.appPreferences;
+    this.outputChannel = options.outputChannel;
+    this.subscription = statusMonitor.onDidDetectServiceCrash(event => this.handleCrash(event));
+  }
+
+  /**
+   * Notifies the user of a crash unless it is expected or muted
+   */
+  private async handleCrash(event: LandoServiceCrashEvent): Promise<void> {
+    const { app, service } = event;
+    const key = `${app.configPath}:${service.name}`;
+
+    if (this.operationQueue && this.operationQueue.getOperations(app).length > 0) {
+      this.log(`Ignoring exit of ${service.name} in ${app.name}: a lifecycle operation is pending`);
+      return;
+    }
+    if (isCrashNotificationMuted(app, vscode.workspace.getConfiguration('lando'), this.appPreferences?.get(app))) {
+      this.log(`Crash notifications muted for ${app.name}`);
+      return;
+    }
+    if (this.shown.has(key)) {
+      return;
+    }
+
+    this.shown.add(key);
+    let action: string | undefined;
+    try {
+      action = await vscode.window.showWarningMessage(
+        getCrashMessage(event),
+        'View Logs',
+        'Restart Service',
+        'Ignore'
+      );
+    } finally {
+      this.shown.delete(key);
+    }
+
+    if (action === 'View Logs') {
+      this.viewLogs(app, service.name);
+    } else if (action === 'Restart Service') {
+      await this.restartService(app, service.name);
+    }
+  }
+
+  /**
+   * Opens a terminal following the service's logs
+   */
+  private viewLogs(app: LandoApp, serviceName: string): void {
+    const terminal = vscode.window.createTerminal({
+      name: `Lando Logs: ${serviceName}`,
+      cwd: app.rootPath,
+    });
+    terminal.sendText(this.landoCli.getShellCommand(['logs', '-s', serviceName, '-f']));
+    terminal.show();
+  }
+
+  /**
+   * Restarts the service, falling back to restarting the whole app
+   */
+  private async restartService(app: LandoApp, serviceName: string): Promise<void> {
+    try {
+      const restarted = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `Restarting ${serviceName}...` },
+        () => this.statusMonitor.restartService(app, serviceName)
+      );
+      if (restarted) {
+        return;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.log(`Failed to restart ${serviceName} in ${app.name}: ${message}`);
+      vscode.window.showErrorMessage(`Failed to restart ${serviceName}: ${message}`);
+      return;
+    }
+
+    // Lando has no per-service restart, so restart the app through the queue
+    this.log(`Docker is not reachable directly; restarting ${app.name} instead of ${serviceName}`);
+    await vscode.commands.executeCommand('extension.restartLandoApp', app);
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[CrashNotifier] ${message}`);
+  }
+
+  /**
+   * Disposes of the notifier
+   */
+  public dispose(): void {
+    this.subscription.dispose();
+    this.shown.clear();
+  }
+}
@@ -0,0 +1,105 @@
+import * as assert from "assert";
+import { suite, test, setup, teardown } from "mocha";
+import * as vscode from "vscode";
+import { LandoApp, LandoAppDetector, LandoAppsChangedEvent, isFileInApp } from "./landoAppDetector";
+import { getAppToFollow, LandoEditorFollower } from "./landoEditorFollower";
+import { createMockApp, createMockConfig, stubProperty } from "./test/fixtures";
+
+suite("LandoEditorFollower Test Suite", () => {
+  const web = createMockApp("web");
+  const api = createMockApp("api");
+  const findApp = (filePath: string) => [web, api].find(app => isFileInApp(filePath, app.rootPath));
+  const fileUri = (fsPath: string) => ({ scheme: "file", fsPath }) as vscode.Uri;
+
+  test("Should follow a file in another app", () => {
+    assert.strictEqual(getAppToFollow(fileUri("/workspace/api/src/index.php"), web, findApp), api);
+  });
+
+  test("Should follow when no app is active", () => {
+    assert.strictEqual(getAppToFollow(fileUri("/workspace/web/index.php"), undefined, findApp), web);
+  });
+
+  test("Should not switch for a file in the active app", () => {
+    assert.strictEqual(getAppToFollow(fileUri("/workspace/web/index.php"), web, findApp), undefined);
+  });
+
+  test("Should not switch for files outside any app", () => {
+    assert.strictEqual(getAppToFollow(fileUri("/tmp/notes.md"), web, findApp), undefined);
+  });
+
+  test("Should not switch for non-file documents", () => {
+    const uri = { scheme: "untitled", fsPath: "/workspace/api/Untitled-1" } as vscode.Uri;
+    assert.strictEqual(getAppToFollow(uri, web, findApp), undefined);
+  });
+
+  suite("Following", () => {
+    let editors: vscode.EventEmitter<vscode.TextEditor | undefined>;
+    let appsChanged: vscode.EventEmitter<LandoAppsChangedEvent>;
+    let activeApp: LandoApp | undefined;
+    let switches: string[];
+    let follower: LandoEditorFollower;
+    let restore: Array<() => void>;
+
+    const focus = (fsPath: string) => editors.fire({ document: { uri: fileUri(fsPath) } } as vscode.TextEditor);
+    const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+    setup(() => {
+      editors = new vscode.EventEmitter();
+      appsChanged = new vscode.EventEmitter();
+      activeApp = web;
+      switches = [];
+      restore = [
+        stubProperty(vscode.window, "onDidChangeActiveTextEditor", editors.event),
+        stubProperty(vscode.workspace, "getConfiguration", (() =>
+          createMockConfig({ "activeApp.followEditor": true })) as unknown as typeof vscode.workspace.getConfiguration),
+      ];
+
+      const appDetector = { getAppForFile: findApp, onDidChangeApps: appsChanged.event } as unknown as LandoAppDetector;
+      follower = new LandoEditorFollower(appDetector, {
+        getActiveApp: () => activeApp,
+        setActiveApp: (app, options) => {
+          activeApp = app;
+          switches.push(`${app.name}:${options.remember}`);
+        },
+        debounce: 10,
+      });
+      follower.activate();
+    });
+
+    teardown(() => {
+      follower.dispose();
+      restore.reverse().forEach(undo => undo());
+    });
+
+    test("Should switch once the editor stays focused, without remembering the app", async () => {
+      focus("/workspace/api/index.php");
+      focus("/workspace/web/index.php");
+      focus("/workspace/api/src/Controller.php");
+      await sleep(30);
+
+      assert.deepStrictEqual(switches, ["api:false"]);
+    });
+
+    test("Should not switch while an app is pinned", async () => {
+      follower.pin(web);
+      focus("/workspace/api/index.php");
+      await sleep(30);
+      assert.deepStrictEqual(switches, []);
+
+      follower.unpin();
+      focus("/workspace/api/index.php");
+      await sleep(30);
+      assert.deepStrictEqual(switches, ["api:false"]);
+    });
+
+    test("Should keep the pin when the pinned app's Landofile is edited", () => {
+      follower.pin(web);
+
+      appsChanged.fire({ apps: [api, web], added: [web], removed: [web] });
+      assert.strictEqual(follower.getPinnedApp(), web);
+
+      appsChanged.fire({ apps: [api], added: [], removed: [web] });
+      assert.strictEqual(follower.getPinnedApp(), undefined);
+    });
+  });
+});
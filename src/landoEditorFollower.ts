@@ -0,0 +1,199 @@
+/**
+ * Lando Editor Follower Module
+ *
+ * This module switches the active app to the app containing the focused
+ * editor. In workspaces with several apps the status bar, PHP interception
+ * and palette commands otherwise keep targeting the first app while the
+ * user works in another one. Following is opt-in
+ * (`lando.activeApp.followEditor`), debounced so flicking through editors
+ * doesn't switch apps on every keystroke, and suspended while the user has
+ * picked an app explicitly.
+ *
+ * @module landoEditorFollower
+ */
+
+import * as vscode from 'vscode';
+import { LandoApp, LandoAppDetector } from './landoAppDetector';
+
+/**
+ * Options for creating a LandoEditorFollower
+ */
+export interface LandoEditorFollowerOptions {
+  /** Gets the active app */
+  getActiveApp: () => LandoApp | undefined;
+  /** Sets the active app; `remember: false` keeps the user's saved selection */
+  setActiveApp: (app: LandoApp, options: { remember: boolean }) => void;
+  /** Milliseconds the editor must stay focused before the active app switches */
+  debounce?: number;
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Gets the app to switch to for a focused document
+ *
+ * @param uri - The focused document's URI
+ * @param activeApp - The active app
+ * @param findApp - Finds the app containing a file
+ * @returns The app containing the document, or undefined if the active app
+ *   shouldn't change (not a file, not in an app, or already active)
+ */
+export function getAppToFollow(
+  uri: vscode.Uri,
+  activeApp: LandoApp | undefined,
+  findApp: (filePath: string) => LandoApp | undefined
+): LandoApp | undefined {
+  if (uri.scheme !== 'file') {
+    return undefined;
+  }
+  const app = findApp(uri.fsPath);
+  return app && app.configPath !== activeApp?.configPath ? app : undefined;
+}
+
+/**
+ * Makes the active app follow the focused editor.
+ *
+ * Features:
+ * - Opt-in through `lando.activeApp.followEditor`
+ * - Debounces switches while editors change quickly
+ * - Pins the active app when the user selects one explicitly, until unpinned
+ */
+export class LandoEditorFollower implements vscode.Disposable {
+  private readonly getActiveApp: () => LandoApp | undefined;
+  private readonly setActiveApp: (app: LandoApp, options: { remember: boolean }) => void;
+  private readonly debounce: number;
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+  private enabled = false;
+  private pinned: LandoApp | undefined;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly appDetector: LandoAppDetector, options: LandoEditorFollowerOptions) {
+    this.getActiveApp = options.getActiveApp;
+    this.setActiveApp = options.setActiveApp;
+    this.debounce = options.debounce ?? 500;
+    this.outputChannel = options.outputChannel;
+  }
+
+  /**
+   * Starts following the focused editor (when enabled in settings)
+   */
+  public activate(): void {
+    this.enabled = vscode.workspace.getConfiguration('lando').get('activeApp.followEditor', false);
+    this.disposables.push(
+      vscode.window.onDidChangeActiveTextEditor(editor => this.scheduleFollow(editor)),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('lando.activeApp.followEditor')) {
+          this.enabled = vscode.workspace.getConfiguration('lando').get('activeApp.followEditor', false);
+          this.log(this.enabled ? 'Following the focused editor' : 'No longer following the focused editor');
+          this.unpin();
+        }
+      }),
+      this.appDetector.onDidChangeApps(event => {
+        // An edited Landofile is reported as removed and added again, so
+        // only unpin once the app is really gone
+        if (this.pinned && !event.apps.some(app => app.configPath === this.pinned?.configPath)) {
+          this.unpin();
+        }
+      })
+    );
+    this.scheduleFollow(vscode.window.activeTextEditor);
+  }
+
+  /**
+   * Checks whether the active app follows the focused editor
+   *
+   * @returns True when enabled in settings and no app is pinned
+   */
+  public isFollowing(): boolean {
+    return this.enabled && !this.pinned;
+  }
+
+  /**
+   * Checks whether following is enabled in settings
+   */
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * Gets the app the user pinned, if any
+   */
+  public getPinnedApp(): LandoApp | undefined {
+    return this.pinned;
+  }
+
+  /**
+   * Keeps an explicitly selected app active regardless of the focused editor
+   *
+   * @param app - The selected app
+   */
+  public pin(app: LandoApp): void {
+    this.cancelFollow();
+    if (this.enabled) {
+      this.pinned = app;
+      this.log(`Pinned ${app.name}`);
+    }
+  }
+
+  /**
+   * Resumes following the focused editor
+   */
+  public unpin(): void {
+    if (this.pinned) {
+      this.log(`Unpinned ${this.pinned.name}`);
+      this.pinned = undefined;
+    }
+    this.scheduleFollow(vscode.window.activeTextEditor);
+  }
+
+  /**
+   * Switches to the focused editor's app once the editor stays focused
+   */
+  private scheduleFollow(editor: vscode.TextEditor | undefined): void {
+    this.cancelFollow();
+    if (!editor || !this.isFollowing()) {
+      return;
+    }
+    const uri = editor.document.uri;
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      if (!this.isFollowing()) {
+        return;
+      }
+      const app = getAppToFollow(uri, this.getActiveApp(), filePath => this.appDetector.getAppForFile(filePath));
+      if (app) {
+        this.log(`Focused editor is in ${app.name}`);
+        // Automatic switches don't replace the app the user picked
+        this.setActiveApp(app, { remember: false });
+      }
+    }, this.debounce);
+  }
+
+  /**
+   * Cancels a pending switch
+   */
+  private cancelFollow(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[EditorFollower] ${message}`);
+  }
+
+  /**
+   * Stops following the focused editor
+   */
+  public dispose(): void {
+    this.cancelFollow();
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables.length = 0;
+    this.pinned = undefined;
+  }
+}
@@ -0,0 +1,111 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { suite, test } from "mocha";
+import {
+  findVariableReferences,
+  getEnvFiles,
+  interpolateConfig,
+  loadEnvFiles,
+  parseEnvFile,
+} from "./landoEnvironment";
+
+suite("LandoEnvironment Test Suite", () => {
+  test("Should parse env files", () => {
+    const variables = parseEnvFile([
+      "# Comment",
+      "APP_NAME=my-app",
+      "export DOMAIN = example.test",
+      "PORT=8080 # inline comment",
+      "QUOTED=\"hello # world\"",
+      "LITERAL='${NOT_EXPANDED}'",
+      "EMPTY=",
+      "not a variable",
+    ].join("\n"));
+
+    assert.deepStrictEqual(variables, {
+      APP_NAME: "my-app",
+      DOMAIN: "example.test",
+      PORT: "8080",
+      QUOTED: "hello # world",
+      LITERAL: "${NOT_EXPANDED}",
+      EMPTY: "",
+    });
+  });
+
+  test("Should read env_file as a string or a list", () => {
+    assert.deepStrictEqual(getEnvFiles({ env_file: ".env" }), [".env"]);
+    assert.deepStrictEqual(getEnvFiles({ env_file: [".env", "defaults.env", 3] }), [".env", "defaults.env"]);
+    assert.deepStrictEqual(getEnvFiles({ name: "app" }), []);
+  });
+
+  test("Should load env files relative to the app root, later files winning", async () => {
+    const rootPath = await fs.promises.mkdtemp(path.join(os.tmpdir(), "lando-env-"));
+    try {
+      await fs.promises.writeFile(path.join(rootPath, "defaults.env"), "NAME=default\nDOMAIN=lndo.site\n");
+      await fs.promises.writeFile(path.join(rootPath, ".env"), "NAME=custom\n");
+
+      const result = await loadEnvFiles(rootPath, ["defaults.env", ".env", "missing.env"]);
+
+      assert.deepStrictEqual(result.variables, { NAME: "custom", DOMAIN: "lndo.site" });
+      assert.deepStrictEqual(result.files, ["defaults.env", ".env", "missing.env"].map(file => path.join(rootPath, file)));
+      assert.deepStrictEqual(result.missing, [path.join(rootPath, "missing.env")]);
+    } finally {
+      await fs.promises.rm(rootPath, { recursive: true, force: true });
+    }
+  });
+
+  test("Should interpolate variables and defaults", () => {
+    const result = interpolateConfig(
+      {
+        name: "${APP_NAME}",
+        proxy: { appserver: ["${APP_NAME}.${DOMAIN:-lndo.site}"] },
+        config: { php: "${PHP_VERSION-8.2}", webroot: "${WEBROOT:-web}" },
+      },
+      { APP_NAME: "shop", PHP_VERSION: "", WEBROOT: "" }
+    );
+
+    assert.deepStrictEqual(result.config, {
+      name: "shop",
+      proxy: { appserver: ["shop.lndo.site"] },
+      config: { php: "", webroot: "web" },
+    });
+    assert.deepStrictEqual(result.unresolved, []);
+  });
+
+  test("Should track unresolved variables and keep them literal", () => {
+    const result = interpolateConfig(
+      { name: "${APP_NAME}", tooling: { deploy: { env: { TOKEN: "${TOKEN}", APP: "${APP_NAME}" } } } },
+      {}
+    );
+
+    assert.deepStrictEqual(result.config, {
+      name: "${APP_NAME}",
+      tooling: { deploy: { env: { TOKEN: "${TOKEN}", APP: "${APP_NAME}" } } },
+    });
+    assert.deepStrictEqual(result.unresolved, ["APP_NAME", "TOKEN"]);
+  });
+
+  test("Should leave shell commands to the container", () => {
+    const config = {
+      services: { appserver: { build: ["echo ${HOME}"], command: "run ${PORT}" } },
+      tooling: { drush: { cmd: "drush --root=${WEBROOT}" } },
+      events: { "post-start": ["echo ${USER}"] },
+    };
+
+    const result = interpolateConfig(config, {});
+
+    assert.deepStrictEqual(result.config, config);
+    assert.deepStrictEqual(result.unresolved, []);
+  });
+
+  test("Should find references to unresolved variables", () => {
+    const text = "name: ${APP_NAME}\nproxy:\n  appserver:\n    - ${APP_NAME}.${DOMAIN}";
+
+    assert.deepStrictEqual(findVariableReferences(text, new Set(["APP_NAME"])), [
+      { name: "APP_NAME", line: 0, start: 6, end: 17 },
+      { name: "APP_NAME", line: 3, start: 6, end: 17 },
+    ]);
+  });
+});
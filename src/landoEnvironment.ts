@@ -0,0 +1,207 @@
+/**
+ * Lando Environment Module
+ *
+ * This module resolves the environment variables a Landofile references.
+ * Landofiles can list `.env` files under `env_file:` and use `${VAR}`
+ * (optionally `${VAR:-default}` or `${VAR-default}`) anywhere, so app names,
+ * proxy hostnames and tooling `env` only read correctly once the files
+ * are loaded and the references interpolated. Shell commands (tooling `cmd`,
+ * build steps and events) run inside containers, where the container's
+ * environment applies, so they are left alone.
+ *
+ * @module landoEnvironment
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The result of interpolating a Landofile
+ */
+export interface InterpolatedConfig {
+  /** The config with resolved references replaced */
+  config: Record<string, unknown>;
+  /** Names of variables that are referenced but set nowhere, in order of first use */
+  unresolved: string[];
+}
+
+/**
+ * The variables loaded from an app's env files
+ */
+export interface LoadedEnvFiles {
+  /** The variables, later files winning */
+  variables: Record<string, string>;
+  /** Absolute paths of the env files (including missing ones) */
+  files: string[];
+  /** Absolute paths of env files that couldn't be read */
+  missing: string[];
+}
+
+/**
+ * Matches `${VAR}`, `${VAR:-default}` and `${VAR-default}`
+ */
+const VARIABLE_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?-)([^}]*))?\}/g;
+
+/**
+ * Config keys holding shell commands that run inside containers
+ */
+const SHELL_COMMAND_KEYS = new Set([
+  'cmd',
+  'command',
+  'build',
+  'build_as_root',
+  'run',
+  'run_as_root',
+]);
+
+/**
+ * Gets the env files a Landofile lists
+ *
+ * @param config - The merged Landofile config
+ * @returns The `env_file` entries, relative to the app root
+ */
+export function getEnvFiles(config: Record<string, unknown>): string[] {
+  const envFile = config.env_file;
+  if (typeof envFile === 'string') {
+    return [envFile];
+  }
+  return Array.isArray(envFile) ? envFile.filter((entry): entry is string => typeof entry === 'string') : [];
+}
+
+/**
+ * Parses a `.env` file
+ *
+ * Supports `KEY=value`, `export KEY=value`, comments, single-quoted values
+ * (taken literally) and double-quoted values (with `\n` escapes).
+ *
+ * @param content - The file content
+ * @returns The variables
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/);
+    if (!match) {
+      continue;
+    }
+    const [, key, rawValue] = match;
+    let value = rawValue.trim();
+    const quote = value.charAt(0);
+    if ((quote === '"' || quote === "'") && value.indexOf(quote, 1) > 0) {
+      value = value.slice(1, value.indexOf(quote, 1));
+      if (quote === '"') {
+        value = value.replace(/\\n/g, '\n').replace(/\\"/g, '"');
+      }
+    } else {
+      // Unquoted values end at an inline comment
+      value = value.replace(/\s+#.*$/, '');
+    }
+    variables[key] = value;
+  }
+  return variables;
+}
+
+/**
+ * Reads an app's env files
+ *
+ * @param rootPath - The app's root directory, which `env_file` paths are relative to
+ * @param envFiles - The `env_file` entries
+ * @returns The variables and which files were missing
+ */
+export async function loadEnvFiles(rootPath: string, envFiles: string[]): Promise<LoadedEnvFiles> {
+  const result: LoadedEnvFiles = { variables: {}, files: [], missing: [] };
+  for (const envFile of envFiles) {
+    const filePath = path.resolve(rootPath, envFile);
+    result.files.push(filePath);
+    try {
+      Object.assign(result.variables, parseEnvFile(await fs.promises.readFile(filePath, 'utf8')));
+    } catch {
+      result.missing.push(filePath);
+    }
+  }
+  return result;
+}
+
+/**
+ * Replaces variable references in a string
+ */
+function interpolateString(value: string, variables: Record<string, string | undefined>, unresolved: Set<string>): string {
+  return value.replace(VARIABLE_PATTERN, (reference, name: string, operator: string | undefined, fallback: string | undefined) => {
+    const variable = variables[name];
+    // `:-` also uses the default for empty values; `-` only for unset ones
+    if (variable !== undefined && !(operator === ':-' && variable === '')) {
+      return variable;
+    }
+    if (operator) {
+      return fallback ?? '';
+    }
+    // Keep the reference so the UI shows what is missing
+    unresolved.add(name);
+    return reference;
+  });
+}
+
+/**
+ * Interpolates a value, skipping shell commands
+ */
+function interpolateValue(value: unknown, variables: Record<string, string | undefined>, unresolved: Set<string>, key?: string): unknown {
+  if (key !== undefined && SHELL_COMMAND_KEYS.has(key)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return interpolateString(value, variables, unresolved);
+  }
+  if (Array.isArray(value)) {
+    return value.map(entry => interpolateValue(entry, variables, unresolved));
+  }
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const [entryKey, entry] of Object.entries(value as Record<string, unknown>)) {
+      result[entryKey] = interpolateValue(entry, variables, unresolved, entryKey);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Interpolates `${VAR}` references in a Landofile config
+ *
+ * @param config - The merged Landofile config
+ * @param variables - The variables (e.g., the host environment over the env files)
+ * @returns The interpolated config (the input isn't modified) and the unresolved variable names
+ */
+export function interpolateConfig(
+  config: Record<string, unknown>,
+  variables: Record<string, string | undefined>
+): InterpolatedConfig {
+  const unresolved = new Set<string>();
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(config)) {
+    // Events are lists of shell commands
+    result[key] = key === 'events' ? value : interpolateValue(value, variables, unresolved, key);
+  }
+  return { config: result, unresolved: Array.from(unresolved) };
+}
+
+/**
+ * Finds references to the given variables in Landofile text
+ *
+ * @param text - The Landofile text
+ * @param names - Variable names to look for
+ * @returns The references with their line, start and end column
+ */
+export function findVariableReferences(
+  text: string,
+  names: ReadonlySet<string>
+): { name: string; line: number; start: number; end: number }[] {
+  const references: { name: string; line: number; start: number; end: number }[] = [];
+  text.split('\n').forEach((line, index) => {
+    for (const match of line.matchAll(VARIABLE_PATTERN)) {
+      if (names.has(match[1]) && match.index !== undefined) {
+        references.push({ name: match[1], line: index, start: match.index, end: match.index + match[0].length });
+      }
+    }
+  });
+  return references;
+}
@@ -0,0 +1,154 @@
+import * as assert from "assert";
+import { suite, test } from "mocha";
+import { classifyLandoError, findBlockingApps, getPortProcessCommand, getQuickFixes } from "./landoErrors";
+import { createMockApp } from "./test/fixtures";
+
+suite("Lando Errors Test Suite", () => {
+  suite("classifyLandoError", () => {
+    test("Should detect a host port that is already allocated", () => {
+      const classification = classifyLandoError(
+        "Error response from daemon: driver failed programming external connectivity on endpoint " +
+        "landoproxyhyperion5000gandalfedition_proxy_1: Bind for 0.0.0.0:443 failed: port is already allocated"
+      );
+
+      assert.strictEqual(classification?.category, "portInUse");
+      assert.strictEqual(classification?.port, 443);
+      assert.strictEqual(classification?.message, "Port 443 is already in use");
+    });
+
+    test("Should detect a host port bound by another process", () => {
+      const classification = classifyLandoError(
+        "Error starting userland proxy: listen tcp4 0.0.0.0:80: bind: address already in use"
+      );
+
+      assert.strictEqual(classification?.category, "portInUse");
+      assert.strictEqual(classification?.port, 80);
+    });
+
+    test("Should prefer Docker not running over follow-on errors", () => {
+      const classification = classifyLandoError(
+        "Pulling appserver ...\n" +
+        "Cannot connect to the Docker daemon at unix:///var/run/docker.sock. Is the docker daemon running?"
+      );
+
+      assert.strictEqual(classification?.category, "dockerNotRunning");
+    });
+
+    test("Should detect a full disk", () => {
+      assert.strictEqual(
+        classifyLandoError("write /var/lib/docker/tmp/x: no space left on device")?.category,
+        "diskFull"
+      );
+    });
+
+    test("Should detect an invalid Landofile with its position", () => {
+      const classification = classifyLandoError(
+        "ERROR ==> Could not parse /workspace/myapp/.lando.yml\n" +
+        "YAMLException: bad indentation of a mapping entry (12:3)"
+      );
+
+      assert.deepStrictEqual(classification, {
+        category: "invalidLandofile",
+        message: "Invalid Landofile (line 12)",
+        file: "/workspace/myapp/.lando.yml",
+        line: 12,
+        column: 3,
+      });
+    });
+
+    test("Should detect an image that can't be pulled", () => {
+      const classification = classifyLandoError(
+        "Error response from daemon: manifest for devwithlando/php:9.9-apache-4 not found: manifest unknown"
+      );
+
+      assert.strictEqual(classification?.category, "imagePull");
+      assert.strictEqual(classification?.image, "devwithlando/php:9.9-apache-4");
+    });
+
+    test("Should detect a container name used by another app", () => {
+      const classification = classifyLandoError(
+        'Conflict. The container name "/myapp_appserver_1" is already in use by container "4f2c1a". ' +
+        "You have to remove (or rename) that container to be able to reuse that name."
+      );
+
+      assert.strictEqual(classification?.category, "nameCollision");
+      assert.strictEqual(classification?.container, "myapp_appserver_1");
+    });
+
+    test("Should not classify unknown failures", () => {
+      assert.strictEqual(classifyLandoError('ERROR ==> "composer install" failed with exit code 2'), undefined);
+    });
+  });
+
+  suite("getQuickFixes", () => {
+    test("Should offer port fixes for a port in use", () => {
+      const fixes = getQuickFixes(classifyLandoError("Bind for 0.0.0.0:443 failed: port is already allocated"));
+
+      assert.deepStrictEqual(fixes.map(fix => fix.label), [
+        "Show process using port 443",
+        "Retry",
+      ]);
+    });
+
+    test("Should offer to open the Landofile at the error line", () => {
+      const fixes = getQuickFixes(classifyLandoError("YAMLException: bad indentation of a mapping entry (7:1)"));
+
+      assert.deepStrictEqual(fixes.map(fix => fix.label), ["Open Landofile at line 7", "Retry"]);
+    });
+
+    test("Should only offer to retry unknown failures", () => {
+      assert.deepStrictEqual(getQuickFixes(undefined).map(fix => fix.kind), ["retry"]);
+    });
+
+    test("Should not offer Landofile fixes without an app", () => {
+      const classification = classifyLandoError('The container name "/myapp_appserver_1" is already in use');
+
+      assert.deepStrictEqual(getQuickFixes(classification, false).map(fix => fix.kind), ["retry"]);
+    });
+
+    test("Should offer to stop the apps in the way", () => {
+      const classification = classifyLandoError('The container name "/myapp_appserver_1" is already in use');
+      const fixes = getQuickFixes(classification, true, [createMockApp("myapp"), createMockApp("other")]);
+
+      assert.deepStrictEqual(fixes.map(fix => fix.label), ["Stop myapp, other", "Open Landofile", "Retry"]);
+    });
+  });
+
+  suite("findBlockingApps", () => {
+    const app = createMockApp("shop", { portforwards: [{ service: "database", port: 3306 }] });
+
+    test("Should find the running app forwarding the port", async () => {
+      const owner = createMockApp("blog", { portforwards: [{ service: "database", port: 3306 }] });
+      const classification = classifyLandoError("Bind for 0.0.0.0:3306 failed: port is already allocated");
+
+      const blocking = await findBlockingApps(classification, app, [app, createMockApp("docs"), owner]);
+
+      assert.deepStrictEqual(blocking, [owner]);
+    });
+
+    test("Should find the running app owning the container name", async () => {
+      const owner = createMockApp("shop2");
+      const classification = classifyLandoError('The container name "/shop2_appserver_1" is already in use');
+
+      assert.deepStrictEqual(await findBlockingApps(classification, app, [app, owner]), [owner]);
+    });
+
+    test("Should never stop the app being fixed", async () => {
+      const classification = classifyLandoError('The container name "/shop_appserver_1" is already in use');
+
+      assert.deepStrictEqual(await findBlockingApps(classification, app, [app]), []);
+      assert.deepStrictEqual(await findBlockingApps(classification, undefined, [app]), []);
+    });
+  });
+
+  suite("getPortProcessCommand", () => {
+    test("Should use lsof on macOS and Linux", () => {
+      assert.strictEqual(getPortProcessCommand(443, "darwin"), "lsof -nP -iTCP:443 -sTCP:LISTEN");
+      assert.strictEqual(getPortProcessCommand(80, "linux"), "lsof -nP -iTCP:80 -sTCP:LISTEN");
+    });
+
+    test("Should use netstat on Windows", () => {
+      assert.strictEqual(getPortProcessCommand(443, "win32"), "netstat -ano | findstr :443");
+    });
+  });
+});
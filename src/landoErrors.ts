@@ -0,0 +1,339 @@
+/**
+ * Lando Errors Module
+ *
+ * This module matches the output of failed Lando lifecycle commands against
+ * a catalog of known failures (a host port already in use, Docker not
+ * running, a full disk, an invalid Landofile, an image that can't be pulled,
+ * a container name used by another app) and offers targeted quick fixes in
+ * the failure notification, so users don't have to dig through the output
+ * channel to find out what went wrong.
+ *
+ * @module landoErrors
+ */
+
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { LandoApp } from './landoAppDetector';
+import { findPortConflicts } from './landoPortPreflight';
+
+/**
+ * Categories of known lifecycle failures
+ */
+export type LandoErrorCategory =
+  | 'dockerNotRunning'
+  | 'diskFull'
+  | 'portInUse'
+  | 'nameCollision'
+  | 'invalidLandofile'
+  | 'imagePull';
+
+/**
+ * A failure matched against the catalog
+ */
+export interface LandoErrorClassification {
+  /** The failure category */
+  category: LandoErrorCategory;
+  /** Short explanation (e.g., "Port 443 is already in use") */
+  message: string;
+  /** The host port that is in use (portInUse) */
+  port?: number;
+  /** The Landofile that failed to parse, if the output names it (invalidLandofile) */
+  file?: string;
+  /** 1-based line of the parse error (invalidLandofile) */
+  line?: number;
+  /** 1-based column of the parse error (invalidLandofile) */
+  column?: number;
+  /** The image that could not be pulled (imagePull) */
+  image?: string;
+  /** The container name that is already taken (nameCollision) */
+  container?: string;
+}
+
+/**
+ * Quick fixes offered for failures
+ */
+export type LandoQuickFixKind = 'showPortProcess' | 'showDiskUsage' | 'openLandofile' | 'stopBlockingApps' | 'retry';
+
+/**
+ * A quick fix offered in a failure notification
+ */
+export interface LandoQuickFix {
+  /** What the quick fix does */
+  kind: LandoQuickFixKind;
+  /** The notification button label */
+  label: string;
+}
+
+/**
+ * An entry in the catalog of known failures
+ */
+interface LandoErrorPattern {
+  /** The failure category */
+  category: LandoErrorCategory;
+  /** Matches the failure in the command output */
+  pattern: RegExp;
+  /** Builds the classification from the match and the full output */
+  classify: (match: RegExpMatchArray, output: string) => Omit<LandoErrorClassification, 'category'>;
+}
+
+/**
+ * Known failures, in priority order: root causes such as Docker being down
+ * come first because they produce follow-on errors that match later entries
+ */
+const LANDO_ERROR_CATALOG: LandoErrorPattern[] = [
+  {
+    category: 'dockerNotRunning',
+    pattern: /Cannot connect to the Docker daemon|Is the docker daemon running|error during connect:.*docker_engine|docker(?: desktop)? is not running/i,
+    classify: () => ({ message: 'Docker is not running' }),
+  },
+  {
+    category: 'diskFull',
+    pattern: /no space left on device/i,
+    classify: () => ({ message: 'Docker is out of disk space' }),
+  },
+  {
+    category: 'portInUse',
+    pattern: /Bind for \S*?:(\d+) failed: port is already allocated|listen tcp[46]? \S*?:(\d+): bind: address already in use|ports are not available: .*?:(\d+)/i,
+    classify: match => {
+      const port = Number(match[1] ?? match[2] ?? match[3]);
+      return { message: `Port ${port} is already in use`, port };
+    },
+  },
+  {
+    category: 'nameCollision',
+    pattern: /The container name "\/?([^"]+)" is already in use/i,
+    classify: match => ({
+      message: `Container name ${match[1]} is already used by another app`,
+      container: match[1],
+    }),
+  },
+  {
+    category: 'invalidLandofile',
+    pattern: /YAMLException|(?:could not|unable to|cannot|failed to) (?:parse|load) \S*\.lando(?:\.[\w-]+)?\.yml/i,
+    classify: (_match, output) => {
+      const position = output.match(/\((\d+):(\d+)\)/) ?? output.match(/at line (\d+), column (\d+)/);
+      const file = output.match(/(\S*\.lando(?:\.[\w-]+)?\.yml)/)?.[1].replace(/^["']|["':,]+$/g, '');
+      const line = position ? Number(position[1]) : undefined;
+      return {
+        message: line !== undefined ? `Invalid Landofile (line ${line})` : 'Invalid Landofile',
+        file,
+        line,
+        column: position ? Number(position[2]) : undefined,
+      };
+    },
+  },
+  {
+    category: 'imagePull',
+    pattern: /pull access denied for ([^\s,]+)|manifest for (\S+) not found|toomanyrequests|(?:failed to|error) pull(?:ing)? image "?([^\s":]+(?::[^\s"]+)?)?/i,
+    classify: match => {
+      const image = match[1] ?? match[2] ?? match[3];
+      return { message: image ? `Could not pull image ${image}` : 'Could not pull an image', image };
+    },
+  },
+];
+
+/**
+ * Matches command output against the catalog of known failures
+ *
+ * @param output - The output of the failed command
+ * @returns The classification, or undefined if the failure is not recognized
+ */
+export function classifyLandoError(output: string): LandoErrorClassification | undefined {
+  for (const entry of LANDO_ERROR_CATALOG) {
+    const match = output.match(entry.pattern);
+    if (match) {
+      return { category: entry.category, ...entry.classify(match, output) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the other running apps holding the port or container name a failure names
+ *
+ * @param classification - The classified failure, if recognized
+ * @param app - The app whose command failed
+ * @param runningApps - The running apps
+ * @returns The apps to stop so the failed app can start (never the app itself)
+ */
+export async function findBlockingApps(
+  classification: LandoErrorClassification | undefined,
+  app: LandoApp | undefined,
+  runningApps: LandoApp[]
+): Promise<LandoApp[]> {
+  if (!app) {
+    return [];
+  }
+  const others = runningApps.filter(other => other.configPath !== app.configPath);
+
+  if (classification?.category === 'portInUse' && classification.port !== undefined) {
+    const conflicts = await findPortConflicts(app, {
+      apps: others,
+      isRunning: () => true,
+      // Only ports forwarded by other apps matter here, so don't probe
+      proxyRunning: true,
+      isPortAvailable: async () => true,
+    });
+    const owners = conflicts
+      .filter(conflict => conflict.claim.port === classification.port && conflict.owner)
+      .map(conflict => conflict.owner!);
+    return Array.from(new Set(owners));
+  }
+
+  if (classification?.category === 'nameCollision' && classification.container) {
+    // Containers are named after the app (e.g., "myapp_appserver_1" or "myapp-appserver-1")
+    const container = classification.container;
+    return others.filter(other => container.startsWith(`${other.cleanName}_`) || container.startsWith(`${other.cleanName}-`));
+  }
+
+  return [];
+}
+
+/**
+ * Gets the quick fixes offered for a failure
+ *
+ * @param classification - The classified failure, if recognized
+ * @param hasApp - Whether the failure belongs to an app (Landofile fixes need one)
+ * @param blockingApps - Other running apps holding the port or container name
+ * @returns Quick fixes, most specific first; always ends with "Retry"
+ */
+export function getQuickFixes(
+  classification: LandoErrorClassification | undefined,
+  hasApp = true,
+  blockingApps: LandoApp[] = []
+): LandoQuickFix[] {
+  const fixes: LandoQuickFix[] = [];
+  const stopFix: LandoQuickFix[] = blockingApps.length > 0
+    ? [{ kind: 'stopBlockingApps', label: `Stop ${blockingApps.map(app => app.name).join(', ')}` }]
+    : [];
+  switch (classification?.category) {
+    case 'portInUse':
+      fixes.push(
+        { kind: 'showPortProcess', label: `Show process using port ${classification.port}` },
+        ...stopFix
+      );
+      break;
+    case 'nameCollision':
+      fixes.push(...stopFix);
+      if (hasApp) {
+        fixes.push({ kind: 'openLandofile', label: 'Open Landofile' });
+      }
+      break;
+    case 'invalidLandofile':
+      if (hasApp || classification.file) {
+        fixes.push({
+          kind: 'openLandofile',
+          label: classification.line !== undefined ? `Open Landofile at line ${classification.line}` : 'Open Landofile',
+        });
+      }
+      break;
+    case 'diskFull':
+      fixes.push({ kind: 'showDiskUsage', label: 'Show Docker disk usage' });
+      break;
+  }
+  fixes.push({ kind: 'retry', label: 'Retry' });
+  return fixes;
+}
+
+/**
+ * Gets a shell command listing the process listening on a port
+ *
+ * @param port - The port
+ * @param platform - The host platform
+ * @returns The shell command
+ */
+export function getPortProcessCommand(port: number, platform: NodeJS.Platform = process.platform): string {
+  if (platform === 'win32') {
+    return `netstat -ano | findstr :${port}`;
+  }
+  return `lsof -nP -iTCP:${port} -sTCP:LISTEN`;
+}
+
+/**
+ * Options for showing a failure notification
+ */
+export interface LandoFailureNotificationOptions {
+  /** The app the command ran for (undefined for global commands) */
+  app?: LandoApp;
+  /** Command that runs the operation again */
+  retryCommand: string;
+  /** The running apps, to offer stopping the ones in the way */
+  runningApps?: LandoApp[];
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Shows a failure notification with quick fixes and runs the one the user picks.
+ * Operations running in the queue shouldn't await this: "Retry" queues the
+ * operation again and would wait for the notification that started it.
+ *
+ * @param message - The notification message
+ * @param classification - The classified failure, if recognized
+ * @param options - The app and how to retry
+ */
+export async function showLandoFailure(
+  message: string,
+  classification: LandoErrorClassification | undefined,
+  options: LandoFailureNotificationOptions
+): Promise<void> {
+  const blockingApps = await findBlockingApps(classification, options.app, options.runningApps ?? []);
+  const fixes = getQuickFixes(classification, !!options.app, blockingApps);
+  const selected = await vscode.window.showErrorMessage(message, ...fixes.map(fix => fix.label));
+  const fix = fixes.find(candidate => candidate.label === selected);
+  if (!fix) {
+    return;
+  }
+
+  options.outputChannel?.appendLine(`[Errors] Running quick fix: ${fix.label}`);
+  switch (fix.kind) {
+    case 'showPortProcess':
+      runInTerminal(`Port ${classification?.port}`, getPortProcessCommand(classification!.port!), options.app);
+      break;
+    case 'showDiskUsage':
+      runInTerminal('Docker Disk Usage', 'docker system df', options.app);
+      break;
+    case 'openLandofile':
+      await openLandofile(classification!, options.app);
+      break;
+    case 'stopBlockingApps':
+      // Stop through the operation queue, one app at a time
+      for (const blockingApp of blockingApps) {
+        await vscode.commands.executeCommand('extension.stopLandoApp', blockingApp);
+      }
+      break;
+    case 'retry':
+      await vscode.commands.executeCommand(options.retryCommand, options.app);
+      break;
+  }
+}
+
+/**
+ * Runs a shell command in a new terminal
+ */
+function runInTerminal(name: string, command: string, app: LandoApp | undefined): void {
+  const terminal = vscode.window.createTerminal({ name, cwd: app?.rootPath });
+  terminal.sendText(command);
+  terminal.show();
+}
+
+/**
+ * Opens the Landofile named in the failure (or the app's), at the error position when known
+ */
+async function openLandofile(classification: LandoErrorClassification, app: LandoApp | undefined): Promise<void> {
+  let file = app?.configPath;
+  if (classification.file) {
+    file = path.isAbsolute(classification.file) || !app
+      ? classification.file
+      : path.join(app.rootPath, classification.file);
+  }
+  if (!file) {
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument(vscode.Uri.file(file));
+  const line = Math.max((classification.line ?? 1) - 1, 0);
+  const character = Math.max((classification.column ?? 1) - 1, 0);
+  const position = new vscode.Position(line, character);
+  await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+}
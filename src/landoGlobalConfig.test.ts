@@ -0,0 +1,106 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { suite, test, setup, teardown } from "mocha";
+import {
+  LandoGlobalConfig,
+  DEFAULT_LANDO_GLOBAL_CONFIG,
+  getGlobalConfigPath,
+  isLandoDomainUrl,
+  parseGlobalConfig,
+} from "./landoGlobalConfig";
+
+suite("LandoGlobalConfig Test Suite", () => {
+  suite("parseGlobalConfig", () => {
+    test("Should use Lando's defaults for an empty or invalid file", () => {
+      assert.deepStrictEqual(parseGlobalConfig("", "/home/me/.lando"), DEFAULT_LANDO_GLOBAL_CONFIG);
+      assert.deepStrictEqual(parseGlobalConfig("domain: [unclosed", "/home/me/.lando"), DEFAULT_LANDO_GLOBAL_CONFIG);
+    });
+
+    test("Should read Landofile names, domain and proxy ports", () => {
+      const values = parseGlobalConfig([
+        "landofile: .lando-custom",
+        "postLandofiles:",
+        "  - .mine",
+        "domain: lndo.test",
+        "proxyHttpPort: '8080'",
+        "proxyHttpsPort: 8443",
+      ].join("\n"), "/home/me/.lando");
+
+      assert.deepStrictEqual(values.landofileNames, {
+        landofile: ".lando-custom",
+        preLandofiles: DEFAULT_LANDO_GLOBAL_CONFIG.landofileNames.preLandofiles,
+        postLandofiles: [".mine"],
+      });
+      assert.strictEqual(values.domain, "lndo.test");
+      assert.strictEqual(values.proxyHttpPort, 8080);
+      assert.strictEqual(values.proxyHttpsPort, 8443);
+    });
+
+    test("Should ignore invalid ports", () => {
+      const values = parseGlobalConfig("proxyHttpPort: 70000\nproxyHttpsPort: https", "/home/me/.lando");
+
+      assert.strictEqual(values.proxyHttpPort, 80);
+      assert.strictEqual(values.proxyHttpsPort, 443);
+    });
+
+    test("Should resolve plugin dirs given as paths or objects", () => {
+      const values = parseGlobalConfig([
+        "pluginDirs:",
+        "  - plugins",
+        "  - path: /opt/lando",
+        "    subdir: extra",
+        "  - 42",
+      ].join("\n"), "/home/me/.lando");
+
+      assert.deepStrictEqual(values.pluginDirs, [
+        path.resolve("/home/me/.lando", "plugins"),
+        path.resolve("/opt/lando/extra"),
+      ]);
+    });
+  });
+
+  test("Should honor LANDO_USER_CONF_ROOT", () => {
+    assert.strictEqual(getGlobalConfigPath({ LANDO_USER_CONF_ROOT: "/srv/lando" }), path.join("/srv/lando", "config.yml"));
+    assert.strictEqual(getGlobalConfigPath({}), path.join(os.homedir(), ".lando", "config.yml"));
+  });
+
+  test("Should match URLs on the Lando domain and its subdomains", () => {
+    assert.strictEqual(isLandoDomainUrl("https://myapp.lndo.site/user", "lndo.site"), true);
+    assert.strictEqual(isLandoDomainUrl("http://localhost:32768", "lndo.site"), false);
+    assert.strictEqual(isLandoDomainUrl("https://notlndo.site", "lndo.site"), false);
+    assert.strictEqual(isLandoDomainUrl("not a url", "lndo.site"), false);
+  });
+
+  suite("load", () => {
+    let dir: string;
+
+    setup(async () => {
+      dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "lando-global-config-"));
+    });
+
+    teardown(async () => {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    });
+
+    test("Should fire onDidChange only when a value changes", async () => {
+      const configPath = path.join(dir, "config.yml");
+      const config = new LandoGlobalConfig({ configPath });
+      let changes = 0;
+      config.onDidChange(() => changes++);
+
+      await config.load();
+      assert.strictEqual(changes, 0, "A missing file means the defaults");
+
+      await fs.promises.writeFile(configPath, "domain: lndo.test\nproxyHttpsPort: 8443\n");
+      await config.load();
+      await config.load();
+
+      assert.strictEqual(changes, 1);
+      assert.strictEqual(config.getDomain(), "lndo.test");
+      assert.deepStrictEqual(config.getProxyPorts(), [80, 8443]);
+      config.dispose();
+    });
+  });
+});
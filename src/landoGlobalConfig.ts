@@ -0,0 +1,279 @@
+/**
+ * Lando Global Config Module
+ *
+ * This module reads the user's global Lando configuration
+ * (`~/.lando/config.yml`, or `$LANDO_USER_CONF_ROOT/config.yml`) and watches
+ * it for changes. Users can rename Landofiles, move apps to another domain
+ * and move the proxy to other ports there, so app detection, URL handling
+ * and port checks read those values here instead of assuming Lando's
+ * defaults.
+ *
+ * @module landoGlobalConfig
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import * as yaml from 'js-yaml';
+import { DEFAULT_LANDOFILE_NAMES, LandofileNames } from './landoAppDetector';
+
+/**
+ * Lando's default domain for proxy URLs
+ */
+export const DEFAULT_LANDO_DOMAIN = 'lndo.site';
+
+/**
+ * The global config values the extension uses
+ */
+export interface LandoGlobalConfigValues {
+  /** Landofile names */
+  landofileNames: LandofileNames;
+  /** Domain of proxy URLs (e.g., "lndo.site") */
+  domain: string;
+  /** Host port of the proxy's HTTP entrypoint */
+  proxyHttpPort: number;
+  /** Host port of the proxy's HTTPS entrypoint */
+  proxyHttpsPort: number;
+  /** Directories Lando loads plugins from */
+  pluginDirs: string[];
+}
+
+/**
+ * Options for creating a LandoGlobalConfig
+ */
+export interface LandoGlobalConfigOptions {
+  /** Path to the config file (defaults to Lando's user config file) */
+  configPath?: string;
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Lando's defaults, used for values the config file doesn't set
+ */
+export const DEFAULT_LANDO_GLOBAL_CONFIG: LandoGlobalConfigValues = {
+  landofileNames: DEFAULT_LANDOFILE_NAMES,
+  domain: DEFAULT_LANDO_DOMAIN,
+  proxyHttpPort: 80,
+  proxyHttpsPort: 443,
+  pluginDirs: [],
+};
+
+/**
+ * Gets the path of the user's global Lando config file
+ *
+ * @param env - Environment variables
+ * @returns The config file path
+ */
+export function getGlobalConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  const root = env.LANDO_USER_CONF_ROOT?.trim() || path.join(os.homedir(), '.lando');
+  return path.join(root, 'config.yml');
+}
+
+/**
+ * Reads a port from the config
+ */
+function parsePort(value: unknown, fallback: number): number {
+  const port = typeof value === 'string' ? Number(value) : value;
+  return typeof port === 'number' && Number.isInteger(port) && port > 0 && port < 65536 ? port : fallback;
+}
+
+/**
+ * Reads a list of strings from the config
+ */
+function parseStringList(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.filter((entry): entry is string => typeof entry === 'string') : undefined;
+}
+
+/**
+ * Parses the global Lando config file
+ *
+ * @param content - The YAML content
+ * @param configDir - Directory of the config file, for resolving relative plugin dirs
+ * @returns The values, with Lando's defaults for anything not set or invalid
+ */
+export function parseGlobalConfig(content: string, configDir: string): LandoGlobalConfigValues {
+  let config: Record<string, unknown>;
+  try {
+    const parsed = yaml.load(content);
+    config = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as Record<string, unknown> : {};
+  } catch {
+    config = {};
+  }
+
+  const defaults = DEFAULT_LANDO_GLOBAL_CONFIG;
+  const landofile = typeof config.landofile === 'string' && config.landofile.trim()
+    ? config.landofile.trim()
+    : defaults.landofileNames.landofile;
+
+  // Plugin dirs are paths, or objects with a path and an optional subdir
+  const pluginDirs: string[] = [];
+  for (const entry of Array.isArray(config.pluginDirs) ? config.pluginDirs : []) {
+    const dir = typeof entry === 'string'
+      ? entry
+      : entry && typeof entry === 'object' && typeof entry.path === 'string'
+        ? path.join(entry.path, typeof entry.subdir === 'string' ? entry.subdir : '')
+        : undefined;
+    if (dir) {
+      pluginDirs.push(path.resolve(configDir, dir.replace(/^~(?=$|[/\\])/, os.homedir())));
+    }
+  }
+
+  return {
+    landofileNames: {
+      landofile,
+      preLandofiles: parseStringList(config.preLandofiles) ?? defaults.landofileNames.preLandofiles,
+      postLandofiles: parseStringList(config.postLandofiles) ?? defaults.landofileNames.postLandofiles,
+    },
+    domain: typeof config.domain === 'string' && config.domain.trim() ? config.domain.trim() : defaults.domain,
+    proxyHttpPort: parsePort(config.proxyHttpPort, defaults.proxyHttpPort),
+    proxyHttpsPort: parsePort(config.proxyHttpsPort, defaults.proxyHttpsPort),
+    pluginDirs,
+  };
+}
+
+/**
+ * Checks whether a URL is served on the Lando domain
+ *
+ * @param url - The URL
+ * @param domain - The Lando domain
+ * @returns True for the domain itself and its subdomains
+ */
+export function isLandoDomainUrl(url: string, domain: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  const normalized = domain.toLowerCase();
+  return hostname === normalized || hostname.endsWith(`.${normalized}`);
+}
+
+/**
+ * The user's global Lando configuration.
+ *
+ * Features:
+ * - Falls back to Lando's defaults when the file is missing or invalid
+ * - Reloads when the file changes and fires onDidChange if a value changed
+ *
+ * @example
+ * ```typescript
+ * const globalConfig = new LandoGlobalConfig({ outputChannel });
+ * await globalConfig.load();
+ * const detector = new LandoAppDetector(globalConfig.getLandofileNames());
+ * ```
+ */
+export class LandoGlobalConfig implements vscode.Disposable {
+  private readonly configPath: string;
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+  private values: LandoGlobalConfigValues = DEFAULT_LANDO_GLOBAL_CONFIG;
+  private watcher: vscode.FileSystemWatcher | undefined;
+
+  private readonly _onDidChange = new vscode.EventEmitter<LandoGlobalConfigValues>();
+
+  /**
+   * Event fired when a config value changes
+   */
+  public readonly onDidChange = this._onDidChange.event;
+
+  constructor(options?: LandoGlobalConfigOptions) {
+    this.configPath = options?.configPath ?? getGlobalConfigPath();
+    this.outputChannel = options?.outputChannel;
+  }
+
+  /**
+   * Watches the config file and reloads it when it changes
+   *
+   * @param context - VS Code extension context for managing subscriptions
+   */
+  public activate(context: vscode.ExtensionContext): void {
+    this.watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(path.dirname(this.configPath)), path.basename(this.configPath))
+    );
+    const reload = () => {
+      this.load();
+    };
+    this.watcher.onDidCreate(reload);
+    this.watcher.onDidChange(reload);
+    this.watcher.onDidDelete(reload);
+    context.subscriptions.push(this);
+  }
+
+  /**
+   * Reads the config file
+   *
+   * @returns Promise resolving to the values
+   */
+  public async load(): Promise<LandoGlobalConfigValues> {
+    let content = '';
+    try {
+      content = await fs.promises.readFile(this.configPath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log(`Could not read ${this.configPath}: ${error}`);
+      }
+    }
+
+    const values = parseGlobalConfig(content, path.dirname(this.configPath));
+    const changed = JSON.stringify(values) !== JSON.stringify(this.values);
+    this.values = values;
+    if (changed) {
+      this.log(`Loaded ${this.configPath} (landofile: ${values.landofileNames.landofile}, domain: ${values.domain})`);
+      this._onDidChange.fire(values);
+    }
+    return values;
+  }
+
+  /**
+   * Gets all the values
+   */
+  public getValues(): LandoGlobalConfigValues {
+    return this.values;
+  }
+
+  /**
+   * Gets the Landofile names
+   */
+  public getLandofileNames(): LandofileNames {
+    return this.values.landofileNames;
+  }
+
+  /**
+   * Gets the domain of proxy URLs
+   */
+  public getDomain(): string {
+    return this.values.domain;
+  }
+
+  /**
+   * Gets the proxy's HTTP and HTTPS host ports
+   */
+  public getProxyPorts(): number[] {
+    return [this.values.proxyHttpPort, this.values.proxyHttpsPort];
+  }
+
+  /**
+   * Gets the directories Lando loads plugins from
+   */
+  public getPluginDirs(): string[] {
+    return this.values.pluginDirs;
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[GlobalConfig] ${message}`);
+  }
+
+  /**
+   * Stops watching the config file
+   */
+  public dispose(): void {
+    this.watcher?.dispose();
+    this.watcher = undefined;
+    this._onDidChange.dispose();
+  }
+}
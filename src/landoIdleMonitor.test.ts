@@ -0,0 +1,158 @@
+import * as assert from "assert";
+import { suite, test, setup, teardown } from "mocha";
+import * as vscode from "vscode";
+import { LandoApp, LandoAppDetector } from "./landoAppDetector";
+import { LandoOperation, LandoOperationQueue } from "./landoOperationQueue";
+import { LandoAppState, LandoAppStatus, LandoStatusMonitor } from "./landoStatusMonitor";
+import { LandoIdleMonitor, findIdleApps, formatIdlePeriod, getAutoStopConfig, getLandoTerminalCwd } from "./landoIdleMonitor";
+import { createMockApp, createMockConfig, stubProperty } from "./test/fixtures";
+
+function createStatus(app: LandoApp, state: LandoAppState): LandoAppStatus {
+  return {
+    app,
+    state,
+    runningContainers: 0,
+    totalContainers: 0,
+    services: [],
+    lastChecked: new Date(),
+  };
+}
+
+const MINUTE = 60 * 1000;
+
+suite("LandoIdleMonitor Test Suite", () => {
+  test("Should read the idle timeout in milliseconds", () => {
+    assert.deepStrictEqual(getAutoStopConfig(createMockConfig({})), { idleTimeout: 0, action: "prompt" });
+    assert.deepStrictEqual(
+      getAutoStopConfig(createMockConfig({ "autoStop.idleTimeout": 30, "autoStop.action": "stop" })),
+      { idleTimeout: 30 * MINUTE, action: "stop" }
+    );
+    assert.strictEqual(getAutoStopConfig(createMockConfig({ "autoStop.action": "bogus" })).action, "prompt");
+  });
+
+  test("Should find running apps idle for the timeout", () => {
+    const idle = createMockApp("idle");
+    const busy = createMockApp("busy");
+    const stopped = createMockApp("stopped");
+    const recent = createMockApp("recent");
+    const unseen = createMockApp("unseen");
+    const now = 100 * MINUTE;
+    const lastActivity = new Map([
+      [idle.configPath, now - 45 * MINUTE],
+      [busy.configPath, now - 45 * MINUTE],
+      [stopped.configPath, now - 45 * MINUTE],
+      [recent.configPath, now - 5 * MINUTE],
+    ]);
+
+    const apps = findIdleApps([
+      createStatus(idle, LandoAppState.Running),
+      createStatus(busy, LandoAppState.Rebuilding),
+      createStatus(stopped, LandoAppState.Stopped),
+      createStatus(recent, LandoAppState.Running),
+      createStatus(unseen, LandoAppState.Running),
+    ], lastActivity, now, 30 * MINUTE);
+
+    assert.deepStrictEqual(apps, [idle]);
+  });
+
+  test("Should never find idle apps when auto-stop is disabled", () => {
+    const app = createMockApp("myapp");
+    const apps = findIdleApps([createStatus(app, LandoAppState.Running)], new Map([[app.configPath, 0]]), 100 * MINUTE, 0);
+
+    assert.deepStrictEqual(apps, []);
+  });
+
+  test("Should only map Lando terminals to a directory", () => {
+    const terminal = (name: string, cwd?: string | vscode.Uri) => ({ name, creationOptions: { name, cwd } }) as unknown as vscode.Terminal;
+
+    assert.strictEqual(getLandoTerminalCwd(terminal("Lando: drush", "/workspace/myapp")), "/workspace/myapp");
+    assert.strictEqual(getLandoTerminalCwd(terminal("Lando Logs: database", vscode.Uri.file("/workspace/myapp"))), "/workspace/myapp");
+    assert.strictEqual(getLandoTerminalCwd(terminal("bash", "/workspace/myapp")), undefined);
+    assert.strictEqual(getLandoTerminalCwd(terminal("Lando")), undefined);
+  });
+
+  test("Should format idle periods", () => {
+    assert.strictEqual(formatIdlePeriod(MINUTE), "1 minute");
+    assert.strictEqual(formatIdlePeriod(45 * MINUTE), "45 minutes");
+    assert.strictEqual(formatIdlePeriod(180 * MINUTE), "3 hours");
+  });
+
+  suite("checkIdleApps", () => {
+    const app = createMockApp("myapp");
+    const landoTerminal = { name: "Lando: myapp (ssh)", creationOptions: { cwd: app.rootPath } } as unknown as vscode.Terminal;
+    let operations: LandoOperation[];
+    let messages: string[];
+    let restore: Array<() => void>;
+    let monitor: LandoIdleMonitor;
+
+    const useTerminal = (terminal: vscode.Terminal | undefined) =>
+      restore.push(stubProperty(vscode.window, "activeTerminal", terminal));
+
+    setup(() => {
+      operations = [];
+      messages = [];
+      restore = [
+        stubProperty(vscode.workspace, "getConfiguration", (() =>
+          createMockConfig({ "autoStop.idleTimeout": 30 })) as unknown as typeof vscode.workspace.getConfiguration),
+        stubProperty(vscode.window, "showInformationMessage", (async (message: string) => {
+          messages.push(message);
+          return undefined;
+        }) as typeof vscode.window.showInformationMessage),
+        stubProperty(vscode.window, "state", { focused: true, active: true }),
+      ];
+      useTerminal(undefined);
+
+      const statusMonitor = { getAllStatuses: () => [createStatus(app, LandoAppState.Running)] } as unknown as LandoStatusMonitor;
+      const appDetector = {
+        getAppForFile: (filePath: string) => (filePath.startsWith(app.rootPath) ? app : undefined),
+      } as unknown as LandoAppDetector;
+      const operationQueue = { getOperations: () => operations } as unknown as LandoOperationQueue;
+      monitor = new LandoIdleMonitor(statusMonitor, appDetector, { operationQueue });
+    });
+
+    teardown(() => {
+      monitor.dispose();
+      restore.reverse().forEach(undo => undo());
+    });
+
+    test("Should ask once per idle period", async () => {
+      await monitor.checkIdleApps(0);
+      await monitor.checkIdleApps(30 * MINUTE);
+      await monitor.checkIdleApps(31 * MINUTE);
+
+      assert.deepStrictEqual(messages, ["myapp hasn't been used for 30 minutes. Stop it?"]);
+
+      monitor.recordActivity(app, "edit", 32 * MINUTE);
+      await monitor.checkIdleApps(62 * MINUTE);
+      assert.strictEqual(messages.length, 2);
+    });
+
+    test("Should count recorded activity", async () => {
+      await monitor.checkIdleApps(0);
+      monitor.recordActivity(app, "tooling", 20 * MINUTE);
+      await monitor.checkIdleApps(45 * MINUTE);
+
+      assert.deepStrictEqual(messages, []);
+      assert.strictEqual(monitor.getLastActivity(app), 20 * MINUTE);
+    });
+
+    test("Should count working in a focused Lando terminal", async () => {
+      useTerminal(landoTerminal);
+
+      await monitor.checkIdleApps(0);
+      await monitor.checkIdleApps(60 * MINUTE);
+
+      assert.deepStrictEqual(messages, []);
+      assert.strictEqual(monitor.getLastActivity(app), 60 * MINUTE);
+    });
+
+    test("Should skip apps with a pending lifecycle operation", async () => {
+      operations = [{ id: 1, kind: "rebuild", app, key: app.configPath, status: "running", enqueuedAt: new Date() }];
+
+      await monitor.checkIdleApps(0);
+      await monitor.checkIdleApps(60 * MINUTE);
+
+      assert.deepStrictEqual(messages, []);
+    });
+  });
+});
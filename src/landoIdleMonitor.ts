@@ -0,0 +1,313 @@
+/**
+ * Lando Idle Monitor Module
+ *
+ * This module stops apps nobody is using. Apps left running in background
+ * windows keep their containers busy and drain laptop batteries, so activity
+ * is tracked per app -- edits to files under the app's root, use of the app's
+ * Lando terminals, and tooling runs -- and once an app has been idle for
+ * `lando.autoStop.idleTimeout` minutes the user is offered to stop it, or it
+ * is stopped with a notification.
+ *
+ * @module landoIdleMonitor
+ */
+
+import * as vscode from 'vscode';
+import { LandoApp, LandoAppDetector } from './landoAppDetector';
+import { LandoOperationQueue } from './landoOperationQueue';
+import { LandoAppStatus, LandoStatusMonitor, isStateRunning } from './landoStatusMonitor';
+
+/**
+ * What happens when an app has been idle for the timeout
+ */
+export type LandoAutoStopAction = 'prompt' | 'stop';
+
+/**
+ * Kinds of activity that keep an app running
+ */
+export type LandoActivitySource = 'edit' | 'terminal' | 'tooling' | 'start';
+
+/**
+ * Auto-stop settings
+ */
+export interface LandoAutoStopConfig {
+  /** Milliseconds without activity before an app is idle (0 disables auto-stop) */
+  idleTimeout: number;
+  /** Whether to ask before stopping */
+  action: LandoAutoStopAction;
+}
+
+/**
+ * Options for creating a LandoIdleMonitor
+ */
+export interface LandoIdleMonitorOptions {
+  /** Used to skip apps with a pending lifecycle operation */
+  operationQueue?: LandoOperationQueue;
+  /** Milliseconds between idle checks */
+  checkInterval?: number;
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Reads the auto-stop settings
+ *
+ * @param config - The `lando` configuration section
+ * @returns The settings, with the timeout in milliseconds
+ */
+export function getAutoStopConfig(config: vscode.WorkspaceConfiguration): LandoAutoStopConfig {
+  const minutes = config.get<number>('autoStop.idleTimeout', 0);
+  const action = config.get<string>('autoStop.action', 'prompt');
+  return {
+    idleTimeout: minutes > 0 ? minutes * 60 * 1000 : 0,
+    action: action === 'stop' ? 'stop' : 'prompt',
+  };
+}
+
+/**
+ * Finds the running apps that have been idle for the timeout
+ *
+ * @param statuses - Current app statuses
+ * @param lastActivity - Last activity time per app config path
+ * @param now - The current time in milliseconds
+ * @param idleTimeout - Milliseconds without activity before an app is idle
+ * @returns The idle apps; apps with no recorded activity are never idle
+ */
+export function findIdleApps(
+  statuses: LandoAppStatus[],
+  lastActivity: ReadonlyMap<string, number>,
+  now: number,
+  idleTimeout: number
+): LandoApp[] {
+  if (idleTimeout <= 0) {
+    return [];
+  }
+  return statuses
+    .filter(status => isStateRunning(status.state))
+    .filter(status => {
+      const last = lastActivity.get(status.app.configPath);
+      return last !== undefined && now - last >= idleTimeout;
+    })
+    .map(status => status.app);
+}
+
+/**
+ * Gets the directory a Lando terminal was opened in
+ *
+ * @param terminal - The terminal
+ * @returns The working directory, or undefined if it isn't a Lando terminal
+ */
+export function getLandoTerminalCwd(terminal: vscode.Terminal): string | undefined {
+  if (!terminal.name.startsWith('Lando')) {
+    return undefined;
+  }
+  const cwd = (terminal.creationOptions as vscode.TerminalOptions).cwd;
+  if (!cwd) {
+    return undefined;
+  }
+  return typeof cwd === 'string' ? cwd : cwd.fsPath;
+}
+
+/**
+ * Formats an idle period (e.g., "45 minutes", "2 hours")
+ *
+ * @param milliseconds - The period
+ * @returns The formatted period
+ */
+export function formatIdlePeriod(milliseconds: number): string {
+  const minutes = Math.round(milliseconds / 60000);
+  if (minutes >= 120 && minutes % 60 === 0) {
+    return `${minutes / 60} hours`;
+  }
+  return minutes === 1 ? '1 minute' : `${minutes} minutes`;
+}
+
+/**
+ * Stops apps that haven't been used for a while.
+ *
+ * Features:
+ * - Counts edits under the app's root, opening or switching to its Lando
+ *   terminals, working in one of them (the focused terminal counts at every
+ *   check, since typing in a terminal fires no event), tooling runs and
+ *   starting the app as activity
+ * - Asks once per idle period (or stops the app when `lando.autoStop.action` is "stop")
+ * - Skips apps with queued or running lifecycle operations
+ */
+export class LandoIdleMonitor implements vscode.Disposable {
+  private readonly operationQueue: LandoOperationQueue | undefined;
+  private readonly checkInterval: number;
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+  private readonly lastActivity: Map<string, number> = new Map();
+  private readonly notified: Set<string> = new Set();
+  private readonly disposables: vscode.Disposable[] = [];
+  private timer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(
+    private readonly statusMonitor: LandoStatusMonitor,
+    private readonly appDetector: LandoAppDetector,
+    options?: LandoIdleMonitorOptions
+  ) {
+    this.operationQueue = options?.operationQueue;
+    this.checkInterval = options?.checkInterval ?? 60000;
+    this.outputChannel = options?.outputChannel;
+  }
+
+  /**
+   * Starts tracking activity and checking for idle apps
+   */
+  public activate(): void {
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument(event => {
+        if (event.document.uri.scheme === 'file' && event.contentChanges.length > 0) {
+          this.recordFileActivity(event.document.uri.fsPath);
+        }
+      }),
+      vscode.window.onDidOpenTerminal(terminal => this.recordTerminalActivity(terminal)),
+      vscode.window.onDidChangeActiveTerminal(terminal => {
+        if (terminal) {
+          this.recordTerminalActivity(terminal);
+        }
+      }),
+      vscode.window.onDidChangeTerminalState(terminal => this.recordTerminalActivity(terminal)),
+      this.statusMonitor.onDidChangeStatus(event => {
+        if (!isStateRunning(event.status.state)) {
+          this.lastActivity.delete(event.app.configPath);
+          this.notified.delete(event.app.configPath);
+        } else if (!isStateRunning(event.previousState)) {
+          this.recordActivity(event.app, 'start');
+        }
+      })
+    );
+
+    this.timer = setInterval(() => this.checkIdleApps(), this.checkInterval);
+  }
+
+  /**
+   * Records activity for an app, resetting its idle time
+   *
+   * @param app - The app
+   * @param source - What the activity was
+   * @param now - When the activity happened, in milliseconds
+   */
+  public recordActivity(app: LandoApp, source: LandoActivitySource, now = Date.now()): void {
+    this.lastActivity.set(app.configPath, now);
+    if (this.notified.delete(app.configPath)) {
+      this.log(`${app.name} is active again (${source})`);
+    }
+  }
+
+  /**
+   * Gets when an app was last used
+   *
+   * @param app - The app
+   * @returns The time in milliseconds, or undefined if no activity was recorded
+   */
+  public getLastActivity(app: LandoApp): number | undefined {
+    return this.lastActivity.get(app.configPath);
+  }
+
+  /**
+   * Checks for idle apps and offers to stop them (or stops them)
+   *
+   * @param now - The current time in milliseconds
+   */
+  public async checkIdleApps(now = Date.now()): Promise<void> {
+    const config = getAutoStopConfig(vscode.workspace.getConfiguration('lando'));
+    const statuses = this.statusMonitor.getAllStatuses();
+
+    // The user may be working in a Lando terminal for hours without focusing
+    // anything else, so the focused one counts as activity
+    const terminal = vscode.window.activeTerminal;
+    if (terminal && vscode.window.state.focused) {
+      this.recordTerminalActivity(terminal, now);
+    }
+
+    // Apps already running when the window opened count from when they were first seen
+    for (const status of statuses) {
+      if (isStateRunning(status.state) && !this.lastActivity.has(status.app.configPath)) {
+        this.lastActivity.set(status.app.configPath, now);
+      }
+    }
+
+    const idleApps = findIdleApps(statuses, this.lastActivity, now, config.idleTimeout)
+      .filter(app => !this.notified.has(app.configPath))
+      .filter(app => !this.operationQueue || this.operationQueue.getOperations(app).length === 0);
+
+    await Promise.all(idleApps.map(app => this.handleIdleApp(app, config)));
+  }
+
+  /**
+   * Asks to stop an idle app, or stops it
+   */
+  private async handleIdleApp(app: LandoApp, config: LandoAutoStopConfig): Promise<void> {
+    this.notified.add(app.configPath);
+    const period = formatIdlePeriod(config.idleTimeout);
+
+    if (config.action === 'stop') {
+      this.log(`Stopping ${app.name} after ${period} without activity`);
+      await vscode.commands.executeCommand('extension.stopLandoApp', app);
+      const selection = await vscode.window.showInformationMessage(
+        `Stopped ${app.name} after ${period} without activity.`,
+        'Start Again'
+      );
+      if (selection) {
+        await vscode.commands.executeCommand('extension.startLandoApp', app);
+      }
+      return;
+    }
+
+    this.log(`${app.name} has been idle for ${period}`);
+    const selection = await vscode.window.showInformationMessage(
+      `${app.name} hasn't been used for ${period}. Stop it?`,
+      'Stop App',
+      'Keep Running'
+    );
+    if (selection === 'Stop App') {
+      await vscode.commands.executeCommand('extension.stopLandoApp', app);
+    } else if (selection === 'Keep Running') {
+      this.notified.delete(app.configPath);
+      this.lastActivity.set(app.configPath, Date.now());
+    }
+  }
+
+  /**
+   * Records activity for the app containing an edited file
+   */
+  private recordFileActivity(filePath: string): void {
+    const app = this.appDetector.getAppForFile(filePath);
+    if (app) {
+      this.recordActivity(app, 'edit');
+    }
+  }
+
+  /**
+   * Records activity for the app a Lando terminal belongs to
+   */
+  private recordTerminalActivity(terminal: vscode.Terminal, now = Date.now()): void {
+    const cwd = getLandoTerminalCwd(terminal);
+    const app = cwd ? this.appDetector.getAppForFile(cwd) : undefined;
+    if (app) {
+      this.recordActivity(app, 'terminal', now);
+    }
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[IdleMonitor] ${message}`);
+  }
+
+  /**
+   * Stops tracking activity
+   */
+  public dispose(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables.length = 0;
+    this.lastActivity.clear();
+    this.notified.clear();
+  }
+}
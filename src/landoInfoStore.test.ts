@@ -0,0 +1,233 @@
+import * as assert from "assert";
+import { suite, test } from "mocha";
+import { EventEmitter } from "events";
+import { PassThrough } from "stream";
+import * as vscode from "vscode";
+import { LandoCli, LandoExecutor, LandoProcess } from "./landoCli";
+import { LandoInfoStore, extractServices, extractUrls } from "./landoInfoStore";
+import { LandoAppDetector, LandoAppsChangedEvent } from "./landoAppDetector";
+import { LandoStatusMonitor, LandoStatusChangedEvent } from "./landoStatusMonitor";
+import { LandoServiceDetails } from "./types";
+import { createMockApp } from "./test/fixtures";
+
+/**
+ * Fake `lando info` process that exits when told to
+ */
+class FakeInfoProcess extends EventEmitter implements LandoProcess {
+  readonly stdout = new PassThrough();
+  readonly stderr = new PassThrough();
+  readonly stdin = new PassThrough();
+
+  kill(): boolean {
+    setImmediate(() => this.emit("close", null, null));
+    return true;
+  }
+
+  /** Writes the output and exits */
+  finish(output: string, code = 0): void {
+    this.stdout.write(output);
+    setImmediate(() => this.emit("close", code, null));
+  }
+}
+
+/**
+ * Creates a LandoCli backed by fake processes that the test completes
+ */
+function createFakeCli(): { cli: LandoCli; processes: FakeInfoProcess[] } {
+  const processes: FakeInfoProcess[] = [];
+  const executor: LandoExecutor = () => {
+    const fake = new FakeInfoProcess();
+    processes.push(fake);
+    return fake;
+  };
+  return { cli: new LandoCli({ executor }), processes };
+}
+
+/**
+ * Waits until the fake executor has spawned a given number of processes
+ */
+async function waitForProcesses(processes: FakeInfoProcess[], count: number): Promise<void> {
+  while (processes.length < count) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+}
+
+const INFO: LandoServiceDetails[] = [
+  { service: "appserver", type: "php", urls: ["https://myapp.lndo.site", "http://localhost:8080"] },
+  { service: "database", type: "mysql" },
+];
+
+suite("LandoInfoStore Test Suite", () => {
+  test("Should share one lando info call between concurrent requests", async () => {
+    const { cli, processes } = createFakeCli();
+    const store = new LandoInfoStore(cli);
+    const app = createMockApp("myapp");
+
+    const first = store.getInfo(app);
+    const second = store.getUrls(app);
+    await waitForProcesses(processes, 1);
+    processes[0].finish(JSON.stringify(INFO));
+
+    assert.strictEqual((await first).length, 2);
+    assert.strictEqual((await second).length, 2);
+    assert.strictEqual(processes.length, 1);
+    store.dispose();
+  });
+
+  test("Should serve cached results until invalidated", async () => {
+    const { cli, processes } = createFakeCli();
+    const store = new LandoInfoStore(cli);
+    const app = createMockApp("myapp");
+
+    const first = store.getServices(app);
+    await waitForProcesses(processes, 1);
+    processes[0].finish(JSON.stringify(INFO));
+    await first;
+
+    assert.ok(store.has(app));
+    await store.getServices(app);
+    assert.strictEqual(processes.length, 1);
+
+    store.invalidate(app);
+    assert.ok(!store.has(app));
+    const refetch = store.getServices(app);
+    await waitForProcesses(processes, 2);
+    processes[1].finish(JSON.stringify(INFO));
+    await refetch;
+    store.dispose();
+  });
+
+  test("Should only invalidate the given app", async () => {
+    const { cli, processes } = createFakeCli();
+    const store = new LandoInfoStore(cli);
+    const one = createMockApp("one");
+    const two = createMockApp("two");
+
+    const pending = Promise.all([store.getInfo(one), store.getInfo(two)]);
+    await waitForProcesses(processes, 2);
+    processes.forEach(p => p.finish("[]"));
+    await pending;
+
+    store.invalidate(one);
+    assert.ok(!store.has(one));
+    assert.ok(store.has(two));
+
+    store.invalidate();
+    assert.ok(!store.has(two));
+    store.dispose();
+  });
+
+  test("Should drop results invalidated while in flight", async () => {
+    const { cli, processes } = createFakeCli();
+    const store = new LandoInfoStore(cli);
+    const app = createMockApp("myapp");
+
+    const stale = store.getInfo(app);
+    await waitForProcesses(processes, 1);
+    store.invalidate(app);
+    processes[0].finish(JSON.stringify(INFO));
+    await stale;
+
+    assert.ok(!store.has(app));
+    store.dispose();
+  });
+
+  test("Should cache failures and rethrow them", async () => {
+    const { cli, processes } = createFakeCli();
+    const store = new LandoInfoStore(cli);
+    const app = createMockApp("myapp");
+
+    const first = store.getInfo(app);
+    await waitForProcesses(processes, 1);
+    processes[0].finish("", 1);
+
+    await assert.rejects(first);
+    await assert.rejects(store.getUrls(app));
+    assert.strictEqual(processes.length, 1);
+    store.dispose();
+  });
+
+  test("Should run lando info again once a cached failure expires", async () => {
+    const { cli, processes } = createFakeCli();
+    const store = new LandoInfoStore(cli, { errorTtl: 20 });
+    const app = createMockApp("myapp");
+
+    const first = store.getInfo(app);
+    await waitForProcesses(processes, 1);
+    processes[0].finish("", 1);
+    await assert.rejects(first);
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    const second = store.getInfo(app);
+    await waitForProcesses(processes, 2);
+    processes[1].finish(JSON.stringify(INFO));
+
+    assert.deepStrictEqual(await second, INFO);
+    store.dispose();
+  });
+
+  test("Should invalidate on app and status changes", async () => {
+    const { cli, processes } = createFakeCli();
+    const store = new LandoInfoStore(cli);
+    const appsEmitter = new vscode.EventEmitter<LandoAppsChangedEvent>();
+    const statusEmitter = new vscode.EventEmitter<LandoStatusChangedEvent>();
+    const context = { subscriptions: [] as vscode.Disposable[] } as unknown as vscode.ExtensionContext;
+    store.activate(
+      context,
+      { onDidChangeApps: appsEmitter.event } as unknown as LandoAppDetector,
+      { onDidChangeStatus: statusEmitter.event } as unknown as LandoStatusMonitor
+    );
+    const app = createMockApp("myapp");
+    const invalidated: Array<string[] | undefined> = [];
+    store.onDidInvalidate(event => invalidated.push(event.configPaths));
+
+    const load = async () => {
+      const pending = store.getInfo(app);
+      await waitForProcesses(processes, processes.length + 1);
+      processes[processes.length - 1].finish("[]");
+      await pending;
+    };
+
+    await load();
+    statusEmitter.fire({ app } as LandoStatusChangedEvent);
+    assert.ok(!store.has(app));
+
+    await load();
+    appsEmitter.fire({ apps: [], added: [], removed: [app] });
+    assert.ok(!store.has(app));
+
+    assert.deepStrictEqual(invalidated, [[app.configPath], [app.configPath]]);
+    store.dispose();
+  });
+
+  suite("extractUrls", () => {
+    test("Should mark the first URL of each service as primary", () => {
+      const urls = extractUrls(INFO);
+
+      assert.deepStrictEqual(urls, [
+        { service: "appserver", url: "https://myapp.lndo.site", primary: true },
+        { service: "appserver", url: "http://localhost:8080", primary: false },
+      ]);
+    });
+
+    test("Should prefer a URL on the Lando domain as primary", () => {
+      const urls = extractUrls([
+        { service: "appserver", urls: ["http://localhost:32768", "https://myapp.lndo.site", "https://myapp.test"] },
+      ], "test");
+
+      assert.deepStrictEqual(urls.filter(url => url.primary).map(url => url.url), ["https://myapp.test"]);
+    });
+  });
+
+  suite("extractServices", () => {
+    test("Should default the type to unknown", () => {
+      const services = extractServices([{ service: "cache", type: "" }, ...INFO]);
+
+      assert.deepStrictEqual(services, [
+        { name: "cache", type: "unknown" },
+        { name: "appserver", type: "php" },
+        { name: "database", type: "mysql" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Lando Info Store Module
+ *
+ * This module provides a shared, per-app cache of `lando info` results.
+ * The tree view, URL commands, terminal commands and log commands all read
+ * from the same store so that opening an app runs `lando info` once instead
+ * of once per consumer. Entries are invalidated when apps change on disk,
+ * when an app's running state changes, or when Lando capabilities change.
+ *
+ * @module landoInfoStore
+ */
+
+import * as vscode from 'vscode';
+import { LandoApp, LandoAppDetector } from './landoAppDetector';
+import { LandoStatusMonitor } from './landoStatusMonitor';
+import { LandoCli } from './landoCli';
+import { LandoService, LandoServiceDetails, LandoServiceUrl } from './types';
+import { isLandoDomainUrl } from './landoGlobalConfig';
+
+/**
+ * Cached result of a `lando info` call
+ */
+interface LandoInfoEntry {
+  /** Services reported by lando info (empty when the call failed) */
+  services: LandoServiceDetails[];
+  /** Error raised by the call, if it failed */
+  error?: unknown;
+  /** When the entry was fetched */
+  fetchedAt: Date;
+}
+
+/**
+ * Event data emitted when cached info is invalidated
+ */
+export interface LandoInfoInvalidatedEvent {
+  /** Config paths of the invalidated apps; undefined means all apps */
+  configPaths?: string[];
+}
+
+/**
+ * Options for creating a LandoInfoStore
+ */
+export interface LandoInfoStoreOptions {
+  /** Timeout for lando info in milliseconds */
+  timeout?: number;
+  /** Milliseconds a failed lando info is reused before it is run again */
+  errorTtl?: number;
+  /** The Lando domain, used to pick each service's primary URL */
+  domain?: string;
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Shared store of `lando info` results keyed by app configPath.
+ *
+ * Features:
+ * - Deduplicates concurrent requests for the same app
+ * - Caches results until invalidated, and failures for a short while, so a
+ *   timeout while Lando is busy doesn't leave the app without info
+ * - Invalidates on app detection changes and app state transitions
+ * - Ignores results of requests that were invalidated while in flight
+ *
+ * @example
+ * ```typescript
+ * const store = new LandoInfoStore(landoCli, { outputChannel });
+ * store.activate(context, appDetector, statusMonitor);
+ * const urls = await store.getUrls(app);
+ * ```
+ */
+export class LandoInfoStore implements vscode.Disposable {
+  private entries: Map<string, LandoInfoEntry> = new Map();
+  private inFlight: Map<string, Promise<LandoInfoEntry>> = new Map();
+  private generations: Map<string, number> = new Map();
+  private readonly timeout: number;
+  private readonly errorTtl: number;
+  private domain: string | undefined;
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+  private disposables: vscode.Disposable[] = [];
+
+  private readonly _onDidInvalidate = new vscode.EventEmitter<LandoInfoInvalidatedEvent>();
+
+  /**
+   * Event fired when cached info is invalidated
+   */
+  public readonly onDidInvalidate = this._onDidInvalidate.event;
+
+  constructor(
+    private readonly landoCli: LandoCli,
+    options?: LandoInfoStoreOptions
+  ) {
+    this.timeout = options?.timeout ?? 15000;
+    this.errorTtl = options?.errorTtl ?? 30000;
+    this.domain = options?.domain;
+    this.outputChannel = options?.outputChannel;
+  }
+
+  /**
+   * Subscribes to app and status changes that make cached info stale
+   *
+   * @param context - VS Code extension context for managing subscriptions
+   * @param appDetector - The app detector to watch for app changes
+   * @param statusMonitor - The status monitor to watch for state transitions
+   */
+  public activate(
+    context: vscode.ExtensionContext,
+    appDetector: LandoAppDetector,
+    statusMonitor: LandoStatusMonitor
+  ): void {
+    this.disposables.push(
+      appDetector.onDidChangeApps(event => {
+        const changed = [...event.added, ...event.removed].map(app => app.configPath);
+        if (changed.length > 0) {
+          this.invalidatePaths(changed);
+        }
+      }),
+      statusMonitor.onDidChangeStatus(event => {
+        this.invalidate(event.app);
+      }),
+      this.landoCli.onDidChangeCapabilities(() => {
+        this.invalidate();
+      })
+    );
+
+    context.subscriptions.push(this);
+  }
+
+  /**
+   * Gets the raw `lando info` services for an app
+   *
+   * @param app - The app to get info for
+   * @returns Promise resolving to the services reported by lando info
+   * @throws The error raised by lando info if the (cached) call failed
+   */
+  public async getInfo(app: LandoApp): Promise<LandoServiceDetails[]> {
+    const entry = await this.getEntry(app);
+    if (entry.error) {
+      throw entry.error;
+    }
+    return entry.services;
+  }
+
+  /**
+   * Gets the URLs exposed by an app
+   *
+   * @param app - The app to get URLs for
+   * @returns Promise resolving to the app's URLs
+   */
+  public async getUrls(app: LandoApp): Promise<LandoServiceUrl[]> {
+    return extractUrls(await this.getInfo(app), this.domain);
+  }
+
+  /**
+   * Gets the services of an app
+   *
+   * @param app - The app to get services for
+   * @returns Promise resolving to the app's services
+   */
+  public async getServices(app: LandoApp): Promise<LandoService[]> {
+    return extractServices(await this.getInfo(app));
+  }
+
+  /**
+   * Checks whether info for an app is cached
+   *
+   * @param app - The app to check
+   * @returns True if a completed result is cached
+   */
+  public has(app: LandoApp): boolean {
+    return this.entries.has(app.configPath);
+  }
+
+  /**
+   * Gets the Lando domain used to pick primary URLs
+   */
+  public getDomain(): string | undefined {
+    return this.domain;
+  }
+
+  /**
+   * Sets the Lando domain (e.g., after the global config changed) and
+   * invalidates all cached info, since apps are served on the new domain
+   * once restarted
+   *
+   * @param domain - The Lando domain
+   */
+  public setDomain(domain: string | undefined): void {
+    if (domain !== this.domain) {
+      this.domain = domain;
+      this.invalidate();
+    }
+  }
+
+  /**
+   * Invalidates cached info
+   *
+   * @param app - The app to invalidate; invalidates all apps when omitted
+   */
+  public invalidate(app?: LandoApp): void {
+    if (app) {
+      this.invalidatePaths([app.configPath]);
+      return;
+    }
+
+    for (const configPath of new Set([...this.entries.keys(), ...this.inFlight.keys()])) {
+      this.bumpGeneration(configPath);
+    }
+    this.entries.clear();
+    this.inFlight.clear();
+    this.log('Invalidated info for all apps');
+    this._onDidInvalidate.fire({});
+  }
+
+  /**
+   * Invalidates cached info for a set of config paths
+   */
+  private invalidatePaths(configPaths: string[]): void {
+    for (const configPath of configPaths) {
+      this.bumpGeneration(configPath);
+      this.entries.delete(configPath);
+      this.inFlight.delete(configPath);
+    }
+    this.log(`Invalidated info for ${configPaths.join(', ')}`);
+    this._onDidInvalidate.fire({ configPaths });
+  }
+
+  /**
+   * Gets a cached entry or fetches one, sharing in-flight requests
+   */
+  private getEntry(app: LandoApp): Promise<LandoInfoEntry> {
+    const cached = this.entries.get(app.configPath);
+    if (cached && (!cached.error || Date.now() - cached.fetchedAt.getTime() < this.errorTtl)) {
+      return Promise.resolve(cached);
+    }
+
+    const pending = this.inFlight.get(app.configPath);
+    if (pending) {
+      return pending;
+    }
+
+    const generation = this.generations.get(app.configPath) ?? 0;
+    const request = this.fetch(app).then(entry => {
+      // Only keep the result if nothing invalidated it while in flight
+      if ((this.generations.get(app.configPath) ?? 0) === generation) {
+        this.entries.set(app.configPath, entry);
+        this.inFlight.delete(app.configPath);
+      }
+      return entry;
+    });
+
+    this.inFlight.set(app.configPath, request);
+    return request;
+  }
+
+  /**
+   * Runs lando info for an app
+   */
+  private async fetch(app: LandoApp): Promise<LandoInfoEntry> {
+    const args = ['info', '--format=json'];
+    try {
+      this.landoCli.requireFeature('infoJson', args);
+      const services = await this.landoCli.runJson<LandoServiceDetails[]>(args, {
+        cwd: app.rootPath,
+        timeout: this.timeout,
+      });
+      this.log(`Fetched info for ${app.name}: ${services.length} services`);
+      return { services, fetchedAt: new Date() };
+    } catch (error) {
+      this.log(`lando info failed for ${app.name}: ${error}`);
+      return { services: [], error, fetchedAt: new Date() };
+    }
+  }
+
+  /**
+   * Increments the generation for a config path so in-flight results are dropped
+   */
+  private bumpGeneration(configPath: string): void {
+    this.generations.set(configPath, (this.generations.get(configPath) ?? 0) + 1);
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[InfoStore] ${message}`);
+  }
+
+  /**
+   * Disposes of the store resources
+   */
+  public dispose(): void {
+    this._onDidInvalidate.dispose();
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+    this.entries.clear();
+    this.inFlight.clear();
+  }
+}
+
+/**
+ * Extracts URLs from `lando info` services.
+ * The first URL of each service on the Lando domain is considered primary,
+ * or the first URL when the service has none on the domain.
+ *
+ * @param services - Services reported by lando info
+ * @param domain - The Lando domain from the global config
+ * @returns Array of service URLs
+ */
+export function extractUrls(services: LandoServiceDetails[], domain?: string): LandoServiceUrl[] {
+  const urls: LandoServiceUrl[] = [];
+  for (const service of services) {
+    const serviceUrls = service.urls ?? [];
+    const domainIndex = domain ? serviceUrls.findIndex(url => isLandoDomainUrl(url, domain)) : -1;
+    const primaryIndex = domainIndex >= 0 ? domainIndex : 0;
+    serviceUrls.forEach((url, index) => {
+      urls.push({
+        service: service.service,
+        url,
+        primary: index === primaryIndex,
+      });
+    });
+  }
+  return urls;
+}
+
+/**
+ * Extracts service names and types from `lando info` services
+ *
+ * @param services - Services reported by lando info
+ * @returns Array of services
+ */
+export function extractServices(services: LandoServiceDetails[]): LandoService[] {
+  return services.map(service => ({
+    name: service.service,
+    type: service.type || 'unknown',
+  }));
+}
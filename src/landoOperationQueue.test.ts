@@ -0,0 +1,209 @@
+import * as assert from "assert";
+import { suite, test } from "mocha";
+import * as vscode from "vscode";
+import { LandoOperationQueue, getOperationLabel } from "./landoOperationQueue";
+import { createMockApp } from "./test/fixtures";
+
+/**
+ * An operation body the test finishes explicitly
+ */
+interface Deferred {
+  started: boolean;
+  token?: vscode.CancellationToken;
+  finish: (value: string) => void;
+  run: (token: vscode.CancellationToken) => Promise<string>;
+}
+
+function createDeferred(): Deferred {
+  const deferred: Deferred = {
+    started: false,
+    finish: () => undefined,
+    run: token => {
+      deferred.started = true;
+      deferred.token = token;
+      return new Promise<string>(resolve => {
+        deferred.finish = resolve;
+      });
+    },
+  };
+  return deferred;
+}
+
+function tick(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+suite("LandoOperationQueue Test Suite", () => {
+  test("Should run operations for the same app one at a time, in order", async () => {
+    const queue = new LandoOperationQueue();
+    const app = createMockApp("myapp");
+    const stop = createDeferred();
+    const start = createDeferred();
+
+    const stopResult = queue.enqueue(app, "stop", stop.run);
+    const startResult = queue.enqueue(app, "start", start.run);
+
+    assert.strictEqual(stop.started, true);
+    assert.strictEqual(start.started, false);
+    assert.deepStrictEqual(queue.getOperations(app).map(op => op.status), ["running", "queued"]);
+
+    stop.finish("stopped");
+    assert.strictEqual(await stopResult, "stopped");
+    await tick();
+
+    assert.strictEqual(start.started, true);
+    start.finish("started");
+    assert.strictEqual(await startResult, "started");
+    await tick();
+    assert.strictEqual(queue.getOperations().length, 0);
+    queue.dispose();
+  });
+
+  test("Should run operations for different apps in parallel", () => {
+    const queue = new LandoOperationQueue();
+    const first = createDeferred();
+    const second = createDeferred();
+
+    queue.enqueue(createMockApp("one"), "start", first.run);
+    queue.enqueue(createMockApp("two"), "start", second.run);
+
+    assert.strictEqual(first.started, true);
+    assert.strictEqual(second.started, true);
+    queue.dispose();
+  });
+
+  test("Should never run a global operation alongside an app operation", async () => {
+    const queue = new LandoOperationQueue();
+    const app = createMockApp("myapp");
+    const start = createDeferred();
+    const poweroff = createDeferred();
+    const rebuild = createDeferred();
+
+    queue.enqueue(app, "start", start.run);
+    const poweroffResult = queue.enqueue(undefined, "poweroff", poweroff.run);
+    queue.enqueue(createMockApp("other"), "rebuild", rebuild.run);
+
+    // Power off waits for the start; later app operations wait for the power off
+    assert.strictEqual(start.started, true);
+    assert.strictEqual(poweroff.started, false);
+    assert.strictEqual(rebuild.started, false);
+
+    start.finish("started");
+    await tick();
+    assert.strictEqual(poweroff.started, true);
+    assert.strictEqual(rebuild.started, false);
+
+    poweroff.finish("powered off");
+    assert.strictEqual(await poweroffResult, "powered off");
+    await tick();
+    assert.strictEqual(rebuild.started, true);
+    queue.dispose();
+  });
+
+  test("Should coalesce an identical request into the pending operation", async () => {
+    const queue = new LandoOperationQueue();
+    const app = createMockApp("myapp");
+    const start = createDeferred();
+    let duplicateRan = false;
+
+    const first = queue.enqueue(app, "start", start.run);
+    const second = queue.enqueue(app, "start", async () => {
+      duplicateRan = true;
+      return "duplicate";
+    });
+
+    assert.strictEqual(queue.getOperations(app).length, 1);
+    start.finish("started");
+    assert.strictEqual(await first, "started");
+    assert.strictEqual(await second, "started");
+    assert.strictEqual(duplicateRan, false);
+    queue.dispose();
+  });
+
+  test("Should not coalesce across a different operation", () => {
+    const queue = new LandoOperationQueue();
+    const app = createMockApp("myapp");
+
+    queue.enqueue(app, "start", createDeferred().run);
+    queue.enqueue(app, "stop", createDeferred().run);
+    queue.enqueue(app, "start", createDeferred().run);
+
+    assert.deepStrictEqual(queue.getOperations(app).map(op => op.kind), ["start", "stop", "start"]);
+    queue.dispose();
+  });
+
+  test("Should drop a cancelled queued operation without running it", async () => {
+    const queue = new LandoOperationQueue();
+    const app = createMockApp("myapp");
+    const stop = createDeferred();
+    const start = createDeferred();
+
+    queue.enqueue(app, "stop", stop.run);
+    const startResult = queue.enqueue(app, "start", start.run);
+    const queued = queue.getOperations(app)[1];
+
+    assert.strictEqual(queue.cancel(queued.id), true);
+    assert.strictEqual(await startResult, undefined);
+
+    stop.finish("stopped");
+    await tick();
+    await tick();
+    assert.strictEqual(start.started, false);
+    queue.dispose();
+  });
+
+  test("Should cancel the token of a running operation", () => {
+    const queue = new LandoOperationQueue();
+    const app = createMockApp("myapp");
+    const rebuild = createDeferred();
+
+    queue.enqueue(app, "rebuild", rebuild.run);
+    queue.cancel(queue.getOperations(app)[0].id);
+
+    assert.strictEqual(rebuild.token?.isCancellationRequested, true);
+    queue.dispose();
+  });
+
+  test("Should continue with the next operation after a failure", async () => {
+    const queue = new LandoOperationQueue();
+    const app = createMockApp("myapp");
+    const start = createDeferred();
+
+    const failed = queue.enqueue(app, "stop", async () => {
+      throw new Error("boom");
+    });
+    queue.enqueue(app, "start", start.run);
+
+    await assert.rejects(failed, /boom/);
+    await tick();
+    assert.strictEqual(start.started, true);
+    queue.dispose();
+  });
+
+  test("Should fire change events as operations progress", async () => {
+    const queue = new LandoOperationQueue();
+    const app = createMockApp("myapp");
+    const start = createDeferred();
+    const counts: number[] = [];
+    queue.onDidChangeOperations(operations => counts.push(operations.length));
+
+    const result = queue.enqueue(app, "start", start.run);
+    start.finish("started");
+    await result;
+    await tick();
+
+    assert.strictEqual(counts[0], 1);
+    assert.strictEqual(counts[counts.length - 1], 0);
+    queue.dispose();
+  });
+
+  test("Should label app and global operations", () => {
+    const queue = new LandoOperationQueue();
+
+    queue.enqueue(createMockApp("myapp"), "rebuild", createDeferred().run);
+    queue.enqueue(undefined, "poweroff", createDeferred().run);
+
+    assert.deepStrictEqual(queue.getOperations().map(getOperationLabel), ["Rebuild myapp", "Power off all apps"]);
+    queue.dispose();
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Lando Operation Queue Module
+ *
+ * This module serializes lifecycle operations (start, stop, rebuild, ...) per
+ * app, and global operations (poweroff) against all of them, so that
+ * conflicting Docker operations never run at the same time.
+ * Every lifecycle entry point (tree, command palette, auto-start and the
+ * status bar menu) goes through the queue. Queued operations are visible,
+ * can be cancelled, and duplicates of an operation that is already pending
+ * coalesce into it.
+ *
+ * @module landoOperationQueue
+ */
+
+import * as vscode from 'vscode';
+import { LandoApp } from './landoAppDetector';
+import { LandoLifecycleCommand } from './landoProgress';
+
+/**
+ * Queue key used for operations that affect every app (e.g., poweroff)
+ */
+export const GLOBAL_QUEUE_KEY = '*';
+
+/**
+ * Status of a queued operation
+ */
+export type LandoOperationStatus = 'queued' | 'running';
+
+/**
+ * A lifecycle operation waiting in or running from the queue
+ */
+export interface LandoOperation {
+  /** Unique operation identifier */
+  id: number;
+  /** The operation kind */
+  kind: LandoLifecycleCommand;
+  /** The app the operation runs for (undefined for global operations) */
+  app?: LandoApp;
+  /** Queue key (app configPath, or GLOBAL_QUEUE_KEY) */
+  key: string;
+  /** Whether the operation is waiting or running */
+  status: LandoOperationStatus;
+  /** When the operation was enqueued */
+  enqueuedAt: Date;
+}
+
+/**
+ * Internal bookkeeping for an operation
+ */
+interface QueueEntry {
+  operation: LandoOperation;
+  run: (token: vscode.CancellationToken) => Promise<unknown>;
+  cancellation: vscode.CancellationTokenSource;
+  promise: Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Options for creating a LandoOperationQueue
+ */
+export interface LandoOperationQueueOptions {
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Per-app queue of lifecycle operations, keyed by app configPath.
+ *
+ * Features:
+ * - Runs at most one operation per app at a time, in order
+ * - Runs global operations only while no app operation runs, and holds app
+ *   operations while a global one is queued or running
+ * - Coalesces a request into an identical pending operation at the end of the queue
+ * - Cancels queued operations (they never run) and running ones (via token)
+ * - Emits events so the UI can show pending work
+ *
+ * @example
+ * ```typescript
+ * const queue = new LandoOperationQueue({ outputChannel });
+ * const result = await queue.enqueue(app, 'start', token => startLando(landoCli, app.rootPath, outputChannel, token));
+ * if (result === undefined) {
+ *   // Cancelled before it started
+ * }
+ * ```
+ */
+export class LandoOperationQueue implements vscode.Disposable {
+  private queues: Map<string, QueueEntry[]> = new Map();
+  private nextId = 1;
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+
+  private readonly _onDidChangeOperations = new vscode.EventEmitter<LandoOperation[]>();
+
+  /**
+   * Event fired when operations are added, started, finished or cancelled
+   */
+  public readonly onDidChangeOperations = this._onDidChangeOperations.event;
+
+  constructor(options?: LandoOperationQueueOptions) {
+    this.outputChannel = options?.outputChannel;
+  }
+
+  /**
+   * Queues an operation for an app. If the last queued or running operation
+   * for the same app is identical, the request coalesces into it and
+   * resolves with the same result.
+   *
+   * @param app - The app to run the operation for (undefined for global operations)
+   * @param kind - The operation kind
+   * @param run - Runs the operation; receives a token cancelled from the queue
+   * @returns Promise resolving to the operation's result, or undefined if it
+   *   was cancelled before it started
+   */
+  public enqueue<T>(
+    app: LandoApp | undefined,
+    kind: LandoLifecycleCommand,
+    run: (token: vscode.CancellationToken) => Promise<T>
+  ): Promise<T | undefined> {
+    const key = app?.configPath ?? GLOBAL_QUEUE_KEY;
+    const entries = this.queues.get(key) ?? [];
+
+    // Only coalesce with the last operation: "start, stop, start" must still
+    // end with the app started
+    const duplicate = entries[entries.length - 1];
+    if (duplicate?.operation.kind === kind) {
+      this.log(`Coalescing ${kind} for ${this.describeKey(duplicate.operation)} into pending operation`);
+      return duplicate.promise as Promise<T | undefined>;
+    }
+
+    let resolve!: (value: unknown) => void;
+    let reject!: (error: unknown) => void;
+    const promise = new Promise<unknown>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    const entry: QueueEntry = {
+      operation: {
+        id: this.nextId++,
+        kind,
+        app,
+        key,
+        status: 'queued',
+        enqueuedAt: new Date(),
+      },
+      run,
+      cancellation: new vscode.CancellationTokenSource(),
+      promise,
+      resolve,
+      reject,
+    };
+
+    entries.push(entry);
+    this.queues.set(key, entries);
+    this.log(`Queued ${kind} for ${this.describeKey(entry.operation)} (${entries.length} pending)`);
+    this.fireChange();
+
+    this.schedule();
+
+    return promise as Promise<T | undefined>;
+  }
+
+  /**
+   * Gets queued and running operations
+   *
+   * @param app - Only return operations for this app; all operations when omitted
+   * @returns Operations in queue order (running first)
+   */
+  public getOperations(app?: LandoApp): LandoOperation[] {
+    if (app) {
+      return (this.queues.get(app.configPath) ?? []).map(entry => entry.operation);
+    }
+    return Array.from(this.queues.values()).flatMap(entries => entries.map(entry => entry.operation));
+  }
+
+  /**
+   * Gets the operation currently running for an app
+   *
+   * @param app - The app to check
+   * @returns The running operation, or undefined
+   */
+  public getRunning(app: LandoApp): LandoOperation | undefined {
+    const first = this.queues.get(app.configPath)?.[0];
+    return first?.operation.status === 'running' ? first.operation : undefined;
+  }
+
+  /**
+   * Cancels an operation. Queued operations are removed and resolve with
+   * undefined; running operations have their token cancelled.
+   *
+   * @param id - The operation identifier
+   * @returns True if the operation was found
+   */
+  public cancel(id: number): boolean {
+    for (const [key, entries] of this.queues) {
+      const index = entries.findIndex(entry => entry.operation.id === id);
+      if (index < 0) {
+        continue;
+      }
+
+      const entry = entries[index];
+      if (entry.operation.status === 'running') {
+        this.log(`Cancelling running ${entry.operation.kind} for ${this.describeKey(entry.operation)}`);
+        entry.cancellation.cancel();
+      } else {
+        this.log(`Removing queued ${entry.operation.kind} for ${this.describeKey(entry.operation)}`);
+        entries.splice(index, 1);
+        entry.cancellation.dispose();
+        entry.resolve(undefined);
+        this.cleanup(key);
+        this.fireChange();
+        this.schedule();
+      }
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Starts the queued operations that may run now: the head of each app's
+   * queue, unless a global operation is queued or running, in which case it
+   * runs alone once no app operation is running
+   */
+  private schedule(): void {
+    const globalEntry = this.queues.get(GLOBAL_QUEUE_KEY)?.[0];
+    if (globalEntry) {
+      const appRunning = Array.from(this.queues.entries()).some(
+        ([key, entries]) => key !== GLOBAL_QUEUE_KEY && entries[0]?.operation.status === 'running'
+      );
+      if (globalEntry.operation.status === 'queued' && !appRunning) {
+        this.run(GLOBAL_QUEUE_KEY, globalEntry);
+      }
+      return;
+    }
+
+    for (const [key, entries] of this.queues) {
+      if (entries[0]?.operation.status === 'queued') {
+        this.run(key, entries[0]);
+      }
+    }
+  }
+
+  /**
+   * Runs the operation at the head of a key's queue
+   */
+  private run(key: string, entry: QueueEntry): void {
+    entry.operation.status = 'running';
+    this.log(`Running ${entry.operation.kind} for ${this.describeKey(entry.operation)}`);
+    this.fireChange();
+
+    entry.run(entry.cancellation.token)
+      .then(entry.resolve, entry.reject)
+      .finally(() => {
+        entry.cancellation.dispose();
+        this.queues.get(key)?.shift();
+        this.cleanup(key);
+        this.fireChange();
+        this.schedule();
+      });
+  }
+
+  /**
+   * Removes an empty queue
+   */
+  private cleanup(key: string): void {
+    if (this.queues.get(key)?.length === 0) {
+      this.queues.delete(key);
+    }
+  }
+
+  /**
+   * Fires the change event with all current operations
+   */
+  private fireChange(): void {
+    this._onDidChangeOperations.fire(this.getOperations());
+  }
+
+  /**
+   * Describes the target of an operation for logging
+   */
+  private describeKey(operation: LandoOperation): string {
+    return operation.app?.name ?? 'all apps';
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[OperationQueue] ${message}`);
+  }
+
+  /**
+   * Cancels all operations and disposes of the queue
+   */
+  public dispose(): void {
+    for (const entries of this.queues.values()) {
+      for (const entry of entries) {
+        entry.cancellation.cancel();
+        if (entry.operation.status === 'queued') {
+          entry.resolve(undefined);
+        }
+      }
+    }
+    this.queues.clear();
+    this._onDidChangeOperations.dispose();
+  }
+}
+
+/**
+ * Gets a human-readable label for an operation (e.g., "Start myapp")
+ *
+ * @param operation - The operation
+ * @returns The label
+ */
+export function getOperationLabel(operation: LandoOperation): string {
+  const verb = operation.kind === 'poweroff'
+    ? 'Power off'
+    : operation.kind.charAt(0).toUpperCase() + operation.kind.slice(1);
+  return operation.app ? `${verb} ${operation.app.name}` : `${verb} all apps`;
+}
+
+/**
+ * Creates a token source that is cancelled when any of the given tokens is,
+ * e.g., to cancel an operation from both its progress notification and the queue
+ *
+ * @param tokens - The tokens to link
+ * @returns A token source; dispose of it once the operation finishes
+ */
+export function linkCancellationTokens(...tokens: vscode.CancellationToken[]): vscode.CancellationTokenSource {
+  const source = new vscode.CancellationTokenSource();
+  const listeners = tokens.map(token => token.onCancellationRequested(() => source.cancel()));
+  if (tokens.some(token => token.isCancellationRequested)) {
+    source.cancel();
+  }
+
+  const dispose = source.dispose.bind(source);
+  source.dispose = () => {
+    listeners.forEach(listener => listener.dispose());
+    dispose();
+  };
+  return source;
+}
@@ -0,0 +1,85 @@
+import * as assert from "assert";
+import * as net from "net";
+import { suite, test } from "mocha";
+import {
+  describePortConflict,
+  findPortConflicts,
+  getPortClaims,
+  isPortAvailable,
+} from "./landoPortPreflight";
+import { createMockApp } from "./test/fixtures";
+
+suite("Lando Port Preflight Test Suite", () => {
+  const app = createMockApp("myapp", {
+    usesProxy: true,
+    portforwards: [{ service: "database", port: 3306 }],
+  });
+
+  test("Should claim the proxy ports and forwarded ports", () => {
+    assert.deepStrictEqual(getPortClaims(app), [
+      { port: 80, source: "proxy" },
+      { port: 443, source: "proxy" },
+      { port: 3306, source: "portforward", service: "database" },
+    ]);
+  });
+
+  test("Should not claim proxy ports for apps without the proxy", () => {
+    assert.deepStrictEqual(getPortClaims(createMockApp("plain", { portforwards: [{ service: "cache", port: 6379 }] })), [
+      { port: 6379, source: "portforward", service: "cache" },
+    ]);
+  });
+
+  test("Should report ports held by other processes", async () => {
+    const conflicts = await findPortConflicts(app, {
+      apps: [app],
+      isRunning: () => false,
+      proxyRunning: false,
+      isPortAvailable: async port => port !== 443 && port !== 3306,
+    });
+
+    assert.deepStrictEqual(conflicts.map(describePortConflict), [
+      "Port 443 (proxy) is in use by another process; Lando's proxy will fall back to another port",
+      "Port 3306 (database) is in use by another process",
+    ]);
+  });
+
+  test("Should not report proxy ports held by Lando's own proxy", async () => {
+    const conflicts = await findPortConflicts(app, {
+      apps: [app],
+      isRunning: () => false,
+      proxyRunning: true,
+      isPortAvailable: async () => false,
+    });
+
+    assert.deepStrictEqual(conflicts.map(conflict => conflict.claim.port), [3306]);
+  });
+
+  test("Should attribute forwarded ports to another running app", async () => {
+    const other = createMockApp("otherapp", { portforwards: [{ service: "db", port: 3306 }] });
+    const stopped = createMockApp("stoppedapp", { portforwards: [{ service: "database", port: 3306 }] });
+
+    const conflicts = await findPortConflicts(app, {
+      apps: [app, stopped, other],
+      isRunning: candidate => candidate === other,
+      proxyRunning: true,
+      isPortAvailable: async () => true,
+    });
+
+    assert.strictEqual(conflicts.length, 1);
+    assert.strictEqual(conflicts[0].owner, other);
+    assert.strictEqual(describePortConflict(conflicts[0]), "Port 3306 (database) is forwarded by otherapp's db");
+  });
+
+  test("Should detect a port another process listens on", async () => {
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    const port = (server.address() as net.AddressInfo).port;
+
+    try {
+      assert.strictEqual(await isPortAvailable(port), false);
+    } finally {
+      await new Promise(resolve => server.close(resolve));
+    }
+    assert.strictEqual(await isPortAvailable(port), true);
+  });
+});
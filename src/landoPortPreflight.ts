@@ -0,0 +1,148 @@
+/**
+ * Lando Port Preflight Module
+ *
+ * This module checks, before an app starts, whether the host ports it will
+ * bind are free: the shared proxy's ports and each service's fixed
+ * `portforward` port. A port held by another local process or claimed by
+ * another running Lando app otherwise makes `lando start` fail late, with a
+ * Docker error that doesn't say which app or process is in the way.
+ *
+ * @module landoPortPreflight
+ */
+
+import * as net from 'net';
+import { LandoApp } from './landoAppDetector';
+
+/**
+ * Host ports Lando's proxy binds unless configured otherwise
+ */
+export const DEFAULT_PROXY_PORTS: readonly number[] = [80, 443];
+
+/**
+ * A host port an app binds when it starts
+ */
+export interface LandoPortClaim {
+  /** The host port */
+  port: number;
+  /** Whether the port belongs to the shared proxy or a service's portforward */
+  source: 'proxy' | 'portforward';
+  /** The service forwarding the port (portforward only) */
+  service?: string;
+}
+
+/**
+ * A port that is not free for an app to start
+ */
+export interface LandoPortConflict {
+  /** The app's claim on the port */
+  claim: LandoPortClaim;
+  /** The running Lando app forwarding the same port, if that is what holds it */
+  owner?: LandoApp;
+  /** The owner's service forwarding the port */
+  ownerService?: string;
+}
+
+/**
+ * Options for checking an app's ports
+ */
+export interface LandoPortPreflightOptions {
+  /** All detected apps, to attribute ports to other Lando apps */
+  apps: LandoApp[];
+  /** Checks whether an app is running */
+  isRunning: (app: LandoApp) => boolean;
+  /** Whether Lando's proxy is already running (and so holds the proxy ports itself) */
+  proxyRunning: boolean;
+  /** The proxy's host ports */
+  proxyPorts?: readonly number[];
+  /** Checks whether a port is free (defaults to binding it) */
+  isPortAvailable?: (port: number) => Promise<boolean>;
+}
+
+/**
+ * Gets the host ports an app binds when it starts
+ *
+ * @param app - The app
+ * @param proxyPorts - The proxy's host ports
+ * @returns The claims, proxy ports first
+ */
+export function getPortClaims(app: LandoApp, proxyPorts: readonly number[] = DEFAULT_PROXY_PORTS): LandoPortClaim[] {
+  const claims: LandoPortClaim[] = app.usesProxy
+    ? proxyPorts.map(port => ({ port, source: 'proxy' as const }))
+    : [];
+  for (const { service, port } of app.portforwards ?? []) {
+    claims.push({ port, source: 'portforward', service });
+  }
+  return claims;
+}
+
+/**
+ * Checks whether a port is free by briefly listening on it
+ *
+ * @param port - The port
+ * @returns Promise resolving to false if something else is listening on it.
+ *   Ports that can't be checked (e.g., privileged ports) count as free.
+ */
+export function isPortAvailable(port: number): Promise<boolean> {
+  return new Promise(resolve => {
+    const server = net.createServer();
+    server.unref();
+    server.once('error', (error: NodeJS.ErrnoException) => resolve(error.code !== 'EADDRINUSE'));
+    server.listen({ port, exclusive: true }, () => server.close(() => resolve(true)));
+  });
+}
+
+/**
+ * Finds the ports an app can't bind because another process or another
+ * running Lando app holds them
+ *
+ * @param app - The app about to start
+ * @param options - Other apps and how to probe ports
+ * @returns Promise resolving to the conflicts, in claim order
+ */
+export async function findPortConflicts(app: LandoApp, options: LandoPortPreflightOptions): Promise<LandoPortConflict[]> {
+  const probe = options.isPortAvailable ?? isPortAvailable;
+  const conflicts: LandoPortConflict[] = [];
+
+  for (const claim of getPortClaims(app, options.proxyPorts)) {
+    if (claim.source === 'proxy') {
+      // The proxy is shared by all apps, so only a non-Lando process can be in the way
+      if (!options.proxyRunning && !(await probe(claim.port))) {
+        conflicts.push({ claim });
+      }
+      continue;
+    }
+
+    const owner = options.apps.find(other =>
+      other.configPath !== app.configPath &&
+      options.isRunning(other) &&
+      other.portforwards?.some(portforward => portforward.port === claim.port)
+    );
+    if (owner) {
+      const ownerService = owner.portforwards?.find(portforward => portforward.port === claim.port)?.service;
+      conflicts.push({ claim, owner, ownerService });
+    } else if (!(await probe(claim.port))) {
+      conflicts.push({ claim });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Describes a conflict (e.g., "Port 3306 (database) is forwarded by otherapp's database")
+ *
+ * @param conflict - The conflict
+ * @returns The description
+ */
+export function describePortConflict(conflict: LandoPortConflict): string {
+  const { claim, owner, ownerService } = conflict;
+  const target = claim.source === 'proxy' ? `Port ${claim.port} (proxy)` : `Port ${claim.port} (${claim.service})`;
+  if (owner) {
+    return `${target} is forwarded by ${owner.name}${ownerService ? `'s ${ownerService}` : ''}`;
+  }
+  if (claim.source === 'proxy') {
+    // Lando's default config falls back to other ports (e.g., 8000 and 444)
+    return `${target} is in use by another process; Lando's proxy will fall back to another port`;
+  }
+  return `${target} is in use by another process`;
+}
@@ -0,0 +1,173 @@
+import * as assert from "assert";
+import { suite, test } from "mocha";
+import {
+  LandoProgressReporter,
+  LandoProgressTracker,
+  cleanOutputLine,
+  containerToService,
+  parseLandoErrorLine,
+  parseLandoOutputLine,
+} from "./landoProgress";
+
+/**
+ * Fake progress reporter that records reports
+ */
+function createReporter(): { reporter: LandoProgressReporter; reports: Array<{ message?: string; increment?: number }> } {
+  const reports: Array<{ message?: string; increment?: number }> = [];
+  return { reporter: { report: value => reports.push(value) }, reports };
+}
+
+function total(reports: Array<{ increment?: number }>): number {
+  return reports.reduce((sum, report) => sum + (report.increment ?? 0), 0);
+}
+
+suite("Lando Progress Test Suite", () => {
+  suite("cleanOutputLine", () => {
+    test("Should strip ANSI codes and compose markers", () => {
+      assert.strictEqual(cleanOutputLine("\x1b[32m ✔ Container myapp-appserver-1  Started\x1b[0m"), "Container myapp-appserver-1  Started");
+      assert.strictEqual(cleanOutputLine("[+] Running 3/3"), "Running 3/3");
+    });
+  });
+
+  suite("containerToService", () => {
+    test("Should strip the app prefix and index", () => {
+      assert.strictEqual(containerToService("myapp_appserver_1", "myapp"), "appserver");
+      assert.strictEqual(containerToService("myapp-appserver-nginx-1", "myapp"), "appserver-nginx");
+    });
+
+    test("Should fall back to the last segment without an app name", () => {
+      assert.strictEqual(containerToService("myapp_database_1"), "database");
+    });
+  });
+
+  suite("parseLandoOutputLine", () => {
+    test("Should parse compose v1 image pulls", () => {
+      assert.deepStrictEqual(parseLandoOutputLine("Pulling appserver (devwithlando/php:8.1-apache-4)..."), {
+        stage: "pulling",
+        service: "appserver",
+        done: false,
+      });
+      assert.strictEqual(parseLandoOutputLine("Pulling database ... done")?.done, true);
+    });
+
+    test("Should parse compose v2 image pulls", () => {
+      assert.deepStrictEqual(parseLandoOutputLine(" ✔ database Pulled"), { stage: "pulling", service: "database", done: true });
+      assert.strictEqual(parseLandoOutputLine("a2abf6c4d29d Pull complete"), undefined);
+    });
+
+    test("Should parse builds", () => {
+      assert.deepStrictEqual(parseLandoOutputLine("Building appserver"), { stage: "building", service: "appserver", done: false });
+      assert.strictEqual(parseLandoOutputLine("#5 [appserver 2/4] RUN apt-get update")?.service, "appserver");
+      assert.strictEqual(parseLandoOutputLine("#1 [internal] load build definition"), undefined);
+    });
+
+    test("Should parse container lifecycle lines", () => {
+      assert.deepStrictEqual(parseLandoOutputLine("Creating myapp_appserver_1 ... done", "myapp"), {
+        stage: "starting",
+        service: "appserver",
+        done: true,
+      });
+      assert.deepStrictEqual(parseLandoOutputLine("Container myapp-database-1  Stopped", "myapp"), {
+        stage: "stopping",
+        service: "database",
+        done: true,
+      });
+      assert.strictEqual(parseLandoOutputLine("Volume myapp_data  Removed")?.stage, "removing");
+    });
+
+    test("Should parse build steps and post-start events", () => {
+      assert.deepStrictEqual(parseLandoOutputLine("Running build steps on appserver..."), {
+        stage: "buildSteps",
+        service: "appserver",
+        done: false,
+      });
+      assert.strictEqual(parseLandoOutputLine("Running post-start events on appserver")?.stage, "postStart");
+    });
+
+    test("Should ignore unrelated output", () => {
+      assert.strictEqual(parseLandoOutputLine("Let's get this party started!"), undefined);
+      assert.strictEqual(parseLandoOutputLine(""), undefined);
+    });
+  });
+
+  suite("parseLandoErrorLine", () => {
+    test("Should extract error messages", () => {
+      assert.strictEqual(parseLandoErrorLine("ERROR ==> composer install failed"), "composer install failed");
+      assert.strictEqual(
+        parseLandoErrorLine("Error response from daemon: driver failed programming external connectivity"),
+        "driver failed programming external connectivity"
+      );
+      assert.strictEqual(parseLandoErrorLine("Creating myapp_appserver_1 ... done"), undefined);
+    });
+  });
+
+  suite("LandoProgressTracker", () => {
+    test("Should report stage messages and monotonic increments", () => {
+      const { reporter, reports } = createReporter();
+      const tracker = new LandoProgressTracker(reporter, {
+        command: "start",
+        appName: "myapp",
+        services: ["appserver", "database"],
+      });
+
+      tracker.push("Pulling appserver ... done\nPulling database ... done\n");
+      tracker.push("Creating myapp_appserver_1 ... done\n");
+      tracker.push("Running build steps on appserver\n");
+
+      assert.ok(reports.some(r => r.message === "Pulling images (appserver) (1/2)"));
+      assert.ok(reports.some(r => r.message === "Starting containers (appserver) (1/2)"));
+      assert.strictEqual(tracker.getCurrentStep(), "Running build steps (appserver)");
+      assert.ok(reports.every(r => (r.increment ?? 0) >= 0));
+      assert.strictEqual(Math.round(total(reports)), 60);
+
+      tracker.complete();
+      assert.strictEqual(Math.round(total(reports)), 100);
+    });
+
+    test("Should buffer partial lines across chunks", () => {
+      const tracker = new LandoProgressTracker(undefined, { command: "start", appName: "myapp" });
+
+      tracker.push("Creating myapp_data");
+      assert.strictEqual(tracker.getCurrentStage(), undefined);
+      tracker.push("base_1 ...\n");
+
+      assert.strictEqual(tracker.getCurrentStep(), "Starting containers (database)");
+    });
+
+    test("Should not move back to an earlier stage", () => {
+      const tracker = new LandoProgressTracker(undefined, { command: "start", appName: "myapp" });
+
+      tracker.push("Running build steps on appserver\nStarting myapp_appserver_1 ...\n");
+
+      assert.strictEqual(tracker.getCurrentStage(), "buildSteps");
+    });
+
+    test("Should quote the failing step and error", () => {
+      const tracker = new LandoProgressTracker(undefined, { command: "start", appName: "myapp" });
+
+      tracker.push("Running build steps on appserver\nERROR ==> composer install failed with exit code 2");
+
+      assert.strictEqual(
+        tracker.describeFailure("Failed to start myapp"),
+        'Failed to start myapp while running build steps (appserver): "composer install failed with exit code 2"'
+      );
+    });
+
+    test("Should leave the message unchanged without any output", () => {
+      const tracker = new LandoProgressTracker(undefined, { command: "stop" });
+
+      assert.strictEqual(tracker.describeFailure("Failed to stop myapp"), "Failed to stop myapp");
+    });
+
+    test("Should keep the cleaned output for classifying failures", () => {
+      const tracker = new LandoProgressTracker(undefined, { command: "start" });
+
+      tracker.push("\x1b[32mPulling appserver ... done\x1b[0m\nError response from daemon: no space left on device");
+
+      assert.strictEqual(
+        tracker.getOutput(),
+        "Pulling appserver ... done\nError response from daemon: no space left on device"
+      );
+    });
+  });
+});
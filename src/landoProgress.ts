@@ -0,0 +1,453 @@
+/**
+ * Lando Progress Module
+ *
+ * This module parses the streamed output of Lando lifecycle commands
+ * (start, rebuild, destroy, ...) into stages such as pulling images,
+ * building services, running build steps and running post-start events.
+ * The stages drive `withProgress` increments and messages, and the last
+ * stage seen is quoted when a command fails.
+ *
+ * Both docker-compose v1 ("Creating myapp_appserver_1 ... done") and
+ * v2 ("Container myapp-appserver-1  Started") output styles are recognized.
+ *
+ * @module landoProgress
+ */
+
+import * as vscode from 'vscode';
+
+/**
+ * Stages of a Lando lifecycle command
+ */
+export type LandoLifecycleStage =
+  | 'stopping'
+  | 'removing'
+  | 'pulling'
+  | 'building'
+  | 'starting'
+  | 'buildSteps'
+  | 'postStart';
+
+/**
+ * Lando lifecycle commands that report progress
+ */
+export type LandoLifecycleCommand = 'start' | 'stop' | 'restart' | 'rebuild' | 'destroy' | 'poweroff';
+
+/**
+ * Stages each lifecycle command is expected to go through, in order
+ */
+export const LANDO_COMMAND_STAGES: Record<LandoLifecycleCommand, LandoLifecycleStage[]> = {
+  start: ['pulling', 'building', 'starting', 'buildSteps', 'postStart'],
+  stop: ['stopping'],
+  restart: ['stopping', 'starting', 'postStart'],
+  rebuild: ['removing', 'pulling', 'building', 'starting', 'buildSteps', 'postStart'],
+  destroy: ['stopping', 'removing'],
+  poweroff: ['stopping'],
+};
+
+/**
+ * Human-readable labels for each stage
+ */
+export const LANDO_STAGE_LABELS: Record<LandoLifecycleStage, string> = {
+  stopping: 'Stopping containers',
+  removing: 'Removing containers',
+  pulling: 'Pulling images',
+  building: 'Building services',
+  starting: 'Starting containers',
+  buildSteps: 'Running build steps',
+  postStart: 'Running post-start events',
+};
+
+/**
+ * A progress event parsed from a single line of output
+ */
+export interface LandoProgressEvent {
+  /** The stage the line belongs to */
+  stage: LandoLifecycleStage;
+  /** The service the line refers to, if any */
+  service?: string;
+  /** Whether the line reports that the service finished this stage */
+  done: boolean;
+}
+
+/**
+ * Progress reporter accepted by the tracker (matches withProgress' progress)
+ */
+export type LandoProgressReporter = vscode.Progress<{ message?: string; increment?: number }>;
+
+/**
+ * Options for creating a LandoProgressTracker
+ */
+export interface LandoProgressTrackerOptions {
+  /** The lifecycle command being tracked (determines the expected stages) */
+  command: LandoLifecycleCommand;
+  /** Clean app name, used to map container names to services */
+  appName?: string;
+  /** Services of the app, used to spread progress within a stage */
+  services?: string[];
+}
+
+/** Number of output lines kept for classifying failures */
+const MAX_OUTPUT_LINES = 500;
+
+/** Matches ANSI escape sequences */
+const ANSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+/** Matches compose v2 status markers (spinners, check marks, "[+]") */
+const MARKER_PATTERN = /^(?:\[\+\]\s*|[✔✘⠿⠋⠙⠹⠸⠼⠴⠦⠧⠇⠏]\s*)+/u;
+
+/** Matches lines reporting an error */
+const ERROR_PATTERN = /^(?:ERROR\s*==>|ERROR:|Error:|error:|Error response from daemon:|\w+Error:)\s*(.+)$/;
+
+/** Compose v1 per-container actions, e.g. "Creating myapp_appserver_1 ... done" */
+const COMPOSE_V1_CONTAINER_PATTERN = /^(Creating|Recreating|Starting|Stopping|Removing) (\S+)\s*\.\.\.\s*(done)?$/;
+
+/** Compose v2 per-resource actions, e.g. "Container myapp-appserver-1  Started" */
+const COMPOSE_V2_RESOURCE_PATTERN =
+  /^(Container|Volume|Network) "?([^"\s]+)"?\s+(Creating|Created|Recreate|Recreated|Starting|Started|Running|Stopping|Stopped|Removing|Removed)$/;
+
+/** Maps compose actions to stages and whether they mark completion */
+const COMPOSE_ACTIONS: Record<string, { stage: LandoLifecycleStage; done: boolean }> = {
+  Creating: { stage: 'starting', done: false },
+  Created: { stage: 'starting', done: false },
+  Recreating: { stage: 'starting', done: false },
+  Recreate: { stage: 'starting', done: false },
+  Recreated: { stage: 'starting', done: false },
+  Starting: { stage: 'starting', done: false },
+  Started: { stage: 'starting', done: true },
+  Running: { stage: 'starting', done: true },
+  Stopping: { stage: 'stopping', done: false },
+  Stopped: { stage: 'stopping', done: true },
+  Removing: { stage: 'removing', done: false },
+  Removed: { stage: 'removing', done: true },
+};
+
+/**
+ * Removes ANSI escape codes and compose status markers from a line
+ *
+ * @param line - A raw line of output
+ * @returns The cleaned, trimmed line
+ */
+export function cleanOutputLine(line: string): string {
+  return line.replace(ANSI_PATTERN, '').trim().replace(MARKER_PATTERN, '').trim();
+}
+
+/**
+ * Maps a container name (e.g., "myapp_appserver_1" or "myapp-appserver-1")
+ * to the service it runs
+ *
+ * @param containerName - The container name
+ * @param appName - The clean app name, if known
+ * @returns The service name
+ */
+export function containerToService(containerName: string, appName?: string): string {
+  let name = containerName.replace(/[_-]\d+$/, '');
+  if (appName && (name.startsWith(`${appName}_`) || name.startsWith(`${appName}-`))) {
+    return name.slice(appName.length + 1);
+  }
+  // Without the app name, assume the service is the last segment
+  const separator = Math.max(name.lastIndexOf('_'), name.lastIndexOf('-'));
+  if (separator >= 0) {
+    name = name.slice(separator + 1);
+  }
+  return name;
+}
+
+/**
+ * Parses a single line of lifecycle output into a progress event
+ *
+ * @param rawLine - A line of stdout or stderr
+ * @param appName - The clean app name, used to map container names to services
+ * @returns The progress event, or undefined if the line is not a progress line
+ */
+export function parseLandoOutputLine(rawLine: string, appName?: string): LandoProgressEvent | undefined {
+  const line = cleanOutputLine(rawLine);
+  if (!line) {
+    return undefined;
+  }
+
+  // Post-start events (checked before build steps: both mention "run")
+  if (/\bpost-start\b/i.test(line)) {
+    return { stage: 'postStart', service: line.match(/\bon (\S+?)[.:]*$/)?.[1], done: false };
+  }
+
+  // Build steps (build, build_as_root, run, run_as_root)
+  const buildStep = line.match(/\b(?:build|build_as_root|run|run_as_root) steps?\b(?:.*?\b(?:on|for) (\S+?)[.:]*$)?/i);
+  if (buildStep) {
+    return { stage: 'buildSteps', service: buildStep[1], done: false };
+  }
+
+  // Image pulls
+  let match = line.match(/^Pulling (\S+)(?: \([^)]*\))?\s*\.\.\.\s*(done)?/);
+  if (match) {
+    return { stage: 'pulling', service: match[1], done: !!match[2] };
+  }
+  match = line.match(/^(\S+) (Pulling|Pulled)$/);
+  if (match) {
+    return { stage: 'pulling', service: match[1], done: match[2] === 'Pulled' };
+  }
+
+  // Image builds
+  match = line.match(/^Building (\S+)$/) ?? line.match(/^Service (\S+)\s+Building$/);
+  if (match) {
+    return { stage: 'building', service: match[1], done: false };
+  }
+  match = line.match(/^#\d+ \[([\w.-]+?)(?: \d+\/\d+)?\]/);
+  if (match && match[1] !== 'internal') {
+    return { stage: 'building', service: match[1], done: false };
+  }
+  match = line.match(/^(\S+)\s+Built$/);
+  if (match) {
+    return { stage: 'building', service: match[1], done: true };
+  }
+
+  // Container lifecycle
+  match = line.match(COMPOSE_V1_CONTAINER_PATTERN);
+  if (match) {
+    const action = COMPOSE_ACTIONS[match[1]];
+    return { stage: action.stage, service: containerToService(match[2], appName), done: !!match[3] };
+  }
+  match = line.match(COMPOSE_V2_RESOURCE_PATTERN);
+  if (match) {
+    const action = COMPOSE_ACTIONS[match[3]];
+    const service = match[1] === 'Container' ? containerToService(match[2], appName) : undefined;
+    return { stage: action.stage, service, done: action.done && match[1] === 'Container' };
+  }
+  match = line.match(/^Removing (?:network|volume) (\S+)$/);
+  if (match) {
+    return { stage: 'removing', done: false };
+  }
+
+  return undefined;
+}
+
+/**
+ * Extracts the message from an error line
+ *
+ * @param rawLine - A line of stdout or stderr
+ * @returns The error message, or undefined if the line is not an error
+ */
+export function parseLandoErrorLine(rawLine: string): string | undefined {
+  return cleanOutputLine(rawLine).match(ERROR_PATTERN)?.[1].trim();
+}
+
+/**
+ * Tracks the progress of a lifecycle command from its streamed output.
+ *
+ * Each expected stage gets an equal share of the progress bar; within a
+ * stage, each service that finishes advances the bar by its share.
+ *
+ * @example
+ * ```typescript
+ * await vscode.window.withProgress({ ... }, async progress => {
+ *   const tracker = new LandoProgressTracker(progress, { command: 'start', appName: app.cleanName });
+ *   const success = await startLando(landoCli, app.rootPath, outputChannel, notification, tracker);
+ *   if (!success) {
+ *     vscode.window.showErrorMessage(tracker.describeFailure(`Failed to start ${app.name}`));
+ *   }
+ * });
+ * ```
+ */
+export class LandoProgressTracker {
+  private readonly stages: LandoLifecycleStage[];
+  private readonly stageWeight: number;
+  private readonly services: string[];
+  private buffer = '';
+  private reported = 0;
+  private currentStage: LandoLifecycleStage | undefined;
+  private currentService: string | undefined;
+  private doneServices: Map<LandoLifecycleStage, Set<string>> = new Map();
+  private errors: string[] = [];
+  private lastLine: string | undefined;
+  private output: string[] = [];
+  private exitCode: number | undefined;
+
+  constructor(
+    private readonly progress: LandoProgressReporter | undefined,
+    private readonly options: LandoProgressTrackerOptions
+  ) {
+    this.stages = LANDO_COMMAND_STAGES[options.command];
+    this.stageWeight = 100 / this.stages.length;
+    this.services = options.services ?? [];
+  }
+
+  /**
+   * Feeds a chunk of output (stdout or stderr) to the tracker.
+   * Partial lines are buffered until they are complete.
+   *
+   * @param chunk - Output text as it arrives
+   */
+  public push(chunk: string): void {
+    const lines = (this.buffer + chunk).split(/\r?\n|\r/);
+    this.buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      this.handleLine(line);
+    }
+  }
+
+  /**
+   * Flushes buffered output and fills the progress bar
+   */
+  public complete(): void {
+    this.flush();
+    this.report(100);
+  }
+
+  /**
+   * Records the command's exit code
+   *
+   * @param exitCode - The exit code of the lando process
+   */
+  public setExitCode(exitCode: number | null | undefined): void {
+    this.exitCode = exitCode ?? undefined;
+  }
+
+  /**
+   * Gets the command's exit code, if it exited
+   */
+  public getExitCode(): number | undefined {
+    return this.exitCode;
+  }
+
+  /**
+   * Gets the most recent output, with ANSI codes and status markers removed
+   *
+   * @returns The last lines of output, newline-separated
+   */
+  public getOutput(): string {
+    this.flush();
+    return this.output.join('\n');
+  }
+
+  /**
+   * Gets the stage currently in progress
+   */
+  public getCurrentStage(): LandoLifecycleStage | undefined {
+    return this.currentStage;
+  }
+
+  /**
+   * Gets a label for the step currently in progress (e.g., "Running build steps (appserver)")
+   */
+  public getCurrentStep(): string | undefined {
+    if (!this.currentStage) {
+      return undefined;
+    }
+    const label = LANDO_STAGE_LABELS[this.currentStage];
+    return this.currentService ? `${label} (${this.currentService})` : label;
+  }
+
+  /**
+   * Summarizes where and why the command failed
+   *
+   * @returns A summary such as 'Running build steps (appserver): "composer install" failed',
+   *   or undefined if nothing useful was seen
+   */
+  public getFailureSummary(): string | undefined {
+    this.flush();
+    const step = this.getCurrentStep();
+    const detail = this.errors[0] ?? this.lastLine;
+    if (step && detail) {
+      return `${step}: "${detail}"`;
+    }
+    return step ?? (detail ? `"${detail}"` : undefined);
+  }
+
+  /**
+   * Builds a failure notification that quotes the failing step
+   *
+   * @param prefix - The generic failure message (e.g., "Failed to start myapp")
+   * @returns The message with the failing step appended when known
+   */
+  public describeFailure(prefix: string): string {
+    const summary = this.getFailureSummary();
+    return summary ? `${prefix} while ${lowerFirst(summary)}` : prefix;
+  }
+
+  /**
+   * Processes any buffered partial line
+   */
+  private flush(): void {
+    if (this.buffer) {
+      const line = this.buffer;
+      this.buffer = '';
+      this.handleLine(line);
+    }
+  }
+
+  /**
+   * Processes a complete line of output
+   */
+  private handleLine(line: string): void {
+    const cleaned = cleanOutputLine(line);
+    if (!cleaned) {
+      return;
+    }
+    this.lastLine = cleaned;
+    this.output.push(cleaned);
+    if (this.output.length > MAX_OUTPUT_LINES) {
+      this.output.shift();
+    }
+
+    const error = parseLandoErrorLine(cleaned);
+    if (error) {
+      this.errors.push(error);
+      return;
+    }
+
+    const event = parseLandoOutputLine(cleaned, this.options.appName);
+    if (event) {
+      this.handleEvent(event);
+    }
+  }
+
+  /**
+   * Advances the progress bar and message for a progress event
+   */
+  private handleEvent(event: LandoProgressEvent): void {
+    const stageIndex = this.stages.indexOf(event.stage);
+    const currentIndex = this.currentStage ? this.stages.indexOf(this.currentStage) : -1;
+
+    // Never move backwards (e.g., a container restarting after build steps)
+    if (stageIndex >= 0 && stageIndex < currentIndex) {
+      return;
+    }
+
+    this.currentStage = event.stage;
+    this.currentService = event.service;
+
+    let percent = stageIndex >= 0 ? stageIndex * this.stageWeight : this.reported;
+    if (event.done && event.service) {
+      const done = this.doneServices.get(event.stage) ?? new Set<string>();
+      done.add(event.service);
+      this.doneServices.set(event.stage, done);
+    }
+    const doneCount = this.doneServices.get(event.stage)?.size ?? 0;
+    if (stageIndex >= 0 && this.services.length > 0) {
+      percent += this.stageWeight * Math.min(doneCount / this.services.length, 1);
+    }
+
+    const count = this.services.length > 0 && doneCount > 0
+      ? ` (${Math.min(doneCount, this.services.length)}/${this.services.length})`
+      : '';
+    this.report(percent, `${this.getCurrentStep()}${count}`);
+  }
+
+  /**
+   * Reports progress up to a percentage (progress never decreases)
+   */
+  private report(percent: number, message?: string): void {
+    const target = Math.min(percent, 100);
+    const increment = Math.max(target - this.reported, 0);
+    this.reported += increment;
+    if (increment > 0 || message) {
+      this.progress?.report({ increment: increment > 0 ? increment : undefined, message });
+    }
+  }
+}
+
+/**
+ * Lowercases the first character of a string
+ */
+function lowerFirst(text: string): string {
+  return text.charAt(0).toLowerCase() + text.slice(1);
+}
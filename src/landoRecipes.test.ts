@@ -0,0 +1,100 @@
+import * as assert from "assert";
+import { suite, test } from "mocha";
+import { combineTooling, getRecipeDefaults, getRecipeServiceDetails } from "./landoRecipes";
+
+suite("Lando Recipes Test Suite", () => {
+  test("Should derive services from the recipe's defaults", () => {
+    const defaults = getRecipeDefaults("drupal10");
+
+    assert.ok(defaults);
+    assert.deepStrictEqual(defaults.services, [
+      { name: "appserver", type: "php", port: 80 },
+      {
+        name: "database",
+        type: "mysql",
+        port: 3306,
+        creds: { user: "drupal10", password: "drupal10", database: "drupal10" },
+      },
+    ]);
+  });
+
+  test("Should use Lando's defaults rather than the init wizard's recommendations", () => {
+    for (const recipe of ["laravel", "symfony"]) {
+      assert.deepStrictEqual(
+        getRecipeDefaults(recipe)?.services.map(service => `${service.name}=${service.type}:${service.port}`),
+        ["appserver=php:80", "database=mysql:3306"]
+      );
+    }
+    assert.deepStrictEqual(
+      getRecipeDefaults("lemp")?.services.map(service => `${service.name}=${service.type}`),
+      ["appserver=php", "appserver_nginx=nginx", "database=mysql"]
+    );
+  });
+
+  test("Should derive tooling for the runtime, recipe and database", () => {
+    const defaults = getRecipeDefaults("drupal10");
+
+    assert.deepStrictEqual(
+      defaults?.tooling.map(tool => `${tool.name}@${tool.service}`),
+      ["composer@appserver", "php@appserver", "drush@appserver", "mysql@database", "db-import@database", "db-export@database"]
+    );
+    assert.ok(defaults?.tooling.every(tool => !tool.isCustom && tool.description));
+  });
+
+  test("Should apply config overrides", () => {
+    const defaults = getRecipeDefaults("wordpress", { php: 8.1, via: "nginx", database: "postgres:15" });
+
+    assert.deepStrictEqual(
+      defaults?.services.map(service => `${service.name}=${service.type}:${service.port}`),
+      ["appserver=php:8.1:80", "appserver_nginx=nginx:80", "database=postgres:15:5432"]
+    );
+    assert.ok(defaults?.tooling.some(tool => tool.name === "psql"));
+    assert.ok(!defaults?.tooling.some(tool => tool.name === "mysql"));
+  });
+
+  test("Should let service types in the Landofile win", () => {
+    const defaults = getRecipeDefaults("lamp", {}, { database: { type: "mariadb:10.6" } });
+    const database = defaults?.services.find(service => service.name === "database");
+
+    assert.strictEqual(database?.type, "mariadb:10.6");
+    assert.strictEqual(database?.port, 3306);
+  });
+
+  test("Should derive non-PHP recipes", () => {
+    const mean = getRecipeDefaults("mean", { node: 18 });
+
+    assert.deepStrictEqual(
+      mean?.services.map(service => `${service.name}=${service.type}`),
+      ["appserver=node:18", "database=mongo"]
+    );
+    assert.strictEqual(mean?.services[1].creds, undefined);
+    assert.deepStrictEqual(
+      mean?.tooling.map(tool => tool.name),
+      ["node", "npm", "yarn", "mongo"]
+    );
+  });
+
+  test("Should return undefined for unknown recipes", () => {
+    assert.strictEqual(getRecipeDefaults(undefined), undefined);
+    assert.strictEqual(getRecipeDefaults("custom"), undefined);
+    assert.strictEqual(getRecipeDefaults("pantheon"), undefined);
+  });
+
+  test("Should describe recipe services like lando info", () => {
+    const details = getRecipeServiceDetails(getRecipeDefaults("lemp")!);
+    const database = details.find(service => service.service === "database");
+
+    assert.ok(details.every(service => service.running === false));
+    assert.deepStrictEqual(database?.internal_connection, { host: "database", port: 3306 });
+    assert.deepStrictEqual(database?.creds, { user: "lemp", password: "lemp", database: "lemp" });
+  });
+
+  test("Should combine tooling with the first list winning", () => {
+    const tooling = combineTooling(
+      [{ name: "drush", service: "appserver", description: "Custom drush", isCustom: true }],
+      [{ name: "drush", service: "appserver", isCustom: false }, { name: "npm", service: "node", isCustom: false }]
+    );
+
+    assert.deepStrictEqual(tooling.map(tool => `${tool.name}:${tool.isCustom}`), ["drush:true", "npm:false"]);
+  });
+});
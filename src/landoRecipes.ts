@@ -0,0 +1,271 @@
+/**
+ * Lando Recipe Catalog Module
+ *
+ * This module knows which services, tooling, credentials and ports each
+ * Lando recipe implies, so an app with just `recipe: drupal10`
+ * shows its appserver, database and drush/composer tooling without waiting
+ * for `lando info` or parsing `lando` help. Recipe `config:` overrides such
+ * as `php`, `via` and `database`, and service types set under `services:`,
+ * are taken into account. The runtime values from Lando replace these
+ * defaults whenever Lando answers.
+ *
+ * @module landoRecipes
+ */
+
+import { LandoTooling } from './landoAppDetector';
+import { LandoConnectionCreds, LandoServiceDetails } from './types';
+
+/**
+ * A service a recipe creates
+ */
+export interface LandoRecipeService {
+  /** The service name (e.g., 'appserver', 'database') */
+  name: string;
+  /** The service type (e.g., 'php:8.2', 'mysql:8.0') */
+  type: string;
+  /** The port the service listens on inside the Docker network */
+  port?: number;
+  /** Default credentials (database services) */
+  creds?: LandoConnectionCreds;
+}
+
+/**
+ * Everything a recipe implies for an app
+ */
+export interface LandoRecipeDefaults {
+  /** The recipe */
+  recipe: string;
+  /** Services the recipe creates */
+  services: LandoRecipeService[];
+  /** Tooling the recipe provides */
+  tooling: LandoTooling[];
+}
+
+/**
+ * Language of a recipe's appserver
+ */
+type RecipeRuntime = 'php' | 'node' | 'python' | 'ruby' | 'go' | 'dotnet';
+
+/**
+ * A catalog entry describing what a recipe creates
+ */
+interface RecipeCatalogEntry {
+  /** Language of the appserver */
+  runtime: RecipeRuntime;
+  /** Web server Lando puts in front of PHP by default */
+  via?: 'apache' | 'nginx';
+  /** Database engine Lando adds by default, if any */
+  database?: string;
+  /** Recipe-specific tooling (in addition to the runtime's and database's) */
+  tooling: string[];
+  /** Whether the database uses the recipe name as user, password and database */
+  recipeCreds?: boolean;
+}
+
+/**
+ * Recipes and what Lando creates for them when `config:` doesn't say
+ * otherwise. The default versions depend on the installed recipe plugin, so
+ * they are left out: types read `php` or `mysql` until the Landofile or
+ * Lando names a version.
+ */
+const RECIPE_CATALOG: Record<string, RecipeCatalogEntry> = {
+  drupal11: { runtime: 'php', via: 'apache', database: 'mysql', tooling: ['drush'], recipeCreds: true },
+  drupal10: { runtime: 'php', via: 'apache', database: 'mysql', tooling: ['drush'], recipeCreds: true },
+  wordpress: { runtime: 'php', via: 'apache', database: 'mysql', tooling: ['wp'], recipeCreds: true },
+  backdrop: { runtime: 'php', via: 'apache', database: 'mysql', tooling: ['drush', 'bee'], recipeCreds: true },
+  joomla: { runtime: 'php', via: 'apache', database: 'mysql', tooling: ['joomla'], recipeCreds: true },
+  laravel: { runtime: 'php', via: 'apache', database: 'mysql', tooling: ['artisan', 'laravel'], recipeCreds: true },
+  symfony: { runtime: 'php', via: 'apache', database: 'mysql', tooling: ['console', 'symfony'], recipeCreds: true },
+  lamp: { runtime: 'php', via: 'apache', database: 'mysql', tooling: [], recipeCreds: true },
+  lemp: { runtime: 'php', via: 'nginx', database: 'mysql', tooling: [], recipeCreds: true },
+  mean: { runtime: 'node', database: 'mongo', tooling: [] },
+  node: { runtime: 'node', tooling: [] },
+  python: { runtime: 'python', tooling: [] },
+  ruby: { runtime: 'ruby', tooling: [] },
+  go: { runtime: 'go', tooling: [] },
+  dotnet: { runtime: 'dotnet', tooling: [] },
+};
+
+/**
+ * Tooling every appserver of a runtime provides
+ */
+const RUNTIME_TOOLING: Record<RecipeRuntime, string[]> = {
+  php: ['composer', 'php'],
+  node: ['node', 'npm', 'yarn'],
+  python: ['python', 'pip'],
+  ruby: ['ruby', 'gem', 'bundle'],
+  go: ['go'],
+  dotnet: ['dotnet'],
+};
+
+/**
+ * Descriptions of recipe tooling, as printed by `lando`
+ */
+const TOOLING_DESCRIPTIONS: Record<string, string> = {
+  artisan: 'Runs artisan commands',
+  bee: 'Runs bee commands',
+  bundle: 'Runs bundle commands',
+  composer: 'Runs composer commands',
+  console: 'Runs console commands',
+  'db-export': 'Exports database from a database service to a file',
+  'db-import': 'Imports a dump file into a database service',
+  dotnet: 'Runs dotnet commands',
+  drush: 'Runs drush commands',
+  gem: 'Runs gem commands',
+  go: 'Runs go commands',
+  joomla: 'Runs joomla commands',
+  laravel: 'Runs laravel commands',
+  mongo: 'Drops into the mongo shell on the database service',
+  mysql: 'Drops into a MySQL shell on a database service',
+  node: 'Runs node commands',
+  npm: 'Runs npm commands',
+  php: 'Runs php commands',
+  pip: 'Runs pip commands',
+  psql: 'Drops into a psql shell on a database service',
+  python: 'Runs python commands',
+  ruby: 'Runs ruby commands',
+  symfony: 'Runs symfony commands',
+  wp: 'Runs wp-cli commands',
+  yarn: 'Runs yarn commands',
+};
+
+/**
+ * Ports databases listen on inside the Docker network
+ */
+const DATABASE_PORTS: Record<string, number> = {
+  mysql: 3306,
+  mariadb: 3306,
+  postgres: 5432,
+  mongo: 27017,
+};
+
+/**
+ * Gets the engine of a database type (e.g., "postgres" for "postgres:15")
+ */
+function getDatabaseEngine(type: string): string {
+  return type.split(':')[0].toLowerCase();
+}
+
+/**
+ * Reads a string (or number, for versions like `php: 8.2`) from recipe config
+ */
+function getConfigString(recipeConfig: Record<string, unknown>, key: string): string | undefined {
+  const value = recipeConfig[key];
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Derives the services and tooling a recipe implies
+ *
+ * @param recipe - The recipe name from the Landofile
+ * @param recipeConfig - The Landofile's `config:` section
+ * @param servicesConfig - The Landofile's `services:` section; a `type`
+ *   set there for a recipe service replaces the recipe's
+ * @returns The defaults, or undefined for unknown recipes
+ */
+export function getRecipeDefaults(
+  recipe: string | undefined,
+  recipeConfig?: unknown,
+  servicesConfig?: unknown
+): LandoRecipeDefaults | undefined {
+  const entry = recipe ? RECIPE_CATALOG[recipe] : undefined;
+  if (!recipe || !entry) {
+    return undefined;
+  }
+  const config = recipeConfig && typeof recipeConfig === 'object' ? recipeConfig as Record<string, unknown> : {};
+
+  const services: LandoRecipeService[] = [];
+  if (entry.runtime === 'php') {
+    const php = getConfigString(config, 'php');
+    const via = getConfigString(config, 'via') ?? entry.via ?? 'apache';
+    services.push({ name: 'appserver', type: php ? `php:${php}` : 'php', port: 80 });
+    // nginx runs in a separate service in front of php-fpm
+    if (via.startsWith('nginx')) {
+      services.push({ name: 'appserver_nginx', type: via, port: 80 });
+    }
+  } else {
+    const version = getConfigString(config, entry.runtime);
+    services.push({ name: 'appserver', type: version ? `${entry.runtime}:${version}` : entry.runtime });
+  }
+
+  const database = getConfigString(config, 'database') ?? entry.database;
+  if (database) {
+    const engine = getDatabaseEngine(database);
+    services.push({
+      name: 'database',
+      type: database,
+      port: DATABASE_PORTS[engine],
+      creds: entry.recipeCreds ? { user: recipe, password: recipe, database: recipe } : undefined,
+    });
+  }
+
+  // Service types set in the Landofile win over the recipe's
+  const servicesOverrides = servicesConfig && typeof servicesConfig === 'object'
+    ? servicesConfig as Record<string, unknown>
+    : {};
+  for (const service of services) {
+    const override = servicesOverrides[service.name];
+    const type = override && typeof override === 'object' ? (override as Record<string, unknown>).type : undefined;
+    if (typeof type === 'string' && type.trim()) {
+      service.type = type.trim();
+      if (service.name === 'database') {
+        service.port = DATABASE_PORTS[getDatabaseEngine(service.type)];
+      }
+    }
+  }
+
+  const tooling: LandoTooling[] = [...RUNTIME_TOOLING[entry.runtime], ...entry.tooling]
+    .map(name => ({ name, service: 'appserver', description: TOOLING_DESCRIPTIONS[name], isCustom: false }));
+  const databaseService = services.find(service => service.name === 'database');
+  if (databaseService) {
+    const engine = getDatabaseEngine(databaseService.type);
+    const shell = engine === 'postgres' ? 'psql' : engine === 'mongo' ? 'mongo' : 'mysql';
+    tooling.push({ name: shell, service: 'database', description: TOOLING_DESCRIPTIONS[shell], isCustom: false });
+    if (engine !== 'mongo') {
+      tooling.push(
+        { name: 'db-import', service: 'database', description: TOOLING_DESCRIPTIONS['db-import'], isCustom: false },
+        { name: 'db-export', service: 'database', description: TOOLING_DESCRIPTIONS['db-export'], isCustom: false }
+      );
+    }
+  }
+
+  return { recipe, services, tooling };
+}
+
+/**
+ * Describes a recipe's services the way `lando info` does, for showing
+ * services, credentials and connection strings while Lando can't be asked
+ *
+ * @param defaults - The recipe defaults
+ * @returns Service details, with services marked as not running
+ */
+export function getRecipeServiceDetails(defaults: LandoRecipeDefaults): LandoServiceDetails[] {
+  return defaults.services.map(service => ({
+    service: service.name,
+    type: service.type,
+    creds: service.creds,
+    internal_connection: service.port !== undefined ? { host: service.name, port: service.port } : undefined,
+    running: false,
+  }));
+}
+
+/**
+ * Combines tooling lists; the first command with a name wins
+ *
+ * @param lists - Tooling lists in order of precedence
+ * @returns The combined tooling
+ */
+export function combineTooling(...lists: LandoTooling[][]): LandoTooling[] {
+  const tooling = new Map<string, LandoTooling>();
+  for (const list of lists) {
+    for (const tool of list) {
+      if (!tooling.has(tool.name)) {
+        tooling.set(tool.name, tool);
+      }
+    }
+  }
+  return Array.from(tooling.values());
+}
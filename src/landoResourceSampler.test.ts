@@ -0,0 +1,182 @@
+import * as assert from "assert";
+import { suite, test, afterEach } from "mocha";
+import {
+  LandoResourceSampler,
+  LandoMemoryPressureEvent,
+  parseByteSize,
+  parseDockerStatsLine,
+  sumResourceUsage,
+  formatBytes,
+  formatResourceUsage,
+} from "./landoResourceSampler";
+import { DockerContainerStats } from "./dockerEngine";
+import { LandoStatusMonitor, LandoContainer } from "./landoStatusMonitor";
+import { LandoApp } from "./landoAppDetector";
+import { createMockApp } from "./test/fixtures";
+
+/**
+ * Creates container stats with the given CPU and memory
+ */
+function createStats(cpuPercent: number, memoryBytes: number, memoryLimitBytes = 8e9): DockerContainerStats {
+  return { cpuPercent, memoryBytes, memoryLimitBytes, networkRxBytes: 1000, networkTxBytes: 500 };
+}
+
+suite("LandoResourceSampler Test Suite", () => {
+  let monitor: LandoStatusMonitor | undefined;
+  let sampler: LandoResourceSampler | undefined;
+
+  afterEach(() => {
+    sampler?.dispose();
+    sampler = undefined;
+    monitor?.dispose();
+    monitor = undefined;
+  });
+
+  /**
+   * Creates a monitor that reports the given containers for the apps
+   */
+  async function createMonitor(apps: LandoApp[], containers: LandoContainer[]): Promise<LandoStatusMonitor> {
+    monitor = new LandoStatusMonitor({ containerFetcher: async () => [...containers] });
+    monitor.setApps(apps);
+    await monitor.refresh();
+    return monitor;
+  }
+
+  suite("Parsing", () => {
+    test("Should parse docker stats sizes in decimal and binary units", () => {
+      assert.strictEqual(parseByteSize("512B"), 512);
+      assert.strictEqual(parseByteSize("1.5kB"), 1500);
+      assert.strictEqual(parseByteSize("100MiB"), 100 * 1024 * 1024);
+      assert.strictEqual(parseByteSize(" 2GB "), 2e9);
+      assert.strictEqual(parseByteSize("--"), 0);
+    });
+
+    test("Should parse a docker stats JSON line", () => {
+      const parsed = parseDockerStatsLine(JSON.stringify({
+        Name: "myapp_database_1",
+        CPUPerc: "12.50%",
+        MemUsage: "256MiB / 7.6GiB",
+        NetIO: "1.2MB / 300kB",
+      }));
+
+      assert.strictEqual(parsed?.name, "myapp_database_1");
+      assert.deepStrictEqual(parsed?.stats, {
+        cpuPercent: 12.5,
+        memoryBytes: 256 * 1024 * 1024,
+        memoryLimitBytes: 7.6 * 1024 ** 3,
+        networkRxBytes: 1.2e6,
+        networkTxBytes: 300e3,
+      });
+    });
+
+    test("Should ignore lines that aren't stats", () => {
+      assert.strictEqual(parseDockerStatsLine("not json"), undefined);
+      assert.strictEqual(parseDockerStatsLine("{}"), undefined);
+    });
+  });
+
+  suite("Formatting", () => {
+    test("Should format byte counts", () => {
+      assert.strictEqual(formatBytes(512), "512 B");
+      assert.strictEqual(formatBytes(1.25e6), "1.3 MB");
+      assert.strictEqual(formatBytes(512e6), "512 MB");
+    });
+
+    test("Should format usage compactly", () => {
+      assert.strictEqual(formatResourceUsage(createStats(12.4, 512e6)), "12% · 512 MB");
+      assert.strictEqual(formatResourceUsage(createStats(0.25, 20e6)), "0.3% · 20 MB");
+    });
+
+    test("Should sum usage and keep the largest memory limit", () => {
+      const total = sumResourceUsage([createStats(10, 100, 4e9), createStats(5, 50, 8e9)]);
+      assert.deepStrictEqual(total, {
+        cpuPercent: 15,
+        memoryBytes: 150,
+        memoryLimitBytes: 8e9,
+        networkRxBytes: 2000,
+        networkTxBytes: 1000,
+      });
+    });
+  });
+
+  suite("Sampling", () => {
+    test("Should sum usage per service and per app for running apps only", async () => {
+      const running = createMockApp("running");
+      const stopped = createMockApp("stopped");
+      await createMonitor([running, stopped], [
+        { service: "appserver", app: "running", running: true, name: "running_appserver_1" },
+        { service: "appserver", app: "running", running: true, name: "running_appserver_2" },
+        { service: "database", app: "running", running: true, name: "running_database_1" },
+        { service: "appserver", app: "stopped", running: false, name: "stopped_appserver_1" },
+      ]);
+      const requested: string[][] = [];
+      sampler = new LandoResourceSampler(monitor!, {
+        statsFetcher: async containers => {
+          requested.push(containers);
+          return new Map([
+            ["running_appserver_1", createStats(10, 100e6)],
+            ["running_appserver_2", createStats(5, 50e6)],
+            ["running_database_1", createStats(2, 300e6)],
+          ]);
+        },
+      });
+
+      await sampler.sample();
+
+      assert.deepStrictEqual(requested, [["running_appserver_1", "running_appserver_2", "running_database_1"]]);
+      assert.strictEqual(sampler.getServiceUsage(running, "appserver")?.memoryBytes, 150e6);
+      assert.strictEqual(sampler.getServiceUsage(running, "database")?.cpuPercent, 2);
+      assert.strictEqual(sampler.getAppUsage(running)?.total.memoryBytes, 450e6);
+      assert.strictEqual(sampler.getAppUsage(stopped), undefined);
+    });
+
+    test("Should report memory pressure once per crossing of the threshold", async () => {
+      const app = createMockApp("heavy");
+      await createMonitor([app], [
+        { service: "database", app: "heavy", running: true, name: "heavy_database_1" },
+      ]);
+      let memoryBytes = 7e9;
+      const events: LandoMemoryPressureEvent[] = [];
+      sampler = new LandoResourceSampler(monitor!, {
+        memoryWarningThreshold: 80,
+        statsFetcher: async () => new Map([["heavy_database_1", createStats(50, memoryBytes)]]),
+      });
+      sampler.onDidDetectMemoryPressure(event => events.push(event));
+
+      await sampler.sample();
+      await sampler.sample();
+      assert.strictEqual(events.length, 1);
+      assert.strictEqual(events[0].usedBytes, 7e9);
+      assert.strictEqual(events[0].availableBytes, 8e9);
+      assert.strictEqual(events[0].apps[0].app, app);
+
+      memoryBytes = 1e9;
+      await sampler.sample();
+      memoryBytes = 7e9;
+      await sampler.sample();
+      assert.strictEqual(events.length, 2);
+    });
+
+    test("Should keep the previous usage when stats can't be read", async () => {
+      const app = createMockApp("myapp");
+      await createMonitor([app], [
+        { service: "appserver", app: "myapp", running: true, name: "myapp_appserver_1" },
+      ]);
+      let fail = false;
+      sampler = new LandoResourceSampler(monitor!, {
+        statsFetcher: async () => {
+          if (fail) {
+            throw new Error("docker not found");
+          }
+          return new Map([["myapp_appserver_1", createStats(10, 100e6)]]);
+        },
+      });
+
+      await sampler.sample();
+      fail = true;
+      await sampler.sample();
+
+      assert.strictEqual(sampler.getAppUsage(app)?.total.memoryBytes, 100e6);
+    });
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * Lando Resource Sampler Module
+ *
+ * This module periodically samples CPU, memory and network usage of the
+ * containers of running Lando apps, so users can see which app is eating
+ * their RAM. Stats come from the Docker Engine API when its socket is
+ * reachable and from `docker stats --no-stream` otherwise. When Lando's
+ * containers use most of the memory available to Docker, listeners are told
+ * so the user can stop the heaviest apps.
+ *
+ * @module landoResourceSampler
+ */
+
+import * as childProcess from 'child_process';
+import * as vscode from 'vscode';
+import { LandoApp } from './landoAppDetector';
+import { DockerContainerStats, DockerEngineClient, isDockerEngineError } from './dockerEngine';
+import { LandoStatusMonitor, isStateRunning } from './landoStatusMonitor';
+
+/**
+ * Resource usage of a service or app (sums of its containers)
+ */
+export type LandoResourceUsage = DockerContainerStats;
+
+/**
+ * Resource usage of one service
+ */
+export interface LandoServiceResourceUsage {
+  /** The service name */
+  service: string;
+  /** The service's usage */
+  usage: LandoResourceUsage;
+}
+
+/**
+ * Resource usage of one app
+ */
+export interface LandoAppResourceUsage {
+  /** The app */
+  app: LandoApp;
+  /** Usage per service, for services with running containers */
+  services: LandoServiceResourceUsage[];
+  /** Usage of all the app's containers */
+  total: LandoResourceUsage;
+  /** When the stats were read */
+  sampledAt: Date;
+}
+
+/**
+ * Event data when Lando's containers use most of Docker's memory
+ */
+export interface LandoMemoryPressureEvent {
+  /** Usage of every running app, heaviest first */
+  apps: LandoAppResourceUsage[];
+  /** Memory used by all Lando containers, in bytes */
+  usedBytes: number;
+  /** Memory available to Docker, in bytes */
+  availableBytes: number;
+}
+
+/**
+ * Reads the stats of containers by name (for dependency injection)
+ */
+export type ContainerStatsFetcher = (containers: string[]) => Promise<Map<string, DockerContainerStats>>;
+
+/**
+ * Options for creating a LandoResourceSampler
+ */
+export interface LandoResourceSamplerOptions {
+  /** Docker Engine client; stats fall back to the docker CLI without it */
+  dockerClient?: DockerEngineClient;
+  /** Custom stats fetcher (replaces the Docker API and CLI) */
+  statsFetcher?: ContainerStatsFetcher;
+  /** Milliseconds between samples */
+  interval?: number;
+  /** Percentage of Docker's memory Lando may use before pressure is reported (0 disables) */
+  memoryWarningThreshold?: number;
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Multipliers for the units `docker stats` prints (decimal for network, binary for memory)
+ */
+const BYTE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4,
+};
+
+/**
+ * An empty usage, used as the starting point for sums
+ */
+const NO_USAGE: LandoResourceUsage = {
+  cpuPercent: 0,
+  memoryBytes: 0,
+  memoryLimitBytes: 0,
+  networkRxBytes: 0,
+  networkTxBytes: 0,
+};
+
+/**
+ * Parses a size printed by `docker stats` (e.g., "95.3MiB", "1.2kB")
+ *
+ * @param size - The size text
+ * @returns The size in bytes, or 0 if it can't be parsed
+ */
+export function parseByteSize(size: string): number {
+  const match = size.trim().match(/^([\d.]+)\s*([a-z]*)$/i);
+  if (!match) {
+    return 0;
+  }
+  const multiplier = BYTE_UNITS[(match[2] || 'b').toLowerCase()];
+  return multiplier !== undefined ? Number(match[1]) * multiplier : 0;
+}
+
+/**
+ * Parses one line of `docker stats --no-stream --format "{{json .}}"`
+ *
+ * @param line - The JSON line
+ * @returns The container name and its stats, or undefined if the line isn't valid
+ */
+export function parseDockerStatsLine(line: string): { name: string; stats: DockerContainerStats } | undefined {
+  let row: Record<string, string>;
+  try {
+    row = JSON.parse(line) as Record<string, string>;
+  } catch {
+    return undefined;
+  }
+  if (!row || typeof row.Name !== 'string') {
+    return undefined;
+  }
+
+  const [memoryUsed = '', memoryLimit = ''] = (row.MemUsage ?? '').split('/');
+  const [networkRx = '', networkTx = ''] = (row.NetIO ?? '').split('/');
+  return {
+    name: row.Name,
+    stats: {
+      cpuPercent: parseFloat(row.CPUPerc ?? '') || 0,
+      memoryBytes: parseByteSize(memoryUsed),
+      memoryLimitBytes: parseByteSize(memoryLimit),
+      networkRxBytes: parseByteSize(networkRx),
+      networkTxBytes: parseByteSize(networkTx),
+    },
+  };
+}
+
+/**
+ * Adds up resource usages
+ *
+ * @param usages - The usages to add
+ * @returns The total; the memory limit is the largest limit, since containers share the host's memory
+ */
+export function sumResourceUsage(usages: LandoResourceUsage[]): LandoResourceUsage {
+  return usages.reduce((total, usage) => ({
+    cpuPercent: total.cpuPercent + usage.cpuPercent,
+    memoryBytes: total.memoryBytes + usage.memoryBytes,
+    memoryLimitBytes: Math.max(total.memoryLimitBytes, usage.memoryLimitBytes),
+    networkRxBytes: total.networkRxBytes + usage.networkRxBytes,
+    networkTxBytes: total.networkTxBytes + usage.networkTxBytes,
+  }), NO_USAGE);
+}
+
+/**
+ * Formats a byte count (e.g., "512 MB", "1.2 GB")
+ *
+ * @param bytes - The byte count
+ * @returns The formatted size
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'kB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1000 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+  const digits = unit === 0 || value >= 10 ? 0 : 1;
+  return `${value.toFixed(digits)} ${units[unit]}`;
+}
+
+/**
+ * Formats CPU and memory compactly for tree descriptions (e.g., "12% · 512 MB")
+ *
+ * @param usage - The usage
+ * @returns The formatted usage
+ */
+export function formatResourceUsage(usage: LandoResourceUsage): string {
+  return `${usage.cpuPercent.toFixed(usage.cpuPercent < 10 ? 1 : 0)}% · ${formatBytes(usage.memoryBytes)}`;
+}
+
+/**
+ * Describes usage in full for tooltips
+ *
+ * @param usage - The usage
+ * @returns Lines such as "CPU: 12.5%", "Memory: 512 MB of 8.6 GB" and "Network: ↓1.2 MB ↑300 kB"
+ */
+export function describeResourceUsage(usage: LandoResourceUsage): string[] {
+  const limit = usage.memoryLimitBytes > 0 ? ` of ${formatBytes(usage.memoryLimitBytes)}` : '';
+  return [
+    `CPU: ${usage.cpuPercent.toFixed(1)}%`,
+    `Memory: ${formatBytes(usage.memoryBytes)}${limit}`,
+    `Network: ↓${formatBytes(usage.networkRxBytes)} ↑${formatBytes(usage.networkTxBytes)}`,
+  ];
+}
+
+/**
+ * Sorts app usages by memory, heaviest first
+ *
+ * @param usages - The app usages
+ * @returns A sorted copy
+ */
+export function sortByMemory(usages: LandoAppResourceUsage[]): LandoAppResourceUsage[] {
+  return [...usages].sort((a, b) => b.total.memoryBytes - a.total.memoryBytes);
+}
+
+/**
+ * Creates a stats fetcher that runs `docker stats --no-stream` once for all containers
+ *
+ * @param dockerCommand - The docker executable
+ * @param timeout - Milliseconds before the command is abandoned
+ * @returns The fetcher
+ */
+export function createDockerCliStatsFetcher(dockerCommand = 'docker', timeout = 15000): ContainerStatsFetcher {
+  return containers => new Promise((resolve, reject) => {
+    // "{{json .}}" is the same as "json" but also works on older Docker versions
+    childProcess.execFile(
+      dockerCommand,
+      ['stats', '--no-stream', '--format', '{{json .}}', ...containers],
+      { timeout, windowsHide: true },
+      (error, stdout) => {
+        if (error) {
+          reject(error);
+          return;
+        }
+        const stats = new Map<string, DockerContainerStats>();
+        for (const line of stdout.split(/\r?\n/)) {
+          const parsed = line.trim() ? parseDockerStatsLine(line) : undefined;
+          if (parsed) {
+            stats.set(parsed.name, parsed.stats);
+          }
+        }
+        resolve(stats);
+      }
+    );
+  });
+}
+
+/**
+ * Creates a stats fetcher that reads each container's stats from the Docker
+ * API, falling back to the docker CLI while the socket is unreachable
+ *
+ * @param dockerClient - The Docker Engine client
+ * @param fallback - Fetcher used when the socket is unreachable
+ * @returns The fetcher
+ */
+export function createDockerApiStatsFetcher(
+  dockerClient: DockerEngineClient,
+  fallback: ContainerStatsFetcher = createDockerCliStatsFetcher()
+): ContainerStatsFetcher {
+  return async containers => {
+    const results = await Promise.allSettled(containers.map(container => dockerClient.getContainerStats(container)));
+    if (results.length > 0 && results.every(result => result.status === 'rejected' && isDockerEngineError(result.reason, 'unreachable'))) {
+      return fallback(containers);
+    }
+
+    // A container may stop between the status check and the stats request
+    const stats = new Map<string, DockerContainerStats>();
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        stats.set(containers[index], result.value);
+      }
+    });
+    return stats;
+  };
+}
+
+/**
+ * Samples resource usage of running Lando apps.
+ *
+ * Features:
+ * - Reads stats for the running containers of running apps only
+ * - Sums usage per service and per app
+ * - Reports memory pressure once each time Lando's usage crosses the threshold
+ *
+ * @example
+ * ```typescript
+ * const sampler = new LandoResourceSampler(statusMonitor, { dockerClient });
+ * sampler.onDidUpdateUsage(() => treeProvider.refresh());
+ * sampler.start();
+ * ```
+ */
+export class LandoResourceSampler implements vscode.Disposable {
+  private readonly fetchStats: ContainerStatsFetcher;
+  private interval: number;
+  private memoryWarningThreshold: number;
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+  private usage: Map<string, LandoAppResourceUsage> = new Map();
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private currentSample: Promise<void> | undefined;
+  private underPressure = false;
+  private disposed = false;
+
+  private readonly _onDidUpdateUsage = new vscode.EventEmitter<LandoAppResourceUsage[]>();
+  private readonly _onDidDetectMemoryPressure = new vscode.EventEmitter<LandoMemoryPressureEvent>();
+
+  /**
+   * Event fired with every app's usage after each sample
+   */
+  public readonly onDidUpdateUsage = this._onDidUpdateUsage.event;
+
+  /**
+   * Event fired when Lando's containers start using more than the threshold of Docker's memory
+   */
+  public readonly onDidDetectMemoryPressure = this._onDidDetectMemoryPressure.event;
+
+  constructor(private readonly statusMonitor: LandoStatusMonitor, options?: LandoResourceSamplerOptions) {
+    this.fetchStats = options?.statsFetcher
+      ?? (options?.dockerClient ? createDockerApiStatsFetcher(options.dockerClient) : createDockerCliStatsFetcher());
+    this.interval = options?.interval ?? 15000;
+    this.memoryWarningThreshold = options?.memoryWarningThreshold ?? 80;
+    this.outputChannel = options?.outputChannel;
+  }
+
+  /**
+   * Starts sampling on the interval
+   */
+  public start(): void {
+    if (this.timer || this.disposed) {
+      return;
+    }
+    const tick = async () => {
+      await this.sample();
+      // stop() clears the timer while a sample is in flight
+      if (!this.disposed && this.timer) {
+        this.timer = setTimeout(tick, this.interval);
+      }
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stops sampling on the interval (usage from the last sample is kept)
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Changes the interval and memory warning threshold
+   *
+   * @param options - The new settings; omitted ones are unchanged
+   */
+  public configure(options: Pick<LandoResourceSamplerOptions, 'interval' | 'memoryWarningThreshold'>): void {
+    this.interval = options.interval ?? this.interval;
+    this.memoryWarningThreshold = options.memoryWarningThreshold ?? this.memoryWarningThreshold;
+  }
+
+  /**
+   * Samples the running apps now
+   *
+   * @returns Promise that resolves once the usage is updated
+   */
+  public sample(): Promise<void> {
+    this.currentSample ??= this.runSample().finally(() => {
+      this.currentSample = undefined;
+    });
+    return this.currentSample;
+  }
+
+  /**
+   * Gets an app's usage from the last sample
+   *
+   * @param app - The app
+   * @returns The usage, or undefined if the app wasn't running
+   */
+  public getAppUsage(app: LandoApp): LandoAppResourceUsage | undefined {
+    return this.usage.get(app.configPath);
+  }
+
+  /**
+   * Gets a service's usage from the last sample
+   *
+   * @param app - The app
+   * @param service - The service name
+   * @returns The usage, or undefined if the service wasn't running
+   */
+  public getServiceUsage(app: LandoApp, service: string): LandoResourceUsage | undefined {
+    return this.usage.get(app.configPath)?.services.find(entry => entry.service === service)?.usage;
+  }
+
+  /**
+   * Gets the usage of every running app, heaviest first
+   */
+  public getAllUsage(): LandoAppResourceUsage[] {
+    return sortByMemory(Array.from(this.usage.values()));
+  }
+
+  /**
+   * Reads stats for the running containers and updates the usage
+   */
+  private async runSample(): Promise<void> {
+    const running = this.statusMonitor.getAllStatuses().filter(status => isStateRunning(status.state));
+    const containers = running.flatMap(status =>
+      status.services.filter(service => service.running).flatMap(service => service.containers)
+    );
+
+    let stats = new Map<string, DockerContainerStats>();
+    if (containers.length > 0) {
+      try {
+        stats = await this.fetchStats(containers);
+      } catch (error) {
+        this.log(`Could not read container stats: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
+    }
+    if (this.disposed) {
+      return;
+    }
+
+    const sampledAt = new Date();
+    this.usage = new Map();
+    for (const status of running) {
+      const services = status.services
+        .map(service => {
+          const serviceStats = service.containers
+            .map(container => stats.get(container))
+            .filter((entry): entry is DockerContainerStats => entry !== undefined);
+          return { service: service.name, usage: sumResourceUsage(serviceStats), sampled: serviceStats.length > 0 };
+        })
+        .filter(entry => entry.sampled)
+        .map(({ service, usage }) => ({ service, usage }));
+      if (services.length > 0) {
+        this.usage.set(status.app.configPath, {
+          app: status.app,
+          services,
+          total: sumResourceUsage(services.map(entry => entry.usage)),
+          sampledAt,
+        });
+      }
+    }
+
+    const apps = this.getAllUsage();
+    this._onDidUpdateUsage.fire(apps);
+    this.checkMemoryPressure(apps);
+  }
+
+  /**
+   * Reports memory pressure when usage crosses the threshold
+   */
+  private checkMemoryPressure(apps: LandoAppResourceUsage[]): void {
+    const total = sumResourceUsage(apps.map(app => app.total));
+    const pressure = this.memoryWarningThreshold > 0 && total.memoryLimitBytes > 0 &&
+      total.memoryBytes / total.memoryLimitBytes * 100 >= this.memoryWarningThreshold;
+
+    if (pressure && !this.underPressure) {
+      this.log(`Lando containers use ${formatBytes(total.memoryBytes)} of ${formatBytes(total.memoryLimitBytes)}`);
+      this._onDidDetectMemoryPressure.fire({ apps, usedBytes: total.memoryBytes, availableBytes: total.memoryLimitBytes });
+    }
+    this.underPressure = pressure;
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[ResourceSampler] ${message}`);
+  }
+
+  /**
+   * Stops sampling
+   */
+  public dispose(): void {
+    this.disposed = true;
+    this.stop();
+    this._onDidUpdateUsage.dispose();
+    this._onDidDetectMemoryPressure.dispose();
+  }
+}
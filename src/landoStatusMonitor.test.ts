@@ -4,35 +4,40 @@ import {
   LandoStatusMonitor, 
   LandoContainer, 
   LandoAppState,
+  DockerEngineState,
   isStateRunning,
+  getContainerState,
+  buildServiceStatuses,
+  getDownServices,
+  getPollingDelay,
+  PollingConditions,
 } from "./landoStatusMonitor";
-import { LandoApp } from "./landoAppDetector";
-import * as vscode from "vscode";
+import { LandoCliError } from "./landoCli";
+import { createMockApp } from "./test/fixtures";
 
 /**
- * Creates a mock LandoApp for testing
+ * Creates a mock container fetcher for testing
+ */
+function createMockFetcher(containers: LandoContainer[]): () => Promise<LandoContainer[]> {
+  return async () => [...containers]; // Return a copy
+}
+
+/**
+ * Creates a mock fetcher that counts its calls
  */
-function createMockApp(name: string, cleanName?: string): LandoApp {
+function createCountingFetcher(containers: LandoContainer[]): { fetcher: () => Promise<LandoContainer[]>; calls: () => number } {
+  let count = 0;
   return {
-    name,
-    cleanName: cleanName || name.toLowerCase().replace(/[-_]/g, ""),
-    configPath: `/workspace/${name}/.lando.yml`,
-    rootPath: `/workspace/${name}`,
-    workspaceFolder: {
-      uri: { fsPath: `/workspace/${name}` } as vscode.Uri,
-      name: name,
-      index: 0,
+    fetcher: async () => {
+      count++;
+      return [...containers];
     },
-    recipe: "drupal10",
-    services: ["appserver", "database"],
+    calls: () => count,
   };
 }
 
-/**
- * Creates a mock container fetcher for testing
- */
-function createMockFetcher(containers: LandoContainer[]): () => Promise<LandoContainer[]> {
-  return async () => [...containers]; // Return a copy
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 /**
@@ -170,7 +175,7 @@ suite("LandoStatusMonitor Test Suite", () => {
       const status = monitor.getStatus(app);
       
       assert.ok(status, "Status should be available");
-      assert.strictEqual(status!.state, LandoAppState.Running, "App should be running if any container is running");
+      assert.strictEqual(status!.state, LandoAppState.Degraded, "App should be degraded if only some containers are running");
       assert.strictEqual(status!.runningContainers, 1, "Should have 1 running container");
       assert.strictEqual(status!.totalContainers, 2, "Should have 2 total containers");
     });
@@ -234,16 +239,263 @@ suite("LandoStatusMonitor Test Suite", () => {
       const status = monitor.getStatus(app);
       
       assert.ok(status, "Status should be available");
-      assert.strictEqual(status!.state, LandoAppState.Running, "App should be running");
+      assert.strictEqual(status!.state, LandoAppState.Degraded, "App should be degraded");
       assert.strictEqual(status!.runningContainers, 1, "Should have 1 running container");
       assert.strictEqual(status!.totalContainers, 2, "Should have 2 total containers");
     });
   });
 
+  suite("Service Status", () => {
+    test("Should read container state from Docker state or status text", () => {
+      assert.strictEqual(getContainerState({ service: "db", app: "myapp", running: false, state: "restarting" }), "restarting");
+      assert.strictEqual(getContainerState({ service: "db", app: "myapp", running: false, status: "Exited (137) 2 minutes ago" }), "exited");
+      assert.strictEqual(getContainerState({ service: "db", app: "myapp", running: true, status: "Up 3 minutes (Paused)" }), "paused");
+      assert.strictEqual(getContainerState({ service: "db", app: "myapp", running: true }), "running");
+    });
+
+    test("Should build per-service statuses with exit codes", () => {
+      const services = buildServiceStatuses([
+        { service: "appserver", app: "myapp", running: true, status: "Up 5 minutes" },
+        { service: "database", app: "myapp", running: false, status: "Exited (137) 1 minute ago" },
+      ]);
+
+      assert.deepStrictEqual(services.map(s => [s.name, s.state, s.running, s.exitCode]), [
+        ["appserver", "running", true, undefined],
+        ["database", "exited", false, 137],
+      ]);
+    });
+
+    test("Should report a service with several containers as restarting if any is", () => {
+      const services = buildServiceStatuses([
+        { service: "worker", app: "myapp", running: true },
+        { service: "worker", app: "myapp", running: false, state: "restarting" },
+      ]);
+
+      assert.strictEqual(services.length, 1);
+      assert.strictEqual(services[0].state, "restarting");
+    });
+
+    test("Should mark a service that stopped since the previous check as died", async () => {
+      const app = createMockApp("myapp");
+      const { fetcher, setContainers } = createMutableFetcher();
+      monitor = new LandoStatusMonitor({ containerFetcher: fetcher });
+
+      setContainers([
+        { service: "appserver", app: "myapp", running: true },
+        { service: "database", app: "myapp", running: true },
+      ]);
+      monitor.setApps([app]);
+      await monitor.refresh();
+
+      setContainers([
+        { service: "appserver", app: "myapp", running: true },
+        { service: "database", app: "myapp", running: false, status: "Exited (1) 1 second ago" },
+      ]);
+      await monitor.refresh();
+
+      const status = monitor.getStatus(app)!;
+      assert.strictEqual(status.state, LandoAppState.Degraded);
+      assert.deepStrictEqual(getDownServices(status).map(s => [s.name, s.died, s.exitCode]), [["database", true, 1]]);
+    });
+
+    test("Should report a crash when a service exits while the app is running", async () => {
+      const app = createMockApp("myapp");
+      const { fetcher, setContainers } = createMutableFetcher();
+      monitor = new LandoStatusMonitor({ containerFetcher: fetcher });
+      const crashed: string[] = [];
+      monitor.onDidDetectServiceCrash(event => crashed.push(`${event.app.name}:${event.service.name}`));
+
+      setContainers([
+        { service: "appserver", app: "myapp", running: true },
+        { service: "database", app: "myapp", running: true },
+      ]);
+      monitor.setApps([app]);
+      await monitor.refresh();
+
+      setContainers([
+        { service: "appserver", app: "myapp", running: true },
+        { service: "database", app: "myapp", running: false, status: "Exited (137) 1 second ago" },
+      ]);
+      await monitor.refresh();
+      await monitor.refresh();
+
+      assert.deepStrictEqual(crashed, ["myapp:database"]);
+    });
+
+    test("Should report a crash when every service of the app exits", async () => {
+      const app = createMockApp("myapp");
+      const { fetcher, setContainers } = createMutableFetcher();
+      monitor = new LandoStatusMonitor({ containerFetcher: fetcher });
+      const crashed: string[] = [];
+      monitor.onDidDetectServiceCrash(event => crashed.push(event.service.name));
+
+      setContainers([{ service: "appserver", app: "myapp", running: true }]);
+      monitor.setApps([app]);
+      await monitor.refresh();
+
+      setContainers([{ service: "appserver", app: "myapp", running: false, status: "Exited (137) 1 second ago" }]);
+      await monitor.refresh();
+
+      assert.strictEqual(monitor.getState(app), LandoAppState.Stopped);
+      assert.deepStrictEqual(crashed, ["appserver"]);
+    });
+
+    test("Should not report services that exited cleanly", async () => {
+      const app = createMockApp("myapp");
+      const { fetcher, setContainers } = createMutableFetcher();
+      monitor = new LandoStatusMonitor({ containerFetcher: fetcher });
+      let crashes = 0;
+      monitor.onDidDetectServiceCrash(() => crashes++);
+
+      setContainers([
+        { service: "appserver", app: "myapp", running: true },
+        { service: "database", app: "myapp", running: true },
+      ]);
+      monitor.setApps([app]);
+      await monitor.refresh();
+
+      // `lando stop` run in a terminal, caught mid-shutdown and then done
+      setContainers([
+        { service: "appserver", app: "myapp", running: true },
+        { service: "database", app: "myapp", running: false, status: "Exited (0) 1 second ago" },
+      ]);
+      await monitor.refresh();
+      setContainers([
+        { service: "appserver", app: "myapp", running: false, status: "Exited (0) 1 second ago" },
+        { service: "database", app: "myapp", running: false, status: "Exited (0) 2 seconds ago" },
+      ]);
+      await monitor.refresh();
+
+      assert.strictEqual(crashes, 0);
+    });
+
+    test("Should not report a crash while a lifecycle operation is running", async () => {
+      const app = createMockApp("myapp");
+      const { fetcher, setContainers } = createMutableFetcher();
+      monitor = new LandoStatusMonitor({ containerFetcher: fetcher });
+      let crashes = 0;
+      monitor.onDidDetectServiceCrash(() => crashes++);
+
+      setContainers([
+        { service: "appserver", app: "myapp", running: true },
+        { service: "database", app: "myapp", running: true },
+      ]);
+      monitor.setApps([app]);
+      await monitor.refresh();
+
+      monitor.markStopping(app);
+      setContainers([
+        { service: "appserver", app: "myapp", running: true },
+        { service: "database", app: "myapp", running: false },
+      ]);
+      await monitor.refresh();
+
+      assert.strictEqual(crashes, 0);
+    });
+
+    test("Should return to Running once every service is back up", async () => {
+      const app = createMockApp("myapp");
+      const { fetcher, setContainers } = createMutableFetcher();
+      monitor = new LandoStatusMonitor({ containerFetcher: fetcher });
+
+      setContainers([
+        { service: "appserver", app: "myapp", running: true },
+        { service: "database", app: "myapp", running: false },
+      ]);
+      monitor.setApps([app]);
+      await monitor.refresh();
+      assert.strictEqual(monitor.getState(app), LandoAppState.Degraded);
+
+      setContainers([
+        { service: "appserver", app: "myapp", running: true },
+        { service: "database", app: "myapp", running: true },
+      ]);
+      await monitor.refresh();
+
+      assert.strictEqual(monitor.getState(app), LandoAppState.Running);
+      assert.strictEqual(monitor.isRunning(app), true);
+    });
+  });
+
+  suite("Adaptive Polling", () => {
+    const intervals = { busy: 2000, normal: 10000, idle: 60000 };
+    const conditions: PollingConditions = { focused: true, appCount: 1, anyBusy: false, anyRunning: true };
+
+    test("Should poll at the normal interval while focused with an app running", () => {
+      assert.strictEqual(getPollingDelay(conditions, intervals), 10000);
+    });
+
+    test("Should poll fast while an app is transitioning, even unfocused", () => {
+      assert.strictEqual(getPollingDelay({ ...conditions, anyBusy: true }, intervals), 2000);
+      assert.strictEqual(getPollingDelay({ ...conditions, anyBusy: true, focused: false, anyRunning: false }, intervals), 2000);
+    });
+
+    test("Should back off while unfocused or with every app stopped", () => {
+      assert.strictEqual(getPollingDelay({ ...conditions, focused: false }, intervals), 60000);
+      assert.strictEqual(getPollingDelay({ ...conditions, anyRunning: false }, intervals), 60000);
+    });
+
+    test("Should suspend while unfocused with every app stopped, or without apps", () => {
+      assert.strictEqual(getPollingDelay({ ...conditions, focused: false, anyRunning: false }, intervals), undefined);
+      assert.strictEqual(getPollingDelay({ ...conditions, appCount: 0 }, intervals), undefined);
+    });
+
+    test("Should suspend instead of idling when the idle interval is 0", () => {
+      assert.strictEqual(getPollingDelay({ ...conditions, focused: false }, { ...intervals, idle: 0 }), undefined);
+    });
+
+    test("Should keep polling a running app while focused", async () => {
+      const { fetcher, calls } = createCountingFetcher([{ service: "appserver", app: "myapp", running: true }]);
+      monitor = new LandoStatusMonitor({
+        containerFetcher: fetcher,
+        pollingIntervals: { busy: 5, normal: 5, idle: 5 },
+        isWindowFocused: () => true,
+      });
+
+      monitor.setApps([createMockApp("myapp")]);
+      await sleep(60);
+
+      assert.ok(calls() >= 3, `Expected repeated polls, got ${calls()}`);
+    });
+
+    test("Should not poll while unfocused with every app stopped", async () => {
+      const { fetcher, calls } = createCountingFetcher([{ service: "appserver", app: "myapp", running: false }]);
+      monitor = new LandoStatusMonitor({
+        containerFetcher: fetcher,
+        pollingIntervals: { busy: 5, normal: 5, idle: 5 },
+        isWindowFocused: () => false,
+      });
+
+      monitor.setApps([createMockApp("myapp")]);
+      await sleep(60);
+
+      assert.strictEqual(calls(), 1, "Only the initial check should run");
+    });
+
+    test("Should switch to the busy interval as soon as an app starts", async () => {
+      const app = createMockApp("myapp");
+      const { fetcher, calls } = createCountingFetcher([{ service: "appserver", app: "myapp", running: false }]);
+      monitor = new LandoStatusMonitor({
+        containerFetcher: fetcher,
+        pollingIntervals: { busy: 5, normal: 10000, idle: 10000 },
+        isWindowFocused: () => true,
+      });
+
+      monitor.setApps([app]);
+      await monitor.refresh();
+      const before = calls();
+
+      monitor.markStarting(app);
+      await sleep(60);
+
+      assert.ok(calls() > before, "Starting should trigger a poll without waiting for the idle interval");
+    });
+  });
+
   suite("Multiple Apps", () => {
     test("Should track status for multiple apps", async () => {
-      const app1 = createMockApp("app-one", "appone");
-      const app2 = createMockApp("app-two", "apptwo");
+      const app1 = createMockApp("app-one");
+      const app2 = createMockApp("app-two");
       const containers: LandoContainer[] = [
         { service: "appserver", app: "appone", running: true },
         { service: "database", app: "appone", running: true },
@@ -288,6 +540,24 @@ suite("LandoStatusMonitor Test Suite", () => {
       assert.strictEqual(statuses.length, 1, "Should only have 1 status after removal");
       assert.strictEqual(statuses[0].app.name, "app-one", "Should have status for app-one");
     });
+
+    test("Should track whether Lando's proxy is running", async () => {
+      const containers: LandoContainer[] = [
+        { service: "appserver", app: "myapp", running: false },
+        { service: "proxy", app: "landoproxyhyperion5000gandalfedition", running: true },
+      ];
+      monitor = new LandoStatusMonitor({
+        containerFetcher: async () => containers
+      });
+
+      monitor.setApps([createMockApp("myapp")]);
+      await monitor.refresh();
+      assert.strictEqual(monitor.isProxyRunning(), true);
+
+      containers[1].running = false;
+      await monitor.refresh();
+      assert.strictEqual(monitor.isProxyRunning(), false);
+    });
   });
 
   suite("Event Emission", () => {
@@ -416,6 +686,77 @@ suite("LandoStatusMonitor Test Suite", () => {
     });
   });
 
+  suite("Docker Engine State", () => {
+    const dockerDown = () => new LandoCliError(
+      "lando list --format=json exited with code 1",
+      "exit",
+      ["list", "--format=json"],
+      1,
+      "",
+      "Cannot connect to the Docker daemon at unix:///var/run/docker.sock. Is the docker daemon running?"
+    );
+
+    test("Should mark the engine unavailable without marking apps stopped", async () => {
+      const app = createMockApp("myapp");
+      let dockerUp = true;
+      monitor = new LandoStatusMonitor({
+        containerFetcher: async () => {
+          if (!dockerUp) {
+            throw dockerDown();
+          }
+          return [{ service: "appserver", app: "myapp", running: true }];
+        }
+      });
+      const engineStates: DockerEngineState[] = [];
+      monitor.onDidChangeEngineState(state => engineStates.push(state));
+
+      monitor.setApps([app]);
+      await monitor.refresh();
+      dockerUp = false;
+      await monitor.refresh();
+
+      assert.strictEqual(monitor.getEngineState(), DockerEngineState.Unavailable);
+      assert.strictEqual(monitor.isEngineAvailable(), false);
+      assert.strictEqual(monitor.getState(app), LandoAppState.Running, "Last known state is kept");
+      assert.deepStrictEqual(engineStates, [DockerEngineState.Available, DockerEngineState.Unavailable]);
+    });
+
+    test("Should recover when the daemon comes back", async () => {
+      const app = createMockApp("myapp");
+      let dockerUp = false;
+      monitor = new LandoStatusMonitor({
+        containerFetcher: async () => {
+          if (!dockerUp) {
+            throw dockerDown();
+          }
+          return [{ service: "appserver", app: "myapp", running: false }];
+        }
+      });
+
+      monitor.setApps([app]);
+      await monitor.refresh();
+      assert.strictEqual(monitor.getEngineState(), DockerEngineState.Unavailable);
+
+      dockerUp = true;
+      await monitor.refresh();
+
+      assert.strictEqual(monitor.getEngineState(), DockerEngineState.Available);
+      assert.strictEqual(monitor.getState(app), LandoAppState.Stopped);
+    });
+
+    test("Should leave the engine state alone for unrelated failures", async () => {
+      monitor = new LandoStatusMonitor({
+        containerFetcher: async () => { throw new Error("Command failed"); }
+      });
+
+      monitor.setApps([createMockApp("myapp")]);
+      await monitor.refresh();
+
+      assert.strictEqual(monitor.getEngineState(), DockerEngineState.Unknown);
+      assert.strictEqual(monitor.isEngineAvailable(), true);
+    });
+  });
+
   suite("Disposal", () => {
     test("Should dispose cleanly", () => {
       monitor = new LandoStatusMonitor({
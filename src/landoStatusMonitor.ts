@@ -2,17 +2,26 @@
  * Lando Status Monitor Module
  * 
  * This module provides real-time monitoring of Lando application status.
- * It periodically polls the Lando CLI to check container running states
- * and emits events when status changes are detected.
+ * When the Docker Engine socket is reachable it reads container state from
+ * the Docker API and reacts to container events as they happen; otherwise it
+ * periodically polls the Lando CLI. It emits events when status changes are
+ * detected.
  * 
  * @module landoStatusMonitor
  */
 
 import * as vscode from 'vscode';
-import * as childProcess from 'child_process';
-import * as util from 'util';
 import { LandoApp } from './landoAppDetector';
+import { LandoCli, isLandoCliError } from './landoCli';
 import {
+  DockerContainerEvent,
+  DockerEngineClient,
+  getEngineStateForError,
+  isDockerEngineError,
+} from './dockerEngine';
+import { SharedStatusCache } from './sharedStatusCache';
+import {
+  DockerEngineState,
   LandoAppState,
   LandoAppStateMachine,
   StateChangeEvent,
@@ -22,6 +31,8 @@ import {
 
 // Re-export state machine types for convenience
 export {
+  DockerEngineState,
+  getEngineStateLabel,
   LandoAppState,
   StateChangeEvent,
   isRunning as isStateRunning,
@@ -31,7 +42,28 @@ export {
   getStateLabel,
 } from './landoAppState';
 
-const execAsync = util.promisify(childProcess.exec);
+/**
+ * State of a service's container(s), as reported by Docker
+ */
+export type LandoServiceState = 'running' | 'restarting' | 'paused' | 'created' | 'exited' | 'dead';
+
+/**
+ * Status of a single service within a Lando app
+ */
+export interface LandoServiceStatus {
+  /** The service name */
+  name: string;
+  /** The service's container state */
+  state: LandoServiceState;
+  /** Whether the service has a running container */
+  running: boolean;
+  /** Exit code of the last exit, when known */
+  exitCode?: number;
+  /** True if the service stopped on its own since the previous check */
+  died?: boolean;
+  /** Names (or IDs) of the service's containers, when known */
+  containers: string[];
+}
 
 /**
  * Represents the running status of a Lando application
@@ -45,6 +77,8 @@ export interface LandoAppStatus {
   runningContainers: number;
   /** Total number of containers */
   totalContainers: number;
+  /** Status of each service, in the order Lando reports them */
+  services: LandoServiceStatus[];
   /** Last time the status was checked */
   lastChecked: Date;
   /** Error message when state is Error */
@@ -63,18 +97,83 @@ export interface LandoStatusChangedEvent {
   previousState: LandoAppState;
 }
 
+/**
+ * Event data when a service exits while its app should be running
+ */
+export interface LandoServiceCrashEvent {
+  /** The app the service belongs to */
+  app: LandoApp;
+  /** The service that exited */
+  service: LandoServiceStatus;
+  /** The app's status after the check */
+  status: LandoAppStatus;
+}
+
 /**
  * Configuration options for the status monitor
  */
 interface StatusMonitorConfig {
   /** Whether status monitoring is enabled */
   enabled: boolean;
-  /** Polling interval in milliseconds */
-  pollingInterval: number;
+  /** Polling intervals in milliseconds */
+  pollingIntervals: PollingIntervals;
   /** Timeout for lando list command in milliseconds */
   commandTimeout: number;
 }
 
+/**
+ * Polling intervals in milliseconds
+ */
+export interface PollingIntervals {
+  /** While any app is starting, stopping, rebuilding or being destroyed */
+  busy: number;
+  /** While the window is focused and an app is running */
+  normal: number;
+  /** While the window is unfocused or every app is stopped (0 suspends polling) */
+  idle: number;
+}
+
+/**
+ * What the polling interval depends on
+ */
+export interface PollingConditions {
+  /** Whether the VS Code window is focused */
+  focused: boolean;
+  /** Number of detected apps */
+  appCount: number;
+  /** Whether any app is in a busy (transitional) state */
+  anyBusy: boolean;
+  /** Whether any app is running */
+  anyRunning: boolean;
+}
+
+/**
+ * Gets the delay until the next poll:
+ * - busy interval while an app is transitioning, regardless of focus
+ * - normal interval while focused with an app running
+ * - suspended while unfocused with every app stopped (or no apps at all)
+ * - idle interval otherwise
+ *
+ * @param conditions - The current polling conditions
+ * @param intervals - The configured intervals
+ * @returns The delay in milliseconds, or undefined if polling should be suspended
+ */
+export function getPollingDelay(conditions: PollingConditions, intervals: PollingIntervals): number | undefined {
+  if (conditions.appCount === 0) {
+    return undefined;
+  }
+  if (conditions.anyBusy) {
+    return intervals.busy;
+  }
+  if (conditions.focused && conditions.anyRunning) {
+    return intervals.normal;
+  }
+  if (!conditions.focused && !conditions.anyRunning) {
+    return undefined;
+  }
+  return intervals.idle > 0 ? intervals.idle : undefined;
+}
+
 /**
  * Container information returned by lando list
  */
@@ -82,6 +181,115 @@ export interface LandoContainer {
   service: string;
   app: string;
   running: boolean;
+  /** Docker container state (e.g., "running", "exited", "restarting") when known */
+  state?: string;
+  /** Human-readable Docker status (e.g., "Exited (137) 2 minutes ago") when known */
+  status?: string;
+  /** Container name (or Docker ID) when known */
+  name?: string;
+}
+
+/**
+ * App name of the containers running Lando's shared proxy
+ */
+const LANDO_PROXY_APP = 'landoproxyhyperion5000gandalfedition';
+
+/**
+ * Order of precedence when a service has several containers: the first
+ * matching state describes the service
+ */
+const SERVICE_STATE_PRECEDENCE: readonly LandoServiceState[] = ['restarting', 'running', 'paused', 'dead', 'exited', 'created'];
+
+/**
+ * Gets the state of a container from Docker's state or status text
+ *
+ * @param container - The container
+ * @returns The container state
+ */
+export function getContainerState(container: LandoContainer): LandoServiceState {
+  const state = container.state?.toLowerCase();
+  if (state && (SERVICE_STATE_PRECEDENCE as readonly string[]).includes(state)) {
+    return state as LandoServiceState;
+  }
+
+  const status = container.status ?? '';
+  if (/restarting/i.test(status)) {
+    return 'restarting';
+  }
+  if (/\(paused\)/i.test(status)) {
+    return 'paused';
+  }
+  if (/^up\b/i.test(status)) {
+    return 'running';
+  }
+  if (/^created/i.test(status)) {
+    return 'created';
+  }
+  if (/^dead/i.test(status)) {
+    return 'dead';
+  }
+  return container.running ? 'running' : 'exited';
+}
+
+/**
+ * Groups an app's containers into per-service statuses
+ *
+ * @param containers - The app's containers
+ * @param previous - The services from the previous check, used to detect services that died
+ * @returns The service statuses, in the order the containers were reported
+ */
+export function buildServiceStatuses(
+  containers: LandoContainer[],
+  previous: LandoServiceStatus[] = []
+): LandoServiceStatus[] {
+  const byService = new Map<string, LandoContainer[]>();
+  for (const container of containers) {
+    const list = byService.get(container.service) ?? [];
+    list.push(container);
+    byService.set(container.service, list);
+  }
+
+  return Array.from(byService, ([name, serviceContainers]) => {
+    const states = serviceContainers.map(getContainerState);
+    const state = SERVICE_STATE_PRECEDENCE.find(s => states.includes(s)) ?? 'exited';
+    const running = state === 'running' || state === 'paused';
+    const exitMatch = serviceContainers
+      .map(container => /exited \((\d+)\)/i.exec(container.status ?? ''))
+      .find(match => match !== null);
+    const wasRunning = previous.find(service => service.name === name)?.running ?? false;
+
+    return {
+      name,
+      state,
+      running,
+      exitCode: exitMatch ? Number(exitMatch[1]) : undefined,
+      died: wasRunning && !running,
+      containers: serviceContainers
+        .map(container => container.name)
+        .filter((containerName): containerName is string => !!containerName),
+    };
+  });
+}
+
+/**
+ * Gets the services of an app that are not running while others are
+ *
+ * @param status - The app status
+ * @returns The services that are down, or an empty array unless the app is degraded
+ */
+export function getDownServices(status: LandoAppStatus): LandoServiceStatus[] {
+  return status.state === LandoAppState.Degraded ? status.services.filter(service => !service.running) : [];
+}
+
+/**
+ * Describes a service that isn't running (e.g., "database exited (137)")
+ *
+ * @param service - The service status
+ * @returns The description
+ */
+export function describeServiceState(service: LandoServiceStatus): string {
+  const exitCode = service.exitCode !== undefined && service.state === 'exited' ? ` (${service.exitCode})` : '';
+  return `${service.name} ${service.state}${exitCode}`;
 }
 
 /**
@@ -95,21 +303,36 @@ export type ContainerFetcher = () => Promise<LandoContainer[]>;
 export interface LandoStatusMonitorOptions {
   /** Custom container fetcher function (for testing) */
   containerFetcher?: ContainerFetcher;
+  /** Lando CLI service used by the default container fetcher */
+  landoCli?: LandoCli;
+  /** Docker Engine client for socket-based status and events (falls back to polling without it) */
+  dockerClient?: DockerEngineClient;
+  /** Delay in milliseconds for batching bursts of Docker events into one status check */
+  eventDebounce?: number;
+  /** Cache shared with other windows so only one of them polls `lando list` */
+  sharedCache?: SharedStatusCache;
+  /** Polling intervals overriding the settings (for testing) */
+  pollingIntervals?: Partial<PollingIntervals>;
+  /** Reports whether the window is focused (defaults to `vscode.window.state.focused`) */
+  isWindowFocused?: () => boolean;
 }
 
 /**
  * Monitors the running status of Lando applications.
  * 
  * Features:
- * - Periodically polls `lando list` to check container status
+ * - Reads container status from the Docker Engine API and subscribes to its
+ *   events when the socket is reachable
+ * - Falls back to periodically polling `lando list` (or the injected fetcher)
  * - Emits events when app status changes (started/stopped)
- * - Configurable polling interval
+ * - Adaptive polling interval: fast during transitions, slower or suspended
+ *   while the window is unfocused or every app is stopped
  * - Efficient batch checking of all detected apps
  * - State machine for tracking transitional states (starting, stopping, etc.)
  * 
  * @example
  * ```typescript
- * const monitor = new LandoStatusMonitor();
+ * const monitor = new LandoStatusMonitor({ landoCli });
  * monitor.onDidChangeStatus(event => {
  *   console.log(`${event.app.name} is now ${event.status.state}`);
  * });
@@ -120,12 +343,28 @@ export interface LandoStatusMonitorOptions {
 export class LandoStatusMonitor implements vscode.Disposable {
   private apps: LandoApp[] = [];
   private statusMap: Map<string, LandoAppStatus> = new Map();
-  private pollingTimer: ReturnType<typeof setInterval> | undefined;
+  private pollingTimer: ReturnType<typeof setTimeout> | undefined;
+  private polling = false;
+  private pollingSuspended = false;
+  private readonly pollingOverrides: Partial<PollingIntervals> | undefined;
+  private readonly isWindowFocused: () => boolean;
+  private sharedCache: SharedStatusCache | undefined;
+  private freshCheckRequested = false;
   private outputChannel: vscode.OutputChannel | undefined;
   private config: StatusMonitorConfig;
-  private isPolling = false;
+  private currentCheck: Promise<void> | undefined;
+  private queuedCheck: Promise<void> | undefined;
   private disposables: vscode.Disposable[] = [];
   private containerFetcher: ContainerFetcher;
+  private readonly landoCli: LandoCli;
+  private dockerClient: DockerEngineClient | undefined;
+  private dockerReachable: boolean | undefined;
+  private eventStream: vscode.Disposable | undefined;
+  private eventsConnected = false;
+  private eventTimer: ReturnType<typeof setTimeout> | undefined;
+  private readonly eventDebounce: number;
+  private engineState: DockerEngineState = DockerEngineState.Unknown;
+  private proxyRunning = false;
   private readonly stateMachine: LandoAppStateMachine;
 
   private readonly _onDidChangeStatus = new vscode.EventEmitter<LandoStatusChangedEvent>();
@@ -142,9 +381,30 @@ export class LandoStatusMonitor implements vscode.Disposable {
    */
   public readonly onDidUpdateStatuses = this._onDidUpdateStatuses.event;
 
+  private readonly _onDidChangeEngineState = new vscode.EventEmitter<DockerEngineState>();
+  
+  /**
+   * Event fired when the Docker engine becomes available, unavailable or starting
+   */
+  public readonly onDidChangeEngineState = this._onDidChangeEngineState.event;
+
+  private readonly _onDidDetectServiceCrash = new vscode.EventEmitter<LandoServiceCrashEvent>();
+
+  /**
+   * Event fired when a running service exits without a lifecycle operation
+   * (start, stop, rebuild, ...) in progress for its app
+   */
+  public readonly onDidDetectServiceCrash = this._onDidDetectServiceCrash.event;
+
   constructor(options?: LandoStatusMonitorOptions) {
+    this.pollingOverrides = options?.pollingIntervals;
     this.config = this.loadConfig();
+    this.landoCli = options?.landoCli ?? new LandoCli();
     this.containerFetcher = options?.containerFetcher ?? this.defaultContainerFetcher.bind(this);
+    this.dockerClient = options?.dockerClient;
+    this.eventDebounce = options?.eventDebounce ?? 250;
+    this.isWindowFocused = options?.isWindowFocused ?? (() => vscode.window.state.focused);
+    this.sharedCache = options?.sharedCache;
     this.stateMachine = new LandoAppStateMachine();
   }
 
@@ -153,9 +413,17 @@ export class LandoStatusMonitor implements vscode.Disposable {
    */
   private loadConfig(): StatusMonitorConfig {
     const config = vscode.workspace.getConfiguration('lando');
+    const normal = config.get('statusMonitoring.interval', 10) * 1000; // Convert to ms
+    const idle = config.get('statusMonitoring.idleInterval', 60) * 1000;
     return {
       enabled: config.get('statusMonitoring.enabled', true),
-      pollingInterval: config.get('statusMonitoring.interval', 10) * 1000, // Convert to ms
+      pollingIntervals: {
+        busy: Math.min(config.get('statusMonitoring.busyInterval', 2) * 1000, normal),
+        normal,
+        // Idle polling is never faster than normal polling
+        idle: idle > 0 ? Math.max(idle, normal) : 0,
+        ...this.pollingOverrides,
+      },
       commandTimeout: config.get('statusMonitoring.timeout', 10) * 1000
     };
   }
@@ -181,23 +449,47 @@ export class LandoStatusMonitor implements vscode.Disposable {
           this.config = this.loadConfig();
           
           if (!wasEnabled && this.config.enabled) {
-            this.startPolling();
+            this.startMonitoring();
           } else if (wasEnabled && !this.config.enabled) {
-            this.stopPolling();
+            this.stopMonitoring();
           } else if (this.config.enabled) {
-            // Restart polling with new interval
-            this.stopPolling();
-            this.startPolling();
+            // Reschedule with the new intervals
+            this.scheduleNextPoll();
           }
         }
       })
     );
 
+    // Poll less while the window is in the background, and catch up on focus
+    this.disposables.push(
+      vscode.window.onDidChangeWindowState(state => {
+        if (!this.polling) {
+          return;
+        }
+        if (state.focused && this.pollingSuspended) {
+          this.log('Window focused; resuming status polling');
+          this.checkAllStatuses();
+        } else {
+          this.scheduleNextPoll();
+        }
+      })
+    );
+
+    // Resume polling when capabilities are re-detected (e.g., executable changed)
+    this.disposables.push(
+      this.landoCli.onDidChangeCapabilities(() => {
+        if (this.config.enabled && this.apps.length > 0) {
+          this.checkAllStatuses();
+          this.startMonitoring();
+        }
+      })
+    );
+
     context.subscriptions.push(this);
 
     if (this.config.enabled && this.apps.length > 0) {
       await this.checkAllStatuses();
-      this.startPolling();
+      this.startMonitoring();
     }
 
     this.log('Status monitor activated');
@@ -228,13 +520,13 @@ export class LandoStatusMonitor implements vscode.Disposable {
     
     this.apps = apps;
 
-    // Start or stop polling based on whether we have apps
+    // Start or stop monitoring based on whether we have apps
     if (this.config.enabled) {
-      if (apps.length > 0 && !this.pollingTimer) {
+      if (apps.length > 0 && !this.polling && !this.eventStream) {
         this.checkAllStatuses();
-        this.startPolling();
+        this.startMonitoring();
       } else if (apps.length === 0) {
-        this.stopPolling();
+        this.stopMonitoring();
       }
     }
   }
@@ -291,6 +583,48 @@ export class LandoStatusMonitor implements vscode.Disposable {
     return status?.state ?? LandoAppState.Unknown;
   }
 
+  /**
+   * Gets the state of the Docker engine all apps run on
+   * 
+   * @returns The engine state
+   */
+  public getEngineState(): DockerEngineState {
+    return this.engineState;
+  }
+
+  /**
+   * Checks whether lifecycle commands can reach Docker. An engine that hasn't
+   * been checked yet counts as available.
+   * 
+   * @returns False if Docker is known to be down or still starting
+   */
+  public isEngineAvailable(): boolean {
+    return this.engineState === DockerEngineState.Available || this.engineState === DockerEngineState.Unknown;
+  }
+
+  /**
+   * Checks whether Lando's shared proxy was running at the last status check
+   * (it holds the proxy ports, e.g., 80 and 443, for every app)
+   * 
+   * @returns True if a proxy container was running
+   */
+  public isProxyRunning(): boolean {
+    return this.proxyRunning;
+  }
+
+  /**
+   * Updates the engine state and notifies listeners on change
+   */
+  private setEngineState(state: DockerEngineState): void {
+    if (state === this.engineState) {
+      return;
+    }
+    const previous = this.engineState;
+    this.engineState = state;
+    this.log(`Docker engine state changed: ${previous} -> ${state}`);
+    this._onDidChangeEngineState.fire(state);
+  }
+
   /**
    * Checks if a state transition is valid for an app
    * 
@@ -373,6 +707,21 @@ export class LandoStatusMonitor implements vscode.Disposable {
     return success;
   }
 
+  /**
+   * Mark an app's current operation as cancelled, restoring its previous state
+   * 
+   * @param app - The app whose operation was cancelled
+   * @returns True if a busy operation was cancelled
+   */
+  public markCancelled(app: LandoApp): boolean {
+    const success = this.stateMachine.markCancelled(app.cleanName);
+    if (success) {
+      this.log(`Operation cancelled for ${app.name}`);
+      this.updateStatusFromStateMachine(app);
+    }
+    return success;
+  }
+
   /**
    * Updates the status map from the state machine's current state
    */
@@ -386,6 +735,7 @@ export class LandoStatusMonitor implements vscode.Disposable {
       state: stateInfo.state,
       runningContainers: existingStatus?.runningContainers ?? 0,
       totalContainers: existingStatus?.totalContainers ?? 0,
+      services: existingStatus?.services ?? [],
       lastChecked: new Date(),
       errorMessage: stateInfo.errorMessage,
     };
@@ -401,55 +751,317 @@ export class LandoStatusMonitor implements vscode.Disposable {
       });
     }
     this._onDidUpdateStatuses.fire(this.getAllStatuses());
+
+    // Poll faster while the operation runs, and back off once it's done
+    this.scheduleNextPoll();
+  }
+
+  /**
+   * Replaces the Docker Engine client (e.g., after the socket setting changed).
+   * Pass undefined to rely on polling the Lando CLI only.
+   * 
+   * @param dockerClient - The new client, or undefined
+   */
+  public setDockerClient(dockerClient: DockerEngineClient | undefined): void {
+    this.disconnectEvents();
+    this.dockerClient = dockerClient;
+    this.dockerReachable = undefined;
+
+    if (this.config.enabled && this.apps.length > 0) {
+      this.checkAllStatuses();
+      this.startMonitoring();
+    }
+  }
+
+  /**
+   * Checks whether status updates are currently driven by Docker events
+   * 
+   * @returns True if the Docker events stream is connected
+   */
+  public isEventDriven(): boolean {
+    return this.eventsConnected;
+  }
+
+  /**
+   * Restarts a single service's containers through the Docker Engine API
+   *
+   * @param app - The app the service belongs to
+   * @param serviceName - The service to restart
+   * @returns True if the containers were restarted; false if Docker isn't
+   *   reachable over its socket or the containers aren't known
+   * @throws DockerEngineError if Docker rejects the restart
+   */
+  public async restartService(app: LandoApp, serviceName: string): Promise<boolean> {
+    const service = this.statusMap.get(app.configPath)?.services.find(s => s.name === serviceName);
+    if (!this.dockerClient || this.dockerReachable === false || !service || service.containers.length === 0) {
+      return false;
+    }
+
+    this.log(`Restarting ${serviceName} for ${app.name}`);
+    for (const container of service.containers) {
+      await this.dockerClient.restartContainer(container);
+    }
+    await this.checkAllStatuses();
+    return true;
+  }
+
+  /**
+   * Replaces the cache shared with other windows. Pass undefined to always
+   * poll `lando list` from this window.
+   *
+   * @param sharedCache - The new cache, or undefined
+   */
+  public setSharedCache(sharedCache: SharedStatusCache | undefined): void {
+    this.sharedCache = sharedCache;
   }
 
   /**
-   * Forces an immediate status check for all apps
+   * Forces an immediate status check for all apps. The check never uses
+   * another window's snapshot, so it reflects lifecycle commands that just ran.
    * 
    * @returns Promise that resolves when check is complete
    */
   public async refresh(): Promise<void> {
+    this.freshCheckRequested = true;
     await this.checkAllStatuses();
   }
 
   /**
-   * Starts the polling timer
+   * Starts monitoring: connects to Docker events when possible and polls
+   * until the event stream is up
+   */
+  private startMonitoring(): void {
+    this.connectEvents();
+    this.startPolling();
+  }
+
+  /**
+   * Stops polling and disconnects from Docker events
+   */
+  private stopMonitoring(): void {
+    this.stopPolling();
+    this.disconnectEvents();
+  }
+
+  /**
+   * Starts polling (not needed while Docker events drive updates)
    */
   private startPolling(): void {
-    if (this.pollingTimer) {
+    if (this.polling || this.eventsConnected) {
       return;
     }
 
-    this.log(`Starting status polling (interval: ${this.config.pollingInterval}ms)`);
-    this.pollingTimer = setInterval(() => {
-      this.checkAllStatuses();
-    }, this.config.pollingInterval);
+    this.log('Starting status polling');
+    this.polling = true;
+    this.scheduleNextPoll();
   }
 
   /**
-   * Stops the polling timer
+   * Stops polling
    */
   private stopPolling(): void {
-    if (this.pollingTimer) {
+    if (this.polling) {
       this.log('Stopping status polling');
-      clearInterval(this.pollingTimer);
+      this.polling = false;
+      this.pollingSuspended = false;
+    }
+    if (this.pollingTimer) {
+      clearTimeout(this.pollingTimer);
       this.pollingTimer = undefined;
     }
   }
 
   /**
-   * Checks the status of all monitored apps
+   * Schedules the next poll for the current conditions, replacing any
+   * scheduled poll. Called after each status check and whenever the
+   * conditions change.
    */
-  private async checkAllStatuses(): Promise<void> {
-    if (this.isPolling || this.apps.length === 0) {
+  private scheduleNextPoll(): void {
+    if (this.pollingTimer) {
+      clearTimeout(this.pollingTimer);
+      this.pollingTimer = undefined;
+    }
+    if (!this.polling) {
       return;
     }
 
-    this.isPolling = true;
-    
+    const delay = getPollingDelay(this.getPollingConditions(), this.config.pollingIntervals);
+    if (delay === undefined) {
+      if (!this.pollingSuspended) {
+        this.log('Status polling suspended until the window is focused or an app changes state');
+      }
+      this.pollingSuspended = true;
+      return;
+    }
+
+    this.pollingSuspended = false;
+    this.pollingTimer = setTimeout(() => {
+      this.pollingTimer = undefined;
+      // Retry the event stream so polling only lasts while Docker is unreachable
+      this.connectEvents();
+      this.checkAllStatuses();
+    }, delay);
+  }
+
+  /**
+   * Gets the conditions that determine the polling interval
+   */
+  private getPollingConditions(): PollingConditions {
+    const states = this.apps.map(app => this.stateMachine.getState(app.cleanName).state);
+    return {
+      focused: this.isWindowFocused(),
+      appCount: this.apps.length,
+      anyBusy: states.some(isStateBusy),
+      anyRunning: states.some(isStateRunning),
+    };
+  }
+
+  /**
+   * Subscribes to Docker container events if a client is configured
+   */
+  private connectEvents(): void {
+    if (!this.dockerClient || this.eventStream || !this.config.enabled || this.apps.length === 0) {
+      return;
+    }
+
+    this.eventStream = this.dockerClient.watchEvents({
+      onOpen: () => {
+        this.eventsConnected = true;
+        this.log('Connected to Docker events; status updates are now event-driven');
+        this.stopPolling();
+        // Catch up on anything that changed while we weren't listening
+        this.checkAllStatuses();
+      },
+      onEvent: event => this.handleDockerEvent(event),
+      onClose: error => {
+        const wasConnected = this.eventsConnected;
+        this.eventsConnected = false;
+        this.eventStream = undefined;
+        if (wasConnected) {
+          this.log(`Docker events stream closed${error ? `: ${error.message}` : ''}; falling back to polling`);
+          // The daemon may have stopped; find out now rather than on the next poll
+          this.checkAllStatuses();
+        }
+        if (this.config.enabled && this.apps.length > 0) {
+          this.startPolling();
+        }
+      },
+    });
+  }
+
+  /**
+   * Closes the Docker events stream
+   */
+  private disconnectEvents(): void {
+    if (this.eventTimer) {
+      clearTimeout(this.eventTimer);
+      this.eventTimer = undefined;
+    }
+    this.eventStream?.dispose();
+    this.eventStream = undefined;
+    this.eventsConnected = false;
+  }
+
+  /**
+   * Handles a Docker container event by re-checking statuses. Compose emits
+   * bursts of events (one per container), so checks are batched briefly.
+   */
+  private handleDockerEvent(event: DockerContainerEvent): void {
+    const normalizedApp = event.app.toLowerCase().replace(/[-_]/g, '');
+    if (!this.apps.some(app => app.cleanName === normalizedApp)) {
+      return;
+    }
+
+    this.log(`Docker event: ${event.action} ${event.app}/${event.service}`);
+    if (this.eventTimer) {
+      return;
+    }
+    this.eventTimer = setTimeout(() => {
+      this.eventTimer = undefined;
+      this.checkAllStatuses();
+    }, this.eventDebounce);
+  }
+
+  /**
+   * Gets all Lando containers, from the Docker API when reachable and from
+   * the container fetcher otherwise, and updates the engine state from the
+   * outcome
+   */
+  private async fetchContainers(): Promise<LandoContainer[]> {
+    let dockerError: unknown;
+    if (this.dockerClient) {
+      try {
+        const containers = await this.dockerClient.listLandoContainers();
+        if (this.dockerReachable !== true) {
+          this.log(`Reading container status from Docker (${this.dockerClient.getSocketPath()})`);
+        }
+        this.dockerReachable = true;
+        this.setEngineState(DockerEngineState.Available);
+        return containers;
+      } catch (error) {
+        if (this.dockerReachable !== false) {
+          this.log(`${isDockerEngineError(error) ? error.message : error}; falling back to lando list`);
+        }
+        this.dockerReachable = false;
+        dockerError = error;
+      }
+    }
+
+    const fresh = this.freshCheckRequested;
+    this.freshCheckRequested = false;
+    try {
+      const containers = this.sharedCache
+        ? await this.sharedCache.fetch(
+          () => this.containerFetcher(),
+          getPollingDelay(this.getPollingConditions(), this.config.pollingIntervals) ?? this.config.pollingIntervals.normal,
+          fresh
+        )
+        : await this.containerFetcher();
+      this.setEngineState(DockerEngineState.Available);
+      return containers;
+    } catch (error) {
+      const cliState = getEngineStateForError(error);
+      if (cliState !== undefined) {
+        // Docker's own answer is more precise (e.g., socket up but engine still starting)
+        const dockerState = dockerError !== undefined ? getEngineStateForError(dockerError) : undefined;
+        this.setEngineState(dockerState === DockerEngineState.Starting ? dockerState : cliState);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Checks the status of all monitored apps. If a check is already running,
+   * one more check runs after it so changes seen meanwhile aren't lost.
+   * 
+   * @returns Promise that resolves when the statuses are up to date
+   */
+  private checkAllStatuses(): Promise<void> {
+    if (this.apps.length === 0) {
+      return Promise.resolve();
+    }
+    if (this.currentCheck) {
+      this.queuedCheck ??= this.currentCheck.then(() => {
+        this.queuedCheck = undefined;
+        return this.checkAllStatuses();
+      });
+      return this.queuedCheck;
+    }
+
+    this.currentCheck = this.runStatusCheck().finally(() => {
+      this.currentCheck = undefined;
+    });
+    return this.currentCheck;
+  }
+
+  /**
+   * Fetches containers once and updates every monitored app's status
+   */
+  private async runStatusCheck(): Promise<void> {
     try {
       // Get all containers in a single call for efficiency
-      const containers = await this.containerFetcher();
+      const containers = await this.fetchContainers();
+      this.proxyRunning = containers.some(c => c.running && c.app === LANDO_PROXY_APP);
       
       const updatedStatuses: LandoAppStatus[] = [];
 
@@ -467,10 +1079,12 @@ export class LandoStatusMonitor implements vscode.Disposable {
         const runningContainers = appContainers.filter(c => c.running).length;
         const totalContainers = appContainers.length;
         const isRunning = runningContainers > 0;
+        const services = buildServiceStatuses(appContainers, this.statusMap.get(app.configPath)?.services);
+        const isDegraded = isRunning && services.some(service => !service.running);
 
         // Update state machine with poll results
         // This handles transitional states (Starting -> Running, Stopping -> Stopped, etc.)
-        this.stateMachine.updateFromPoll(app.cleanName, isRunning);
+        this.stateMachine.updateFromPoll(app.cleanName, isRunning, isDegraded);
         const currentStateInfo = this.stateMachine.getState(app.cleanName);
 
         const newStatus: LandoAppStatus = {
@@ -478,6 +1092,7 @@ export class LandoStatusMonitor implements vscode.Disposable {
           state: currentStateInfo.state,
           runningContainers,
           totalContainers,
+          services,
           lastChecked: new Date(),
           errorMessage: currentStateInfo.errorMessage,
         };
@@ -494,13 +1109,37 @@ export class LandoStatusMonitor implements vscode.Disposable {
             previousState,
           });
         }
+
+        // A service that stopped while the app was up and no lifecycle
+        // operation was running (those mark the app busy) has crashed, even
+        // if it took the whole app down. Clean exits are left out: they come
+        // from `lando stop` run outside VS Code, caught mid-shutdown.
+        const wasUp = previousState === LandoAppState.Running || previousState === LandoAppState.Degraded;
+        const isDown = currentStateInfo.state === LandoAppState.Degraded || currentStateInfo.state === LandoAppState.Stopped;
+        if (wasUp && isDown) {
+          for (const service of services.filter(s => s.died && s.exitCode !== 0)) {
+            this.log(`Service ${service.name} of ${app.name} exited unexpectedly (${service.state})`);
+            this._onDidDetectServiceCrash.fire({ app, service, status: newStatus });
+          }
+        }
       }
 
       this._onDidUpdateStatuses.fire(updatedStatuses);
     } catch (error) {
-      this.log(`Error checking statuses: ${error}`);
+      if (isLandoCliError(error, 'unsupported')) {
+        // Polling cannot succeed until Lando is upgraded or reconfigured
+        this.log(`Status monitoring paused: ${error.message}`);
+        this.stopPolling();
+      } else if (!this.isEngineAvailable()) {
+        // App states are left as they were: an unreachable daemon says nothing
+        // about whether the apps are stopped. Polling continues so we recover
+        // as soon as Docker is back.
+      } else {
+        this.log(`Error checking statuses: ${error}`);
+      }
     } finally {
-      this.isPolling = false;
+      // App states may have changed how often we should poll
+      this.scheduleNextPoll();
     }
   }
 
@@ -510,18 +1149,12 @@ export class LandoStatusMonitor implements vscode.Disposable {
    * @returns Promise resolving to array of container info
    */
   private async defaultContainerFetcher(): Promise<LandoContainer[]> {
-    try {
-      const { stdout } = await execAsync('lando list --format=json', {
-        encoding: 'utf8',
-        timeout: this.config.commandTimeout
-      });
-
-      const containers = JSON.parse(stdout) as LandoContainer[];
-      return containers;
-    } catch (error) {
-      this.log(`Error getting Lando containers: ${error}`);
-      return [];
-    }
+    const args = ['list', '--format=json'];
+    this.landoCli.requireFeature('listJson', args);
+    // Errors propagate so a failed call isn't mistaken for "no containers"
+    return this.landoCli.runJson<LandoContainer[]>(args, {
+      timeout: this.config.commandTimeout
+    });
   }
 
   /**
@@ -537,9 +1170,11 @@ export class LandoStatusMonitor implements vscode.Disposable {
    * Disposes of the status monitor resources
    */
   public dispose(): void {
-    this.stopPolling();
+    this.stopMonitoring();
     this._onDidChangeStatus.dispose();
     this._onDidUpdateStatuses.dispose();
+    this._onDidChangeEngineState.dispose();
+    this._onDidDetectServiceCrash.dispose();
     this.stateMachine.dispose();
     this.disposables.forEach(d => d.dispose());
     this.disposables = [];
@@ -8,18 +8,32 @@
  */
 
 import * as vscode from 'vscode';
-import * as childProcess from 'child_process';
-import { LandoApp, LandoAppDetector, LandoTooling } from './landoAppDetector';
+import { LandoApp, LandoAppDetector, LandoEvent, LandoTooling } from './landoAppDetector';
 import { 
   LandoStatusMonitor, 
   LandoAppStatus, 
   LandoAppState,
+  DockerEngineState,
+  LandoServiceState,
   getStateLabel,
+  getDownServices,
+  describeServiceState,
 } from './landoStatusMonitor';
 import { generateConnectionStrings } from './connectionString';
 import { getServiceIcon } from './serviceIcons';
-import { LandoServiceUrl } from './types';
-import { LANDO_CORE_COMMANDS } from './helpers/lando';
+import { LandoServiceUrl, LandoServiceDetails } from './types';
+import { getLandoAvailableTooling } from './helpers/lando';
+import { LandoCli } from './landoCli';
+import { LandoInfoStore, extractUrls } from './landoInfoStore';
+import { LandoOperation, LandoOperationQueue } from './landoOperationQueue';
+import {
+  LandoResourceSampler,
+  LandoResourceUsage,
+  describeResourceUsage,
+  formatResourceUsage,
+} from './landoResourceSampler';
+import { LandoIdleMonitor } from './landoIdleMonitor';
+import { combineTooling, getRecipeServiceDetails } from './landoRecipes';
 
 /**
  * Types of tree items that can be displayed
@@ -30,10 +44,14 @@ export type LandoTreeItemType =
   | 'url'
   | 'toolingGroup'
   | 'tooling'
+  | 'eventsGroup'
+  | 'event'
   | 'infoItem'
   | 'connectionString'
   | 'loading'
-  | 'noApps';
+  | 'noApps'
+  | 'unsupported'
+  | 'engine';
 
 /**
  * Represents a Lando service with runtime information
@@ -45,28 +63,12 @@ interface LandoServiceInfo {
   type: string;
   /** Whether the service is running */
   running?: boolean;
-}
-
-/**
- * Represents connection credentials for a database service
- */
-interface LandoConnectionCreds {
-  /** Database username */
-  user?: string;
-  /** Database password */
-  password?: string;
-  /** Database name */
-  database?: string;
-}
-
-/**
- * Represents connection endpoint information
- */
-interface LandoConnectionEndpoint {
-  /** Hostname or IP address */
-  host?: string;
-  /** Port number - Lando returns this as a number */
-  port?: number;
+  /** Container state from the status monitor (e.g., 'exited', 'restarting') */
+  state?: LandoServiceState;
+  /** Exit code of the last exit, when known */
+  exitCode?: number;
+  /** Resource usage from the last sample, while running */
+  usage?: LandoResourceUsage;
 }
 
 /**
@@ -90,25 +92,15 @@ interface LandoInfoItem {
 }
 
 /**
- * Extended service info from lando info command
+ * Tree data derived from an app's lando info
  */
-interface LandoServiceDetails {
-  /** The service name */
-  service: string;
-  /** The service type (e.g., 'php', 'mysql:8.0') */
-  type?: string;
-  /** URLs exposed by this service */
-  urls?: string[];
-  /** Database credentials (if applicable) */
-  creds?: LandoConnectionCreds;
-  /** Internal connection info (container-to-container) */
-  internal_connection?: LandoConnectionEndpoint;
-  /** External connection info (host machine access) */
-  external_connection?: LandoConnectionEndpoint;
-  /** Container hostnames */
-  hostnames?: string[];
-  /** Whether the service is running */
-  running?: boolean;
+interface LandoAppInfo {
+  /** Services with runtime information */
+  services: LandoServiceInfo[];
+  /** URLs exposed by the services */
+  urls: LandoServiceUrl[];
+  /** Connection info and connection strings */
+  infoItems: LandoInfoItem[];
 }
 
 /**
@@ -148,6 +140,13 @@ export class LandoTreeItem extends vscode.TreeItem {
       case 'tooling':
         this.setupToolingItem();
         break;
+      case 'eventsGroup':
+        this.iconPath = new vscode.ThemeIcon('zap');
+        this.description = 'Events';
+        break;
+      case 'event':
+        this.setupEventItem();
+        break;
       case 'infoItem':
         this.setupInfoItem();
         break;
@@ -161,6 +160,29 @@ export class LandoTreeItem extends vscode.TreeItem {
         this.iconPath = new vscode.ThemeIcon('info');
         this.description = 'No Lando apps found';
         break;
+      case 'unsupported':
+        this.iconPath = new vscode.ThemeIcon('warning', new vscode.ThemeColor('problemsWarningIcon.foreground'));
+        this.tooltip = this.data as string;
+        break;
+      case 'engine':
+        this.setupEngineItem();
+        break;
+    }
+  }
+
+  /**
+   * Sets up the Docker engine item shown while Docker is down or starting
+   */
+  private setupEngineItem(): void {
+    const engineState = this.data as DockerEngineState;
+    if (engineState === DockerEngineState.Starting) {
+      this.iconPath = new vscode.ThemeIcon('sync~spin', new vscode.ThemeColor('charts.yellow'));
+      this.description = 'Waiting for Docker';
+      this.tooltip = 'Docker is starting. App status will update once it is ready.';
+    } else {
+      this.iconPath = new vscode.ThemeIcon('debug-disconnect', new vscode.ThemeColor('testing.iconFailed'));
+      this.description = 'Lando commands are disabled';
+      this.tooltip = 'Docker is not running. Start Docker to use Lando; app status is shown as last seen and updates automatically once Docker is back.';
     }
   }
 
@@ -187,7 +209,8 @@ export class LandoTreeItem extends vscode.TreeItem {
    * 
    * Uses different icons based on service type (database, web server, cache, etc.)
    * to help users quickly identify services at a glance. The icon color indicates
-   * running status (green = running, gray = stopped).
+   * running status (green = running, gray = stopped, red = exited while the
+   * app is running, yellow spinner = restarting).
    */
   private setupServiceItem(): void {
     const service = this.data as LandoServiceInfo;
@@ -197,24 +220,46 @@ export class LandoTreeItem extends vscode.TreeItem {
 
     // Get type-specific icon based on service type
     const iconConfig = getServiceIcon(service.type);
-    const statusColor = service.running 
-      ? new vscode.ThemeColor('testing.iconPassed')
-      : new vscode.ThemeColor('testing.iconSkipped');
+    const failed = service.state === 'exited' || service.state === 'dead';
+    let statusColor: vscode.ThemeColor;
+    if (service.running) {
+      statusColor = new vscode.ThemeColor('testing.iconPassed');
+    } else if (failed) {
+      statusColor = new vscode.ThemeColor('testing.iconFailed');
+    } else {
+      statusColor = new vscode.ThemeColor('testing.iconSkipped');
+    }
     
-    this.iconPath = new vscode.ThemeIcon(iconConfig.icon, statusColor);
+    this.iconPath = service.state === 'restarting'
+      ? new vscode.ThemeIcon('sync~spin', new vscode.ThemeColor('charts.yellow'))
+      : new vscode.ThemeIcon(iconConfig.icon, statusColor);
     
     // Show category and type in description for better context
     const category = iconConfig.category;
-    this.description = service.type || category;
+    const exitCode = service.exitCode !== undefined ? ` (${service.exitCode})` : '';
+    this.description = failed || service.state === 'restarting'
+      ? `${service.type || category} · ${service.state}${failed ? exitCode : ''}`
+      : service.type || category;
+    if (service.running && service.usage) {
+      this.description += ` · ${formatResourceUsage(service.usage)}`;
+    }
     
     // Build informative tooltip
-    const statusText = service.running ? 'Running' : 'Stopped';
+    let statusText = service.running ? 'Running' : 'Stopped';
+    if (service.state === 'restarting') {
+      statusText = 'Restarting';
+    } else if (failed) {
+      statusText = `Exited${exitCode}`;
+    }
     const tooltipParts = [
       `**${service.name}**`,
       `Type: ${service.type || 'unknown'}`,
       `Category: ${category}`,
       `Status: ${statusText}`,
     ];
+    if (service.running && service.usage) {
+      tooltipParts.push(...describeResourceUsage(service.usage));
+    }
     
     this.tooltip = new vscode.MarkdownString(tooltipParts.join('\n\n'));
   }
@@ -258,6 +303,25 @@ export class LandoTreeItem extends vscode.TreeItem {
     };
   }
 
+  /**
+   * Sets up an event tree item; clicking it reruns the event's commands
+   */
+  private setupEventItem(): void {
+    const event = this.data as LandoEvent;
+    if (!event) {
+      return;
+    }
+
+    this.iconPath = new vscode.ThemeIcon('zap');
+    this.description = Array.from(new Set(event.commands.map(command => command.service))).join(', ');
+    this.tooltip = event.commands.map(command => `${command.service}: ${command.cmd}`).join('\n');
+    this.command = {
+      command: 'extension.runLandoEvent',
+      title: 'Run Event',
+      arguments: [{ app: this.app, event: event.name }]
+    };
+  }
+
   /**
    * Sets up an info tree item (connection details, credentials, etc.)
    */
@@ -349,15 +413,38 @@ export class LandoTreeItem extends vscode.TreeItem {
 
     if (status) {
       const statusText = getStateLabel(appState);
+      const downServices = getDownServices(status);
+      const downText = downServices.length > 0
+        ? `Not running: ${downServices.map(describeServiceState).join(', ')}\n\n`
+        : '';
       this.tooltip = new vscode.MarkdownString(
         `**${this.app?.name}**\n\n` +
         `Status: ${statusText} (${status.runningContainers}/${status.totalContainers} containers)\n\n` +
+        downText +
         `Recipe: ${this.app?.recipe || 'custom'}\n\n` +
         `Path: \`${this.app?.rootPath}\``
       );
     }
   }
 
+  /**
+   * Shows an app's queued and running lifecycle operations in its description
+   */
+  public updateOperations(operations: LandoOperation[]): void {
+    if (this.type !== 'app' || !this.app) {
+      return;
+    }
+
+    const recipe = this.app.recipe || 'custom';
+    if (operations.length === 0) {
+      this.description = recipe;
+      return;
+    }
+
+    const pending = operations.map(operation => `${operation.kind} ${operation.status}`);
+    this.description = `${recipe} · ${pending.join(', ')}`;
+  }
+
   /**
    * Gets the appropriate icon for a given app state
    */
@@ -368,6 +455,11 @@ export class LandoTreeItem extends vscode.TreeItem {
           'vm-running',
           new vscode.ThemeColor('testing.iconPassed')
         );
+      case LandoAppState.Degraded:
+        return new vscode.ThemeIcon(
+          'warning',
+          new vscode.ThemeColor('charts.yellow')
+        );
       case LandoAppState.Stopped:
         return new vscode.ThemeIcon(
           'vm-outline',
@@ -405,10 +497,12 @@ export class LandoTreeItem extends vscode.TreeItem {
  *     - appserver (php)
  *     - database (mysql)
  *   - URLs
- *     - https://myapp.lndo.site
+ *     - https://myapp.lndo.site (or the domain from the global Lando config)
  *   - Tooling
  *     - composer
  *     - drush
+ *   - Events
+ *     - post-start
  * - App 2
  *   ...
  */
@@ -419,12 +513,17 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
   private appDetector: LandoAppDetector | undefined;
   private statusMonitor: LandoStatusMonitor | undefined;
   private outputChannel: vscode.OutputChannel | undefined;
+  private landoCli: LandoCli | undefined;
+  private operationQueue: LandoOperationQueue | undefined;
+  private resourceSampler: LandoResourceSampler | undefined;
+  private idleMonitor: LandoIdleMonitor | undefined;
   
-  // Cache for services, URLs, and connection info (fetched via lando info)
-  private servicesCache: Map<string, LandoServiceInfo[]> = new Map();
-  private urlsCache: Map<string, LandoServiceUrl[]> = new Map();
-  private infoCache: Map<string, LandoInfoItem[]> = new Map();
-  private fetchingInfo: Set<string> = new Set();
+  // Shared cache of lando info results (services, URLs, and connection info)
+  private infoStore: LandoInfoStore | undefined;
+
+  // Tooling reported by the lando CLI, per app config path
+  private availableTooling: Map<string, LandoTooling[]> = new Map();
+  private toolingRequests: Map<string, Promise<LandoTooling[]>> = new Map();
 
   constructor() {}
 
@@ -435,10 +534,16 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
     context: vscode.ExtensionContext,
     appDetector: LandoAppDetector,
     statusMonitor: LandoStatusMonitor,
+    landoCli: LandoCli,
+    infoStore: LandoInfoStore,
+    operationQueue: LandoOperationQueue,
     outputChannel?: vscode.OutputChannel
   ): vscode.TreeView<LandoTreeItem> {
     this.appDetector = appDetector;
     this.statusMonitor = statusMonitor;
+    this.landoCli = landoCli;
+    this.infoStore = infoStore;
+    this.operationQueue = operationQueue;
     this.outputChannel = outputChannel;
 
     // Create the TreeView
@@ -450,15 +555,33 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
     // Register commands for tree actions
     this.registerCommands(context);
 
-    // Listen for app changes
+    // Listen for app changes (the info store invalidates affected apps)
     appDetector.onDidChangeApps(() => {
-      this.clearCaches();
       this._onDidChangeTreeData.fire();
     });
 
-    // Listen for status changes
+    // Show app discovery progress
+    appDetector.onDidChangeScanProgress(() => {
+      this._onDidChangeTreeData.fire();
+    });
+
+    // Listen for status changes (the info store invalidates affected apps)
     statusMonitor.onDidChangeStatus(() => {
-      this.clearCaches();
+      this._onDidChangeTreeData.fire();
+    });
+
+    // Features may have been enabled or disabled (the info store invalidates everything)
+    landoCli.onDidChangeCapabilities(() => {
+      this._onDidChangeTreeData.fire();
+    });
+
+    // Show queued and running operations on app items
+    operationQueue.onDidChangeOperations(() => {
+      this._onDidChangeTreeData.fire();
+    });
+
+    // Show or hide the Docker engine item
+    statusMonitor.onDidChangeEngineState(() => {
       this._onDidChangeTreeData.fire();
     });
 
@@ -473,6 +596,37 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
     return treeView;
   }
 
+  /**
+   * Shows resource usage from a sampler on service items
+   *
+   * @param resourceSampler - The sampler, or undefined to stop showing usage
+   * @returns Disposable that stops listening to the sampler
+   */
+  public setResourceSampler(resourceSampler: LandoResourceSampler | undefined): vscode.Disposable {
+    this.resourceSampler = resourceSampler;
+    this._onDidChangeTreeData.fire();
+    const subscription = resourceSampler?.onDidUpdateUsage(() => {
+      this._onDidChangeTreeData.fire();
+    });
+    return new vscode.Disposable(() => subscription?.dispose());
+  }
+
+  /**
+   * Sets the idle monitor told about tooling runs from the tree
+   *
+   * @param idleMonitor - The idle monitor
+   */
+  public setIdleMonitor(idleMonitor: LandoIdleMonitor | undefined): void {
+    this.idleMonitor = idleMonitor;
+  }
+
+  /**
+   * Builds a lando command line for a terminal using the configured executable
+   */
+  private getShellCommand(args: string[]): string {
+    return this.landoCli?.getShellCommand(args) ?? ['lando', ...args].join(' ');
+  }
+
   /**
    * Registers commands used by the TreeView
    */
@@ -497,6 +651,7 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
           return; // User cancelled
         }
 
+        this.idleMonitor?.recordActivity(app, 'tooling');
         const terminalName = `Lando: ${command}`;
         const existingTerminal = vscode.window.terminals.find(t => t.name === terminalName);
         const terminal = existingTerminal || vscode.window.createTerminal({
@@ -504,7 +659,7 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
           cwd: app.rootPath
         });
 
-        const fullCommand = args.trim() ? `lando ${command} ${args.trim()}` : `lando ${command}`;
+        const fullCommand = this.getShellCommand(args.trim() ? [command, args.trim()] : [command]);
         terminal.sendText(fullCommand);
         terminal.show();
       })
@@ -513,25 +668,18 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
     // Refresh TreeView
     context.subscriptions.push(
       vscode.commands.registerCommand('lando.refreshExplorer', () => {
-        this.clearCaches();
-        this._onDidChangeTreeData.fire();
+        this.refresh();
       })
     );
 
-    // Tree item actions - these run lando commands directly on the clicked app
+    // Tree item actions - these go through the operation queue for the clicked app
     context.subscriptions.push(
       vscode.commands.registerCommand('lando.treeStartApp', async (item: LandoTreeItem) => {
         if (!item.app) {
           return;
         }
-        const app = item.app;
-        const terminal = vscode.window.createTerminal({
-          name: `Lando: ${app.name}`,
-          cwd: app.rootPath
-        });
-        terminal.sendText('lando start');
-        terminal.show();
-        this.log(`Starting ${app.name} from TreeView`);
+        this.log(`Starting ${item.app.name} from TreeView`);
+        await vscode.commands.executeCommand('extension.startLandoApp', item.app);
       })
     );
 
@@ -540,14 +688,8 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
         if (!item.app) {
           return;
         }
-        const app = item.app;
-        const terminal = vscode.window.createTerminal({
-          name: `Lando: ${app.name}`,
-          cwd: app.rootPath
-        });
-        terminal.sendText('lando stop');
-        terminal.show();
-        this.log(`Stopping ${app.name} from TreeView`);
+        this.log(`Stopping ${item.app.name} from TreeView`);
+        await vscode.commands.executeCommand('extension.stopLandoApp', item.app);
       })
     );
 
@@ -556,14 +698,8 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
         if (!item.app) {
           return;
         }
-        const app = item.app;
-        const terminal = vscode.window.createTerminal({
-          name: `Lando: ${app.name}`,
-          cwd: app.rootPath
-        });
-        terminal.sendText('lando restart');
-        terminal.show();
-        this.log(`Restarting ${app.name} from TreeView`);
+        this.log(`Restarting ${item.app.name} from TreeView`);
+        await vscode.commands.executeCommand('extension.restartLandoApp', item.app);
       })
     );
 
@@ -573,20 +709,16 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
           return;
         }
         const app = item.app;
-        // Get available services from cache or fetch them
-        let services = this.servicesCache.get(app.configPath);
-        if (!services || services.length === 0) {
-          await this.fetchAppInfo(app);
-          services = this.servicesCache.get(app.configPath);
-        }
+        // Get available services from the shared info store
+        const { services } = await this.getAppInfo(app);
 
-        if (!services || services.length === 0) {
+        if (services.length === 0) {
           // Fall back to default service
           const terminal = vscode.window.createTerminal({
             name: `Lando: ${app.name} (ssh)`,
             cwd: app.rootPath
           });
-          terminal.sendText('lando ssh');
+          terminal.sendText(this.getShellCommand(['ssh']));
           terminal.show();
           return;
         }
@@ -597,7 +729,7 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
             name: `Lando: ${app.name} (${services[0].name})`,
             cwd: app.rootPath
           });
-          terminal.sendText(`lando ssh -s ${services[0].name}`);
+          terminal.sendText(this.getShellCommand(['ssh', '-s', services[0].name]));
           terminal.show();
           return;
         }
@@ -618,7 +750,7 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
             name: `Lando: ${app.name} (${selected.service})`,
             cwd: app.rootPath
           });
-          terminal.sendText(`lando ssh -s ${selected.service}`);
+          terminal.sendText(this.getShellCommand(['ssh', '-s', selected.service]));
           terminal.show();
         }
       })
@@ -642,7 +774,7 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
             name: `Lando: ${item.app.name} (${service.name})`,
             cwd: item.app.rootPath
           });
-          terminal.sendText(`lando ssh -s ${service.name}`);
+          terminal.sendText(this.getShellCommand(['ssh', '-s', service.name]));
           terminal.show();
         }
       })
@@ -695,7 +827,7 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
             name: `Lando Logs: ${service.name}`,
             cwd: item.app.rootPath
           });
-          terminal.sendText(`lando logs -s ${service.name} -f`);
+          terminal.sendText(this.getShellCommand(['logs', '-s', service.name, '-f']));
           terminal.show();
         }
       })
@@ -711,6 +843,9 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
       const status = this.statusMonitor.getStatus(element.app);
       element.updateStatus(status);
     }
+    if (element.type === 'app' && element.app && this.operationQueue) {
+      element.updateOperations(this.operationQueue.getOperations(element.app));
+    }
     return element;
   }
 
@@ -743,6 +878,17 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
       return this.getToolingItems(element.app);
     }
 
+    // Events group: show event hooks
+    if (element.type === 'eventsGroup' && element.app) {
+      return (element.app.events ?? []).map(event => new LandoTreeItem(
+        event.name,
+        'event',
+        vscode.TreeItemCollapsibleState.None,
+        element.app,
+        event
+      ));
+    }
+
     return [];
   }
 
@@ -760,6 +906,11 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
    */
   private getAppItems(): LandoTreeItem[] {
     const apps = this.appDetector?.getApps() ?? [];
+    const scanItem = this.getScanProgressItem();
+
+    if (apps.length === 0 && scanItem) {
+      return [scanItem];
+    }
 
     if (apps.length === 0) {
       return [
@@ -771,7 +922,7 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
       ];
     }
 
-    return apps.map(app => {
+    const appItems = apps.map(app => {
       const item = new LandoTreeItem(
         app.name,
         'app',
@@ -787,6 +938,38 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
 
       return item;
     });
+    if (scanItem) {
+      appItems.unshift(scanItem);
+    }
+
+    // Explain above the apps why nothing can run while Docker is down
+    const engineState = this.statusMonitor?.getEngineState();
+    if (engineState === DockerEngineState.Unavailable || engineState === DockerEngineState.Starting) {
+      const label = engineState === DockerEngineState.Starting ? 'Docker is starting' : 'Docker is not running';
+      return [
+        new LandoTreeItem(label, 'engine', vscode.TreeItemCollapsibleState.None, undefined, engineState),
+        ...appItems,
+      ];
+    }
+
+    return appItems;
+  }
+
+  /**
+   * Gets the loading item shown while apps are being discovered
+   */
+  private getScanProgressItem(): LandoTreeItem | undefined {
+    const progress = this.appDetector?.getScanProgress();
+    if (!progress) {
+      return undefined;
+    }
+    const item = new LandoTreeItem(
+      'Scanning for Lando apps...',
+      'loading',
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.description = `${progress.scannedFolders} of ${progress.totalFolders} folder(s), ${progress.landofiles} Landofile(s) found`;
+    return item;
   }
 
   /**
@@ -809,6 +992,16 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
       app
     ));
 
+    // Events group (only when the Landofile defines events)
+    if (app.events && app.events.length > 0) {
+      children.push(new LandoTreeItem(
+        'Events',
+        'eventsGroup',
+        vscode.TreeItemCollapsibleState.Collapsed,
+        app
+      ));
+    }
+
     return children;
   }
 
@@ -817,15 +1010,11 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
    * These are shown as children of the service node in the tree.
    */
   private async getServiceChildren(app: LandoApp, serviceName: string): Promise<LandoTreeItem[]> {
-    // Ensure info is fetched
-    if (!this.urlsCache.has(app.configPath) && !this.infoCache.has(app.configPath)) {
-      await this.fetchAppInfo(app);
-    }
+    const { urls, infoItems } = await this.getAppInfo(app);
 
     const children: LandoTreeItem[] = [];
 
     // URLs belonging to this service
-    const urls = this.urlsCache.get(app.configPath) ?? [];
     const serviceUrls = urls.filter(u => u.service === serviceName);
     for (const url of serviceUrls) {
       children.push(new LandoTreeItem(
@@ -838,7 +1027,6 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
     }
 
     // Connection info and connection strings belonging to this service
-    const infoItems = this.infoCache.get(app.configPath) ?? [];
     const serviceInfo = infoItems.filter(i => i.service === serviceName);
     for (const info of serviceInfo) {
       children.push(new LandoTreeItem(
@@ -858,32 +1046,16 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
    * Services are expandable when they have URLs or connection info to show.
    */
   private async getServiceItems(app: LandoApp): Promise<LandoTreeItem[]> {
-    // Check cache first
-    let services = this.servicesCache.get(app.configPath);
-    
-    if (!services) {
-      // Fetch services from lando info (also populates URLs and info caches)
-      await this.fetchAppInfo(app);
-      services = this.servicesCache.get(app.configPath);
-    }
+    // Services, URLs and info all come from a single (cached) lando info call
+    const { services, urls, infoItems } = await this.getAppInfo(app);
 
-    if (!services || services.length === 0) {
-      // Show services from config file if lando info failed
-      const configServices = app.services || [];
-      return configServices.map(name => new LandoTreeItem(
-        name,
-        'service',
-        vscode.TreeItemCollapsibleState.None,
-        app,
-        { name, type: 'unknown', running: false } as LandoServiceInfo
-      ));
-    }
+    // Show services from config file if lando info failed and the recipe is unknown
+    const configServices: LandoServiceInfo[] = services.length === 0
+      ? (app.services || []).map(name => ({ name, type: 'unknown', running: false }))
+      : services;
 
     // Determine which services have children (URLs or info)
-    const urls = this.urlsCache.get(app.configPath) ?? [];
-    const infoItems = this.infoCache.get(app.configPath) ?? [];
-
-    return services.map(service => {
+    const items = this.withContainerStatus(app, configServices).map(service => {
       const hasChildren = urls.some(u => u.service === service.name) 
         || infoItems.some(i => i.service === service.name);
       const collapsibleState = hasChildren
@@ -898,32 +1070,69 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
         service
       );
     });
+
+    // Explain why runtime details are missing if the installed Lando can't provide them
+    const unsupportedReason = this.landoCli?.getUnsupportedReason('infoJson');
+    if (unsupportedReason) {
+      items.unshift(new LandoTreeItem(
+        'Service details unavailable',
+        'unsupported',
+        vscode.TreeItemCollapsibleState.None,
+        app,
+        unsupportedReason
+      ));
+    }
+    return items;
   }
 
   /**
-   * Gets tooling items for an app
+   * Overlays the status monitor's per-service container state on services
+   * from lando info, which is cached and may be stale
+   */
+  private withContainerStatus(app: LandoApp, services: LandoServiceInfo[]): LandoServiceInfo[] {
+    const status = this.statusMonitor?.getStatus(app);
+    if (!status || status.services.length === 0) {
+      return services;
+    }
+
+    return services.map(service => {
+      const serviceStatus = status.services.find(s => s.name === service.name);
+      return serviceStatus
+        ? {
+          ...service,
+          running: serviceStatus.running,
+          state: serviceStatus.state,
+          exitCode: serviceStatus.exitCode,
+          usage: this.resourceSampler?.getServiceUsage(app, service.name),
+        }
+        : service;
+    });
+  }
+
+  /**
+   * Gets tooling items for an app.
+   * Apps with a known recipe show the recipe's tooling right away and gain
+   * any other tooling once the lando CLI answers.
    */
   private async getToolingItems(app: LandoApp): Promise<LandoTreeItem[]> {
     // Use tooling from config if available
     const configTooling = app.tooling || [];
-    
+    const recipeTooling = app.recipeDefaults?.tooling || [];
+
     // Also try to get available tooling from lando CLI
-    const availableTooling = await this.fetchAvailableTooling(app);
-    
-    // Combine and dedupe
-    const toolingMap = new Map<string, LandoTooling>();
-    
-    for (const t of configTooling) {
-      toolingMap.set(t.name, t);
-    }
-    
-    for (const t of availableTooling) {
-      if (!toolingMap.has(t.name)) {
-        toolingMap.set(t.name, t);
+    let availableTooling = this.availableTooling.get(app.configPath);
+    if (!availableTooling) {
+      const request = this.getAvailableTooling(app);
+      if (recipeTooling.length > 0) {
+        request.then(() => this._onDidChangeTreeData.fire());
+        availableTooling = [];
+      } else {
+        availableTooling = await request;
       }
     }
 
-    const tooling = Array.from(toolingMap.values());
+    // Combine and dedupe; tooling from config wins
+    const tooling = combineTooling(configTooling, availableTooling, recipeTooling);
     
     if (tooling.length === 0) {
       return [new LandoTreeItem(
@@ -944,298 +1153,174 @@ export class LandoTreeDataProvider implements vscode.TreeDataProvider<LandoTreeI
   }
 
   /**
-   * Fetches app info (services and URLs) from lando info command.
-   * Uses async spawn to avoid blocking the VS Code UI thread.
+   * Gets app info (services, URLs and connection info) from the shared info store.
+   * Falls back to the services implied by the app's recipe when lando info
+   * failed, and returns empty info for unknown recipes.
    */
-  private async fetchAppInfo(app: LandoApp): Promise<void> {
-    if (this.fetchingInfo.has(app.configPath)) {
-      return; // Already fetching
+  private async getAppInfo(app: LandoApp): Promise<LandoAppInfo> {
+    const recipeInfo = app.recipeDefaults ? getRecipeServiceDetails(app.recipeDefaults) : [];
+
+    let infoArray: LandoServiceDetails[];
+    try {
+      infoArray = this.infoStore ? await this.infoStore.getInfo(app) : recipeInfo;
+    } catch {
+      infoArray = recipeInfo;
+    }
+    if (infoArray.length === 0) {
+      infoArray = recipeInfo;
     }
 
-    this.fetchingInfo.add(app.configPath);
+    const services: LandoServiceInfo[] = [];
+    const urls: LandoServiceUrl[] = [];
+    const infoItems: LandoInfoItem[] = [];
 
-    return new Promise((resolve) => {
-      const landoProcess = childProcess.spawn('lando', ['info', '--format=json'], {
-        cwd: app.rootPath,
-        stdio: 'pipe'
+    for (const info of infoArray) {
+      services.push({
+        name: info.service,
+        type: info.type || 'unknown',
+        running: info.running
       });
 
-      let stdout = '';
-      let stderr = '';
+      urls.push(...extractUrls([info], this.infoStore?.getDomain()));
+
+      // Extract connection info for database services
+      // Check if this service has credentials (typical for database services)
+      if (info.creds) {
+        const serviceName = info.service;
+        
+        if (info.creds.database) {
+          infoItems.push({
+            label: 'Database',
+            value: info.creds.database,
+            service: serviceName,
+            category: 'credentials'
+          });
+        }
+        if (info.creds.user) {
+          infoItems.push({
+            label: 'User',
+            value: info.creds.user,
+            service: serviceName,
+            category: 'credentials'
+          });
+        }
+        if (info.creds.password) {
+          infoItems.push({
+            label: 'Password',
+            value: info.creds.password,
+            service: serviceName,
+            category: 'credentials'
+          });
+        }
+      }
 
-      landoProcess.stdout.on('data', (data: Buffer) => {
-        stdout += data.toString();
-      });
+      // Extract external connection info (for connecting from host machine)
+      if (info.external_connection) {
+        const serviceName = info.service;
+        
+        if (info.external_connection.host) {
+          infoItems.push({
+            label: 'Host (external)',
+            value: info.external_connection.host,
+            service: serviceName,
+            category: 'connection'
+          });
+        }
+        if (info.external_connection.port) {
+          infoItems.push({
+            label: 'Port (external)',
+            value: String(info.external_connection.port),
+            service: serviceName,
+            category: 'connection'
+          });
+        }
+      }
 
-      landoProcess.stderr.on('data', (data: Buffer) => {
-        stderr += data.toString();
-      });
+      // Extract internal connection info (container-to-container)
+      if (info.internal_connection) {
+        const serviceName = info.service;
+        
+        if (info.internal_connection.host) {
+          infoItems.push({
+            label: 'Host (internal)',
+            value: info.internal_connection.host,
+            service: serviceName,
+            category: 'connection'
+          });
+        }
+        if (info.internal_connection.port) {
+          infoItems.push({
+            label: 'Port (internal)',
+            value: String(info.internal_connection.port),
+            service: serviceName,
+            category: 'connection'
+          });
+        }
+      }
 
-      landoProcess.on('error', (error) => {
-        this.log(`Error spawning lando info for ${app.name}: ${error}`);
-        this.servicesCache.set(app.configPath, []);
-        this.urlsCache.set(app.configPath, []);
-        this.infoCache.set(app.configPath, []);
-        this.fetchingInfo.delete(app.configPath);
-        resolve();
+      // Generate ready-to-use connection strings for database services
+      // Convert port numbers to strings for connection string generation
+      const connectionStrings = generateConnectionStrings({
+        serviceName: info.service,
+        serviceType: info.type,
+        creds: info.creds,
+        externalConnection: info.external_connection ? {
+          host: info.external_connection.host,
+          port: info.external_connection.port !== undefined ? String(info.external_connection.port) : undefined
+        } : undefined,
+        internalConnection: info.internal_connection ? {
+          host: info.internal_connection.host,
+          port: info.internal_connection.port !== undefined ? String(info.internal_connection.port) : undefined
+        } : undefined,
       });
 
-      landoProcess.on('close', (code) => {
-        try {
-          if (code !== 0 || !stdout) {
-            this.log(`lando info failed for ${app.name}: exit code ${code}, stderr: ${stderr}`);
-            this.servicesCache.set(app.configPath, []);
-            this.urlsCache.set(app.configPath, []);
-            this.infoCache.set(app.configPath, []);
-            this.fetchingInfo.delete(app.configPath);
-            resolve();
-            return;
-          }
-
-          const infoArray = JSON.parse(stdout) as LandoServiceDetails[];
-
-          const services: LandoServiceInfo[] = [];
-          const urls: LandoServiceUrl[] = [];
-          const infoItems: LandoInfoItem[] = [];
-
-          for (const info of infoArray) {
-            services.push({
-              name: info.service,
-              type: info.type || 'unknown',
-              running: info.running
-            });
-
-            if (info.urls) {
-              for (let i = 0; i < info.urls.length; i++) {
-                urls.push({
-                  service: info.service,
-                  url: info.urls[i],
-                  primary: i === 0
-                });
-              }
-            }
-
-            // Extract connection info for database services
-            // Check if this service has credentials (typical for database services)
-            if (info.creds) {
-              const serviceName = info.service;
-              
-              if (info.creds.database) {
-                infoItems.push({
-                  label: 'Database',
-                  value: info.creds.database,
-                  service: serviceName,
-                  category: 'credentials'
-                });
-              }
-              if (info.creds.user) {
-                infoItems.push({
-                  label: 'User',
-                  value: info.creds.user,
-                  service: serviceName,
-                  category: 'credentials'
-                });
-              }
-              if (info.creds.password) {
-                infoItems.push({
-                  label: 'Password',
-                  value: info.creds.password,
-                  service: serviceName,
-                  category: 'credentials'
-                });
-              }
-            }
-
-            // Extract external connection info (for connecting from host machine)
-            if (info.external_connection) {
-              const serviceName = info.service;
-              
-              if (info.external_connection.host) {
-                infoItems.push({
-                  label: 'Host (external)',
-                  value: info.external_connection.host,
-                  service: serviceName,
-                  category: 'connection'
-                });
-              }
-              if (info.external_connection.port) {
-                infoItems.push({
-                  label: 'Port (external)',
-                  value: String(info.external_connection.port),
-                  service: serviceName,
-                  category: 'connection'
-                });
-              }
-            }
-
-            // Extract internal connection info (container-to-container)
-            if (info.internal_connection) {
-              const serviceName = info.service;
-              
-              if (info.internal_connection.host) {
-                infoItems.push({
-                  label: 'Host (internal)',
-                  value: info.internal_connection.host,
-                  service: serviceName,
-                  category: 'connection'
-                });
-              }
-              if (info.internal_connection.port) {
-                infoItems.push({
-                  label: 'Port (internal)',
-                  value: String(info.internal_connection.port),
-                  service: serviceName,
-                  category: 'connection'
-                });
-              }
-            }
-
-            // Generate ready-to-use connection strings for database services
-            // Convert port numbers to strings for connection string generation
-            const connectionStrings = generateConnectionStrings({
-              serviceName: info.service,
-              serviceType: info.type,
-              creds: info.creds,
-              externalConnection: info.external_connection ? {
-                host: info.external_connection.host,
-                port: info.external_connection.port !== undefined ? String(info.external_connection.port) : undefined
-              } : undefined,
-              internalConnection: info.internal_connection ? {
-                host: info.internal_connection.host,
-                port: info.internal_connection.port !== undefined ? String(info.internal_connection.port) : undefined
-              } : undefined,
-            });
-
-            for (const connStr of connectionStrings) {
-              infoItems.push({
-                label: connStr.label,
-                value: connStr.connectionString,
-                service: connStr.serviceName,
-                category: 'connectionString',
-                protocol: connStr.protocol,
-                connectionType: connStr.type,
-              });
-            }
-          }
-
-          this.servicesCache.set(app.configPath, services);
-          this.urlsCache.set(app.configPath, urls);
-          this.infoCache.set(app.configPath, infoItems);
-          
-          this.log(`Fetched info for ${app.name}: ${services.length} services, ${urls.length} URLs, ${infoItems.length} info items`);
-        } catch (error) {
-          this.log(`Error parsing lando info for ${app.name}: ${error}`);
-          this.servicesCache.set(app.configPath, []);
-          this.urlsCache.set(app.configPath, []);
-          this.infoCache.set(app.configPath, []);
-        } finally {
-          this.fetchingInfo.delete(app.configPath);
-          resolve();
-        }
-      });
+      for (const connStr of connectionStrings) {
+        infoItems.push({
+          label: connStr.label,
+          value: connStr.connectionString,
+          service: connStr.serviceName,
+          category: 'connectionString',
+          protocol: connStr.protocol,
+          connectionType: connStr.type,
+        });
+      }
+    }
 
-      // Timeout to prevent hanging
-      setTimeout(() => {
-        if (this.fetchingInfo.has(app.configPath)) {
-          this.log(`lando info timed out for ${app.name}`);
-          landoProcess.kill();
-          this.servicesCache.set(app.configPath, []);
-          this.urlsCache.set(app.configPath, []);
-          this.infoCache.set(app.configPath, []);
-          this.fetchingInfo.delete(app.configPath);
-          resolve();
-        }
-      }, 15000);
-    });
+    return { services, urls, infoItems };
   }
 
   /**
-   * Fetches available tooling commands from Lando CLI
+   * Gets available tooling commands from Lando CLI, sharing one request per app
    */
-  private async fetchAvailableTooling(app: LandoApp): Promise<LandoTooling[]> {
-    return new Promise((resolve) => {
-      const tooling: LandoTooling[] = [];
-      
-      const landoProcess = childProcess.spawn('lando', [], {
-        cwd: app.rootPath,
-        stdio: 'pipe'
-      });
-
-      let stdout = '';
-
-      landoProcess.stdout.on('data', (data: Buffer) => {
-        stdout += data.toString();
-      });
-
-      landoProcess.on('error', () => {
-        resolve([]);
+  private getAvailableTooling(app: LandoApp): Promise<LandoTooling[]> {
+    let request = this.toolingRequests.get(app.configPath);
+    if (!request) {
+      request = this.fetchAvailableTooling(app).then(tooling => {
+        this.availableTooling.set(app.configPath, tooling);
+        return tooling;
       });
-
-      landoProcess.on('close', (code) => {
-        if (code !== 0 && !stdout) {
-          resolve([]);
-          return;
-        }
-
-        try {
-          // Parse the output to extract commands
-          const lines = stdout.split('\n');
-          let inCommandsSection = false;
-
-          for (const line of lines) {
-            if (line.trim() === 'Commands:') {
-              inCommandsSection = true;
-              continue;
-            }
-            if (line.trim() === 'Options:' || line.trim() === 'Examples:') {
-              inCommandsSection = false;
-              continue;
-            }
-            if (!inCommandsSection) {
-              continue;
-            }
-
-            const match = line.match(/^\s+lando\s+(\S+)(?:\s+\[.*?\])?\s+(.*?)\s*$/);
-            if (match) {
-              const [, commandName, description] = match;
-              if (!LANDO_CORE_COMMANDS.has(commandName)) {
-                tooling.push({
-                  name: commandName,
-                  description: description || undefined,
-                  isCustom: false
-                });
-              }
-            }
-          }
-          resolve(tooling);
-        } catch {
-          resolve([]);
-        }
-      });
-
-      // Timeout
-      setTimeout(() => {
-        landoProcess.kill();
-        resolve([]);
-      }, 10000);
-    });
+      this.toolingRequests.set(app.configPath, request);
+    }
+    return request;
   }
 
   /**
-   * Clears all caches
+   * Fetches available tooling commands from Lando CLI
    */
-  private clearCaches(): void {
-    this.servicesCache.clear();
-    this.urlsCache.clear();
-    this.infoCache.clear();
-    this.fetchingInfo.clear();
+  private async fetchAvailableTooling(app: LandoApp): Promise<LandoTooling[]> {
+    if (!this.landoCli) {
+      return [];
+    }
+    return getLandoAvailableTooling(this.landoCli, app.rootPath);
   }
 
   /**
-   * Refreshes the tree
+   * Refreshes the tree, discarding cached lando info
    */
   public refresh(): void {
-    this.clearCaches();
+    this.infoStore?.invalidate();
+    this.availableTooling.clear();
+    this.toolingRequests.clear();
     this._onDidChangeTreeData.fire();
   }
 
@@ -10,6 +10,8 @@
 
 import * as vscode from "vscode";
 import { LandofileSchemaProvider } from "./landofileSchemaProvider";
+import { LandoAppDetector } from "./landoAppDetector";
+import { findVariableReferences } from "./landoEnvironment";
 
 /**
  * Lando-specific completion items that complement the JSON schema
@@ -636,10 +638,34 @@ export class LandofileHoverProvider implements vscode.HoverProvider {
  */
 export class LandofileValidationProvider {
   private diagnosticCollection: vscode.DiagnosticCollection;
+  private appDetector: LandoAppDetector | undefined;
+  private appListener: vscode.Disposable | undefined;
   
   constructor(private schemaProvider: LandofileSchemaProvider) {
     this.diagnosticCollection = vscode.languages.createDiagnosticCollection('landofile');
   }
+
+  /**
+   * Sets the app detector used to flag unresolved environment variables,
+   * revalidating open Landofiles whenever the detected apps change
+   */
+  setAppDetector(appDetector: LandoAppDetector): void {
+    this.appListener?.dispose();
+    this.appDetector = appDetector;
+    this.appListener = appDetector.onDidChangeApps(() => this.validateOpenDocuments());
+    this.validateOpenDocuments();
+  }
+
+  /**
+   * Validates all open Landofile documents
+   */
+  validateOpenDocuments(): void {
+    vscode.workspace.textDocuments.forEach(async document => {
+      if (document.languageId === 'landofile') {
+        await this.validateDocument(document);
+      }
+    });
+  }
   
   /**
    * Validates Landofile content and provides diagnostics
@@ -676,6 +702,18 @@ export class LandofileValidationProvider {
           }
         }
       }
+
+    // Flag variables that are set neither in the app's env files nor the host environment
+    const app = this.appDetector?.getAppForFile(document.uri.fsPath);
+    if (app?.unresolvedVariables) {
+      for (const reference of findVariableReferences(text, new Set(app.unresolvedVariables))) {
+        diagnostics.push({
+          range: new vscode.Range(reference.line, reference.start, reference.line, reference.end),
+          message: `Variable '${reference.name}' is not set in the app's env files or the environment`,
+          severity: vscode.DiagnosticSeverity.Warning
+        });
+      }
+    }
     
     // Perform schema-based validation
     const schemaDiagnostics = await this.schemaProvider.validateDocument(document);
@@ -695,6 +733,7 @@ export class LandofileValidationProvider {
    * Disposes the diagnostic collection
    */
   dispose(): void {
+    this.appListener?.dispose();
     this.diagnosticCollection.dispose();
   }
 }
@@ -702,8 +741,12 @@ export class LandofileValidationProvider {
 /**
  * Activates Landofile language features
  * @param context The VS Code extension context
+ * @returns The schema provider and the validation provider
  */
-export function activateLandofileLanguageFeatures(context: vscode.ExtensionContext): LandofileSchemaProvider {
+export function activateLandofileLanguageFeatures(context: vscode.ExtensionContext): {
+  schemaProvider: LandofileSchemaProvider;
+  validationProvider: LandofileValidationProvider;
+} {
   // Create schema provider
   const schemaProvider = new LandofileSchemaProvider(context);
   
@@ -745,11 +788,7 @@ export function activateLandofileLanguageFeatures(context: vscode.ExtensionConte
   });
   
   // Validate currently open Landofile documents
-  vscode.workspace.textDocuments.forEach(async document => {
-    if (document.languageId === 'landofile') {
-      await validationProvider.validateDocument(document);
-    }
-  });
+  validationProvider.validateOpenDocuments();
   
   // Add disposables to context
   context.subscriptions.push(
@@ -760,5 +799,5 @@ export function activateLandofileLanguageFeatures(context: vscode.ExtensionConte
     closeListener,
     validationProvider
   );
-  return schemaProvider;
+  return { schemaProvider, validationProvider };
 } 
\ No newline at end of file
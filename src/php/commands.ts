@@ -9,6 +9,7 @@
 import * as vscode from "vscode";
 import { LandoConfig } from "../types";
 import { checkLandoStatus } from "../helpers/lando";
+import { LandoCli } from "../landoCli";
 import { 
   getPhpWrapperPath, 
   overridePhpExecutablePath, 
@@ -19,37 +20,45 @@ import {
 /**
  * Registers PHP-related commands
  * @param context - The extension context
+ * @param landoCli - The Lando CLI service
  * @param workspaceFolder - The workspace folder path
  * @param landoConfig - The parsed Lando configuration
  * @param outputChannel - Output channel for logging
+ * @param getActiveTarget - Gets the active app's folder and configuration, which the commands act on when set
  */
 export function registerPhpCommands(
   context: vscode.ExtensionContext,
+  landoCli: LandoCli,
   workspaceFolder: string,
   landoConfig: LandoConfig,
-  outputChannel: vscode.OutputChannel
+  outputChannel: vscode.OutputChannel,
+  getActiveTarget?: () => { workspaceFolder: string; landoConfig: LandoConfig } | undefined
 ): void {
+  // Commands follow the active app, falling back to the app PHP was set up for
+  const getTarget = () => getActiveTarget?.() ?? { workspaceFolder, landoConfig };
+
   // Command to enable Lando PHP interpreter
   context.subscriptions.push(
     vscode.commands.registerCommand(
       "extension.enablePhpInterpreter",
       async () => {
+        const target = getTarget();
         const workingDir = vscode.workspace.getConfiguration("lando").get("appMount", "/app");
         const phpWrapperPath = getPhpWrapperPath(outputChannel);
         
         try {
-          await overridePhpExecutablePath(phpWrapperPath, landoConfig.phpContainer, workingDir, outputChannel);
+          await overridePhpExecutablePath(phpWrapperPath, target.landoConfig.phpContainer, workingDir, outputChannel);
 
           // Set environment variables for the extension process
           process.env.PHP_EXECUTABLE = phpWrapperPath;
-          process.env.VSCODE_LANDO_PHP_CONTAINER = landoConfig.phpContainer;
+          process.env.VSCODE_LANDO_PHP_CONTAINER = target.landoConfig.phpContainer;
           process.env.VSCODE_LANDO_EXEC_CWD = workingDir;
 
           vscode.window.showInformationMessage(
-            `Lando PHP interpreter enabled (${landoConfig.appName})`
+            `Lando PHP interpreter enabled (${target.landoConfig.appName})`
           );
           outputChannel.appendLine(`PHP wrapper enabled: ${phpWrapperPath}`);
-          outputChannel.appendLine(`Container: ${landoConfig.phpContainer}`);
+          outputChannel.appendLine(`Container: ${target.landoConfig.phpContainer}`);
           outputChannel.appendLine(`Working directory: ${workingDir}`);
         } catch (error) {
           vscode.window.showErrorMessage(
@@ -75,29 +84,30 @@ export function registerPhpCommands(
   // Command to set up PHP alias in terminal
   context.subscriptions.push(
     vscode.commands.registerCommand("extension.setPhpEnvironment", () => {
+      const target = getTarget();
       const workingDir = vscode.workspace.getConfiguration("lando").get("appMount", "/app");
       const terminal = vscode.window.activeTerminal;
       const phpWrapperPath = getPhpWrapperPath(outputChannel);
       
       if (terminal) {
-        terminal.sendText(`cd "${workspaceFolder}"`);
+        terminal.sendText(`cd "${target.workspaceFolder}"`);
         if (process.platform !== "win32") {
           terminal.sendText(
-            `alias php="VSCODE_LANDO_PHP_CONTAINER='${landoConfig.phpService}' VSCODE_LANDO_EXEC_CWD='${workingDir}' ${phpWrapperPath}"`
+            `alias php="VSCODE_LANDO_PHP_CONTAINER='${target.landoConfig.phpService}' VSCODE_LANDO_EXEC_CWD='${workingDir}' ${phpWrapperPath}"`
           );
           terminal.sendText(
-            `echo "PHP now uses: ${phpWrapperPath} with container ${landoConfig.phpService}"`
+            `echo "PHP now uses: ${phpWrapperPath} with container ${target.landoConfig.phpService}"`
           );
         } else {
-          terminal.sendText(`set VSCODE_LANDO_PHP_CONTAINER=${landoConfig.phpService}`);
+          terminal.sendText(`set VSCODE_LANDO_PHP_CONTAINER=${target.landoConfig.phpService}`);
           terminal.sendText(`set VSCODE_LANDO_EXEC_CWD=${workingDir}`);
           terminal.sendText(`doskey php=${phpWrapperPath} $*`);
           terminal.sendText(
-            `echo "PHP now uses: ${phpWrapperPath} with container ${landoConfig.phpService}"`
+            `echo "PHP now uses: ${phpWrapperPath} with container ${target.landoConfig.phpService}"`
           );
         }
         vscode.window.showInformationMessage(
-          `PHP alias set for ${landoConfig.phpContainer}`
+          `PHP alias set for ${target.landoConfig.phpContainer}`
         );
       } else {
         vscode.window.showWarningMessage("No active terminal found");
@@ -108,19 +118,21 @@ export function registerPhpCommands(
   // Command to check Lando status
   context.subscriptions.push(
     vscode.commands.registerCommand("extension.checkLandoStatus", async () => {
+      const target = getTarget();
       try {
         const isRunning = await checkLandoStatus(
-          workspaceFolder,
-          landoConfig.appName,
+          landoCli,
+          target.workspaceFolder,
+          target.landoConfig.appName,
           outputChannel
         );
         if (isRunning) {
           vscode.window.showInformationMessage(
-            `Lando is running (${landoConfig.appName})`
+            `Lando is running (${target.landoConfig.appName})`
           );
         } else {
           vscode.window.showWarningMessage(
-            `Lando is not running (${landoConfig.appName})`
+            `Lando is not running (${target.landoConfig.appName})`
           );
         }
       } catch (error: unknown) {
@@ -133,9 +145,10 @@ export function registerPhpCommands(
   // Command to refresh PHP configuration
   context.subscriptions.push(
     vscode.commands.registerCommand("extension.refreshPhpConfig", async () => {
+      const target = getTarget();
       const workingDir = vscode.workspace.getConfiguration("lando").get("appMount", "/app");
       const phpWrapperPath = getPhpWrapperPath(outputChannel);
-      await overridePhpExecutablePath(phpWrapperPath, landoConfig.phpContainer, workingDir, outputChannel);
+      await overridePhpExecutablePath(phpWrapperPath, target.landoConfig.phpContainer, workingDir, outputChannel);
       vscode.window.showInformationMessage("PHP configuration refreshed");
     })
   );
@@ -143,12 +156,13 @@ export function registerPhpCommands(
   // Command to test PHP wrapper
   context.subscriptions.push(
     vscode.commands.registerCommand("extension.testPhpWrapper", () => {
+      const target = getTarget();
       const workingDir = vscode.workspace.getConfiguration("lando").get("appMount", "/app");
       const phpWrapperPath = getPhpWrapperPath(outputChannel);
       const terminal = vscode.window.createTerminal("PHP Test");
-      terminal.sendText(`cd "${workspaceFolder}"`);
+      terminal.sendText(`cd "${target.workspaceFolder}"`);
       terminal.sendText(
-        `VSCODE_LANDO_PHP_CONTAINER="${landoConfig.phpContainer}" VSCODE_LANDO_EXEC_CWD="${workingDir}" "${phpWrapperPath}" --version`
+        `VSCODE_LANDO_PHP_CONTAINER="${target.landoConfig.phpContainer}" VSCODE_LANDO_EXEC_CWD="${workingDir}" "${phpWrapperPath}" --version`
       );
       terminal.show();
       vscode.window.showInformationMessage("Testing PHP wrapper in new terminal");
@@ -12,16 +12,19 @@
 import * as vscode from "vscode";
 import * as path from "path";
 import { LandoConfig, OriginalPhpSettings } from "../types";
-import { configureTerminalEnvironment, restoreTerminalEnvironment } from "./terminalEnv";
+import { configureTerminalEnvironment, restoreTerminalEnvironment, retargetTerminalEnvironment } from "./terminalEnv";
 
 // Re-export for convenience
 export { checkAndReloadPhpPlugins } from "./plugins";
 export { checkPhpPlugins, reloadPhpPlugins, COMMON_PHP_PLUGINS } from "./plugins";
-export { configureTerminalEnvironment, restoreTerminalEnvironment } from "./terminalEnv";
+export { configureTerminalEnvironment, restoreTerminalEnvironment, retargetTerminalEnvironment } from "./terminalEnv";
 
 /** Module-level storage for original PHP settings */
 let originalPhpSettings: OriginalPhpSettings | undefined;
 
+/** The app PHP commands are currently redirected to (set by Docker mode) */
+let phpTarget: { workspaceFolder: string; landoConfig: LandoConfig } | undefined;
+
 /**
 * Gets the path to the PHP wrapper script
  * @param outputChannel - Output channel for logging
@@ -139,9 +142,36 @@ export async function restoreOriginalPhpSettings(
     
     outputChannel.appendLine("Original PHP settings restored");
     originalPhpSettings = undefined;
+    phpTarget = undefined;
   }
 }
 
+/**
+ * Points PHP interception at another app's container, if interception is enabled
+ * @param workspaceFolder - The app's root path
+ * @param landoConfig - The app's Lando configuration
+ * @param outputChannel - Output channel for logging
+ * @returns True if interception was re-pointed
+ */
+export async function retargetPhpInterception(
+  workspaceFolder: string,
+  landoConfig: LandoConfig,
+  outputChannel: vscode.OutputChannel
+): Promise<boolean> {
+  if (!originalPhpSettings || phpTarget?.landoConfig.phpContainer === landoConfig.phpContainer) {
+    return false;
+  }
+  const workingDir = vscode.workspace.getConfiguration("lando").get("appMount", "/app");
+
+  phpTarget = { workspaceFolder, landoConfig };
+  process.env.VSCODE_LANDO_PHP_CONTAINER = landoConfig.phpContainer;
+  process.env.VSCODE_LANDO_EXEC_CWD = workingDir;
+  await retargetTerminalEnvironment(landoConfig, workingDir, outputChannel);
+
+  outputChannel.appendLine(`PHP interception now uses container: ${landoConfig.phpContainer}`);
+  return true;
+}
+
 /**
  * Sets up Docker mode with terminal and task integration
  * @param context - The extension context
@@ -162,6 +192,8 @@ export async function setupDockerMode(
   const workingDir = vscode.workspace.getConfiguration("lando").get("appMount", "/app");
   const phpWrapperPath = getPhpWrapperPath(outputChannel);
   
+  phpTarget = { workspaceFolder, landoConfig };
+
   // Automatically enable PHP interpreter
   await overridePhpExecutablePath(phpWrapperPath, landoConfig.phpContainer, workingDir, outputChannel);
 
@@ -185,16 +217,18 @@ export async function setupDockerMode(
   );
 
   // Hook into terminal creation to set up Docker PHP (for existing terminals and fallback)
+  // (uses the current target, which follows the active app)
   const terminalCreateListener = vscode.window.onDidOpenTerminal((terminal) => {
     // Give terminal a moment to initialize
     setTimeout(() => {
-      terminal.sendText(`cd "${workspaceFolder}"`);
+      const target = phpTarget ?? { workspaceFolder, landoConfig };
+      terminal.sendText(`cd "${target.workspaceFolder}"`);
       if (process.platform !== "win32") {
         terminal.sendText(
-          `alias php="VSCODE_LANDO_PHP_CONTAINER='${landoConfig.phpService}' VSCODE_LANDO_EXEC_CWD='${workingDir}' ${phpWrapperPath}"`
+          `alias php="VSCODE_LANDO_PHP_CONTAINER='${target.landoConfig.phpService}' VSCODE_LANDO_EXEC_CWD='${workingDir}' ${phpWrapperPath}"`
         );
       } else {
-        terminal.sendText(`set VSCODE_LANDO_PHP_CONTAINER=${landoConfig.phpService}`);
+        terminal.sendText(`set VSCODE_LANDO_PHP_CONTAINER=${target.landoConfig.phpService}`);
         terminal.sendText(`set VSCODE_LANDO_EXEC_CWD=${workingDir}`);
         terminal.sendText(`doskey php=${phpWrapperPath} $*`);
       }
@@ -81,6 +81,38 @@ export async function configureTerminalEnvironment(
   outputChannel.appendLine("Terminal environment configured for PHP interception");
 }
 
+/**
+ * Points the Lando environment variables set by configureTerminalEnvironment()
+ * at another container, leaving the stored original settings untouched.
+ * Terminals opened afterwards use the new container.
+ * 
+ * @param landoConfig - The parsed Lando configuration of the new app
+ * @param workingDir - The working directory inside the container
+ * @param outputChannel - Output channel for logging
+ */
+export async function retargetTerminalEnvironment(
+  landoConfig: LandoConfig,
+  workingDir: string,
+  outputChannel: vscode.OutputChannel
+): Promise<void> {
+  const terminalConfig = vscode.workspace.getConfiguration("terminal.integrated");
+  
+  for (const platform of ["linux", "osx", "windows"] as const) {
+    const envKey = `env.${platform}`;
+    const currentEnv = terminalConfig.get<Record<string, string | null>>(envKey) || {};
+    if (!("VSCODE_LANDO_PHP_CONTAINER" in currentEnv)) {
+      continue;
+    }
+    await terminalConfig.update(envKey, {
+      ...currentEnv,
+      VSCODE_LANDO_PHP_CONTAINER: landoConfig.phpContainer,
+      VSCODE_LANDO_EXEC_CWD: workingDir,
+    }, vscode.ConfigurationTarget.Workspace);
+  }
+  
+  outputChannel.appendLine(`Terminal environment now uses container: ${landoConfig.phpContainer}`);
+}
+
 /**
  * Restores the original terminal environment settings that were modified
  * by configureTerminalEnvironment()
@@ -0,0 +1,149 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { suite, test, setup, teardown } from "mocha";
+import * as vscode from "vscode";
+import { LandoContainer, LandoStatusMonitor, LandoAppState } from "./landoStatusMonitor";
+import { SharedStatusCache } from "./sharedStatusCache";
+
+const CONTAINERS: LandoContainer[] = [{ service: "appserver", app: "myapp", running: true }];
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+suite("SharedStatusCache Test Suite", () => {
+  let directory: string;
+  let caches: SharedStatusCache[];
+
+  function createCache(id: string, heartbeatInterval = 1000): SharedStatusCache {
+    const cache = new SharedStatusCache({ directory, id, heartbeatInterval, leaseTimeout: 3 * heartbeatInterval });
+    caches.push(cache);
+    return cache;
+  }
+
+  setup(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "lando-status-cache-"));
+    caches = [];
+  });
+
+  teardown(() => {
+    caches.forEach(cache => cache.dispose());
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("Should elect exactly one leader", async () => {
+    const first = createCache("first");
+    const second = createCache("second");
+
+    await first.start();
+    await second.start();
+
+    assert.strictEqual(first.isLeader(), true);
+    assert.strictEqual(second.isLeader(), false);
+  });
+
+  test("Should let followers read the leader's snapshot instead of fetching", async () => {
+    const leader = createCache("leader");
+    const follower = createCache("follower");
+    await leader.start();
+    await follower.start();
+    let followerFetches = 0;
+
+    await leader.fetch(async () => CONTAINERS, 10000);
+    const containers = await follower.fetch(async () => {
+      followerFetches++;
+      return [];
+    }, 10000);
+
+    assert.deepStrictEqual(containers, CONTAINERS);
+    assert.strictEqual(followerFetches, 0);
+    assert.strictEqual((await follower.readSnapshot())?.writerId, "leader");
+  });
+
+  test("Should fetch when the snapshot is too old or a fresh result is forced", async () => {
+    const leader = createCache("leader");
+    const follower = createCache("follower");
+    await leader.start();
+    await follower.start();
+    await leader.fetch(async () => CONTAINERS, 10000);
+    let followerFetches = 0;
+    const fetcher = async () => {
+      followerFetches++;
+      return [];
+    };
+
+    await sleep(20);
+    await follower.fetch(fetcher, 10);
+    await follower.fetch(fetcher, 10000, true);
+
+    assert.strictEqual(followerFetches, 2);
+    assert.strictEqual((await leader.readSnapshot())?.writerId, "follower");
+  });
+
+  test("Should fail over when the leader is disposed", async () => {
+    const leader = createCache("leader", 10);
+    const follower = createCache("follower", 10);
+    await leader.start();
+    await follower.start();
+    const changes: boolean[] = [];
+    follower.onDidChangeLeadership(isLeader => changes.push(isLeader));
+
+    leader.dispose();
+    await sleep(60);
+
+    assert.strictEqual(follower.isLeader(), true);
+    assert.deepStrictEqual(changes, [true]);
+  });
+
+  test("Should take over a lease that is no longer renewed", async () => {
+    fs.writeFileSync(
+      path.join(directory, "status-cache.lock"),
+      JSON.stringify({ id: "crashed", pid: process.pid, heartbeat: Date.now() - 60000 })
+    );
+    const cache = createCache("survivor");
+
+    await cache.start();
+
+    assert.strictEqual(cache.isLeader(), true);
+  });
+
+  test("Should keep fetching when the lock can't be removed", async () => {
+    // A directory can't be removed without `recursive`, like a file another process holds open on Windows
+    fs.mkdirSync(path.join(directory, "status-cache.lock", "busy"), { recursive: true });
+    const cache = createCache("blocked", 20);
+
+    await cache.start();
+    await sleep(60);
+    const containers = await cache.fetch(async () => CONTAINERS, 10000);
+
+    assert.strictEqual(cache.isLeader(), false);
+    assert.deepStrictEqual(containers, CONTAINERS);
+  });
+
+  test("Should make a status monitor's refresh ignore other windows' snapshots", async () => {
+    const leader = createCache("leader");
+    const follower = createCache("follower");
+    await leader.start();
+    await follower.start();
+    await leader.fetch(async () => [{ service: "appserver", app: "myapp", running: false }], 10000);
+    const monitor = new LandoStatusMonitor({ containerFetcher: async () => CONTAINERS, sharedCache: follower });
+    const app = {
+      name: "myapp",
+      cleanName: "myapp",
+      configPath: "/workspace/myapp/.lando.yml",
+      rootPath: "/workspace/myapp",
+      workspaceFolder: { uri: vscode.Uri.file("/workspace"), name: "workspace", index: 0 },
+    };
+
+    try {
+      monitor.setApps([app]);
+      await monitor.refresh();
+
+      assert.strictEqual(monitor.getState(app), LandoAppState.Running);
+    } finally {
+      monitor.dispose();
+    }
+  });
+});
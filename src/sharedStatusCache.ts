@@ -0,0 +1,360 @@
+/**
+ * Shared Status Cache Module
+ *
+ * This module lets several VS Code windows share one `lando list` poller.
+ * Windows coordinate through two files in the extension's global storage:
+ * a lock holding the leader's lease and a snapshot of the last container
+ * list. The leader polls and publishes snapshots; other windows read the
+ * snapshot while it is fresh enough and only run `lando list` themselves
+ * when it isn't. Leadership fails over when the leading window closes or
+ * stops renewing its lease.
+ *
+ * @module sharedStatusCache
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import * as vscode from 'vscode';
+import { LandoContainer } from './landoStatusMonitor';
+
+/**
+ * Name of the lock file holding the leader's lease
+ */
+const LOCK_FILE = 'status-cache.lock';
+
+/**
+ * Name of the snapshot file
+ */
+const SNAPSHOT_FILE = 'status-cache.json';
+
+/**
+ * Container list published by one of the windows
+ */
+export interface SharedStatusSnapshot {
+  /** The containers from `lando list` */
+  containers: LandoContainer[];
+  /** When the containers were listed (ms since epoch) */
+  timestamp: number;
+  /** Identifier of the window that published the snapshot */
+  writerId: string;
+}
+
+/**
+ * Lease held by the leading window
+ */
+interface LeaderLease {
+  /** Identifier of the leading window */
+  id: string;
+  /** Process ID of the leading window's extension host */
+  pid: number;
+  /** Last renewal (ms since epoch) */
+  heartbeat: number;
+}
+
+/**
+ * Options for creating a SharedStatusCache
+ */
+export interface SharedStatusCacheOptions {
+  /** Directory holding the lock and snapshot (usually the global storage path) */
+  directory: string;
+  /** Identifier for this window (generated when omitted) */
+  id?: string;
+  /** Milliseconds after which an unrenewed lease is considered abandoned */
+  leaseTimeout?: number;
+  /** Milliseconds between lease renewals (and leadership checks by followers) */
+  heartbeatInterval?: number;
+  /** Optional output channel for logging */
+  outputChannel?: vscode.OutputChannel;
+}
+
+/**
+ * Cross-window cache of `lando list` results with leader election.
+ *
+ * Features:
+ * - Elects one window as the poller through an exclusive lock file
+ * - Renews the leader's lease on a heartbeat; followers take over abandoned leases
+ * - Releases leadership on dispose so another window takes over immediately
+ * - Writes snapshots atomically so readers never see a partial file
+ *
+ * @example
+ * ```typescript
+ * const cache = new SharedStatusCache({ directory: context.globalStorageUri.fsPath });
+ * cache.start();
+ * const containers = await cache.fetch(() => landoList(), 10000);
+ * ```
+ */
+export class SharedStatusCache implements vscode.Disposable {
+  private readonly directory: string;
+  private readonly lockPath: string;
+  private readonly snapshotPath: string;
+  private readonly id: string;
+  private readonly leaseTimeout: number;
+  private readonly heartbeatInterval: number;
+  private readonly outputChannel: vscode.OutputChannel | undefined;
+  private leader = false;
+  private disposed = false;
+  private heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+  private started: Promise<void> | undefined;
+
+  private readonly _onDidChangeLeadership = new vscode.EventEmitter<boolean>();
+
+  /**
+   * Event fired when this window becomes or stops being the poller
+   */
+  public readonly onDidChangeLeadership = this._onDidChangeLeadership.event;
+
+  constructor(options: SharedStatusCacheOptions) {
+    this.directory = options.directory;
+    this.lockPath = path.join(options.directory, LOCK_FILE);
+    this.snapshotPath = path.join(options.directory, SNAPSHOT_FILE);
+    this.id = options.id ?? `${process.pid}-${crypto.randomBytes(4).toString('hex')}`;
+    this.leaseTimeout = options.leaseTimeout ?? 15000;
+    this.heartbeatInterval = options.heartbeatInterval ?? 5000;
+    this.outputChannel = options.outputChannel;
+  }
+
+  /**
+   * Joins the election and starts renewing (or watching) the lease
+   *
+   * @returns Promise that resolves once this window knows whether it leads
+   */
+  public start(): Promise<void> {
+    this.started ??= (async () => {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await this.tryAcquire();
+      if (!this.disposed) {
+        this.heartbeatTimer = setInterval(() => this.heartbeat(), this.heartbeatInterval);
+      }
+    })().catch(error => {
+      this.log(`Could not join status polling election: ${error}`);
+    });
+    return this.started;
+  }
+
+  /**
+   * Checks whether this window is the poller
+   */
+  public isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Gets containers, from the shared snapshot when another window polled
+   * recently, otherwise by running the fetcher and publishing the result
+   *
+   * @param fetcher - Lists the containers (e.g., runs `lando list`)
+   * @param maxAge - Oldest snapshot (in ms) a follower may use instead of fetching
+   * @param force - Always fetch, e.g., right after a lifecycle command
+   * @returns Promise resolving to the containers
+   */
+  public async fetch(
+    fetcher: () => Promise<LandoContainer[]>,
+    maxAge: number,
+    force = false
+  ): Promise<LandoContainer[]> {
+    await this.start();
+
+    if (!force && !this.leader) {
+      const snapshot = await this.readSnapshot();
+      if (snapshot && Date.now() - snapshot.timestamp <= maxAge) {
+        return snapshot.containers;
+      }
+      // The leader may be gone, or idle while this window needs fresh data
+      await this.tryAcquire();
+    }
+
+    const containers = await fetcher();
+    await this.publish(containers);
+    return containers;
+  }
+
+  /**
+   * Reads the latest snapshot
+   *
+   * @returns The snapshot, or undefined if none was written or it is unreadable
+   */
+  public async readSnapshot(): Promise<SharedStatusSnapshot | undefined> {
+    try {
+      const snapshot = JSON.parse(await fs.promises.readFile(this.snapshotPath, 'utf8')) as SharedStatusSnapshot;
+      return Array.isArray(snapshot.containers) && typeof snapshot.timestamp === 'number' ? snapshot : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Publishes a container list for the other windows
+   */
+  private async publish(containers: LandoContainer[]): Promise<void> {
+    const snapshot: SharedStatusSnapshot = { containers, timestamp: Date.now(), writerId: this.id };
+    try {
+      await this.writeAtomic(this.snapshotPath, snapshot);
+    } catch (error) {
+      this.log(`Could not write status snapshot: ${error}`);
+    }
+  }
+
+  /**
+   * Becomes the leader if no live window holds the lease
+   */
+  private async tryAcquire(): Promise<void> {
+    if (this.disposed) {
+      return;
+    }
+    if (await this.createLock()) {
+      return;
+    }
+
+    const lease = await this.readLease();
+    if (lease?.id === this.id) {
+      this.setLeader(true);
+      return;
+    }
+    if (lease && !this.isLeaseAbandoned(lease)) {
+      this.setLeader(false);
+      return;
+    }
+
+    // The lock is abandoned (or unreadable): remove it and race for a new one.
+    // If two windows race, the loser steps down on its next heartbeat.
+    this.log(lease ? `Taking over status polling from abandoned window ${lease.id}` : 'Replacing unreadable status lock');
+    try {
+      await fs.promises.rm(this.lockPath, { force: true });
+    } catch (error) {
+      // e.g., EBUSY on Windows while another window has the file open
+      this.log(`Could not remove status lock: ${error}`);
+      this.setLeader(false);
+      return;
+    }
+    if (!(await this.createLock())) {
+      this.setLeader(false);
+    }
+  }
+
+  /**
+   * Creates the lock file exclusively
+   *
+   * @returns True if this window created it and now leads
+   */
+  private async createLock(): Promise<boolean> {
+    try {
+      await fs.promises.writeFile(this.lockPath, JSON.stringify(this.createLease()), { flag: 'wx' });
+      this.setLeader(true);
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        this.log(`Could not create status lock: ${error}`);
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Renews the lease (leader) or checks whether it was abandoned (follower)
+   */
+  private async heartbeat(): Promise<void> {
+    if (!this.leader) {
+      await this.tryAcquire();
+      return;
+    }
+
+    const lease = await this.readLease();
+    if (lease && lease.id !== this.id) {
+      // Another window took over (e.g., after this one was suspended)
+      this.setLeader(false);
+      return;
+    }
+    try {
+      await this.writeAtomic(this.lockPath, this.createLease());
+    } catch (error) {
+      this.log(`Could not renew status lock: ${error}`);
+    }
+  }
+
+  /**
+   * Reads the current lease
+   */
+  private async readLease(): Promise<LeaderLease | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.lockPath, 'utf8')) as LeaderLease;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks whether a lease's holder stopped renewing it or has exited
+   */
+  private isLeaseAbandoned(lease: LeaderLease): boolean {
+    if (Date.now() - lease.heartbeat > this.leaseTimeout) {
+      return true;
+    }
+    try {
+      process.kill(lease.pid, 0);
+      return false;
+    } catch (error) {
+      // EPERM means the process exists but belongs to someone else
+      return (error as NodeJS.ErrnoException).code !== 'EPERM';
+    }
+  }
+
+  /**
+   * Creates a lease for this window
+   */
+  private createLease(): LeaderLease {
+    return { id: this.id, pid: process.pid, heartbeat: Date.now() };
+  }
+
+  /**
+   * Writes JSON to a temporary file and renames it into place
+   */
+  private async writeAtomic(filePath: string, data: object): Promise<void> {
+    const tempPath = `${filePath}.${this.id}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(data));
+    await fs.promises.rename(tempPath, filePath);
+  }
+
+  /**
+   * Updates leadership and fires the change event
+   */
+  private setLeader(leader: boolean): void {
+    if (this.leader === leader || this.disposed) {
+      return;
+    }
+    this.leader = leader;
+    this.log(leader ? 'This window now polls lando list for all windows' : 'Another window polls lando list; reading its snapshots');
+    this._onDidChangeLeadership.fire(leader);
+  }
+
+  /**
+   * Logs a message to the output channel
+   */
+  private log(message: string): void {
+    this.outputChannel?.appendLine(`[SharedStatusCache] ${message}`);
+  }
+
+  /**
+   * Stops renewing the lease and releases it so another window takes over
+   */
+  public dispose(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    if (this.leader) {
+      // Synchronous so the lock is gone before the extension host exits
+      try {
+        const lease = JSON.parse(fs.readFileSync(this.lockPath, 'utf8')) as LeaderLease;
+        if (lease.id === this.id) {
+          fs.rmSync(this.lockPath, { force: true });
+        }
+      } catch {
+        // Already gone
+      }
+    }
+    this.leader = false;
+    this.disposed = true;
+    this._onDidChangeLeadership.dispose();
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Test Fixtures Module
+ *
+ * Shared fixtures for the co-located unit tests: apps, configuration
+ * sections and stubs for VS Code API properties.
+ *
+ * @module test/fixtures
+ */
+
+import * as vscode from "vscode";
+import { LandoApp } from "../landoAppDetector";
+
+/**
+ * Creates a mock LandoApp for testing
+ *
+ * @param name - The app name; the app lives in /workspace/<name>
+ * @param overrides - Fields to set on the app (e.g., portforwards)
+ * @returns The app
+ */
+export function createMockApp(name: string, overrides: Partial<LandoApp> = {}): LandoApp {
+  return {
+    name,
+    cleanName: name.toLowerCase().replace(/[-_]/g, ""),
+    configPath: `/workspace/${name}/.lando.yml`,
+    rootPath: `/workspace/${name}`,
+    workspaceFolder: { uri: vscode.Uri.file("/workspace"), name: "workspace", index: 0 },
+    ...overrides,
+  };
+}
+
+/**
+ * Creates a mock configuration section for testing
+ *
+ * @param values - Setting values by key; other keys return their default
+ * @returns The configuration section
+ */
+export function createMockConfig(values: Record<string, unknown>): vscode.WorkspaceConfiguration {
+  return {
+    get: (key: string, defaultValue?: unknown) => (key in values ? values[key] : defaultValue),
+  } as vscode.WorkspaceConfiguration;
+}
+
+/**
+ * Replaces a property (including getters such as window.activeTerminal)
+ *
+ * @param target - The object owning the property (e.g., vscode.window)
+ * @param key - The property
+ * @param value - The replacement
+ * @returns Restores the original property
+ */
+export function stubProperty<T extends object, K extends keyof T>(target: T, key: K, value: T[K]): () => void {
+  const descriptor = Object.getOwnPropertyDescriptor(target, key);
+  Object.defineProperty(target, key, { value, configurable: true, writable: true });
+  return () => {
+    if (descriptor) {
+      Object.defineProperty(target, key, descriptor);
+    } else {
+      delete target[key];
+    }
+  };
+}
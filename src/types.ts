@@ -9,6 +9,15 @@
 import * as vscode from "vscode";
 import { LandoApp, LandoAppDetector } from "./landoAppDetector";
 import { LandoStatusMonitor } from "./landoStatusMonitor";
+import { LandoCli } from "./landoCli";
+import { LandoInfoStore } from "./landoInfoStore";
+import { LandoOperationQueue } from "./landoOperationQueue";
+import { LandoActivityHistory } from "./landoActivityHistory";
+import { LandoResourceSampler } from "./landoResourceSampler";
+import { LandoIdleMonitor } from "./landoIdleMonitor";
+import { LandoGlobalConfig } from "./landoGlobalConfig";
+import { LandoEditorFollower } from "./landoEditorFollower";
+import { LandoAppPreferenceStore, LandoAppPreferences, resolvePhpService } from "./landoAppPreferences";
 
 /**
  * Configuration extracted from a Lando app for backward compatibility
@@ -42,6 +51,50 @@ export interface LandoService {
   type: string;
 }
 
+/**
+ * Represents connection credentials for a database service
+ */
+export interface LandoConnectionCreds {
+  /** Database username */
+  user?: string;
+  /** Database password */
+  password?: string;
+  /** Database name */
+  database?: string;
+}
+
+/**
+ * Represents connection endpoint information
+ */
+export interface LandoConnectionEndpoint {
+  /** Hostname or IP address */
+  host?: string;
+  /** Port number - Lando returns this as a number */
+  port?: number;
+}
+
+/**
+ * Service entry returned by `lando info --format=json`
+ */
+export interface LandoServiceDetails {
+  /** The service name */
+  service: string;
+  /** The service type (e.g., 'php', 'mysql:8.0') */
+  type?: string;
+  /** URLs exposed by this service */
+  urls?: string[];
+  /** Database credentials (if applicable) */
+  creds?: LandoConnectionCreds;
+  /** Internal connection info (container-to-container) */
+  internal_connection?: LandoConnectionEndpoint;
+  /** External connection info (host machine access) */
+  external_connection?: LandoConnectionEndpoint;
+  /** Container hostnames */
+  hostnames?: string[];
+  /** Whether the service is running */
+  running?: boolean;
+}
+
 /**
  * Storage for original PHP settings to restore on deactivation
  */
@@ -81,13 +134,33 @@ export interface CommandDependencies {
   statusMonitor: LandoStatusMonitor;
   /** The Lando app detector instance */
   appDetector: LandoAppDetector;
+  /** The shared Lando CLI service */
+  landoCli: LandoCli;
+  /** The shared lando info store */
+  infoStore: LandoInfoStore;
+  /** The per-app lifecycle operation queue */
+  operationQueue: LandoOperationQueue;
+  /** The persisted per-app activity history */
+  activityHistory: LandoActivityHistory;
+  /** The container resource usage sampler */
+  resourceSampler: LandoResourceSampler;
+  /** Tracks app activity for idle auto-stop */
+  idleMonitor: LandoIdleMonitor;
+  /** The user's global Lando config */
+  globalConfig: LandoGlobalConfig;
+  /** Switches the active app to the focused editor's; pinned by explicit selection */
+  editorFollower: LandoEditorFollower;
+  /** The selected app and per-app preferences */
+  appPreferences: LandoAppPreferenceStore;
 }
 
 /**
  * Converts a LandoApp to LandoConfig for backward compatibility
+ * @param app - The app
+ * @param preferences - The app's preferences (a PHP service set there wins over `lando.php.service`)
  */
-export function convertAppToConfig(app: LandoApp): LandoConfig {
-  const phpService = vscode.workspace.getConfiguration("lando").get("php.service", "appserver");
+export function convertAppToConfig(app: LandoApp, preferences: LandoAppPreferences = {}): LandoConfig {
+  const phpService = resolvePhpService(preferences, vscode.workspace.getConfiguration("lando"));
   return {
     appName: app.name,
     cleanAppName: app.cleanName,